@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -9,6 +9,18 @@ import {
   TechnicalAnalysis, 
   CandlestickData as TACandle,
 } from '@/lib/technicalAnalysis';
+import { ImportedDatasetInfo, getStoredDatasets, loadDataset, toCandlestickData } from '@/lib/dataImport';
+import {
+  TIMEFRAMES,
+  TIMEFRAME_LABELS,
+  Timeframe,
+  US_EQUITY_SESSION,
+  alignToBase,
+  isIntradayTimeframe,
+  resampleCandles,
+  timeframeMinutes
+} from '@/lib/resampling';
+import { DataImportDialog } from './DataImportDialog';
 import { 
   BarChart3, 
   TrendingUp, 
@@ -33,11 +45,29 @@ import {
 
 interface ChartConfig {
   symbol: string;
-  timeframe: '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w';
+  timeframe: Timeframe;
   indicators: string[];
   chartType: 'candlestick' | 'line' | 'area';
 }
 
+const DATASET_PREFIX = 'dataset:';
+
+// Sample data shows the latest bars, with history before them for the higher-timeframe overlay to warm up
+const CHART_BARS = 100;
+const HIGHER_TIMEFRAME_SMA_PERIOD = 20;
+const SESSION_MINUTES = 390; // US equity session, 09:30-16:00
+
+// Sample bars the chart timeframe is resampled from. Intraday charts above 15 minutes are built from
+// 15-minute bars, weekly and monthly charts from daily bars.
+const generateSampleSource = (symbol: string, timeframe: Timeframe): TACandle[] => {
+  if (isIntradayTimeframe(timeframe)) {
+    const minutes = timeframeMinutes(timeframe);
+    const sessions = Math.max(25, Math.ceil(CHART_BARS / Math.ceil(SESSION_MINUTES / minutes)) + 1);
+    return TechnicalAnalysis.generateIntradaySampleData(symbol, sessions, Math.min(minutes, 15));
+  }
+  return TechnicalAnalysis.generateSampleData(symbol, timeframe === '1mo' ? 3100 : timeframe === '1w' ? 1000 : 730);
+};
+
 export const AdvancedChart: React.FC = () => {
   const [config, setConfig] = useState<ChartConfig>({
     symbol: 'AAPL',
@@ -46,7 +76,14 @@ export const AdvancedChart: React.FC = () => {
     chartType: 'line'
   });
 
-  const [marketData, setMarketData] = useState<TACandle[]>([]);
+  // Bars the chart is resampled from: generated samples or an imported daily dataset
+  const [source, setSource] = useState<{ bars: TACandle[]; timeframe: Timeframe; sample: boolean }>({
+    bars: [],
+    timeframe: '1d',
+    sample: true
+  });
+  const [higherTimeframe, setHigherTimeframe] = useState<Timeframe>('1w');
+  const [datasets, setDatasets] = useState<ImportedDatasetInfo[]>(() => getStoredDatasets());
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [activeIndicators, setActiveIndicators] = useState<{ [key: string]: boolean }>({
     'SMA-20': true,
@@ -58,7 +95,8 @@ export const AdvancedChart: React.FC = () => {
     'Volume': true,
     'VWAP': false,
     'Stochastic': false,
-    'ATR': false
+    'ATR': false,
+    'HTF-SMA': false
   });
 
   // Available technical indicators
@@ -69,6 +107,7 @@ export const AdvancedChart: React.FC = () => {
     { id: 'EMA-26', name: 'EMA (26)', type: 'overlay', color: '#9C27B0' },
     { id: 'Bollinger', name: 'Bollinger Bands', type: 'overlay', color: '#E91E63' },
     { id: 'VWAP', name: 'VWAP', type: 'overlay', color: '#795548' },
+    { id: 'HTF-SMA', name: `Higher Timeframe SMA (${HIGHER_TIMEFRAME_SMA_PERIOD})`, type: 'overlay', color: '#00BCD4' },
     { id: 'RSI', name: 'RSI (14)', type: 'oscillator', color: '#FF5722' },
     { id: 'MACD', name: 'MACD', type: 'oscillator', color: '#3F51B5' },
     { id: 'Stochastic', name: 'Stochastic', type: 'oscillator', color: '#009688' },
@@ -76,11 +115,64 @@ export const AdvancedChart: React.FC = () => {
     { id: 'Volume', name: 'Volume', type: 'volume', color: '#FFC107' }
   ];
 
+  // Imported datasets are selected as `dataset:<id>`; other symbols use generated sample data
+  const selectedDataset = config.symbol.startsWith(DATASET_PREFIX)
+    ? datasets.find(d => d.id === config.symbol.slice(DATASET_PREFIX.length))
+    : undefined;
+
   // Generate and load market data
   useEffect(() => {
-    const data = TechnicalAnalysis.generateSampleData(config.symbol, 100);
-    setMarketData(data);
-  }, [config.symbol]);
+    if (config.symbol.startsWith(DATASET_PREFIX)) {
+      const dataset = loadDataset(config.symbol.slice(DATASET_PREFIX.length));
+      // Imported datasets are daily, so they chart at 1d or longer
+      const timeframe = isIntradayTimeframe(config.timeframe) ? '1d' : config.timeframe;
+      setSource({ bars: dataset ? toCandlestickData(dataset.bars) : [], timeframe, sample: false });
+      return;
+    }
+    setSource({ bars: generateSampleSource(config.symbol, config.timeframe), timeframe: config.timeframe, sample: true });
+  }, [config.symbol, config.timeframe]);
+
+  const chart = useMemo(() => resampleCandles(source.bars, source.timeframe), [source]);
+  const visible = <T,>(values: T[]): T[] => (source.sample ? values.slice(-CHART_BARS) : values);
+  const marketData = visible(chart.candles);
+
+  // Overlay timeframes above the chart's. Intraday samples cover a few weeks, so they stop at 1d.
+  const higherTimeframes = TIMEFRAMES.filter(timeframe =>
+    timeframeMinutes(timeframe) > timeframeMinutes(source.timeframe) &&
+    (!isIntradayTimeframe(source.timeframe) || timeframeMinutes(timeframe) <= timeframeMinutes('1d'))
+  );
+  const overlayTimeframe = higherTimeframes.includes(higherTimeframe) ? higherTimeframe : higherTimeframes[0];
+
+  // The higher-timeframe SMA as known at the close of each chart bar: it is computed on the source bars
+  // resampled to the overlay timeframe and only moves when one of those bars completes
+  const higherTimeframeSma = useMemo(() => {
+    if (!activeIndicators['HTF-SMA'] || !overlayTimeframe || source.bars.length === 0) return [];
+    const { candles, completedAt } = resampleCandles(source.bars, overlayTimeframe);
+    const sma = new Map(TechnicalAnalysis.sma(candles, HIGHER_TIMEFRAME_SMA_PERIOD).map(point => [point.time, point.value]));
+    const aligned = alignToBase(candles.map(candle => sma.get(candle.time)), completedAt, source.bars.length);
+    return chart.completedAt.map(end => aligned[end]);
+  }, [activeIndicators, overlayTimeframe, source, chart]);
+
+  // Intraday bars are labelled with their time at the exchange
+  const formatBarDate = (date: string) => isIntradayTimeframe(source.timeframe)
+    ? new Date(date).toLocaleString([], { timeZone: US_EQUITY_SESSION.timeZone, month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : new Date(date).toLocaleDateString();
+
+  // Imported datasets only have daily bars
+  const selectSymbol = (symbol: string) => {
+    setConfig(prev => ({
+      ...prev,
+      symbol,
+      timeframe: symbol.startsWith(DATASET_PREFIX) && isIntradayTimeframe(prev.timeframe) ? '1d' : prev.timeframe
+    }));
+  };
+
+  const handleDatasetDeleted = (id: string) => {
+    setDatasets(getStoredDatasets());
+    if (config.symbol === `${DATASET_PREFIX}${id}`) {
+      setConfig(prev => ({ ...prev, symbol: 'AAPL' }));
+    }
+  };
 
   const toggleIndicator = (indicatorId: string) => {
     setActiveIndicators(prev => ({
@@ -159,6 +251,12 @@ export const AdvancedChart: React.FC = () => {
       });
     }
 
+    if (activeIndicators['HTF-SMA']) {
+      visible(higherTimeframeSma).forEach((value, i) => {
+        chartData[i].htfSma = value;
+      });
+    }
+
     if (activeIndicators['Bollinger']) {
       const bb = TechnicalAnalysis.bollingerBands(marketData, 20, 2);
       bb.upper.forEach((point, i) => {
@@ -255,9 +353,7 @@ export const AdvancedChart: React.FC = () => {
             <CardContent className="space-y-4">
               <div className="space-y-2">
                 <Label>Symbol</Label>
-                <Select value={config.symbol} onValueChange={(value) => 
-                  setConfig(prev => ({ ...prev, symbol: value }))
-                }>
+                <Select value={config.symbol} onValueChange={selectSymbol}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
@@ -268,26 +364,40 @@ export const AdvancedChart: React.FC = () => {
                     <SelectItem value="TSLA">Tesla (TSLA)</SelectItem>
                     <SelectItem value="NVDA">NVIDIA (NVDA)</SelectItem>
                     <SelectItem value="AMZN">Amazon (AMZN)</SelectItem>
+                    {datasets.map(dataset => (
+                      <SelectItem key={dataset.id} value={`${DATASET_PREFIX}${dataset.id}`}>
+                        {dataset.name} (Imported)
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                <DataImportDialog
+                  onImported={(dataset) => {
+                    setDatasets(getStoredDatasets());
+                    selectSymbol(`${DATASET_PREFIX}${dataset.id}`);
+                  }}
+                  onDeleted={handleDatasetDeleted}
+                />
               </div>
 
               <div className="space-y-2">
                 <Label>Timeframe</Label>
-                <Select value={config.timeframe} onValueChange={(value: any) => 
+                <Select value={config.timeframe} onValueChange={(value: Timeframe) => 
                   setConfig(prev => ({ ...prev, timeframe: value }))
                 }>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="1m">1 Minute</SelectItem>
-                    <SelectItem value="5m">5 Minutes</SelectItem>
-                    <SelectItem value="15m">15 Minutes</SelectItem>
-                    <SelectItem value="1h">1 Hour</SelectItem>
-                    <SelectItem value="4h">4 Hours</SelectItem>
-                    <SelectItem value="1d">1 Day</SelectItem>
-                    <SelectItem value="1w">1 Week</SelectItem>
+                    {TIMEFRAMES.map(timeframe => (
+                      <SelectItem
+                        key={timeframe}
+                        value={timeframe}
+                        disabled={!!selectedDataset && isIntradayTimeframe(timeframe)}
+                      >
+                        {TIMEFRAME_LABELS[timeframe]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -329,7 +439,7 @@ export const AdvancedChart: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {availableIndicators.filter(ind => ind.type === 'overlay').map(indicator => (
+                {availableIndicators.filter(ind => ind.type === 'overlay' && (ind.id !== 'HTF-SMA' || overlayTimeframe)).map(indicator => (
                   <div key={indicator.id} className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
                       <div 
@@ -344,6 +454,18 @@ export const AdvancedChart: React.FC = () => {
                     />
                   </div>
                 ))}
+                {activeIndicators['HTF-SMA'] && overlayTimeframe && (
+                  <Select value={overlayTimeframe} onValueChange={(value: Timeframe) => setHigherTimeframe(value)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {higherTimeframes.map(timeframe => (
+                        <SelectItem key={timeframe} value={timeframe}>{TIMEFRAME_LABELS[timeframe]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 
                 <div className="border-t pt-3 mt-3">
                   <Label className="text-xs font-semibold text-muted-foreground uppercase">Oscillators</Label>
@@ -421,7 +543,7 @@ export const AdvancedChart: React.FC = () => {
                 <div className="flex items-center justify-between">
                   <CardTitle className="flex items-center gap-2">
                     <TrendingUp className="h-4 w-4" />
-                    {config.symbol} - {config.timeframe} Price Chart
+                    {selectedDataset ? selectedDataset.name : config.symbol} - {config.timeframe} Price Chart
                   </CardTitle>
                   <div className="flex items-center gap-2">
                     <Button variant="ghost" size="sm" onClick={() => setIsFullscreen(!isFullscreen)}>
@@ -440,7 +562,7 @@ export const AdvancedChart: React.FC = () => {
                           dataKey="date" 
                           stroke="hsl(var(--muted-foreground))"
                           fontSize={12}
-                          tickFormatter={(date) => new Date(date).toLocaleDateString()}
+                          tickFormatter={formatBarDate}
                         />
                         <YAxis 
                           stroke="hsl(var(--muted-foreground))"
@@ -450,7 +572,7 @@ export const AdvancedChart: React.FC = () => {
                         />
                         <Tooltip
                           formatter={(value: number, name: string) => [formatPrice(value), name]}
-                          labelFormatter={(date: string) => new Date(date).toLocaleDateString()}
+                          labelFormatter={formatBarDate}
                           contentStyle={{
                             backgroundColor: 'hsl(var(--card))',
                             border: '1px solid hsl(var(--border))',
@@ -472,6 +594,9 @@ export const AdvancedChart: React.FC = () => {
                         {activeIndicators['VWAP'] && (
                           <Line type="monotone" dataKey="vwap" stroke="#795548" strokeWidth={2} dot={false} name="VWAP" />
                         )}
+                        {activeIndicators['HTF-SMA'] && overlayTimeframe && (
+                          <Line type="stepAfter" dataKey="htfSma" stroke="#00BCD4" strokeWidth={2} dot={false} name={`SMA ${HIGHER_TIMEFRAME_SMA_PERIOD} (${overlayTimeframe})`} />
+                        )}
                         {activeIndicators['Bollinger'] && (
                           <>
                             <Line type="monotone" dataKey="bbUpper" stroke="#E91E63" strokeWidth={1} dot={false} name="BB Upper" />
@@ -487,7 +612,7 @@ export const AdvancedChart: React.FC = () => {
                           dataKey="date" 
                           stroke="hsl(var(--muted-foreground))"
                           fontSize={12}
-                          tickFormatter={(date) => new Date(date).toLocaleDateString()}
+                          tickFormatter={formatBarDate}
                         />
                         <YAxis 
                           stroke="hsl(var(--muted-foreground))"
@@ -496,7 +621,7 @@ export const AdvancedChart: React.FC = () => {
                         />
                         <Tooltip
                           formatter={(value: number) => [formatPrice(value), 'Price']}
-                          labelFormatter={(date: string) => new Date(date).toLocaleDateString()}
+                          labelFormatter={formatBarDate}
                           contentStyle={{
                             backgroundColor: 'hsl(var(--card))',
                             border: '1px solid hsl(var(--border))',
@@ -553,7 +678,7 @@ export const AdvancedChart: React.FC = () => {
                           dataKey="date" 
                           stroke="hsl(var(--muted-foreground))"
                           fontSize={12}
-                          tickFormatter={(date) => new Date(date).toLocaleDateString()}
+                          tickFormatter={formatBarDate}
                         />
                         <YAxis 
                           stroke="hsl(var(--muted-foreground))"
@@ -562,7 +687,7 @@ export const AdvancedChart: React.FC = () => {
                         />
                         <Tooltip
                           formatter={(value: number) => [formatVolume(value), 'Volume']}
-                          labelFormatter={(date: string) => new Date(date).toLocaleDateString()}
+                          labelFormatter={formatBarDate}
                           contentStyle={{
                             backgroundColor: 'hsl(var(--card))',
                             border: '1px solid hsl(var(--border))',
@@ -595,7 +720,7 @@ export const AdvancedChart: React.FC = () => {
                           dataKey="date" 
                           stroke="hsl(var(--muted-foreground))"
                           fontSize={12}
-                          tickFormatter={(date) => new Date(date).toLocaleDateString()}
+                          tickFormatter={formatBarDate}
                         />
                         <YAxis 
                           stroke="hsl(var(--muted-foreground))"
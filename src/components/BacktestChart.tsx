@@ -15,10 +15,11 @@ import {
   ScatterChart,
   Scatter,
   AreaChart,
-  Area
+  Area,
+  Legend
 } from 'recharts';
 import { BacktestResult } from '@/lib/backtesting';
-import { TrendingUp, BarChart3, Activity, DollarSign } from 'lucide-react';
+import { TrendingUp, BarChart3, Activity, DollarSign, GitCompare } from 'lucide-react';
 
 interface BacktestChartProps {
   result: BacktestResult;
@@ -26,7 +27,7 @@ interface BacktestChartProps {
 }
 
 export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol }) => {
-  const [chartType, setChartType] = useState<'portfolio' | 'signals' | 'drawdown' | 'trades'>('portfolio');
+  const [chartType, setChartType] = useState<'portfolio' | 'signals' | 'drawdown' | 'trades' | 'relative'>('portfolio');
 
   const formatCurrency = (value: number) => {
     if (value >= 1000000) {
@@ -41,9 +42,15 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
   const formatDate = (dateStr: string) => new Date(dateStr).toLocaleDateString();
 
   // Prepare chart data
+  const benchmark = result.benchmark;
+  const benchmarkByDate = new Map(benchmark?.curve.map(point => [point.date, point.benchmark]));
+  const benchmarkName = benchmark ? `${benchmark.symbol} Buy & Hold` : '';
+  // A later run without a benchmark falls back to the portfolio chart
+  const activeChart = chartType === 'relative' && !benchmark ? 'portfolio' : chartType;
   const portfolioData = result.portfolioValues.map((pv, index) => ({
     date: pv.date,
     value: pv.value,
+    benchmark: benchmarkByDate.get(pv.date),
     drawdown: pv.drawdown * 100,
     index
   }));
@@ -83,7 +90,7 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
         <CardContent>
           <div className="flex flex-wrap gap-2">
             <Button
-              variant={chartType === 'portfolio' ? "default" : "outline"}
+              variant={activeChart === 'portfolio' ? "default" : "outline"}
               size="sm"
               onClick={() => setChartType('portfolio')}
             >
@@ -91,7 +98,7 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
               Portfolio Value
             </Button>
             <Button
-              variant={chartType === 'signals' ? "default" : "outline"}
+              variant={activeChart === 'signals' ? "default" : "outline"}
               size="sm"
               onClick={() => setChartType('signals')}
             >
@@ -99,7 +106,7 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
               Trading Signals
             </Button>
             <Button
-              variant={chartType === 'drawdown' ? "default" : "outline"}
+              variant={activeChart === 'drawdown' ? "default" : "outline"}
               size="sm"
               onClick={() => setChartType('drawdown')}
             >
@@ -107,13 +114,23 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
               Drawdown
             </Button>
             <Button
-              variant={chartType === 'trades' ? "default" : "outline"}
+              variant={activeChart === 'trades' ? "default" : "outline"}
               size="sm"
               onClick={() => setChartType('trades')}
             >
               <DollarSign className="h-4 w-4 mr-1" />
               Trade Points
             </Button>
+            {benchmark && (
+              <Button
+                variant={activeChart === 'relative' ? "default" : "outline"}
+                size="sm"
+                onClick={() => setChartType('relative')}
+              >
+                <GitCompare className="h-4 w-4 mr-1" />
+                Relative to {benchmark.symbol}
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -122,23 +139,25 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
       <Card>
         <CardHeader>
           <CardTitle>
-            {chartType === 'portfolio' && 'Portfolio Value Over Time'}
-            {chartType === 'signals' && 'Trading Signals'}
-            {chartType === 'drawdown' && 'Portfolio Drawdown'}
-            {chartType === 'trades' && 'Trade Execution Points'}
+            {activeChart === 'portfolio' && 'Portfolio Value Over Time'}
+            {activeChart === 'signals' && 'Trading Signals'}
+            {activeChart === 'drawdown' && 'Portfolio Drawdown'}
+            {activeChart === 'trades' && 'Trade Execution Points'}
+            {activeChart === 'relative' && 'Relative Performance'}
           </CardTitle>
           <CardDescription>
-            {chartType === 'portfolio' && `Portfolio performance for ${symbol}`}
-            {chartType === 'signals' && `Buy/Sell signals generated by strategy`}
-            {chartType === 'drawdown' && `Maximum drawdown periods`}
-            {chartType === 'trades' && `Actual trade entry and exit points`}
+            {activeChart === 'portfolio' && `Portfolio performance for ${symbol}${benchmark ? ` against ${benchmarkName.toLowerCase()}` : ''}`}
+            {activeChart === 'signals' && `Buy/Sell signals generated by strategy`}
+            {activeChart === 'drawdown' && `Maximum drawdown periods`}
+            {activeChart === 'trades' && `Actual trade entry and exit points`}
+            {activeChart === 'relative' && `Strategy equity divided by ${benchmark?.symbol} buy-and-hold equity; rising means outperforming`}
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="h-[500px]">
             <ResponsiveContainer width="100%" height="100%">
               <>
-                {chartType === 'portfolio' && (
+                {activeChart === 'portfolio' && (
                   <LineChart data={portfolioData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                     <XAxis 
@@ -151,7 +170,7 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
                       stroke="hsl(var(--muted-foreground))"
                     />
                     <Tooltip
-                      formatter={(value: number) => [formatCurrency(value), 'Portfolio Value']}
+                      formatter={(value: number, name: string) => [formatCurrency(value), name]}
                       labelFormatter={(date: string) => formatDate(date)}
                       contentStyle={{
                         backgroundColor: 'hsl(var(--card))',
@@ -175,10 +194,58 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
                       dot={false}
                       name="Portfolio Value"
                     />
+
+                    {benchmark && (
+                      <Line
+                        type="monotone"
+                        dataKey="benchmark"
+                        stroke="hsl(var(--muted-foreground))"
+                        strokeWidth={1.5}
+                        strokeDasharray="4 3"
+                        dot={false}
+                        name={benchmarkName}
+                      />
+                    )}
+                    {benchmark && <Legend />}
+                  </LineChart>
+                )}
+
+                {activeChart === 'relative' && benchmark && (
+                  <LineChart data={benchmark.curve}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis 
+                      dataKey="date" 
+                      tickFormatter={formatDate}
+                      stroke="hsl(var(--muted-foreground))"
+                    />
+                    <YAxis 
+                      tickFormatter={(value) => value.toFixed(2)}
+                      domain={['auto', 'auto']}
+                      stroke="hsl(var(--muted-foreground))"
+                    />
+                    <Tooltip
+                      formatter={(value: number) => [value.toFixed(3), 'Strategy / Benchmark']}
+                      labelFormatter={(date: string) => formatDate(date)}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '6px'
+                      }}
+                    />
+
+                    <ReferenceLine y={1} stroke="hsl(var(--muted-foreground))" strokeDasharray="5 5" />
+
+                    <Line
+                      type="monotone"
+                      dataKey="relative"
+                      stroke="hsl(var(--accent))"
+                      strokeWidth={2}
+                      dot={false}
+                    />
                   </LineChart>
                 )}
 
-                {chartType === 'signals' && (
+                {activeChart === 'signals' && (
                   <ScatterChart data={signalData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                     <XAxis 
@@ -215,7 +282,7 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
                   </ScatterChart>
                 )}
 
-                {chartType === 'drawdown' && (
+                {activeChart === 'drawdown' && (
                   <AreaChart data={portfolioData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                     <XAxis 
@@ -247,7 +314,7 @@ export const BacktestChart: React.FC<BacktestChartProps> = ({ result, symbol })
                   </AreaChart>
                 )}
 
-                {chartType === 'trades' && (
+                {activeChart === 'trades' && (
                   <ScatterChart data={signalData}>
                     <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                     <XAxis 
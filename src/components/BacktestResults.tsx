@@ -3,7 +3,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
-import { BacktestResult } from '@/lib/backtesting';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BacktestResult, TRADE_REASON_LABELS, TradeReason } from '@/lib/backtesting';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -12,8 +13,16 @@ import {
   AlertTriangle,
   BarChart3,
   Calculator,
-  Activity
+  Activity,
+  ListOrdered,
+  ShieldAlert,
+  GitCompare,
+  Receipt,
+  Coins
 } from 'lucide-react';
+import { COMMISSION_MODEL_LABELS, SLIPPAGE_MODEL_LABELS } from '@/lib/costModels';
+import { PRICE_ADJUSTMENT_DESCRIPTIONS, PRICE_ADJUSTMENT_LABELS } from '@/lib/corporateActions';
+import { BacktestRobustness } from './BacktestRobustness';
 
 interface BacktestResultsProps {
   result: BacktestResult;
@@ -50,6 +59,24 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({ result, initia
   const totalPnL = finalValue - initialCapital;
   const riskAssessment = getRiskLevel(result.performance.sharpeRatio);
   const drawdownAssessment = getDrawdownLevel(result.performance.maxDrawdown);
+  const { costs, costModel, corporateActions } = result;
+  const splitEvents = corporateActions.events.filter(event => event.type === 'split');
+  const dividendEvents = corporateActions.events.filter(event => event.type === 'dividend');
+  const grossPnL = totalPnL + costs.total;
+  const filledOrders = result.orders.filter(order => order.status === 'filled').length;
+  const partialOrders = result.orders.filter(order => order.filledQuantity > 0 && order.filledQuantity < order.quantity).length;
+
+  // Round trips grouped by what closed them, strategy signals first
+  const exitsByReason = Object.entries(
+    result.roundTrips.reduce((groups, trip) => {
+      const group = groups[trip.exitReason] ?? { count: 0, pnl: 0, wins: 0 };
+      group.count++;
+      group.pnl += trip.pnl;
+      if (trip.pnl > 0) group.wins++;
+      groups[trip.exitReason] = group;
+      return groups;
+    }, {} as Partial<Record<TradeReason, { count: number; pnl: number; wins: number }>>)
+  ).sort(([a], [b]) => (a === 'signal' ? -1 : b === 'signal' ? 1 : a.localeCompare(b)));
 
   return (
     <div className="space-y-6">
@@ -114,6 +141,143 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({ result, initia
         </Card>
       </div>
 
+      {/* Benchmark Comparison */}
+      {result.benchmark && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Relative to {result.benchmark.symbol}
+            </CardTitle>
+            <CardDescription>
+              Against buy-and-hold of {result.benchmark.symbol} ({result.benchmark.dataSource}) over {result.benchmark.observations} common
+              dates. Alpha is annualized against a 2% risk-free rate.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Benchmark Return', value: formatPercent(result.benchmark.totalReturn) },
+                { label: 'Excess Return', value: formatPercent(result.benchmark.excessReturn), sign: result.benchmark.excessReturn },
+                { label: 'Alpha (ann.)', value: formatPercent(result.benchmark.alpha), sign: result.benchmark.alpha },
+                { label: 'Beta', value: result.benchmark.beta.toFixed(2) },
+                { label: 'Information Ratio', value: result.benchmark.informationRatio.toFixed(2), sign: result.benchmark.informationRatio },
+                { label: 'Tracking Error', value: formatPercent(result.benchmark.trackingError) },
+                { label: 'Up Capture', value: formatPercent(result.benchmark.upCapture) },
+                { label: 'Down Capture', value: formatPercent(result.benchmark.downCapture) },
+              ].map(({ label, value, sign }) => (
+                <div key={label} className="space-y-1">
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                  <p className={`text-lg font-semibold ${sign === undefined ? '' : sign >= 0 ? 'text-success' : 'text-destructive'}`}>
+                    {value}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Trading Costs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Trading Costs
+          </CardTitle>
+          <CardDescription>
+            Every cost paid on fills, by component. Slippage is the fill price against the price before slippage;
+            gross P&L adds all of these back.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">Commission: {COMMISSION_MODEL_LABELS[costModel.commission.type]}</Badge>
+            <Badge variant="outline">Slippage: {SLIPPAGE_MODEL_LABELS[costModel.slippage.type]}</Badge>
+            {costModel.minimumCommission > 0 && <Badge variant="outline">Min {formatCurrency(costModel.minimumCommission)}</Badge>}
+            {costModel.maximumCommission > 0 && <Badge variant="outline">Max {formatCurrency(costModel.maximumCommission)}</Badge>}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Commission', value: formatCurrency(costs.commission) },
+              { label: 'Exchange Fees', value: formatCurrency(costs.exchangeFees) },
+              { label: 'Regulatory Fees', value: formatCurrency(costs.regulatoryFees) },
+              { label: 'Slippage', value: formatCurrency(costs.slippage) },
+              { label: 'Total Costs', value: formatCurrency(costs.total) },
+              { label: 'Gross P&L (before costs)', value: formatCurrency(grossPnL) },
+              { label: 'Costs / Gross P&L', value: grossPnL > 0 ? formatPercent(costs.total / grossPnL) : 'n/a' },
+              { label: 'Costs / Initial Capital', value: formatPercent(costs.total / initialCapital) },
+            ].map(({ label, value }) => (
+              <div key={label} className="space-y-1">
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className="text-lg font-semibold">{value}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Corporate Actions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Corporate Actions
+          </CardTitle>
+          <CardDescription>{PRICE_ADJUSTMENT_DESCRIPTIONS[corporateActions.adjustment]}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">Prices: {PRICE_ADJUSTMENT_LABELS[corporateActions.adjustment]}</Badge>
+            <Badge variant="outline">{splitEvents.length} split{splitEvents.length === 1 ? '' : 's'}</Badge>
+            <Badge variant="outline">{dividendEvents.length} dividend{dividendEvents.length === 1 ? '' : 's'}</Badge>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Dividends Received', value: formatCurrency(corporateActions.dividendsReceived) },
+              { label: 'Dividends Paid (Shorts)', value: formatCurrency(corporateActions.dividendsPaid) },
+              { label: 'Net Dividends', value: formatCurrency(corporateActions.dividendsReceived - corporateActions.dividendsPaid) },
+              { label: 'Cash in Lieu', value: formatCurrency(corporateActions.cashInLieu) },
+            ].map(({ label, value }) => (
+              <div key={label} className="space-y-1">
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className="text-lg font-semibold">{value}</p>
+              </div>
+            ))}
+          </div>
+          {corporateActions.events.length > 0 && (
+            <div className="max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead className="text-right">Shares Held</TableHead>
+                    <TableHead className="text-right">Cash</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {corporateActions.events.map((event, i) => (
+                    <TableRow key={`${event.date}-${event.type}-${i}`}>
+                      <TableCell className="font-mono text-xs">{event.date}</TableCell>
+                      <TableCell>
+                        {event.type === 'split'
+                          ? `${+event.value.toFixed(4)}-for-1 split`
+                          : `Dividend ${formatCurrency(event.value)}/share`}
+                      </TableCell>
+                      <TableCell className="text-right">{event.quantity}</TableCell>
+                      <TableCell className={`text-right ${event.cash < 0 ? 'text-destructive' : ''}`}>
+                        {event.cash !== 0 ? formatCurrency(event.cash) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Detailed Analysis */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Risk & Return Metrics */}
@@ -204,7 +368,7 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({ result, initia
               <div className="flex justify-between items-center p-3 bg-muted/50 rounded-lg">
                 <div>
                   <p className="text-sm font-medium">Total Trades</p>
-                  <p className="text-xs text-muted-foreground">Number of completed trades</p>
+                  <p className="text-xs text-muted-foreground">Completed round trips (entry and exit)</p>
                 </div>
                 <Badge variant="outline">{result.performance.totalTrades}</Badge>
               </div>
@@ -247,12 +411,136 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({ result, initia
                     {formatCurrency(result.performance.avgLosingTrade)}
                   </p>
                 </div>
+                <div className="p-2 border rounded text-center">
+                  <p className="text-xs text-muted-foreground">Max Consecutive Wins / Losses</p>
+                  <p className="text-sm font-bold">
+                    {result.performance.consecutiveWins} / {result.performance.consecutiveLosses}
+                  </p>
+                </div>
+                <div className="p-2 border rounded text-center">
+                  <p className="text-xs text-muted-foreground">Avg Holding Period</p>
+                  <p className="text-sm font-bold">{result.performance.avgHoldingPeriod.toFixed(1)} days</p>
+                </div>
               </div>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Round-Trip Trades */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            Round-Trip Trades
+          </CardTitle>
+          <CardDescription>
+            Entries paired with exits first-in, first-out. P&L is net of commissions and, for shorts, borrow fees. MAE and MFE are the worst and best price moves while each trade was open.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {result.roundTrips.length > 0 ? (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Exit</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Entry Price</TableHead>
+                    <TableHead className="text-right">Exit Price</TableHead>
+                    <TableHead className="text-right">P&L</TableHead>
+                    <TableHead className="text-right">Return</TableHead>
+                    <TableHead className="text-right">Days</TableHead>
+                    <TableHead className="text-right">MAE</TableHead>
+                    <TableHead className="text-right">MFE</TableHead>
+                    <TableHead>Exit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.roundTrips.map(trip => (
+                    <TableRow key={trip.id}>
+                      <TableCell className="text-xs">{trip.entryDate}</TableCell>
+                      <TableCell className="text-xs">{trip.exitDate}</TableCell>
+                      <TableCell>
+                        <Badge variant={trip.side === 'LONG' ? 'outline' : 'secondary'} className="text-xs">{trip.side}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-right">{trip.quantity}</TableCell>
+                      <TableCell className="text-xs text-right">{formatCurrency(trip.entryPrice)}</TableCell>
+                      <TableCell className="text-xs text-right">{formatCurrency(trip.exitPrice)}</TableCell>
+                      <TableCell className={`text-xs text-right font-medium ${trip.pnl > 0 ? 'text-success' : 'text-destructive'}`}>
+                        {formatCurrency(trip.pnl)}
+                      </TableCell>
+                      <TableCell className={`text-xs text-right ${trip.returnPct > 0 ? 'text-success' : 'text-destructive'}`}>
+                        {formatPercent(trip.returnPct)}
+                      </TableCell>
+                      <TableCell className="text-xs text-right">{trip.holdingPeriod}</TableCell>
+                      <TableCell className="text-xs text-right text-destructive">{formatPercent(trip.mae)}</TableCell>
+                      <TableCell className="text-xs text-right text-success">{formatPercent(trip.mfe)}</TableCell>
+                      <TableCell className="text-xs">
+                        {trip.exitReason === 'signal'
+                          ? TRADE_REASON_LABELS.signal
+                          : <Badge variant="outline" className="text-xs">{TRADE_REASON_LABELS[trip.exitReason]}</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">No trades were closed during the backtest.</p>
+          )}
+          {result.positions.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-3">
+              An open {result.positions[0].side.toLowerCase()} position of {Math.abs(result.positions[0].quantity)} shares at the end of the backtest is not included.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Exits by Rule */}
+      {exitsByReason.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Exits by Rule
+            </CardTitle>
+            <CardDescription>
+              Closed trades grouped by the strategy signal, risk rule or margin call that ended them.
+              {result.haltedAt && ` The drawdown circuit breaker stopped trading on ${result.haltedAt}.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Exit Rule</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead className="text-right">Total P&L</TableHead>
+                  <TableHead className="text-right">Avg P&L</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {exitsByReason.map(([reason, group]) => (
+                  <TableRow key={reason}>
+                    <TableCell className="text-sm">{TRADE_REASON_LABELS[reason as TradeReason]}</TableCell>
+                    <TableCell className="text-sm text-right">{group.count}</TableCell>
+                    <TableCell className="text-sm text-right">{formatPercent(group.wins / group.count)}</TableCell>
+                    <TableCell className={`text-sm text-right font-medium ${group.pnl > 0 ? 'text-success' : 'text-destructive'}`}>
+                      {formatCurrency(group.pnl)}
+                    </TableCell>
+                    <TableCell className="text-sm text-right">{formatCurrency(group.pnl / group.count)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Portfolio Summary */}
       <Card>
         <CardHeader>
@@ -283,6 +571,28 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({ result, initia
                     {totalPnL >= 0 ? '+' : ''}{formatCurrency(totalPnL)}
                   </span>
                 </div>
+                <div className="flex justify-between">
+                  <span>Max Leverage</span>
+                  <span className="font-medium">{(1 / result.margin.initialMargin).toFixed(2)}x</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Borrow Fees</span>
+                  <span className="font-medium text-destructive">{formatCurrency(-result.financing.borrowFees)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Cash Interest</span>
+                  <span className="font-medium text-success">{formatCurrency(result.financing.cashInterest)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Margin Interest</span>
+                  <span className="font-medium text-destructive">{formatCurrency(-result.financing.marginInterest)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Margin Calls</span>
+                  <span className={`font-medium ${result.financing.marginCalls > 0 ? 'text-destructive' : ''}`}>
+                    {result.financing.marginCalls}
+                  </span>
+                </div>
               </div>
             </div>
 
@@ -312,9 +622,31 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({ result, initia
                   <span className="font-medium">{result.signals.length}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span>Executed Trades</span>
+                  <span>Executed Fills</span>
+                  <span className="font-medium">{result.trades.length}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Orders Filled</span>
+                  <span className="font-medium">
+                    {filledOrders} / {result.orders.length}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Partially Filled</span>
+                  <span className="font-medium">{partialOrders}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Round Trips</span>
                   <span className="font-medium">{result.performance.totalTrades}</span>
                 </div>
+                <div className="flex justify-between">
+                  <span>Price Data</span>
+                  <span className="font-medium">{result.dataSource}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Random Seed</span>
+                  <span className="font-mono">{result.seed}</span>
+                </div>
                 <div className="flex justify-between">
                   <span>Signal Efficiency</span>
                   <span className="font-medium">
@@ -334,8 +666,8 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({ result, initia
               <span className={`font-semibold ${result.performance.totalReturn >= 0 ? 'text-success' : 'text-destructive'}`}>
                 {formatPercent(result.performance.totalReturn)}
               </span>{' '}
-              over {result.portfolioValues.length} trading days. The strategy executed{' '}
-              <span className="font-semibold">{result.performance.totalTrades} trades</span>{' '}
+              over {result.portfolioValues.length} trading days. The strategy completed{' '}
+              <span className="font-semibold">{result.performance.totalTrades} round-trip trades</span>{' '}
               with a win rate of{' '}
               <span className="font-semibold">{formatPercent(result.performance.winRate)}</span>.
             </p>
@@ -353,12 +685,16 @@ export const BacktestResults: React.FC<BacktestResultsProps> = ({ result, initia
               <p className="text-xs text-muted-foreground">
                 <strong>Disclaimer:</strong> Past performance does not guarantee future results. 
                 This backtest is based on historical data and does not account for changing market conditions, 
-                slippage variations, or execution difficulties that may occur in live trading.
+                slippage variations, or execution difficulties that may occur in live trading. Orders are filled from
+                daily OHLC bars, so the order of prices within a bar is assumed rather than known.
               </p>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      {/* Monte Carlo Robustness */}
+      <BacktestRobustness result={result} initialCapital={initialCapital} />
     </div>
   );
 };
\ No newline at end of file
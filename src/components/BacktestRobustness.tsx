@@ -0,0 +1,351 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Dices, Play, Loader2, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { BacktestResult } from '@/lib/backtesting';
+import {
+  DEFAULT_ROBUSTNESS_PARAMS,
+  DistributionSummary,
+  ROBUSTNESS_METHOD_LABELS,
+  RobustnessMethod,
+  RobustnessResult,
+  prepareRobustnessInput
+} from '@/lib/backtestRobustness';
+import { SimulationBands } from '@/lib/monteCarlo';
+import { runBacktestRobustnessParallel } from '@/lib/parallelSimulation';
+import { parseSeed } from '@/lib/random';
+import { isAbortError } from '@/lib/workerPool';
+
+interface BacktestRobustnessProps {
+  result: BacktestResult;
+  initialCapital: number;
+}
+
+// Fan chart rows: P5-P95 and P25-P75 ranges, the median and the backtest's own path
+const toFanData = (bands: SimulationBands, original: number[]) =>
+  bands.p50.map((median, step) => ({
+    step,
+    outerBand: [bands.p5[step], bands.p95[step]],
+    innerBand: [bands.p25[step], bands.p75[step]],
+    median,
+    original: original[step]
+  }));
+
+export const BacktestRobustness: React.FC<BacktestRobustnessProps> = ({ result, initialCapital }) => {
+  const { toast } = useToast();
+  const [method, setMethod] = useState<RobustnessMethod>(DEFAULT_ROBUSTNESS_PARAMS.method);
+  const [simulations, setSimulations] = useState(DEFAULT_ROBUSTNESS_PARAMS.simulations);
+  const [ruinDrawdown, setRuinDrawdown] = useState(DEFAULT_ROBUSTNESS_PARAMS.ruinDrawdown);
+  const [meanBlockLength, setMeanBlockLength] = useState(DEFAULT_ROBUSTNESS_PARAMS.meanBlockLength);
+  const [seed, setSeed] = useState<number | undefined>(undefined);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [robustness, setRobustness] = useState<RobustnessResult | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // A new backtest invalidates the previous analysis
+  useEffect(() => setRobustness(null), [result]);
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const formatCurrency = (value: number) => {
+    if (Math.abs(value) >= 1000000) return `$${(value / 1000000).toFixed(2)}M`;
+    if (Math.abs(value) >= 1000) return `$${(value / 1000).toFixed(1)}K`;
+    return `$${value.toFixed(0)}`;
+  };
+  const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+  const runAnalysis = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setProgress(0);
+    try {
+      const analysis = await runBacktestRobustnessParallel(
+        prepareRobustnessInput(result, initialCapital),
+        { method, simulations, ruinDrawdown, meanBlockLength, seed },
+        { onProgress: setProgress, signal: controller.signal }
+      );
+      setRobustness(analysis);
+      toast({
+        title: "Robustness Analysis Complete",
+        description: `${analysis.simulations.toLocaleString()} resampled paths (seed ${analysis.seed})`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Robustness Analysis Cancelled",
+          description: "The simulation was stopped",
+        });
+        return;
+      }
+      console.error('Robustness analysis error:', error);
+      toast({
+        title: "Robustness Analysis Failed",
+        description: error instanceof Error ? error.message : "An error occurred during the simulation.",
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const fanCharts = useMemo(() => {
+    if (!robustness) return null;
+    let peak = -Infinity;
+    const originalDrawdown = robustness.originalEquity.map(equity => {
+      peak = Math.max(peak, equity);
+      return peak > 0 ? (peak - equity) / peak : 0;
+    });
+    return {
+      equity: toFanData(robustness.equityBands, robustness.originalEquity),
+      drawdown: toFanData(robustness.drawdownBands, originalDrawdown)
+    };
+  }, [robustness]);
+
+  const stepLabel = robustness?.stepUnit === 'bar' ? 'bars' : 'trades';
+  const distributionRows: Array<{ label: string; original: number; summary: DistributionSummary; format: (value: number) => string }> =
+    robustness
+      ? [
+        { label: 'Final Equity', original: robustness.original.finalEquity, summary: robustness.finalEquity, format: formatCurrency },
+        { label: 'Max Drawdown', original: robustness.original.maxDrawdown, summary: robustness.maxDrawdown, format: formatPercent },
+        {
+          label: `Time to Recovery (${stepLabel})`,
+          original: robustness.original.recoveryTime,
+          summary: robustness.recoveryTime,
+          format: (value: number) => value.toFixed(0)
+        },
+      ]
+      : [];
+
+  const renderFan = (
+    data: ReturnType<typeof toFanData>,
+    format: (value: number) => string,
+    reversed: boolean
+  ) => (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis dataKey="step" tick={{ fontSize: 12 }} minTickGap={40} />
+          <YAxis tickFormatter={format} tick={{ fontSize: 12 }} domain={['auto', 'auto']} reversed={reversed} />
+          <Tooltip
+            formatter={(value: number | number[], name: string) => [
+              Array.isArray(value) ? `${format(value[0])} - ${format(value[1])}` : format(value),
+              name
+            ]}
+            labelFormatter={(step) => `${robustness?.stepUnit === 'bar' ? 'Bar' : 'Trade'} ${step}`}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px'
+            }}
+          />
+          <Area type="monotone" dataKey="outerBand" stroke="none" fill="hsl(var(--primary) / 0.15)" name="P5 - P95" />
+          <Area type="monotone" dataKey="innerBand" stroke="none" fill="hsl(var(--primary) / 0.3)" name="P25 - P75" />
+          <Line type="monotone" dataKey="median" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} name="Median" />
+          <Line
+            type="monotone"
+            dataKey="original"
+            stroke="hsl(var(--muted-foreground))"
+            strokeDasharray="5 5"
+            dot={false}
+            name="Backtest"
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Dices className="h-5 w-5" />
+          Monte Carlo Robustness
+        </CardTitle>
+        <CardDescription>
+          Replays the backtest's closed trades in random order or resamples them, or block-bootstraps its bar returns,
+          to show how much of the outcome is down to the order things happened in. Trade methods use closed round trips
+          only, so their final equity can differ from the backtest's.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as RobustnessMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ROBUSTNESS_METHOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="robustnessSimulations" className="text-xs">Simulations</Label>
+            <Input
+              id="robustnessSimulations"
+              type="number"
+              step="500"
+              min="1"
+              value={simulations}
+              onChange={(e) => setSimulations(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ruinDrawdown" className="text-xs">Ruin at Drawdown (%)</Label>
+            <Input
+              id="ruinDrawdown"
+              type="number"
+              step="5"
+              min="1"
+              max="100"
+              value={+(ruinDrawdown * 100).toFixed(2)}
+              onChange={(e) => setRuinDrawdown((parseFloat(e.target.value) || 0) / 100)}
+            />
+          </div>
+          {method === 'returnBootstrap' && (
+            <div className="space-y-1">
+              <Label htmlFor="meanBlockLength" className="text-xs">Mean Block Length (bars)</Label>
+              <Input
+                id="meanBlockLength"
+                type="number"
+                step="1"
+                min="1"
+                value={meanBlockLength}
+                onChange={(e) => setMeanBlockLength(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="robustnessSeed" className="text-xs">Random Seed</Label>
+            <Input
+              id="robustnessSeed"
+              type="number"
+              min="0"
+              placeholder={robustness ? `Last run: ${robustness.seed}` : 'Random each run'}
+              value={seed ?? ''}
+              onChange={(e) => setSeed(parseSeed(e.target.value))}
+              className="font-mono"
+            />
+          </div>
+        </div>
+
+        <Button onClick={runAnalysis} disabled={isRunning} className="w-full">
+          {isRunning ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Simulating...
+            </>
+          ) : (
+            <>
+              <Play className="h-4 w-4 mr-2" />
+              Run Robustness Analysis
+            </>
+          )}
+        </Button>
+
+        {isRunning && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>Resampling paths...</span>
+              <span>{Math.round(progress * 100)}%</span>
+            </div>
+            <Progress value={progress * 100} />
+            <Button variant="outline" size="sm" onClick={() => abortControllerRef.current?.abort()} className="w-full">
+              <XCircle className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {robustness && fanCharts && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{ROBUSTNESS_METHOD_LABELS[robustness.method]}</Badge>
+              <Badge variant="outline">{robustness.simulations.toLocaleString()} paths of {robustness.steps} {stepLabel}</Badge>
+              <Badge variant="outline" className="font-mono">Seed {robustness.seed}</Badge>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Probability of Ruin ({formatPercent(robustness.ruinDrawdown)} drawdown)</p>
+                <p className={`text-lg font-semibold ${robustness.probabilityOfRuin > 0.05 ? 'text-destructive' : 'text-success'}`}>
+                  {formatPercent(robustness.probabilityOfRuin)}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Final Equity, 90% Interval</p>
+                <p className="text-lg font-semibold">
+                  {formatCurrency(robustness.finalEquity.p5)} - {formatCurrency(robustness.finalEquity.p95)}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">95th Percentile Max Drawdown</p>
+                <p className="text-lg font-semibold text-destructive">{formatPercent(robustness.maxDrawdown.p95)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Backtest Drawdown Percentile</p>
+                <p className="text-lg font-semibold">
+                  {robustness.original.maxDrawdown <= robustness.maxDrawdown.p25 ? 'Below P25'
+                    : robustness.original.maxDrawdown <= robustness.maxDrawdown.p75 ? 'P25 - P75'
+                    : 'Above P75'}
+                </p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Metric</TableHead>
+                  <TableHead className="text-right">Backtest</TableHead>
+                  <TableHead className="text-right">P5</TableHead>
+                  <TableHead className="text-right">P25</TableHead>
+                  <TableHead className="text-right">Median</TableHead>
+                  <TableHead className="text-right">P75</TableHead>
+                  <TableHead className="text-right">P95</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {distributionRows.map(({ label, original, summary, format }) => (
+                  <TableRow key={label}>
+                    <TableCell className="font-medium">{label}</TableCell>
+                    <TableCell className="text-right">{format(original)}</TableCell>
+                    <TableCell className="text-right">{format(summary.p5)}</TableCell>
+                    <TableCell className="text-right">{format(summary.p25)}</TableCell>
+                    <TableCell className="text-right">{format(summary.p50)}</TableCell>
+                    <TableCell className="text-right">{format(summary.p75)}</TableCell>
+                    <TableCell className="text-right">{format(summary.p95)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Equity Fan</h4>
+                {renderFan(fanCharts.equity, formatCurrency, false)}
+              </div>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Drawdown Fan</h4>
+                {renderFan(fanCharts.drawdown, formatPercent, true)}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
@@ -15,7 +16,11 @@ import {
   Loader2,
   Settings,
   FileText,
-  Target
+  Target,
+  Database,
+  Scale,
+  ShieldAlert,
+  Receipt
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import {
@@ -26,17 +31,62 @@ import {
   createStrategy,
   TradingStrategy
 } from '@/lib/backtesting';
+import { DEFAULT_MARGIN_CONFIG, MarginConfig } from '@/lib/marginAccount';
+import { DEFAULT_EXECUTION_CONFIG } from '@/lib/orders';
+import { DEFAULT_RISK_RULES, RiskRules, hasActiveRiskRules } from '@/lib/riskOverlay';
+import { parseSeed } from '@/lib/random';
+import {
+  COMMISSION_MODEL_LABELS,
+  CommissionModel,
+  CostModelConfig,
+  DEFAULT_COMMISSION_TIERS,
+  NO_TRADING_FEES,
+  SLIPPAGE_MODEL_LABELS,
+  SlippageModel,
+  US_REGULATORY_FEES
+} from '@/lib/costModels';
+import {
+  HistoricalDataSource,
+  HistoricalDataProvider,
+  HISTORICAL_DATA_SOURCE_LABELS,
+  ImportedDataProvider,
+  getHistoricalDataProvider,
+  getFixtureSymbols
+} from '@/lib/historicalData';
+import { ImportedDatasetInfo, getStoredDatasets, loadDataset } from '@/lib/dataImport';
+import { PRICE_ADJUSTMENT_DESCRIPTIONS, PRICE_ADJUSTMENT_LABELS, PriceAdjustment } from '@/lib/corporateActions';
+// Registers saved code strategies with the strategy factory
+import '@/lib/codeStrategy';
 import { BacktestChart } from './BacktestChart';
 import { BacktestResults } from './BacktestResults';
 import { StrategyBuilder } from './StrategyBuilder';
+import { DataImportDialog } from './DataImportDialog';
+import { PortfolioBacktest } from './PortfolioBacktest';
+import { StrategyOptimizer } from './StrategyOptimizer';
 
 export const BacktestingSimulator: React.FC = () => {
   const [symbol, setSymbol] = useState('AAPL');
+  const [benchmarkSymbol, setBenchmarkSymbol] = useState('SPY'); // Blank for no benchmark
   const [startDate, setStartDate] = useState('2023-01-01');
   const [endDate, setEndDate] = useState('2024-01-01');
   const [initialCapital, setInitialCapital] = useState(100000);
   const [commission, setCommission] = useState(1);
   const [slippage, setSlippage] = useState(0.001);
+  // Flat commission and fixed slippage use the two inputs above; the other models have their own parameters
+  const [commissionType, setCommissionType] = useState<CommissionModel['type']>('flat');
+  const [commissionRates, setCommissionRates] = useState({ perShare: 0.005, percent: 0.0005 });
+  const [commissionLimits, setCommissionLimits] = useState({ minimum: 0, maximum: 0 });
+  const [regulatoryFees, setRegulatoryFees] = useState(false);
+  const [slippageType, setSlippageType] = useState<SlippageModel['type']>('fixed');
+  const [slippageParams, setSlippageParams] = useState({ spreadBps: 5, atrFraction: 0.1, atrPeriod: 14, coefficient: 0.5, lookback: 20 });
+  const [priceAdjustment, setPriceAdjustment] = useState<PriceAdjustment>('raw');
+  const [seed, setSeed] = useState<number | undefined>(undefined);
+  const [margin, setMargin] = useState<MarginConfig>(DEFAULT_MARGIN_CONFIG);
+  const [maxVolumeParticipation, setMaxVolumeParticipation] = useState(DEFAULT_EXECUTION_CONFIG.maxVolumeParticipation);
+  const [riskRules, setRiskRules] = useState<RiskRules>(DEFAULT_RISK_RULES);
+  const [dataSource, setDataSource] = useState<HistoricalDataSource>('yahoo');
+  const [datasets, setDatasets] = useState<ImportedDatasetInfo[]>(() => getStoredDatasets());
+  const [datasetId, setDatasetId] = useState<string>('');
   const [selectedStrategy, setSelectedStrategy] = useState<string>('Moving Average Crossover');
   const [strategyParams, setStrategyParams] = useState<any>({});
   const [isRunning, setIsRunning] = useState(false);
@@ -45,6 +95,82 @@ export const BacktestingSimulator: React.FC = () => {
   const { toast } = useToast();
   const engine = new BacktestEngine();
   const availableStrategies = getAvailableStrategies();
+  const fixtureSymbols = getFixtureSymbols();
+
+  const changeDataSource = (source: HistoricalDataSource) => {
+    setDataSource(source);
+    if (source === 'fixture' && !fixtureSymbols.includes(symbol)) {
+      setSymbol(fixtureSymbols[0] ?? symbol);
+    }
+    if (source === 'fixture' && !fixtureSymbols.includes(benchmarkSymbol)) {
+      setBenchmarkSymbol('');
+    }
+  };
+
+  // Backtest the imported series over its full range by default
+  const selectDataset = (dataset: ImportedDatasetInfo) => {
+    setDatasetId(dataset.id);
+    if (dataset.symbol) setSymbol(dataset.symbol);
+    setStartDate(dataset.startDate);
+    setEndDate(dataset.endDate);
+  };
+
+  const handleDatasetImported = (dataset: ImportedDatasetInfo) => {
+    setDatasets(getStoredDatasets());
+    setDataSource('imported');
+    selectDataset(dataset);
+  };
+
+  const handleDatasetDeleted = (id: string) => {
+    setDatasets(getStoredDatasets());
+    if (id === datasetId) setDatasetId('');
+  };
+
+  const resolveDataProvider = (): HistoricalDataProvider => {
+    if (dataSource === 'imported') {
+      const dataset = datasetId ? loadDataset(datasetId) : null;
+      if (!dataset) throw new Error('Select an imported dataset or import one first');
+      return new ImportedDataProvider(dataset);
+    }
+    return getHistoricalDataProvider(dataSource);
+  };
+
+  // An imported dataset holds a single series, so its benchmark comes from Yahoo Finance
+  const resolveBenchmark = (): BacktestParams['benchmark'] => {
+    if (!benchmarkSymbol.trim()) return undefined;
+    return {
+      symbol: benchmarkSymbol,
+      dataProvider: dataSource === 'imported' ? getHistoricalDataProvider('yahoo') : undefined
+    };
+  };
+
+  const resolveCosts = (): CostModelConfig => {
+    const commissionModel: CommissionModel =
+      commissionType === 'perShare' ? { type: 'perShare', perShare: commissionRates.perShare }
+      : commissionType === 'percent' ? { type: 'percent', rate: commissionRates.percent }
+      : commissionType === 'tiered' ? { type: 'tiered', tiers: DEFAULT_COMMISSION_TIERS }
+      : { type: 'flat', amount: commission };
+    const slippageModel: SlippageModel =
+      slippageType === 'spread' ? { type: 'spread', spreadBps: slippageParams.spreadBps }
+      : slippageType === 'volatility' ? { type: 'volatility', atrFraction: slippageParams.atrFraction, atrPeriod: slippageParams.atrPeriod }
+      : slippageType === 'marketImpact' ? { type: 'marketImpact', coefficient: slippageParams.coefficient, lookback: slippageParams.lookback }
+      : { type: 'fixed', rate: slippage };
+    return {
+      commission: commissionModel,
+      minimumCommission: commissionLimits.minimum,
+      maximumCommission: commissionLimits.maximum,
+      fees: regulatoryFees ? US_REGULATORY_FEES : NO_TRADING_FEES,
+      slippage: slippageModel
+    };
+  };
+
+  // An imported dataset holds a single series, so portfolio runs need a per-symbol source
+  const resolvePortfolioDataProvider = (): HistoricalDataProvider => {
+    if (dataSource === 'imported') {
+      throw new Error('Portfolio backtests need Yahoo Finance, sample or synthetic price data');
+    }
+    return getHistoricalDataProvider(dataSource);
+  };
 
   const runBacktest = async () => {
     if (!symbol.trim()) {
@@ -70,7 +196,15 @@ export const BacktestingSimulator: React.FC = () => {
         initialCapital,
         commission,
         slippage,
-        strategy
+        costs: resolveCosts(),
+        priceAdjustment,
+        strategy,
+        seed,
+        dataProvider: resolveDataProvider(),
+        margin,
+        execution: { maxVolumeParticipation },
+        riskRules,
+        benchmark: resolveBenchmark()
       };
 
       const backtestResult = await engine.runBacktest(params);
@@ -84,7 +218,7 @@ export const BacktestingSimulator: React.FC = () => {
       console.error('Backtest error:', error);
       toast({
         title: "Backtest Failed",
-        description: "An error occurred during backtesting. Please try again.",
+        description: error instanceof Error ? error.message : "An error occurred during backtesting. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -101,6 +235,35 @@ export const BacktestingSimulator: React.FC = () => {
 
   const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
 
+  // Margin inputs are entered as percentages
+  const updateMargin = (key: keyof MarginConfig, percent: string) => {
+    setMargin(prev => ({ ...prev, [key]: (parseFloat(percent) || 0) / 100 }));
+  };
+
+  // Percentage rules are entered as percentages, the rest (ATR multiple, periods, bars) as plain numbers
+  const updateRiskRule = (key: keyof RiskRules, text: string, percent: boolean) => {
+    const value = parseFloat(text) || 0;
+    setRiskRules(prev => ({ ...prev, [key]: percent ? value / 100 : value }));
+  };
+
+  const riskRuleFields: Array<{ key: keyof RiskRules; label: string; percent: boolean }> = [
+    { key: 'stopLossPercent', label: 'Stop Loss (%)', percent: true },
+    { key: 'takeProfitPercent', label: 'Take Profit (%)', percent: true },
+    { key: 'atrStopMultiple', label: 'ATR Stop (x ATR)', percent: false },
+    { key: 'atrPeriod', label: 'ATR Period', percent: false },
+    { key: 'maxHoldingBars', label: 'Time Stop (bars)', percent: false },
+    { key: 'dailyLossLimit', label: 'Daily Loss Limit (%)', percent: true },
+    { key: 'maxDrawdown', label: 'Max Drawdown (%)', percent: true },
+  ];
+
+  const marginFields: Array<{ key: keyof MarginConfig; label: string }> = [
+    { key: 'initialMargin', label: 'Initial Margin (%)' },
+    { key: 'maintenanceMargin', label: 'Maintenance (%)' },
+    { key: 'borrowFeeRate', label: 'Borrow Fee (%/yr)' },
+    { key: 'cashInterestRate', label: 'Cash Interest (%/yr)' },
+    { key: 'marginInterestRate', label: 'Margin Interest (%/yr)' },
+  ];
+
   const currentStrategy = availableStrategies.find(s => s.name === selectedStrategy);
 
   return (
@@ -117,10 +280,12 @@ export const BacktestingSimulator: React.FC = () => {
         </div>
 
         <Tabs defaultValue="setup" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="setup">Strategy Setup</TabsTrigger>
             <TabsTrigger value="results">Backtest Results</TabsTrigger>
             <TabsTrigger value="analysis">Performance Analysis</TabsTrigger>
+            <TabsTrigger value="optimize">Optimize</TabsTrigger>
+            <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
             <TabsTrigger value="builder">Strategy Builder</TabsTrigger>
           </TabsList>
 
@@ -135,14 +300,108 @@ export const BacktestingSimulator: React.FC = () => {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dataSource" className="flex items-center gap-2">
+                      <Database className="h-4 w-4" />
+                      Price Data
+                    </Label>
+                    <Select value={dataSource} onValueChange={(value: HistoricalDataSource) => changeDataSource(value)}>
+                      <SelectTrigger id="dataSource">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(HISTORICAL_DATA_SOURCE_LABELS) as HistoricalDataSource[]).map(source => (
+                          <SelectItem key={source} value={source}>{HISTORICAL_DATA_SOURCE_LABELS[source]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {dataSource === 'fixture' && (
+                      <p className="text-xs text-muted-foreground">
+                        Generated sample series bundled with the app for offline use (not real market data).
+                      </p>
+                    )}
+                    {dataSource === 'synthetic' && (
+                      <p className="text-xs text-muted-foreground">
+                        Seeded random walk starting at 100; the symbol is ignored.
+                      </p>
+                    )}
+                  </div>
+
+                  {dataSource === 'imported' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="dataset">Dataset</Label>
+                      <div className="flex gap-2">
+                        <Select
+                          value={datasetId}
+                          onValueChange={(id) => {
+                            const dataset = datasets.find(d => d.id === id);
+                            if (dataset) selectDataset(dataset);
+                          }}
+                        >
+                          <SelectTrigger id="dataset" className="flex-1">
+                            <SelectValue placeholder={datasets.length > 0 ? 'Select a dataset' : 'No datasets imported'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {datasets.map(dataset => (
+                              <SelectItem key={dataset.id} value={dataset.id}>
+                                {dataset.name} ({dataset.barCount} bars)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <DataImportDialog onImported={handleDatasetImported} onDeleted={handleDatasetDeleted} />
+                      </div>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label htmlFor="symbol">Symbol</Label>
-                    <Input
-                      id="symbol"
-                      placeholder="AAPL"
-                      value={symbol}
-                      onChange={(e) => setSymbol(e.target.value.toUpperCase())}
-                    />
+                    {dataSource === 'fixture' ? (
+                      <Select value={symbol} onValueChange={setSymbol}>
+                        <SelectTrigger id="symbol">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fixtureSymbols.map(fixture => (
+                            <SelectItem key={fixture} value={fixture}>{fixture}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        id="symbol"
+                        placeholder="AAPL"
+                        value={symbol}
+                        onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+                      />
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="benchmarkSymbol">Benchmark (buy and hold)</Label>
+                    {dataSource === 'fixture' ? (
+                      <Select value={benchmarkSymbol || 'none'} onValueChange={(value) => setBenchmarkSymbol(value === 'none' ? '' : value)}>
+                        <SelectTrigger id="benchmarkSymbol">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          {fixtureSymbols.map(fixture => (
+                            <SelectItem key={fixture} value={fixture}>{fixture}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        id="benchmarkSymbol"
+                        placeholder="None"
+                        value={benchmarkSymbol}
+                        onChange={(e) => setBenchmarkSymbol(e.target.value.toUpperCase())}
+                      />
+                    )}
+                    {dataSource === 'imported' && benchmarkSymbol && (
+                      <p className="text-xs text-muted-foreground">Benchmark prices come from Yahoo Finance.</p>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-2 gap-3">
@@ -166,6 +425,21 @@ export const BacktestingSimulator: React.FC = () => {
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="priceAdjustment">Price Adjustment</Label>
+                    <Select value={priceAdjustment} onValueChange={(value: PriceAdjustment) => setPriceAdjustment(value)}>
+                      <SelectTrigger id="priceAdjustment">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PRICE_ADJUSTMENT_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">{PRICE_ADJUSTMENT_DESCRIPTIONS[priceAdjustment]}</p>
+                  </div>
+
                   <div className="space-y-2">
                     <Label htmlFor="initialCapital">Initial Capital</Label>
                     <Input
@@ -176,27 +450,224 @@ export const BacktestingSimulator: React.FC = () => {
                     />
                   </div>
 
-                  <div className="grid grid-cols-2 gap-3">
-                    <div className="space-y-2">
-                      <Label htmlFor="commission">Commission ($)</Label>
-                      <Input
-                        id="commission"
-                        type="number"
-                        step="0.01"
-                        value={commission}
-                        onChange={(e) => setCommission(parseFloat(e.target.value) || 0)}
-                      />
+                  <div className="space-y-2">
+                    <Label htmlFor="volumeParticipation">Max Volume Participation (%)</Label>
+                    <Input
+                      id="volumeParticipation"
+                      type="number"
+                      step="1"
+                      min="0.01"
+                      max="100"
+                      value={+(maxVolumeParticipation * 100).toFixed(4)}
+                      onChange={(e) => setMaxVolumeParticipation((parseFloat(e.target.value) || 0) / 100)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Orders fill on the bar after the signal; larger orders fill partially across bars.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="seed">Random Seed</Label>
+                    <Input
+                      id="seed"
+                      type="number"
+                      min="0"
+                      placeholder={result ? `Last run: ${result.seed}` : 'Random each run'}
+                      value={seed ?? ''}
+                      onChange={(e) => setSeed(parseSeed(e.target.value))}
+                      className="font-mono"
+                    />
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-3">
+                    <Label className="flex items-center gap-2">
+                      <Receipt className="h-4 w-4" />
+                      Trading Costs
+                    </Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Commission Model</Label>
+                        <Select value={commissionType} onValueChange={(value) => setCommissionType(value as CommissionModel['type'])}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(COMMISSION_MODEL_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {commissionType === 'flat' && (
+                        <div className="space-y-1">
+                          <Label htmlFor="commission" className="text-xs">Commission ($)</Label>
+                          <Input
+                            id="commission"
+                            type="number"
+                            step="0.01"
+                            value={commission}
+                            onChange={(e) => setCommission(parseFloat(e.target.value) || 0)}
+                          />
+                        </div>
+                      )}
+                      {commissionType === 'perShare' && (
+                        <div className="space-y-1">
+                          <Label htmlFor="perShareCommission" className="text-xs">Per Share ($)</Label>
+                          <Input
+                            id="perShareCommission"
+                            type="number"
+                            step="0.001"
+                            min="0"
+                            value={commissionRates.perShare}
+                            onChange={(e) => setCommissionRates(prev => ({ ...prev, perShare: parseFloat(e.target.value) || 0 }))}
+                          />
+                        </div>
+                      )}
+                      {commissionType === 'percent' && (
+                        <div className="space-y-1">
+                          <Label htmlFor="percentCommission" className="text-xs">Notional (%)</Label>
+                          <Input
+                            id="percentCommission"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={+(commissionRates.percent * 100).toFixed(4)}
+                            onChange={(e) => setCommissionRates(prev => ({ ...prev, percent: (parseFloat(e.target.value) || 0) / 100 }))}
+                          />
+                        </div>
+                      )}
+                      {commissionType === 'tiered' && (
+                        <p className="text-xs text-muted-foreground self-end">
+                          {DEFAULT_COMMISSION_TIERS.map(tier => `$${tier.perShare}${tier.upTo ? ` to ${tier.upTo.toLocaleString()}` : ' above'}`).join(', ')} shares per month
+                        </p>
+                      )}
+                      <div className="space-y-1">
+                        <Label htmlFor="minimumCommission" className="text-xs">Min per Fill ($)</Label>
+                        <Input
+                          id="minimumCommission"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={commissionLimits.minimum}
+                          onChange={(e) => setCommissionLimits(prev => ({ ...prev, minimum: parseFloat(e.target.value) || 0 }))}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="maximumCommission" className="text-xs">Max per Fill ($, 0 = none)</Label>
+                        <Input
+                          id="maximumCommission"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={commissionLimits.maximum}
+                          onChange={(e) => setCommissionLimits(prev => ({ ...prev, maximum: parseFloat(e.target.value) || 0 }))}
+                        />
+                      </div>
                     </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="slippage">Slippage (%)</Label>
-                      <Input
-                        id="slippage"
-                        type="number"
-                        step="0.001"
-                        value={slippage * 100}
-                        onChange={(e) => setSlippage((parseFloat(e.target.value) || 0) / 100)}
-                      />
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="regulatoryFees" className="text-xs">Exchange & US regulatory fees (SEC, FINRA TAF)</Label>
+                      <Switch id="regulatoryFees" checked={regulatoryFees} onCheckedChange={setRegulatoryFees} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Slippage Model</Label>
+                        <Select value={slippageType} onValueChange={(value) => setSlippageType(value as SlippageModel['type'])}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(SLIPPAGE_MODEL_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {slippageType === 'fixed' && (
+                        <div className="space-y-1">
+                          <Label htmlFor="slippage" className="text-xs">Slippage (%)</Label>
+                          <Input
+                            id="slippage"
+                            type="number"
+                            step="0.001"
+                            value={slippage * 100}
+                            onChange={(e) => setSlippage((parseFloat(e.target.value) || 0) / 100)}
+                          />
+                        </div>
+                      )}
+                      {slippageType === 'spread' && (
+                        <div className="space-y-1">
+                          <Label htmlFor="spreadBps" className="text-xs">Bid-Ask Spread (bps)</Label>
+                          <Input
+                            id="spreadBps"
+                            type="number"
+                            step="1"
+                            min="0"
+                            value={slippageParams.spreadBps}
+                            onChange={(e) => setSlippageParams(prev => ({ ...prev, spreadBps: parseFloat(e.target.value) || 0 }))}
+                          />
+                        </div>
+                      )}
+                      {slippageType === 'volatility' && (
+                        <div className="space-y-1">
+                          <Label htmlFor="atrFraction" className="text-xs">ATR Fraction (ATR {slippageParams.atrPeriod})</Label>
+                          <Input
+                            id="atrFraction"
+                            type="number"
+                            step="0.05"
+                            min="0"
+                            value={slippageParams.atrFraction}
+                            onChange={(e) => setSlippageParams(prev => ({ ...prev, atrFraction: parseFloat(e.target.value) || 0 }))}
+                          />
+                        </div>
+                      )}
+                      {slippageType === 'marketImpact' && (
+                        <div className="space-y-1">
+                          <Label htmlFor="impactCoefficient" className="text-xs">Impact Coefficient</Label>
+                          <Input
+                            id="impactCoefficient"
+                            type="number"
+                            step="0.1"
+                            min="0"
+                            value={slippageParams.coefficient}
+                            onChange={(e) => setSlippageParams(prev => ({ ...prev, coefficient: parseFloat(e.target.value) || 0 }))}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    {slippageType === 'marketImpact' && (
+                      <p className="text-xs text-muted-foreground">
+                        Impact = coefficient x daily volatility x sqrt(order size / average volume), over the last {slippageParams.lookback} bars.
+                      </p>
+                    )}
+                  </div>
+
+                  <Separator />
+
+                  <div className="space-y-3">
+                    <Label className="flex items-center gap-2">
+                      <Scale className="h-4 w-4" />
+                      Margin & Financing
+                    </Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {marginFields.map(({ key, label }) => (
+                        <div key={key} className="space-y-1">
+                          <Label htmlFor={key} className="text-xs">{label}</Label>
+                          <Input
+                            id={key}
+                            type="number"
+                            step="0.1"
+                            min="0"
+                            value={+(margin[key] * 100).toFixed(4)}
+                            onChange={(e) => updateMargin(key, e.target.value)}
+                          />
+                        </div>
+                      ))}
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                      100% initial margin means no leverage. Positions are liquidated when equity falls below the maintenance requirement.
+                    </p>
                   </div>
                 </CardContent>
               </Card>
@@ -238,7 +709,21 @@ export const BacktestingSimulator: React.FC = () => {
                       
                       <div className="space-y-3">
                         <Label className="text-sm font-medium">Strategy Parameters</Label>
-                        {Object.entries(currentStrategy.parameters).map(([key, value]) => (
+                        {Object.entries(currentStrategy.parameters).map(([key, value]) => typeof value === 'boolean' ? (
+                          <div key={key} className="flex items-center justify-between">
+                            <Label htmlFor={key} className="text-xs capitalize">
+                              {key.replace(/([A-Z])/g, ' $1').toLowerCase()}
+                            </Label>
+                            <Switch
+                              id={key}
+                              checked={strategyParams[key] ?? value}
+                              onCheckedChange={(checked) => setStrategyParams(prev => ({
+                                ...prev,
+                                [key]: checked
+                              }))}
+                            />
+                          </div>
+                        ) : (
                           <div key={key} className="space-y-1">
                             <Label htmlFor={key} className="text-xs capitalize">
                               {key.replace(/([A-Z])/g, ' $1').toLowerCase()}
@@ -258,6 +743,34 @@ export const BacktestingSimulator: React.FC = () => {
                       </div>
                     </div>
                   )}
+
+                  <Separator />
+
+                  <div className="space-y-3">
+                    <Label className="flex items-center gap-2 text-sm font-medium">
+                      <ShieldAlert className="h-4 w-4" />
+                      Risk Rules
+                      {hasActiveRiskRules(riskRules) && <Badge variant="secondary" className="text-xs">Active</Badge>}
+                    </Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {riskRuleFields.map(({ key, label, percent }) => (
+                        <div key={key} className="space-y-1">
+                          <Label htmlFor={key} className="text-xs">{label}</Label>
+                          <Input
+                            id={key}
+                            type="number"
+                            step={percent ? '0.5' : '1'}
+                            min="0"
+                            value={+(percent ? riskRules[key] * 100 : riskRules[key]).toFixed(4)}
+                            onChange={(e) => updateRiskRule(key, e.target.value, percent)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Applied to any strategy; 0 turns a rule off. The drawdown limit stops all trading once reached.
+                    </p>
+                  </div>
                 </CardContent>
               </Card>
 
@@ -276,6 +789,10 @@ export const BacktestingSimulator: React.FC = () => {
                         <span>Symbol:</span>
                         <Badge variant="outline">{symbol}</Badge>
                       </div>
+                      <div className="flex justify-between text-sm">
+                        <span>Data:</span>
+                        <span className="text-xs">{HISTORICAL_DATA_SOURCE_LABELS[dataSource]}</span>
+                      </div>
                       <div className="flex justify-between text-sm">
                         <span>Period:</span>
                         <span className="text-xs">{startDate} to {endDate}</span>
@@ -284,6 +801,18 @@ export const BacktestingSimulator: React.FC = () => {
                         <span>Capital:</span>
                         <span className="font-medium">{formatCurrency(initialCapital)}</span>
                       </div>
+                      <div className="flex justify-between text-sm">
+                        <span>Leverage:</span>
+                        <span className="text-xs">{margin.initialMargin > 0 ? `${(1 / margin.initialMargin).toFixed(2)}x max` : '-'}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span>Costs:</span>
+                        <span className="text-xs">{COMMISSION_MODEL_LABELS[commissionType]}, {SLIPPAGE_MODEL_LABELS[slippageType]}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span>Prices:</span>
+                        <span className="text-xs">{PRICE_ADJUSTMENT_LABELS[priceAdjustment]}</span>
+                      </div>
                       <div className="flex justify-between text-sm">
                         <span>Strategy:</span>
                         <span className="text-xs">{selectedStrategy}</span>
@@ -369,14 +898,51 @@ export const BacktestingSimulator: React.FC = () => {
             )}
           </TabsContent>
 
+          <TabsContent value="optimize">
+            <StrategyOptimizer
+              strategyName={selectedStrategy}
+              strategyParams={strategyParams}
+              resolveBacktestParams={() => ({
+                symbol: symbol.toUpperCase(),
+                startDate,
+                endDate,
+                initialCapital,
+                commission,
+                slippage,
+                costs: resolveCosts(),
+                priceAdjustment,
+                seed,
+                dataProvider: resolveDataProvider(),
+                margin,
+                execution: { maxVolumeParticipation },
+                riskRules
+              })}
+              onApplyParameters={(parameters) => {
+                setStrategyParams(prev => ({ ...prev, ...parameters }));
+                toast({
+                  title: "Parameters Applied",
+                  description: "Run the backtest from the strategy setup to see the full results",
+                });
+              }}
+            />
+          </TabsContent>
+
+          <TabsContent value="portfolio">
+            <PortfolioBacktest
+              startDate={startDate}
+              endDate={endDate}
+              initialCapital={initialCapital}
+              commission={commission}
+              slippage={slippage}
+              resolveCosts={resolveCosts}
+              seed={seed}
+              defaultSymbols={dataSource === 'fixture' ? fixtureSymbols : ['SPY', 'TLT', 'GLD', 'QQQ']}
+              resolveDataProvider={resolvePortfolioDataProvider}
+            />
+          </TabsContent>
+
           <TabsContent value="builder">
-            <StrategyBuilder onStrategyCreated={(strategy) => {
-              setSelectedStrategy(strategy.name);
-              toast({
-                title: "Custom Strategy Created",
-                description: `${strategy.name} is now available for backtesting`,
-              });
-            }} />
+            <StrategyBuilder onStrategyCreated={(strategy) => setSelectedStrategy(strategy.name)} />
           </TabsContent>
         </Tabs>
       </div>
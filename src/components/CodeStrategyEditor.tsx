@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Code, Play, Save, Loader2, Trash2, FolderOpen, BookOpen, ShieldCheck, AlertCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { BacktestEngine, BacktestResult } from '@/lib/backtesting';
+import {
+  CODE_STRATEGY_TEMPLATE,
+  CodeStrategy,
+  DEFAULT_CODE_STRATEGY_LIMITS,
+  SavedCodeStrategy,
+  deleteCodeStrategy,
+  getSavedCodeStrategies,
+  saveCodeStrategy
+} from '@/lib/codeStrategy';
+
+const API_REFERENCE: Array<{ name: string; description: string }> = [
+  { name: 'ctx.bar', description: 'Current bar: date, open, high, low, close, volume' },
+  { name: 'ctx.index', description: 'Index of the current bar' },
+  { name: 'ctx.bars', description: 'Every bar up to and including the current one' },
+  { name: 'ctx.position', description: "side ('long' | 'short' | 'flat'), entryPrice, entryIndex, barsHeld" },
+  { name: 'ctx.state', description: 'Object kept from one bar to the next' },
+  { name: 'ctx.indicators', description: 'sma, ema, rsi, atr (period, ago), vwap (ago), macd (fast, slow, signal, ago), bollinger (period, stdDev, ago), stochastic (kPeriod, dPeriod, ago). Values are null until warmed up.' },
+  { name: "ctx.indicators.timeframe('1w')", description: "The same indicators on weekly bars ('1d', '1w', '1mo'). Values change when a week completes; ago counts daily bars." },
+  { name: 'ctx.buy(size?)', description: 'Go long with a fraction of buying power (default 0.95), closing any short' },
+  { name: 'ctx.sell()', description: 'Close a long position' },
+  { name: 'ctx.short(size?)', description: 'Go short with a fraction of buying power, closing any long' },
+  { name: 'ctx.cover()', description: 'Close a short position' },
+  { name: 'ctx.log(...values)', description: 'Write to the run log (first 200 lines)' },
+];
+
+// Three years of synthetic prices ending today
+const testRange = () => {
+  const end = new Date();
+  const start = new Date(end);
+  start.setFullYear(end.getFullYear() - 3);
+  return { startDate: start.toISOString().split('T')[0], endDate: end.toISOString().split('T')[0] };
+};
+
+export const CodeStrategyEditor: React.FC = () => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [code, setCode] = useState(CODE_STRATEGY_TEMPLATE);
+  const [testSymbol, setTestSymbol] = useState('AAPL');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [testResult, setTestResult] = useState<BacktestResult | null>(null);
+  const [logs, setLogs] = useState<string[]>([]);
+  const [savedStrategies, setSavedStrategies] = useState<SavedCodeStrategy[]>(getSavedCodeStrategies);
+  const { toast } = useToast();
+
+  // Tab indents instead of leaving the editor
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const target = e.currentTarget;
+    const { selectionStart, selectionEnd } = target;
+    setCode(code.slice(0, selectionStart) + '  ' + code.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      target.selectionStart = target.selectionEnd = selectionStart + 2;
+    });
+  };
+
+  const testRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    setTestResult(null);
+    setLogs([]);
+    try {
+      const strategy = new CodeStrategy({ name: name.trim() || 'Code Strategy', description, code });
+      const result = await new BacktestEngine().runBacktest({
+        symbol: testSymbol.trim().toUpperCase() || 'AAPL',
+        ...testRange(),
+        initialCapital: 100000,
+        commission: 1,
+        slippage: 0.001,
+        strategy
+      });
+      setTestResult(result);
+      setLogs(strategy.logs);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Strategy code failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await saveCodeStrategy({ name, description, code });
+      setSavedStrategies(getSavedCodeStrategies());
+      toast({
+        title: "Code Strategy Saved",
+        description: `${saved.name} can now be selected for backtesting`,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the strategy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const load = (strategy: SavedCodeStrategy) => {
+    setName(strategy.name);
+    setDescription(strategy.description);
+    setCode(strategy.code);
+    setError(null);
+    setTestResult(null);
+    setLogs([]);
+  };
+
+  const remove = (strategy: SavedCodeStrategy) => {
+    deleteCodeStrategy(strategy.id);
+    setSavedStrategies(getSavedCodeStrategies());
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+      <div className="xl:col-span-2 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Code className="h-5 w-5" />
+              Code Strategy
+            </CardTitle>
+            <CardDescription>
+              Write an onBar(ctx) function in TypeScript or JavaScript. It is called after every close, and its orders
+              fill at the next open.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="codeStrategyName">Strategy Name</Label>
+                <Input
+                  id="codeStrategyName"
+                  placeholder="My Code Strategy"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="codeStrategyDescription">Description</Label>
+                <Input
+                  id="codeStrategyDescription"
+                  placeholder="What the strategy does"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <Textarea
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={handleKeyDown}
+              rows={20}
+              spellCheck={false}
+              className="font-mono text-sm"
+            />
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription className="font-mono text-xs whitespace-pre-wrap">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="codeTestSymbol">Test Symbol</Label>
+                <Input
+                  id="codeTestSymbol"
+                  className="w-28"
+                  value={testSymbol}
+                  onChange={(e) => setTestSymbol(e.target.value)}
+                />
+              </div>
+              <Button onClick={testRun} disabled={isRunning || !code.trim()} variant="outline">
+                {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                Test Run
+              </Button>
+              <Button onClick={save} disabled={isSaving || !name.trim() || !code.trim()}>
+                {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Strategy
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {testResult && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Test Run</CardTitle>
+              <CardDescription>
+                Three years of {testResult.dataSource} prices for {testSymbol.trim().toUpperCase() || 'AAPL'}, $100,000 starting capital
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'Total Return', value: `${(testResult.performance.totalReturn * 100).toFixed(2)}%` },
+                  { label: 'Max Drawdown', value: `${(testResult.performance.maxDrawdown * 100).toFixed(2)}%` },
+                  { label: 'Sharpe Ratio', value: testResult.performance.sharpeRatio.toFixed(2) },
+                  { label: 'Closed Trades', value: testResult.roundTrips.length.toString() },
+                ].map(stat => (
+                  <div key={stat.label} className="p-3 border rounded-lg">
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                    <p className="text-lg font-semibold">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Log ({logs.length})</p>
+                <div className="max-h-64 overflow-y-auto rounded-md bg-muted/50 p-2 font-mono text-xs">
+                  {logs.length === 0 ? (
+                    <span className="text-muted-foreground">Nothing logged. Call ctx.log(...) to trace the strategy.</span>
+                  ) : (
+                    logs.map((line, i) => <div key={i}>{line}</div>)
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              API
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {API_REFERENCE.map(entry => (
+              <div key={entry.name} className="text-sm">
+                <code className="font-mono text-xs font-semibold">{entry.name}</code>
+                <p className="text-xs text-muted-foreground">{entry.description}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Alert>
+          <ShieldCheck className="h-4 w-4" />
+          <AlertDescription>
+            Code runs in an isolated worker with no page, network or storage access. A run is stopped after{' '}
+            {DEFAULT_CODE_STRATEGY_LIMITS.timeBudgetMs / 1000}s or, where the browser reports memory use, above{' '}
+            {DEFAULT_CODE_STRATEGY_LIMITS.memoryLimitMb} MB.
+          </AlertDescription>
+        </Alert>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Saved Code Strategies ({savedStrategies.length})</CardTitle>
+            <CardDescription>Saved strategies appear in the backtester's strategy list</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {savedStrategies.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No saved code strategies yet.</p>
+            ) : (
+              savedStrategies.map(strategy => (
+                <div key={strategy.id} className="flex items-center gap-2 p-3 border rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{strategy.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Updated {new Date(strategy.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {strategy.name.toLowerCase() === name.trim().toLowerCase() && <Badge variant="outline">Open</Badge>}
+                  <Button size="sm" variant="outline" onClick={() => load(strategy)}>
+                    <FolderOpen className="h-4 w-4" />
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => remove(strategy)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
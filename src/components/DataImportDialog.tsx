@@ -0,0 +1,326 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, Trash2, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  RawTable,
+  ColumnMapping,
+  MappedField,
+  DateFormat,
+  ImportedDatasetInfo,
+  ValidationIssueType,
+  DATE_FORMAT_LABELS,
+  FIELD_LABELS,
+  REQUIRED_FIELDS,
+  VALIDATION_ISSUE_LABELS,
+  detectFormat,
+  parseRawTable,
+  guessColumnMapping,
+  guessDateFormat,
+  buildDataset,
+  saveDataset,
+  getStoredDatasets,
+  deleteDataset
+} from '@/lib/dataImport';
+
+interface DataImportDialogProps {
+  onImported?: (dataset: ImportedDatasetInfo) => void;
+  onDeleted?: (id: string) => void;
+}
+
+// Radix selects cannot use '' as an item value
+const UNMAPPED = '__none__';
+
+const MAX_LISTED_ISSUES = 50;
+
+export const DataImportDialog: React.FC<DataImportDialogProps> = ({ onImported, onDeleted }) => {
+  const [open, setOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<RawTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('iso');
+  const [name, setName] = useState('');
+  const [symbol, setSymbol] = useState('');
+  const [datasets, setDatasets] = useState<ImportedDatasetInfo[]>([]);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFileName('');
+    setTable(null);
+    setMapping(null);
+    setName('');
+    setSymbol('');
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) setDatasets(getStoredDatasets());
+    else reset();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const parsed = parseRawTable(text, detectFormat(file.name, text));
+      const guessed = guessColumnMapping(parsed.columns);
+      const dateColumn = parsed.columns.indexOf(guessed.date);
+
+      setTable(parsed);
+      setMapping(guessed);
+      setDateFormat(guessDateFormat(dateColumn >= 0 ? parsed.rows.map(row => row[dateColumn] ?? '') : []));
+      setFileName(file.name);
+      setName(file.name.replace(/\.[^.]+$/, ''));
+      setSymbol(file.name.replace(/\.[^.]+$/, '').split(/[^A-Za-z0-9^.]/)[0].toUpperCase());
+    } catch (error) {
+      reset();
+      toast({
+        title: "Could Not Read File",
+        description: error instanceof Error ? error.message : "The file could not be parsed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Re-validate whenever the mapping or date format changes
+  const validation = useMemo(() => {
+    if (!table || !mapping) return null;
+    try {
+      return { result: buildDataset(table, mapping, dateFormat), error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Invalid mapping' };
+    }
+  }, [table, mapping, dateFormat]);
+
+  const issueCounts = useMemo(() => {
+    const counts: Partial<Record<ValidationIssueType, number>> = {};
+    validation?.result?.issues.forEach(issue => {
+      counts[issue.type] = (counts[issue.type] ?? 0) + 1;
+    });
+    return counts;
+  }, [validation]);
+
+  const handleImport = () => {
+    const bars = validation?.result?.bars;
+    if (!bars || bars.length === 0) return;
+    try {
+      const info = saveDataset(name, symbol, fileName, bars);
+      onImported?.(info);
+      toast({
+        title: "Dataset Imported",
+        description: `${info.name}: ${info.barCount} bars from ${info.startDate} to ${info.endDate}`,
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The dataset could not be saved",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    deleteDataset(id);
+    setDatasets(getStoredDatasets());
+    onDeleted?.(id);
+  };
+
+  const bars = validation?.result?.bars ?? [];
+  const issues = validation?.result?.issues ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Data
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Price History</DialogTitle>
+          <DialogDescription>
+            Load daily OHLCV bars from a CSV or JSON file. Imported datasets are stored in this browser and can be used for backtests, charts and Monte Carlo calibration.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="importFile">File</Label>
+            <Input id="importFile" type="file" accept=".csv,.tsv,.txt,.json,text/csv,application/json" onChange={handleFile} />
+          </div>
+
+          {table && mapping && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="datasetName">Dataset Name</Label>
+                  <Input id="datasetName" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="datasetSymbol">Symbol</Label>
+                  <Input id="datasetSymbol" value={symbol} onChange={(e) => setSymbol(e.target.value.toUpperCase())} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Column Mapping</Label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {(Object.keys(FIELD_LABELS) as MappedField[]).map(field => (
+                    <div key={field} className="space-y-1">
+                      <Label className="text-xs">
+                        {FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                      </Label>
+                      <Select
+                        value={mapping[field] || UNMAPPED}
+                        onValueChange={(column) => setMapping({ ...mapping, [field]: column === UNMAPPED ? '' : column })}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                          {table.columns.filter(column => column.length > 0).map(column => (
+                            <SelectItem key={column} value={column}>{column}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                  <div className="space-y-1">
+                    <Label className="text-xs">Date Format</Label>
+                    <Select value={dateFormat} onValueChange={(value: DateFormat) => setDateFormat(value)}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(format => (
+                          <SelectItem key={format} value={format}>{DATE_FORMAT_LABELS[format]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Unmapped open, high and low default to the close; volume defaults to 0 and adjusted close to the close.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Validation</Label>
+                {validation?.error ? (
+                  <p className="text-sm text-destructive">{validation.error}</p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline" className="gap-1">
+                        <CheckCircle className="h-3 w-3" />
+                        {bars.length} of {table.rows.length} rows usable
+                      </Badge>
+                      {(Object.keys(VALIDATION_ISSUE_LABELS) as ValidationIssueType[])
+                        .filter(type => issueCounts[type])
+                        .map(type => (
+                          <Badge key={type} variant={type === 'gap' ? 'secondary' : 'destructive'}>
+                            {VALIDATION_ISSUE_LABELS[type]}: {issueCounts[type]}
+                          </Badge>
+                        ))}
+                    </div>
+                    {issues.length > 0 && (
+                      <div className="max-h-32 overflow-y-auto rounded border p-2 space-y-1">
+                        {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                          <div key={i} className="flex items-start gap-2 text-xs">
+                            <AlertTriangle className={`h-3 w-3 mt-0.5 shrink-0 ${issue.severity === 'error' ? 'text-destructive' : 'text-warning'}`} />
+                            <span>{issue.message}</span>
+                          </div>
+                        ))}
+                        {issues.length > MAX_LISTED_ISSUES && (
+                          <p className="text-xs text-muted-foreground">and {issues.length - MAX_LISTED_ISSUES} more</p>
+                        )}
+                      </div>
+                    )}
+                    {issues.some(issue => issue.severity === 'error') && (
+                      <p className="text-xs text-muted-foreground">Rows with errors are left out of the imported dataset.</p>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {bars.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">
+                    Preview ({bars[0].date} to {bars[bars.length - 1].date})
+                  </Label>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Open</TableHead>
+                        <TableHead>High</TableHead>
+                        <TableHead>Low</TableHead>
+                        <TableHead>Close</TableHead>
+                        <TableHead>Volume</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {bars.slice(0, 5).map(bar => (
+                        <TableRow key={bar.date}>
+                          <TableCell className="text-xs">{bar.date}</TableCell>
+                          <TableCell className="text-xs">{bar.open.toFixed(2)}</TableCell>
+                          <TableCell className="text-xs">{bar.high.toFixed(2)}</TableCell>
+                          <TableCell className="text-xs">{bar.low.toFixed(2)}</TableCell>
+                          <TableCell className="text-xs">{bar.close.toFixed(2)}</TableCell>
+                          <TableCell className="text-xs">{bar.volume.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </>
+          )}
+
+          {datasets.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Saved Datasets</Label>
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {datasets.map(dataset => (
+                  <div key={dataset.id} className="flex items-center justify-between p-2 border rounded">
+                    <div className="flex-1">
+                      <div className="font-medium text-sm">{dataset.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {dataset.symbol} • {dataset.barCount} bars • {dataset.startDate} to {dataset.endDate}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(dataset.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleImport} disabled={bars.length === 0}>
+            Import {bars.length > 0 ? `${bars.length} Bars` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Progress } from '@/components/ui/progress';
 import { 
   Loader2, 
   TrendingUp, 
@@ -19,22 +20,39 @@ import {
   Trash2,
   Sparkles,
   Clock,
-  RefreshCw
+  RefreshCw,
+  XCircle
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { SimulationChart } from './SimulationChart';
 import { SimulationResults } from './SimulationResults';
 import { PresetTemplates } from './PresetTemplates';
+import { PriceProcessSettings } from './PriceProcessSettings';
+import { DataImportDialog } from './DataImportDialog';
 import { 
-  runMonteCarloSimulation, 
   fetchRealStockData, 
+  estimateParametersFromHistory,
+  HistoricalData,
   exportToCSV, 
   exportToPDF,
   saveScenario,
   loadScenario,
   getStoredScenarios,
-  deleteScenario
+  deleteScenario,
+  SimulationStandardErrors,
+  SimulationBands,
+  SimulationOutputMode,
+  SAMPLE_PATH_COUNT
 } from '@/lib/monteCarlo';
+import { parseSeed } from '@/lib/random';
+import { runMonteCarloSimulationParallel } from '@/lib/parallelSimulation';
+import { isAbortError } from '@/lib/workerPool';
+import { PriceProcessConfig, DEFAULT_PROCESS_CONFIGS, PRICE_PROCESS_LABELS, PARAMETRIC_PROCESS_TYPES } from '@/lib/priceProcesses';
+import { ImportedDatasetInfo, getStoredDatasets, loadDataset } from '@/lib/dataImport';
+import { VarianceReductionMethod, VARIANCE_REDUCTION_LABELS } from '@/lib/varianceReduction';
+
+// Select value for calibrating from the built-in ticker estimates
+const MARKET_ESTIMATES = '__market__';
 
 interface SimulationParams {
   ticker: string;
@@ -42,6 +60,11 @@ interface SimulationParams {
   timeHorizon: number;
   expectedReturn?: number;
   volatility?: number;
+  seed?: number;
+  process?: PriceProcessConfig;
+  varianceReduction?: VarianceReductionMethod;
+  outputMode?: SimulationOutputMode;
+  calibrationDataset?: string; // Imported dataset id; built-in market estimates when omitted
 }
 
 interface SimulationData {
@@ -49,6 +72,12 @@ interface SimulationData {
   finalPrices: number[];
   currentPrice: number;
   companyName: string;
+  seed: number;
+  process: PriceProcessConfig;
+  varianceReduction: VarianceReductionMethod;
+  standardErrors: SimulationStandardErrors;
+  outputMode: SimulationOutputMode;
+  bands: SimulationBands;
   statistics: {
     averageEndingPrice: number;
     probabilityOfGain: number;
@@ -67,10 +96,13 @@ export const MonteCarloSimulator: React.FC = () => {
   });
   
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [simulationData, setSimulationData] = useState<SimulationData | null>(null);
   const [savedScenarios, setSavedScenarios] = useState<Record<string, any>>({});
   const [scenarioName, setScenarioName] = useState('');
   const [selectedScenario, setSelectedScenario] = useState('');
+  const [datasets, setDatasets] = useState<ImportedDatasetInfo[]>(() => getStoredDatasets());
   const { toast } = useToast();
 
   // Load saved scenarios on mount
@@ -78,15 +110,30 @@ export const MonteCarloSimulator: React.FC = () => {
     setSavedScenarios(getStoredScenarios());
   }, []);
 
-  const handleInputChange = (field: keyof SimulationParams, value: string | number) => {
+  // Bootstrap resampling does not use random shocks, so variance reduction does not apply to it
+  const isBootstrap = params.process?.type === 'bootstrap';
+
+  const handleInputChange = (field: keyof SimulationParams, value: string | number | PriceProcessConfig | VarianceReductionMethod | SimulationOutputMode) => {
     setParams(prev => ({
       ...prev,
       [field]: value
     }));
   };
 
+  // Bootstrap needs a price history, so leaving a dataset falls back to GBM
+  const selectCalibrationDataset = (id: string | undefined) => {
+    const dataset = datasets.find(d => d.id === id);
+    setParams(prev => ({
+      ...prev,
+      calibrationDataset: id,
+      ticker: dataset?.symbol || prev.ticker,
+      process: !id && prev.process?.type === 'bootstrap' ? DEFAULT_PROCESS_CONFIGS.gbm : prev.process
+    }));
+  };
+
   const loadPreset = (preset: SimulationParams) => {
-    setParams(preset);
+    // Presets describe the market, so keep the selected price model
+    setParams(prev => ({ ...preset, process: preset.process ?? prev.process }));
     toast({
       title: "Preset Loaded",
       description: `Applied ${preset.ticker} simulation preset`,
@@ -103,31 +150,59 @@ export const MonteCarloSimulator: React.FC = () => {
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
+    setProgress(0);
     setSimulationData(null);
 
     try {
-      // Fetch stock data
+      // Calibrate from an imported price history, or fetch stock data
       let { expectedReturn, volatility } = params;
-      const stockData = await fetchRealStockData(params.ticker);
+      let stockData: { currentPrice: number; companyName: string; expectedReturn: number; volatility: number };
+      let historicalData: HistoricalData[] | undefined;
+
+      if (params.calibrationDataset) {
+        const dataset = loadDataset(params.calibrationDataset);
+        if (!dataset) {
+          throw new Error('The selected calibration dataset no longer exists');
+        }
+        // Adjusted closes include dividends and splits, so returns are total returns
+        historicalData = dataset.bars.map(bar => ({ date: bar.date, close: bar.adjustedClose, volume: bar.volume }));
+        stockData = {
+          ...estimateParametersFromHistory(historicalData),
+          currentPrice: dataset.bars[dataset.bars.length - 1].close,
+          companyName: dataset.name,
+        };
+      } else {
+        stockData = await fetchRealStockData(params.ticker);
+      }
       
       if (!expectedReturn || !volatility) {
         expectedReturn = stockData.expectedReturn;
         volatility = stockData.volatility;
         
         toast({
-          title: "Stock Data Fetched",
+          title: params.calibrationDataset ? "Calibrated From History" : "Stock Data Fetched",
           description: `${stockData.companyName}: Return ${(expectedReturn * 100).toFixed(2)}%, Volatility ${(volatility * 100).toFixed(2)}%`,
         });
       }
 
-      // Run Monte Carlo simulation
-      const results = runMonteCarloSimulation({
+      // Run Monte Carlo simulation across the worker pool
+      const results = await runMonteCarloSimulationParallel({
         currentPrice: stockData.currentPrice,
         expectedReturn,
         volatility,
         timeHorizon: params.timeHorizon,
         numSimulations: params.numSimulations,
+        seed: params.seed,
+        process: params.process,
+        historicalData,
+        varianceReduction: isBootstrap ? 'none' : params.varianceReduction,
+        outputMode: params.outputMode,
+      }, {
+        onProgress: setProgress,
+        signal: controller.signal,
       });
 
       setSimulationData({
@@ -135,15 +210,28 @@ export const MonteCarloSimulator: React.FC = () => {
         finalPrices: results.finalPrices,
         currentPrice: stockData.currentPrice,
         companyName: stockData.companyName,
+        seed: results.seed,
+        process: results.process,
+        varianceReduction: results.varianceReduction,
+        standardErrors: results.standardErrors,
+        outputMode: results.outputMode,
+        bands: results.bands,
         statistics: results.statistics,
       });
 
       toast({
         title: "Simulation Complete",
-        description: `Generated ${params.numSimulations} price paths for ${stockData.companyName}`,
+        description: `Generated ${params.numSimulations} ${PRICE_PROCESS_LABELS[results.process.type]} paths for ${stockData.companyName} (seed ${results.seed})`,
       });
 
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Simulation Cancelled",
+          description: "The running simulation was stopped",
+        });
+        return;
+      }
       console.error('Simulation error:', error);
       toast({
         title: "Simulation Failed",
@@ -151,21 +239,31 @@ export const MonteCarloSimulator: React.FC = () => {
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const cancelSimulation = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Stop any running simulation when the component unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const handleSaveScenario = () => {
     if (!scenarioName.trim() || !simulationData) return;
     
+    // Store the seed actually used so the scenario can be re-run exactly
     const scenarioData = {
-      params,
+      params: { ...params, seed: simulationData.seed, process: simulationData.process },
       simulationData,
       metadata: {
         ticker: params.ticker,
         companyName: simulationData.companyName,
         simulationCount: params.numSimulations,
-        timeHorizon: params.timeHorizon
+        timeHorizon: params.timeHorizon,
+        seed: simulationData.seed
       }
     };
     
@@ -211,7 +309,13 @@ export const MonteCarloSimulator: React.FC = () => {
     exportToCSV({
       paths: simulationData.paths,
       finalPrices: simulationData.finalPrices,
-      statistics: simulationData.statistics
+      statistics: simulationData.statistics,
+      seed: simulationData.seed,
+      process: simulationData.process,
+      varianceReduction: simulationData.varianceReduction,
+      standardErrors: simulationData.standardErrors,
+      outputMode: simulationData.outputMode,
+      bands: simulationData.bands
     }, `monte_carlo_${params.ticker}_${new Date().toISOString().split('T')[0]}.csv`);
     
     toast({
@@ -225,7 +329,11 @@ export const MonteCarloSimulator: React.FC = () => {
     
     exportToPDF({
       statistics: simulationData.statistics,
-      finalPrices: simulationData.finalPrices
+      finalPrices: simulationData.finalPrices,
+      seed: simulationData.seed,
+      process: simulationData.process,
+      varianceReduction: simulationData.varianceReduction,
+      standardErrors: simulationData.standardErrors
     }, params.ticker, {
       ...params,
       currentPrice: simulationData.currentPrice,
@@ -407,6 +515,38 @@ export const MonteCarloSimulator: React.FC = () => {
                 />
               </div>
               
+              <div className="space-y-2">
+                <Label htmlFor="calibrationDataset">Calibration Data</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={params.calibrationDataset ?? MARKET_ESTIMATES}
+                    onValueChange={(id) => selectCalibrationDataset(id === MARKET_ESTIMATES ? undefined : id)}
+                  >
+                    <SelectTrigger id="calibrationDataset" className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={MARKET_ESTIMATES}>Built-in Market Estimates</SelectItem>
+                      {datasets.map(dataset => (
+                        <SelectItem key={dataset.id} value={dataset.id}>
+                          {dataset.name} ({dataset.startDate} to {dataset.endDate})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <DataImportDialog
+                    onImported={(dataset) => {
+                      setDatasets(getStoredDatasets());
+                      setParams(prev => ({ ...prev, calibrationDataset: dataset.id, ticker: dataset.symbol || prev.ticker }));
+                    }}
+                    onDeleted={(id) => {
+                      setDatasets(getStoredDatasets());
+                      if (params.calibrationDataset === id) selectCalibrationDataset(undefined);
+                    }}
+                  />
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="numSimulations">Number of Simulations</Label>
                 <Input
@@ -415,7 +555,7 @@ export const MonteCarloSimulator: React.FC = () => {
                   value={params.numSimulations}
                   onChange={(e) => handleInputChange('numSimulations', parseInt(e.target.value))}
                   min="100"
-                  max="10000"
+                  max="100000"
                   className="transition-all hover:border-primary/50 focus:border-primary"
                 />
               </div>
@@ -458,8 +598,84 @@ export const MonteCarloSimulator: React.FC = () => {
                   className="transition-all hover:border-primary/50 focus:border-primary"
                 />
               </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="seed">Random Seed - Optional</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="seed"
+                    type="number"
+                    min="0"
+                    value={params.seed ?? ''}
+                    onChange={(e) => handleInputChange('seed', parseSeed(e.target.value))}
+                    placeholder="Random each run"
+                    className="font-mono transition-all hover:border-primary/50 focus:border-primary"
+                  />
+                  {simulationData && params.seed !== simulationData.seed && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-10"
+                      onClick={() => handleInputChange('seed', simulationData.seed)}
+                      title="Reuse the seed of the last run"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
             </div>
             
+            <Separator />
+
+            <PriceProcessSettings
+              value={params.process ?? DEFAULT_PROCESS_CONFIGS.gbm}
+              onChange={(process) => handleInputChange('process', process)}
+              availableTypes={params.calibrationDataset ? [...PARAMETRIC_PROCESS_TYPES, 'bootstrap'] : PARAMETRIC_PROCESS_TYPES}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="varianceReduction">Variance Reduction</Label>
+              <Select
+                value={isBootstrap ? 'none' : params.varianceReduction ?? 'none'}
+                onValueChange={(method: VarianceReductionMethod) => handleInputChange('varianceReduction', method)}
+                disabled={isBootstrap}
+              >
+                <SelectTrigger id="varianceReduction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(VARIANCE_REDUCTION_LABELS) as VarianceReductionMethod[]).map(method => (
+                    <SelectItem key={method} value={method}>{VARIANCE_REDUCTION_LABELS[method]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {isBootstrap
+                  ? 'Bootstrap paths resample history rather than drawing random shocks, so they are sampled plainly.'
+                  : 'Results report the standard error of each statistic, so methods can be compared at equal path counts.'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="outputMode">Path Storage</Label>
+              <Select
+                value={params.outputMode ?? 'paths'}
+                onValueChange={(mode: SimulationOutputMode) => handleInputChange('outputMode', mode)}
+              >
+                <SelectTrigger id="outputMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="paths">Keep Every Path</SelectItem>
+                  <SelectItem value="streaming">Streaming (Bands + {SAMPLE_PATH_COUNT} Sample Paths)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Streaming computes daily percentile bands with quantile sketches, so large runs (100k paths) fit in memory.
+              </p>
+            </div>
+
             <Separator />
             
             <Button 
@@ -480,6 +696,20 @@ export const MonteCarloSimulator: React.FC = () => {
                 </>
               )}
             </Button>
+
+            {isLoading && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>Simulated {Math.round(progress * params.numSimulations).toLocaleString()} of {params.numSimulations.toLocaleString()} paths</span>
+                  <span>{Math.round(progress * 100)}%</span>
+                </div>
+                <Progress value={progress * 100} />
+                <Button variant="outline" size="sm" onClick={cancelSimulation} className="w-full">
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Cancel Simulation
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Layers, Play, Loader2, PieChart } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { HistoricalDataProvider } from '@/lib/historicalData';
+import { CostModelConfig } from '@/lib/costModels';
+import {
+  PortfolioBacktestEngine,
+  PortfolioBacktestResult,
+  RebalanceFrequency,
+  RebalanceSchedule,
+  REBALANCE_FREQUENCY_LABELS,
+  createPortfolioStrategy,
+  getAvailablePortfolioStrategies
+} from '@/lib/portfolioBacktest';
+import { BacktestChart } from './BacktestChart';
+
+interface PortfolioBacktestProps {
+  startDate: string;
+  endDate: string;
+  initialCapital: number;
+  commission: number;
+  slippage: number;
+  resolveCosts: () => CostModelConfig;
+  seed?: number;
+  defaultSymbols: string[];
+  // Throws when the selected price data cannot serve several symbols
+  resolveDataProvider: () => HistoricalDataProvider;
+}
+
+export const PortfolioBacktest: React.FC<PortfolioBacktestProps> = ({
+  startDate,
+  endDate,
+  initialCapital,
+  commission,
+  slippage,
+  resolveCosts,
+  seed,
+  defaultSymbols,
+  resolveDataProvider
+}) => {
+  const [symbolsText, setSymbolsText] = useState(defaultSymbols.join(', '));
+  const [selectedStrategy, setSelectedStrategy] = useState('Equal Weight');
+  const [strategyParams, setStrategyParams] = useState<{ [key: string]: number }>({});
+  const [rebalanceType, setRebalanceType] = useState<RebalanceSchedule['type']>('calendar');
+  const [frequency, setFrequency] = useState<RebalanceFrequency>('monthly');
+  const [driftThreshold, setDriftThreshold] = useState(0.05);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<PortfolioBacktestResult | null>(null);
+
+  const { toast } = useToast();
+  const availableStrategies = getAvailablePortfolioStrategies();
+  const currentStrategy = availableStrategies.find(s => s.name === selectedStrategy);
+
+  const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+  const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+  const runPortfolioBacktest = async () => {
+    setIsRunning(true);
+    try {
+      const strategy = createPortfolioStrategy(selectedStrategy, strategyParams);
+      if (!strategy) {
+        throw new Error('Invalid portfolio strategy');
+      }
+
+      const rebalance: RebalanceSchedule = rebalanceType === 'calendar'
+        ? { type: 'calendar', frequency }
+        : { type: 'drift', threshold: driftThreshold };
+
+      const portfolioResult = await new PortfolioBacktestEngine().runBacktest({
+        symbols: symbolsText.split(/[\s,]+/),
+        startDate,
+        endDate,
+        initialCapital,
+        commission,
+        slippage,
+        costs: resolveCosts(),
+        strategy,
+        rebalance,
+        seed,
+        dataProvider: resolveDataProvider()
+      });
+      setResult(portfolioResult);
+
+      toast({
+        title: "Portfolio Backtest Complete",
+        description: `${portfolioResult.symbols.length} assets, ${portfolioResult.rebalances.length} rebalances`,
+      });
+    } catch (error) {
+      console.error('Portfolio backtest error:', error);
+      toast({
+        title: "Portfolio Backtest Failed",
+        description: error instanceof Error ? error.message : "An error occurred during the portfolio backtest.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const totalCosts = result ? result.contributions.reduce((sum, asset) => sum + asset.costs, 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Portfolio Backtest
+          </CardTitle>
+          <CardDescription>
+            Backtest target weights across several symbols. Dates, capital, costs and price data come from the strategy setup.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="portfolioSymbols">Symbols</Label>
+              <Input
+                id="portfolioSymbols"
+                value={symbolsText}
+                onChange={(e) => setSymbolsText(e.target.value)}
+                placeholder="SPY, TLT, GLD"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Portfolio Strategy</Label>
+              <Select value={selectedStrategy} onValueChange={(value) => { setSelectedStrategy(value); setStrategyParams({}); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableStrategies.map((strategy) => (
+                    <SelectItem key={strategy.name} value={strategy.name}>
+                      {strategy.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {currentStrategy && (
+                <p className="text-xs text-muted-foreground">{currentStrategy.description}</p>
+              )}
+            </div>
+          </div>
+
+          {currentStrategy && Object.keys(currentStrategy.parameters).length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {Object.entries(currentStrategy.parameters).map(([key, value]) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`portfolio-${key}`} className="text-xs capitalize">
+                    {key.replace(/([A-Z])/g, ' $1').toLowerCase()}
+                  </Label>
+                  <Input
+                    id={`portfolio-${key}`}
+                    type="number"
+                    step="1"
+                    value={strategyParams[key] ?? value}
+                    onChange={(e) => setStrategyParams(prev => ({
+                      ...prev,
+                      [key]: parseFloat(e.target.value) || value
+                    }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Rebalancing</Label>
+              <Select value={rebalanceType} onValueChange={(value: RebalanceSchedule['type']) => setRebalanceType(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="calendar">Calendar</SelectItem>
+                  <SelectItem value="drift">Drift Threshold</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {rebalanceType === 'calendar' ? (
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={frequency} onValueChange={(value: RebalanceFrequency) => setFrequency(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REBALANCE_FREQUENCY_LABELS) as RebalanceFrequency[]).map(key => (
+                      <SelectItem key={key} value={key}>{REBALANCE_FREQUENCY_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="driftThreshold">Drift Threshold (%)</Label>
+                <Input
+                  id="driftThreshold"
+                  type="number"
+                  step="0.5"
+                  min="0.1"
+                  value={+(driftThreshold * 100).toFixed(4)}
+                  onChange={(e) => setDriftThreshold((parseFloat(e.target.value) || 0) / 100)}
+                />
+              </div>
+            )}
+
+            <Button onClick={runPortfolioBacktest} disabled={isRunning}>
+              {isRunning ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Running...
+                </>
+              ) : (
+                <>
+                  <Play className="h-4 w-4 mr-2" />
+                  Run Portfolio Backtest
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <BacktestChart result={result} symbol={result.symbols.join(', ')} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PieChart className="h-5 w-5" />
+                Asset Contribution
+              </CardTitle>
+              <CardDescription>
+                P&L per asset net of its trading costs. Turnover is one-way traded value over average portfolio value.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{result.rebalances.length} rebalances</Badge>
+                <Badge variant="outline">Annual turnover {formatPercent(result.annualTurnover)}</Badge>
+                <Badge variant="outline">Trading costs {formatCurrency(totalCosts)}</Badge>
+                <Badge variant="outline">{result.dataSource}</Badge>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead className="text-right">P&L</TableHead>
+                    <TableHead className="text-right">Contribution</TableHead>
+                    <TableHead className="text-right">Avg Weight</TableHead>
+                    <TableHead className="text-right">Final Weight</TableHead>
+                    <TableHead className="text-right">Turnover</TableHead>
+                    <TableHead className="text-right">Costs</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.contributions.map(asset => (
+                    <TableRow key={asset.symbol}>
+                      <TableCell className="font-medium">{asset.symbol}</TableCell>
+                      <TableCell className={`text-right ${asset.pnl >= 0 ? 'text-success' : 'text-destructive'}`}>
+                        {formatCurrency(asset.pnl)}
+                      </TableCell>
+                      <TableCell className={`text-right ${asset.contribution >= 0 ? 'text-success' : 'text-destructive'}`}>
+                        {formatPercent(asset.contribution)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatPercent(asset.avgWeight)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(asset.finalWeight)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(asset.turnover)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(asset.costs)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
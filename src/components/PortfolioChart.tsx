@@ -53,8 +53,9 @@ export const PortfolioChart: React.FC<PortfolioChartProps> = ({ results }) => {
       // Final value distribution
       const sortedFinalValues = [...results.finalValues].sort((a, b) => a - b);
       const buckets = 50;
-      const min = Math.min(...sortedFinalValues);
-      const max = Math.max(...sortedFinalValues);
+      // Sorted already; spreading large arrays into Math.min/max overflows the call stack
+      const min = sortedFinalValues[0];
+      const max = sortedFinalValues[sortedFinalValues.length - 1];
       const bucketSize = (max - min) / buckets;
       
       const distribution = Array.from({ length: buckets }, (_, i) => {
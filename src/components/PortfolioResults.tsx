@@ -149,7 +149,10 @@ export const PortfolioResults: React.FC<PortfolioResultsProps> = ({ results, ass
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-sm font-medium">Return Distribution</span>
-                <Badge variant="outline">{results.finalValues.length} simulations</Badge>
+                <div className="flex gap-2">
+                  <Badge variant="outline">{results.finalValues.length} simulations</Badge>
+                  <Badge variant="outline" className="font-mono">seed {results.seed}</Badge>
+                </div>
               </div>
               
               <div className="space-y-2">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Progress } from '@/components/ui/progress';
 import { 
   PieChart, 
   TrendingUp, 
@@ -16,22 +17,33 @@ import {
   Download,
   Loader2,
   Target,
-  DollarSign
+  DollarSign,
+  XCircle
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Asset, 
   PortfolioParams, 
   PortfolioResults, 
-  runPortfolioSimulation,
   getPortfolioPresets,
   calculateEfficientFrontier,
+  calculateCorrelationMatrix,
   EfficientFrontierPoint
 } from '@/lib/portfolio';
+import { parseSeed } from '@/lib/random';
+import { runPortfolioSimulationParallel } from '@/lib/parallelSimulation';
+import { isAbortError } from '@/lib/workerPool';
 import { PortfolioChart } from './PortfolioChart';
 import { PortfolioResults as PortfolioResultsComponent } from './PortfolioResults';
 import { EfficientFrontierChart } from './EfficientFrontierChart';
 
+// Custom correlations are stored per pair of tickers; assets without a ticker have none
+const tickerPairKey = (assets: Asset[], i: number, j: number): string | null => {
+  const a = assets[i].ticker.trim();
+  const b = assets[j].ticker.trim();
+  return a && b ? [a, b].sort().join('|') : null;
+};
+
 export const PortfolioSimulator: React.FC = () => {
   const [assets, setAssets] = useState<Asset[]>([
     { ticker: 'AAPL', name: 'Apple', weight: 0.4 },
@@ -41,7 +53,13 @@ export const PortfolioSimulator: React.FC = () => {
   
   const [timeHorizon, setTimeHorizon] = useState(252);
   const [numSimulations, setNumSimulations] = useState(1000);
+  const [correlationMethod, setCorrelationMethod] = useState<PortfolioParams['correlationMethod']>('historical');
+  // Correlations the user has entered, keyed by ticker pair so they follow their assets as the list changes
+  const [correlationOverrides, setCorrelationOverrides] = useState<Record<string, number>>({});
+  const [seed, setSeed] = useState<number | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [results, setResults] = useState<PortfolioResults | null>(null);
   const [efficientFrontier, setEfficientFrontier] = useState<EfficientFrontierPoint[] | null>(null);
   const [isCalculatingFrontier, setIsCalculatingFrontier] = useState(false);
@@ -85,6 +103,23 @@ export const PortfolioSimulator: React.FC = () => {
     }
   };
 
+  const pairKey = (i: number, j: number) => tickerPairKey(assets, i, j);
+
+  // The sector estimates, with the user's entries for pairs that are still in the portfolio
+  const customCorrelations = useMemo(
+    () => calculateCorrelationMatrix(assets).map((row, i) => row.map((estimate, j) => {
+      const key = i === j ? null : tickerPairKey(assets, i, j);
+      return key !== null && key in correlationOverrides ? correlationOverrides[key] : estimate;
+    })),
+    [assets, correlationOverrides]
+  );
+
+  const updateCorrelation = (i: number, j: number, value: number) => {
+    const key = pairKey(i, j);
+    if (key === null) return;
+    setCorrelationOverrides(prev => ({ ...prev, [key]: Math.max(-1, Math.min(1, value)) }));
+  };
+
   const loadPreset = (presetAssets: Asset[]) => {
     setAssets([...presetAssets]);
     toast({
@@ -116,23 +151,52 @@ export const PortfolioSimulator: React.FC = () => {
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
+    setProgress(0);
     try {
+      // Custom correlations follow the rows of the assets that are actually simulated
+      const validIndices = assets
+        .map((asset, index) => (asset.ticker.trim() && asset.weight > 0 ? index : -1))
+        .filter(index => index >= 0);
+
       const params: PortfolioParams = {
         assets: validAssets,
         timeHorizon,
         numSimulations,
-        correlationMethod: 'historical'
+        correlationMethod,
+        customCorrelations: correlationMethod === 'custom'
+          ? validIndices.map(i => validIndices.map(j => customCorrelations[i]?.[j] ?? (i === j ? 1 : 0)))
+          : undefined,
+        seed
       };
 
-      const portfolioResults = await runPortfolioSimulation(params);
+      const portfolioResults = await runPortfolioSimulationParallel(params, {
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
       setResults(portfolioResults);
       
+      if (portfolioResults.correlationAdjusted) {
+        toast({
+          title: "Correlation Matrix Adjusted",
+          description: "The correlation matrix was not positive definite, so the nearest valid matrix was used.",
+        });
+      }
+      
       toast({
         title: "Simulation Complete",
-        description: `Generated ${numSimulations} portfolio scenarios`,
+        description: `Generated ${numSimulations} portfolio scenarios (seed ${portfolioResults.seed})`,
       });
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Simulation Cancelled",
+          description: "The portfolio simulation was stopped",
+        });
+        return;
+      }
       console.error('Simulation error:', error);
       toast({
         title: "Simulation Failed",
@@ -140,10 +204,18 @@ export const PortfolioSimulator: React.FC = () => {
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const cancelSimulation = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Stop any running simulation when the component unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   const calculateFrontier = async () => {
     const validAssets = assets.filter(asset => asset.ticker.trim());
     
@@ -351,6 +423,35 @@ export const PortfolioSimulator: React.FC = () => {
                       </Select>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label htmlFor="correlationMethod">Correlations</Label>
+                      <Select 
+                        value={correlationMethod} 
+                        onValueChange={(value: PortfolioParams['correlationMethod']) => setCorrelationMethod(value)}
+                      >
+                        <SelectTrigger id="correlationMethod">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="historical">Sector Estimates</SelectItem>
+                          <SelectItem value="custom">Custom Matrix</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="portfolioSeed">Random Seed</Label>
+                      <Input
+                        id="portfolioSeed"
+                        type="number"
+                        min="0"
+                        placeholder={results ? `Last run: ${results.seed}` : 'Random each run'}
+                        value={seed ?? ''}
+                        onChange={(e) => setSeed(parseSeed(e.target.value))}
+                        className="font-mono"
+                      />
+                    </div>
+
                     <Button 
                       onClick={runSimulation} 
                       disabled={isLoading || !isWeightValid}
@@ -368,8 +469,69 @@ export const PortfolioSimulator: React.FC = () => {
                         </>
                       )}
                     </Button>
+
+                    {isLoading && (
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between text-sm text-muted-foreground">
+                          <span>Simulating scenarios...</span>
+                          <span>{Math.round(progress * 100)}%</span>
+                        </div>
+                        <Progress value={progress * 100} />
+                        <Button variant="outline" size="sm" onClick={cancelSimulation} className="w-full">
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
+
+                {correlationMethod === 'custom' && customCorrelations.length === assets.length && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">Correlation Matrix</CardTitle>
+                      <CardDescription>
+                        Values between -1 and 1. Invalid matrices are replaced by the nearest positive-definite one.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="overflow-x-auto">
+                        <table className="text-xs">
+                          <thead>
+                            <tr>
+                              <th />
+                              {assets.map((asset, j) => (
+                                <th key={j} className="px-1 pb-1 font-mono font-medium">{asset.ticker || `#${j + 1}`}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {assets.map((asset, i) => (
+                              <tr key={i}>
+                                <td className="pr-2 font-mono font-medium">{asset.ticker || `#${i + 1}`}</td>
+                                {assets.map((_, j) => (
+                                  <td key={j} className="p-0.5">
+                                    <Input
+                                      type="number"
+                                      step="0.05"
+                                      min="-1"
+                                      max="1"
+                                      value={customCorrelations[i][j]}
+                                      disabled={i === j || pairKey(i, j) === null}
+                                      title={pairKey(i, j) === null && i !== j ? 'Enter both tickers to set this correlation' : undefined}
+                                      onChange={(e) => updateCorrelation(i, j, parseFloat(e.target.value) || 0)}
+                                      className="h-7 w-16 px-1 text-xs"
+                                    />
+                                  </td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             </div>
           </TabsContent>
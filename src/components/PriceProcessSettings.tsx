@@ -0,0 +1,180 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  PriceProcessConfig,
+  PriceProcessType,
+  MarketRegime,
+  PRICE_PROCESS_LABELS,
+  DEFAULT_PROCESS_CONFIGS,
+  PARAMETRIC_PROCESS_TYPES
+} from '@/lib/priceProcesses';
+import { BootstrapMethod, BOOTSTRAP_METHOD_LABELS } from '@/lib/bootstrap';
+
+interface PriceProcessSettingsProps {
+  value: PriceProcessConfig;
+  onChange: (config: PriceProcessConfig) => void;
+  // Models offered in the selector; bootstrap should only be offered when a price history is available
+  availableTypes?: PriceProcessType[];
+}
+
+const MODEL_DESCRIPTIONS: Record<PriceProcessType, string> = {
+  gbm: 'Log-normal prices with constant drift and volatility.',
+  merton: 'GBM plus Poisson-timed log-normal jumps; drift is compensated so the expected return is unchanged.',
+  heston: 'Mean-reverting stochastic variance correlated with price shocks. Long-run volatility is the annual volatility input.',
+  garch: 'Volatility clustering: daily variance reacts to recent shocks. Long-run volatility is the annual volatility input.',
+  regimeSwitching: 'Two-state Markov chain between calm and turbulent markets. Regime settings replace the ticker return and volatility.',
+  bootstrap: 'Resamples daily returns from the loaded price history instead of assuming a distribution.',
+};
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  step?: string;
+  onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ id, label, value, step = '0.01', onChange }) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      step={step}
+      value={Number.isFinite(value) ? value : ''}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="transition-all hover:border-primary/50 focus:border-primary"
+    />
+  </div>
+);
+
+export const PriceProcessSettings: React.FC<PriceProcessSettingsProps> = ({
+  value,
+  onChange,
+  availableTypes = PARAMETRIC_PROCESS_TYPES
+}) => {
+  // Update one numeric field of the current model
+  const update = (field: string, fieldValue: number) => {
+    onChange({ ...value, [field]: fieldValue } as PriceProcessConfig);
+  };
+
+  const updateRegime = (index: 0 | 1, field: keyof MarketRegime, fieldValue: number) => {
+    if (value.type !== 'regimeSwitching') return;
+    const regimes = [...value.regimes] as [MarketRegime, MarketRegime];
+    regimes[index] = { ...regimes[index], [field]: fieldValue };
+    onChange({ ...value, regimes });
+  };
+
+  const updateSwitchProbability = (index: 0 | 1, probability: number) => {
+    if (value.type !== 'regimeSwitching') return;
+    const switchProbabilities = [...value.switchProbabilities] as [number, number];
+    switchProbabilities[index] = probability;
+    onChange({ ...value, switchProbabilities });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="priceProcess">Price Model</Label>
+        <Select
+          value={value.type}
+          onValueChange={(type: PriceProcessType) => onChange(DEFAULT_PROCESS_CONFIGS[type])}
+        >
+          <SelectTrigger id="priceProcess">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {availableTypes.map(type => (
+              <SelectItem key={type} value={type}>{PRICE_PROCESS_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">{MODEL_DESCRIPTIONS[value.type]}</p>
+      </div>
+
+      {value.type === 'merton' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <NumberField id="jumpIntensity" label="Jumps per Year" step="0.5" value={value.jumpIntensity} onChange={(v) => update('jumpIntensity', v)} />
+          <NumberField id="jumpMean" label="Mean Log Jump" value={value.jumpMean} onChange={(v) => update('jumpMean', v)} />
+          <NumberField id="jumpStd" label="Jump Volatility" value={value.jumpStd} onChange={(v) => update('jumpStd', v)} />
+        </div>
+      )}
+
+      {value.type === 'heston' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <NumberField id="meanReversion" label="Mean Reversion (κ)" step="0.1" value={value.meanReversion} onChange={(v) => update('meanReversion', v)} />
+          <NumberField id="volOfVol" label="Vol of Vol (ξ)" value={value.volOfVol} onChange={(v) => update('volOfVol', v)} />
+          <NumberField id="correlation" label="Price/Variance Correlation (ρ)" step="0.05" value={value.correlation} onChange={(v) => update('correlation', v)} />
+        </div>
+      )}
+
+      {value.type === 'garch' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <NumberField id="garchAlpha" label="Shock Weight (α)" value={value.alpha} onChange={(v) => update('alpha', v)} />
+          <NumberField id="garchBeta" label="Persistence (β)" value={value.beta} onChange={(v) => update('beta', v)} />
+        </div>
+      )}
+
+      {value.type === 'bootstrap' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="bootstrapMethod">Resampling Method</Label>
+            <Select
+              value={value.method}
+              onValueChange={(method: BootstrapMethod) => onChange({ ...value, method })}
+            >
+              <SelectTrigger id="bootstrapMethod">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(BOOTSTRAP_METHOD_LABELS) as BootstrapMethod[]).map(method => (
+                  <SelectItem key={method} value={method}>{BOOTSTRAP_METHOD_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {value.method === 'stationaryBlock' && (
+            <NumberField id="meanBlockLength" label="Mean Block Length (Days)" step="1" value={value.meanBlockLength} onChange={(v) => update('meanBlockLength', v)} />
+          )}
+          {value.method === 'filteredHistorical' && (
+            <NumberField id="ewmaDecay" label="EWMA Decay (λ)" value={value.ewmaDecay} onChange={(v) => update('ewmaDecay', v)} />
+          )}
+        </div>
+      )}
+
+      {value.type === 'regimeSwitching' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {(['Calm', 'Turbulent'] as const).map((name, i) => {
+            const index = i as 0 | 1;
+            return (
+              <div key={name} className="space-y-3 rounded-lg border p-3">
+                <p className="text-sm font-medium">{name} Regime</p>
+                <NumberField
+                  id={`regime${index}Return`}
+                  label="Annual Return (decimal)"
+                  value={value.regimes[index].expectedReturn}
+                  onChange={(v) => updateRegime(index, 'expectedReturn', v)}
+                />
+                <NumberField
+                  id={`regime${index}Volatility`}
+                  label="Annual Volatility (decimal)"
+                  value={value.regimes[index].volatility}
+                  onChange={(v) => updateRegime(index, 'volatility', v)}
+                />
+                <NumberField
+                  id={`regime${index}Switch`}
+                  label="Daily Switch Probability"
+                  step="0.005"
+                  value={value.switchProbabilities[index]}
+                  onChange={(v) => updateSwitchProbability(index, v)}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
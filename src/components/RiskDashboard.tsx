@@ -25,11 +25,12 @@ import {
   RiskManager, 
   PositionSizer, 
   PortfolioOptimizer, 
-  StressTester,
   RiskMetrics,
   PositionSizing,
-  PortfolioOptimization
+  PortfolioOptimization,
+  StressTestResults
 } from '@/lib/riskManagement';
+import { runStressTestParallel } from '@/lib/parallelSimulation';
 import { 
   Shield, 
   TrendingDown, 
@@ -56,7 +57,7 @@ export const RiskDashboard: React.FC = () => {
   const [riskMetrics, setRiskMetrics] = useState<RiskMetrics | null>(null);
   const [positionSizing, setPositionSizing] = useState<PositionSizing | null>(null);
   const [portfolioOptimization, setPortfolioOptimization] = useState<PortfolioOptimization | null>(null);
-  const [stressTestResults, setStressTestResults] = useState<any>(null);
+  const [stressTestResults, setStressTestResults] = useState<StressTestResults | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
   // Generate sample data for demonstration
@@ -64,7 +65,7 @@ export const RiskDashboard: React.FC = () => {
     generateSampleData();
   }, []);
 
-  const generateSampleData = () => {
+  const generateSampleData = async () => {
     setIsLoading(true);
     
     // Generate random returns for demonstration
@@ -103,10 +104,14 @@ export const RiskDashboard: React.FC = () => {
     // Stress testing
     const portfolio = { weights: portfolioData.weights, assets: portfolioData.assets };
     const assetReturns = portfolioData.assets.map(() => returns);
-    const stressResults = StressTester.monteCarloStressTest(portfolio, assetReturns, 1000, 252);
-    setStressTestResults(stressResults);
-
-    setIsLoading(false);
+    try {
+      const stressResults = await runStressTestParallel(portfolio, assetReturns, 1000, 252);
+      setStressTestResults(stressResults);
+    } catch (error) {
+      console.error('Stress test error:', error);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
@@ -498,7 +503,7 @@ export const RiskDashboard: React.FC = () => {
                     Monte Carlo Stress Test Scenarios
                   </CardTitle>
                   <CardDescription>
-                    Portfolio performance under 1,000 simulated scenarios over 1 year
+                    Portfolio performance under 1,000 simulated scenarios over 1 year (seed {stressTestResults.seed})
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -4,14 +4,20 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Area, AreaChart } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Area, ComposedChart } from 'recharts';
 import { TrendingUp, Activity, Eye, EyeOff, Settings, Maximize, BarChart3 } from 'lucide-react';
+import { PriceProcessConfig, PRICE_PROCESS_LABELS, describePriceProcess } from '@/lib/priceProcesses';
+import { SimulationBands, SimulationOutputMode } from '@/lib/monteCarlo';
 
 interface SimulationData {
   paths: number[][];
   finalPrices: number[];
   currentPrice: number;
   companyName?: string;
+  seed?: number;
+  process?: PriceProcessConfig;
+  bands?: SimulationBands;
+  outputMode?: SimulationOutputMode;
   statistics: {
     averageEndingPrice: number;
     probabilityOfGain: number;
@@ -28,7 +34,8 @@ interface SimulationChartProps {
 }
 
 export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData, ticker }) => {
-  const { paths, currentPrice, statistics, companyName } = simulationData;
+  const { paths, finalPrices, currentPrice, statistics, companyName, seed, process, bands, outputMode } = simulationData;
+  const totalPaths = finalPrices.length;
   
   // State for interactive controls
   const [sampleSize, setSampleSize] = useState(Math.min(50, paths.length));
@@ -50,20 +57,34 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
         });
       }
       
-      // Add statistical bounds with smooth interpolation
-      const progress = day / (paths[0].length - 1);
-      dataPoint.p5 = currentPrice + (statistics.percentile5 - currentPrice) * progress;
-      dataPoint.p95 = currentPrice + (statistics.percentile95 - currentPrice) * progress;
-      dataPoint.average = currentPrice + (statistics.averageEndingPrice - currentPrice) * progress;
+      if (bands) {
+        // Per-day percentile bands computed during the simulation
+        dataPoint.p5 = bands.p5[day];
+        dataPoint.p25 = bands.p25[day];
+        dataPoint.median = bands.p50[day];
+        dataPoint.p75 = bands.p75[day];
+        dataPoint.p95 = bands.p95[day];
+        dataPoint.average = bands.mean[day];
+      } else {
+        // Results saved before bands existed: interpolate the ending statistics
+        const progress = day / (paths[0].length - 1);
+        dataPoint.p5 = currentPrice + (statistics.percentile5 - currentPrice) * progress;
+        dataPoint.p95 = currentPrice + (statistics.percentile95 - currentPrice) * progress;
+        dataPoint.average = currentPrice + (statistics.averageEndingPrice - currentPrice) * progress;
+      }
       
-      // Confidence band for area chart
-      dataPoint.confidenceBand = [dataPoint.p5, dataPoint.p95];
+      // Fan chart ranges for the area chart
+      dataPoint.outerBand = [dataPoint.p5, dataPoint.p95];
+      if (bands) dataPoint.innerBand = [dataPoint.p25, dataPoint.p75];
       
       return dataPoint;
     });
-  }, [paths, sampleSize, showPaths, currentPrice, statistics]);
+  }, [paths, sampleSize, showPaths, currentPrice, statistics, bands]);
 
   const formatPrice = (value: number) => `$${value.toFixed(2)}`;
+  // Range areas pass [low, high] pairs to the tooltip
+  const formatBandValue = (value: number | number[]) =>
+    Array.isArray(value) ? `${formatPrice(value[0])} - ${formatPrice(value[1])}` : formatPrice(value);
   const formatDay = (day: number) => {
     if (day === 0) return 'Today';
     if (day < 30) return `${day}d`;
@@ -86,8 +107,18 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
                 {companyName || ticker}
               </Badge>
               <Badge variant="secondary">
-                {paths.length.toLocaleString()} simulations
+                {totalPaths.toLocaleString()} simulations
               </Badge>
+              {process && (
+                <Badge variant="outline" title={describePriceProcess(process)}>
+                  {PRICE_PROCESS_LABELS[process.type]}
+                </Badge>
+              )}
+              {seed !== undefined && (
+                <Badge variant="outline" className="font-mono">
+                  seed {seed}
+                </Badge>
+              )}
             </div>
           </CardTitle>
         </CardHeader>
@@ -163,7 +194,9 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
               Simulated Price Paths
             </CardTitle>
             <CardDescription>
-              {sampleSize} of {paths.length.toLocaleString()} simulation paths for {ticker}
+              {outputMode === 'streaming'
+                ? `${Math.min(sampleSize, paths.length)} of ${paths.length} sampled paths (${totalPaths.toLocaleString()} simulated) for ${ticker}`
+                : `${sampleSize} of ${totalPaths.toLocaleString()} simulation paths for ${ticker}`}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -230,14 +263,16 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
               Statistical Projections
             </CardTitle>
             <CardDescription>
-              Confidence intervals and expected price trajectory
+              {bands
+                ? 'Daily percentile fan (P5-P95, P25-P75, median) and expected price'
+                : 'Confidence intervals and expected price trajectory'}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="h-80 md:h-96">
               <ResponsiveContainer width="100%" height="100%">
                 {chartType === 'area' ? (
-                  <AreaChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                  <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                     <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
                     <XAxis 
                       dataKey="day" 
@@ -252,10 +287,13 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
                       formatter={(value: number, name: string) => {
                         const labels: Record<string, string> = {
                           p5: '5th Percentile (Worst Case)',
+                          p25: '25th Percentile',
+                          median: 'Median',
+                          p75: '75th Percentile',
                           average: 'Expected Value',
                           p95: '95th Percentile (Best Case)'
                         };
-                        return [formatPrice(value), labels[name] || name];
+                        return [formatBandValue(value), labels[name] || name];
                       }}
                       labelFormatter={(day) => `Day ${day}`}
                       contentStyle={{
@@ -265,22 +303,30 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
                       }}
                     />
                     
-                    {/* Confidence band */}
+                    {/* Fan chart: outer P5-P95 band, inner P25-P75 band */}
                     <Area
                       type="monotone"
-                      dataKey="p95"
-                      stackId="1"
-                      stroke="hsl(var(--success))"
-                      fill="hsl(var(--success) / 0.2)"
-                      name="p95"
+                      dataKey="outerBand"
+                      stroke="none"
+                      fill="hsl(var(--primary) / 0.15)"
+                      name="P5 - P95"
                     />
-                    <Area
+                    {bands && (
+                      <Area
+                        type="monotone"
+                        dataKey="innerBand"
+                        stroke="none"
+                        fill="hsl(var(--primary) / 0.3)"
+                        name="P25 - P75"
+                      />
+                    )}
+                    <Line
                       type="monotone"
-                      dataKey="p5"
-                      stackId="1"
-                      stroke="hsl(var(--destructive))"
-                      fill="hsl(var(--background))"
-                      name="p5"
+                      dataKey={bands ? 'median' : 'average'}
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      dot={false}
+                      name={bands ? 'median' : 'average'}
                     />
                     
                     {/* Reference line for current price */}
@@ -289,7 +335,7 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
                       stroke="hsl(var(--muted-foreground))" 
                       strokeDasharray="5 5"
                     />
-                  </AreaChart>
+                  </ComposedChart>
                 ) : (
                   <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
                     <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
@@ -306,10 +352,13 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
                       formatter={(value: number, name: string) => {
                         const labels: Record<string, string> = {
                           p5: '5th Percentile (Worst Case)',
+                          p25: '25th Percentile',
+                          median: 'Median',
+                          p75: '75th Percentile',
                           average: 'Expected Value',
                           p95: '95th Percentile (Best Case)'
                         };
-                        return [formatPrice(value), labels[name] || name];
+                        return [formatBandValue(value), labels[name] || name];
                       }}
                       labelFormatter={(day) => `Day ${day}`}
                       contentStyle={{
@@ -344,8 +393,40 @@ export const SimulationChart: React.FC<SimulationChartProps> = ({ simulationData
                           dot={false}
                           name="p95"
                         />
+                        {bands && (
+                          <>
+                            <Line
+                              type="monotone"
+                              dataKey="p25"
+                              stroke="hsl(var(--destructive) / 0.6)"
+                              strokeWidth={2}
+                              strokeDasharray="4 4"
+                              dot={false}
+                              name="p25"
+                            />
+                            <Line
+                              type="monotone"
+                              dataKey="p75"
+                              stroke="hsl(var(--success) / 0.6)"
+                              strokeWidth={2}
+                              strokeDasharray="4 4"
+                              dot={false}
+                              name="p75"
+                            />
+                          </>
+                        )}
                       </>
                     )}
+                    {bands && (
+                      <Line
+                        type="monotone"
+                        dataKey="median"
+                        stroke="hsl(var(--muted-foreground))"
+                        strokeWidth={2}
+                        dot={false}
+                        name="median"
+                      />
+                    )}
                     <Line
                       type="monotone"
                       dataKey="average"
@@ -12,7 +12,8 @@ import {
   DollarSign,
   AlertTriangle
 } from 'lucide-react';
-import { calculateRiskMetrics } from '@/lib/monteCarlo';
+import { calculateRiskMetrics, SimulationStandardErrors } from '@/lib/monteCarlo';
+import { VarianceReductionMethod, VARIANCE_REDUCTION_LABELS } from '@/lib/varianceReduction';
 
 interface SimulationData {
   paths: number[][];
@@ -26,6 +27,8 @@ interface SimulationData {
     maxPrice: number;
     minPrice: number;
   };
+  standardErrors?: SimulationStandardErrors;
+  varianceReduction?: VarianceReductionMethod;
 }
 
 interface SimulationResultsProps {
@@ -34,12 +37,17 @@ interface SimulationResultsProps {
 }
 
 export const SimulationResults: React.FC<SimulationResultsProps> = ({ simulationData, ticker }) => {
-  const { statistics, finalPrices, currentPrice } = simulationData;
+  const { statistics, finalPrices, currentPrice, standardErrors, varianceReduction } = simulationData;
   const riskMetrics = calculateRiskMetrics(finalPrices, currentPrice);
   
   const formatPrice = (price: number) => `$${price.toFixed(2)}`;
   const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
   
+  // "± standard error" suffix, omitted when no estimate is available
+  const formatError = (error: number | undefined, format: (value: number) => string) =>
+    error !== undefined && Number.isFinite(error) ? ` ± ${format(error)}` : '';
+  const formatPreciseError = (error: number | undefined) => formatError(error, value => `$${value.toFixed(3)}`);
+  
   const potentialGain = ((statistics.averageEndingPrice - currentPrice) / currentPrice) * 100;
   const confidenceInterval = statistics.percentile95 - statistics.percentile5;
   
@@ -127,14 +135,16 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ simulation
               <div className="flex justify-between items-center">
                 <span className="text-sm font-medium">Average Ending Price</span>
                 <Badge variant={potentialGain > 0 ? "default" : "destructive"}>
-                  {formatPrice(statistics.averageEndingPrice)}
+                  {formatPrice(statistics.averageEndingPrice)}{formatPreciseError(standardErrors?.averageEndingPrice)}
                 </Badge>
               </div>
               
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>5th Percentile (Worst Case)</span>
-                  <span className="text-destructive">{formatPrice(statistics.percentile5)}</span>
+                  <span className="text-destructive">
+                    {formatPrice(statistics.percentile5)}{formatPreciseError(standardErrors?.percentile5)}
+                  </span>
                 </div>
                 <Progress 
                   value={((statistics.percentile5 - statistics.minPrice) / (statistics.maxPrice - statistics.minPrice)) * 100} 
@@ -145,7 +155,9 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ simulation
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span>95th Percentile (Best Case)</span>
-                  <span className="text-success">{formatPrice(statistics.percentile95)}</span>
+                  <span className="text-success">
+                    {formatPrice(statistics.percentile95)}{formatPreciseError(standardErrors?.percentile95)}
+                  </span>
                 </div>
                 <Progress 
                   value={((statistics.percentile95 - statistics.minPrice) / (statistics.maxPrice - statistics.minPrice)) * 100} 
@@ -161,6 +173,26 @@ export const SimulationResults: React.FC<SimulationResultsProps> = ({ simulation
                   </span>
                 </div>
               </div>
+              
+              {standardErrors && (
+                <div className="pt-4 border-t space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium">Sampling Precision</span>
+                    <Badge variant="outline">
+                      {VARIANCE_REDUCTION_LABELS[varianceReduction ?? 'none']}
+                    </Badge>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span>Probability of Gain</span>
+                    <span className="text-muted-foreground">
+                      {formatPercentage(statistics.probabilityOfGain)}{formatError(standardErrors.probabilityOfGain, value => `${(value * 100).toFixed(2)}%`)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    ± values are Monte Carlo standard errors estimated from independent batches of paths.
+                  </p>
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
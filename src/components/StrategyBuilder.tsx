@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { 
   Plus, 
   Minus, 
@@ -18,191 +19,328 @@ import {
   TrendingUp,
   BarChart3
 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
 import { TradingStrategy } from '@/lib/backtesting';
-
-interface Condition {
-  id: string;
-  indicator: string;
-  operator: string;
-  value: number | string;
-  timeframe?: string;
-}
-
-interface StrategyRule {
-  id: string;
-  action: 'BUY' | 'SELL';
-  conditions: Condition[];
-  positionSize: number;
-}
-
-interface CustomStrategyParams {
-  name: string;
-  description: string;
-  rules: StrategyRule[];
-}
+import {
+  COMPARISON_OPERATOR_LABELS,
+  ComparisonOperator,
+  Condition,
+  ConditionGroup,
+  DEFAULT_POSITION_SIZE,
+  INDICATOR_DEFINITIONS,
+  IndicatorKind,
+  IndicatorRef,
+  StrategyRule,
+  createIndicatorRef,
+  describeGroup,
+  validateRules
+} from '@/lib/customStrategy';
+import { formatDiagnostic, formatStrategy, parseStrategy } from '@/lib/strategyDsl';
+import { TIMEFRAMES, TIMEFRAME_LABELS, Timeframe, isIntradayTimeframe } from '@/lib/resampling';
+import {
+  StrategyDefinition,
+  createDefinition,
+  getSavedStrategies,
+  latestVersion,
+  saveStrategy,
+  toTradingStrategy
+} from '@/lib/strategyLibrary';
+import { StrategyLibrary } from './StrategyLibrary';
 
 interface StrategyBuilderProps {
   onStrategyCreated: (strategy: TradingStrategy) => void;
 }
 
-class CustomStrategy extends TradingStrategy {
-  name: string;
-  description: string;
-  parameters: { [key: string]: any };
-  private rules: StrategyRule[];
-
-  constructor(params: CustomStrategyParams) {
-    super();
-    this.name = params.name;
-    this.description = params.description;
-    this.rules = params.rules;
-    this.parameters = { positionSize: 0.8 };
-  }
-
-  generateSignal(prices: any[], currentIndex: number, position?: any): 'BUY' | 'SELL' | 'HOLD' {
-    // Simplified signal generation based on rules
-    // In a real implementation, this would evaluate the actual conditions
-    
-    for (const rule of this.rules) {
-      const conditionsMet = rule.conditions.every(condition => {
-        // Evaluate condition based on indicator and operator
-        return this.evaluateCondition(condition, prices, currentIndex);
-      });
-
-      if (conditionsMet) {
-        if (rule.action === 'BUY' && (!position || position.quantity === 0)) {
-          return 'BUY';
-        } else if (rule.action === 'SELL' && position && position.quantity > 0) {
-          return 'SELL';
-        }
-      }
-    }
+const CODE_PLACEHOLDER = `# One rule per line; the first rule that holds trades at the next open
+# Add @1w or @1mo after a series to compute it on weekly or monthly bars
+buy when crossover(sma(close, 20), sma(close, 50)) and rsi(14) < 70 size 80%
+sell when sma(close, 20) crosses below sma(close, 50) or rsi(14) > 80 for 3 bars`;
+
+const generateId = () => `id_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const createCondition = (): Condition => ({
+  id: generateId(),
+  kind: 'condition',
+  left: createIndicatorRef('sma'),
+  operator: '>',
+  right: { type: 'constant', value: 100 }
+});
+
+const createGroup = (logic: 'AND' | 'OR' = 'AND'): ConditionGroup => ({ id: generateId(), kind: 'group', logic, items: [] });
+
+const createRule = (): StrategyRule => ({ id: '', action: 'BUY', when: createGroup(), positionSize: DEFAULT_POSITION_SIZE });
+
+type GroupItem = Condition | ConditionGroup;
+
+// Replace the item with `id` anywhere in the tree
+const updateItem = (group: ConditionGroup, id: string, update: (item: GroupItem) => GroupItem): ConditionGroup => ({
+  ...group,
+  items: group.items.map(item => {
+    if (item.id === id) return update(item);
+    return item.kind === 'group' ? updateItem(item, id, update) : item;
+  })
+});
+
+const removeItem = (group: ConditionGroup, id: string): ConditionGroup => ({
+  ...group,
+  items: group.items
+    .filter(item => item.id !== id)
+    .map(item => (item.kind === 'group' ? removeItem(item, id) : item))
+});
+
+// Backtests run on daily bars, so the builder offers daily and longer timeframes. Select items cannot have
+// an empty value, so 'base' stands for the backtest's own bars.
+const BASE_TIMEFRAME = 'base';
+const PICKER_TIMEFRAMES = TIMEFRAMES.filter(timeframe => !isIntradayTimeframe(timeframe));
+
+const IndicatorPicker: React.FC<{ value: IndicatorRef; onChange: (ref: IndicatorRef) => void }> = ({ value, onChange }) => {
+  const definition = INDICATOR_DEFINITIONS[value.indicator];
+  const timeframes = value.timeframe && !PICKER_TIMEFRAMES.includes(value.timeframe) ? [...PICKER_TIMEFRAMES, value.timeframe] : PICKER_TIMEFRAMES;
+  const changeTimeframe = (timeframe: string) => {
+    const { timeframe: _, ...ref } = value;
+    onChange(timeframe === BASE_TIMEFRAME ? ref : { ...ref, timeframe: timeframe as Timeframe });
+  };
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <Select
+        value={value.indicator}
+        onValueChange={(indicator: IndicatorKind) => onChange({ ...createIndicatorRef(indicator), ...(value.timeframe && { timeframe: value.timeframe }) })}
+      >
+        <SelectTrigger className="w-36 h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(INDICATOR_DEFINITIONS) as IndicatorKind[]).map(indicator => (
+            <SelectItem key={indicator} value={indicator}>{INDICATOR_DEFINITIONS[indicator].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {definition.parameters.map(parameter => (
+        <Input
+          key={parameter.key}
+          type="number"
+          title={parameter.label}
+          aria-label={parameter.label}
+          min={parameter.min}
+          step={parameter.integer ? 1 : 0.1}
+          value={value.params[parameter.key]}
+          onChange={(e) => onChange({ ...value, params: { ...value.params, [parameter.key]: parseFloat(e.target.value) || 0 } })}
+          className="w-16 h-8 text-xs"
+        />
+      ))}
+      {definition.outputs.length > 1 && (
+        <Select value={value.output} onValueChange={(output) => onChange({ ...value, output })}>
+          <SelectTrigger className="w-28 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {definition.outputs.map(output => (
+              <SelectItem key={output.key} value={output.key}>{output.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Select value={value.timeframe ?? BASE_TIMEFRAME} onValueChange={changeTimeframe}>
+        <SelectTrigger className="w-28 h-8 text-xs" title="Timeframe the indicator is computed on">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={BASE_TIMEFRAME}>Base bars</SelectItem>
+          {timeframes.map(timeframe => (
+            <SelectItem key={timeframe} value={timeframe}>{TIMEFRAME_LABELS[timeframe]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
 
-    return 'HOLD';
-  }
+const ConditionEditor: React.FC<{
+  condition: Condition;
+  onChange: (condition: Condition) => void;
+  onRemove: () => void;
+}> = ({ condition, onChange, onRemove }) => (
+  <div className="flex flex-wrap items-center gap-2 p-2 border rounded-lg">
+    <IndicatorPicker value={condition.left} onChange={(left) => onChange({ ...condition, left })} />
+
+    <Select value={condition.operator} onValueChange={(operator: ComparisonOperator) => onChange({ ...condition, operator })}>
+      <SelectTrigger className="w-36 h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(COMPARISON_OPERATOR_LABELS) as ComparisonOperator[]).map(operator => (
+          <SelectItem key={operator} value={operator}>{COMPARISON_OPERATOR_LABELS[operator]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+
+    <Select
+      value={condition.right.type}
+      onValueChange={(type: 'constant' | 'indicator') => onChange({
+        ...condition,
+        right: type === 'constant' ? { type, value: 0 } : { type, ref: createIndicatorRef('sma') }
+      })}
+    >
+      <SelectTrigger className="w-24 h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="constant">Value</SelectItem>
+        <SelectItem value="indicator">Indicator</SelectItem>
+      </SelectContent>
+    </Select>
+    {condition.right.type === 'constant' ? (
+      <Input
+        type="number"
+        step="0.01"
+        value={condition.right.value}
+        onChange={(e) => onChange({ ...condition, right: { type: 'constant', value: parseFloat(e.target.value) || 0 } })}
+        className="w-24 h-8 text-xs"
+      />
+    ) : (
+      <IndicatorPicker value={condition.right.ref} onChange={(ref) => onChange({ ...condition, right: { type: 'indicator', ref } })} />
+    )}
+
+    <Select
+      value={condition.qualifier?.type ?? 'none'}
+      onValueChange={(type) => onChange({
+        ...condition,
+        qualifier: type === 'none' ? undefined : { type: type as 'for' | 'within', bars: condition.qualifier?.bars ?? 3 }
+      })}
+    >
+      <SelectTrigger className="w-28 h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">This bar</SelectItem>
+        <SelectItem value="for">For N bars</SelectItem>
+        <SelectItem value="within">Within N bars</SelectItem>
+      </SelectContent>
+    </Select>
+    {condition.qualifier && (
+      <Input
+        type="number"
+        min="1"
+        step="1"
+        aria-label="Bars"
+        value={condition.qualifier.bars}
+        onChange={(e) => onChange({ ...condition, qualifier: { ...condition.qualifier!, bars: parseInt(e.target.value) || 1 } })}
+        className="w-16 h-8 text-xs"
+      />
+    )}
+
+    <Button size="sm" variant="ghost" onClick={onRemove}>
+      <Minus className="h-4 w-4" />
+    </Button>
+  </div>
+);
+
+const ConditionGroupEditor: React.FC<{
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+}> = ({ group, onChange, onRemove }) => (
+  <div className={`space-y-2 ${onRemove ? 'p-2 border border-dashed rounded-lg' : ''}`}>
+    <div className="flex items-center gap-2">
+      <Select value={group.logic} onValueChange={(logic: 'AND' | 'OR') => onChange({ ...group, logic })}>
+        <SelectTrigger className="w-32 h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="AND">All of (AND)</SelectItem>
+          <SelectItem value="OR">Any of (OR)</SelectItem>
+        </SelectContent>
+      </Select>
+      {onRemove && (
+        <Button size="sm" variant="ghost" onClick={onRemove} className="ml-auto">
+          <Minus className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
 
-  getPositionSize(signal: 'BUY' | 'SELL' | 'HOLD', currentPrice: number, availableCash: number, currentPosition?: any): number {
-    if (signal === 'BUY') {
-      const cashToUse = availableCash * this.parameters.positionSize;
-      return Math.floor(cashToUse / currentPrice);
-    } else if (signal === 'SELL' && currentPosition) {
-      return currentPosition.quantity;
-    }
-    return 0;
-  }
-
-  private evaluateCondition(condition: Condition, prices: any[], currentIndex: number): boolean {
-    const closePrices = prices.map(p => p.close);
-    
-    // Simplified condition evaluation
-    switch (condition.indicator) {
-      case 'SMA':
-        const sma = this.sma(closePrices, 20, currentIndex);
-        if (!sma) return false;
-        return this.compareValues(sma, condition.operator, Number(condition.value));
-      
-      case 'RSI':
-        const rsi = this.rsi(closePrices, 14, currentIndex);
-        if (!rsi) return false;
-        return this.compareValues(rsi, condition.operator, Number(condition.value));
-      
-      case 'Price':
-        const currentPrice = prices[currentIndex]?.close;
-        if (!currentPrice) return false;
-        return this.compareValues(currentPrice, condition.operator, Number(condition.value));
-      
-      default:
-        return false;
-    }
-  }
-
-  private compareValues(actual: number, operator: string, target: number): boolean {
-    switch (operator) {
-      case '>': return actual > target;
-      case '<': return actual < target;
-      case '>=': return actual >= target;
-      case '<=': return actual <= target;
-      case '==': return Math.abs(actual - target) < 0.01;
-      default: return false;
-    }
-  }
-}
+    {group.items.map((item, index) => (
+      <div key={item.id} className="space-y-1">
+        {index > 0 && <span className="text-xs text-muted-foreground">{group.logic}</span>}
+        {item.kind === 'group' ? (
+          <ConditionGroupEditor
+            group={item}
+            onChange={(updated) => onChange(updateItem(group, item.id, () => updated))}
+            onRemove={() => onChange(removeItem(group, item.id))}
+          />
+        ) : (
+          <ConditionEditor
+            condition={item}
+            onChange={(updated) => onChange(updateItem(group, item.id, () => updated))}
+            onRemove={() => onChange(removeItem(group, item.id))}
+          />
+        )}
+      </div>
+    ))}
+
+    <div className="grid grid-cols-2 gap-2">
+      <Button size="sm" variant="outline" onClick={() => onChange({ ...group, items: [...group.items, createCondition()] })}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Condition
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onChange({ ...group, items: [...group.items, { ...createGroup(group.logic === 'AND' ? 'OR' : 'AND'), items: [createCondition()] }] })}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Group
+      </Button>
+    </div>
+  </div>
+);
 
 export const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ onStrategyCreated }) => {
   const [strategyName, setStrategyName] = useState('');
   const [strategyDescription, setStrategyDescription] = useState('');
   const [rules, setRules] = useState<StrategyRule[]>([]);
-  const [currentRule, setCurrentRule] = useState<StrategyRule>({
-    id: '',
-    action: 'BUY',
-    conditions: [],
-    positionSize: 0.8
-  });
-
-  const indicators = [
-    { value: 'SMA', label: 'Simple Moving Average' },
-    { value: 'EMA', label: 'Exponential Moving Average' },
-    { value: 'RSI', label: 'RSI' },
-    { value: 'Price', label: 'Current Price' },
-    { value: 'Volume', label: 'Volume' },
-    { value: 'MACD', label: 'MACD' }
-  ];
-
-  const operators = [
-    { value: '>', label: 'Greater Than' },
-    { value: '<', label: 'Less Than' },
-    { value: '>=', label: 'Greater Than or Equal' },
-    { value: '<=', label: 'Less Than or Equal' },
-    { value: '==', label: 'Equal To' }
-  ];
-
-  const generateId = () => `id_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-  const addCondition = () => {
-    const newCondition: Condition = {
-      id: generateId(),
-      indicator: 'SMA',
-      operator: '>',
-      value: 100
-    };
-
-    setCurrentRule(prev => ({
-      ...prev,
-      conditions: [...prev.conditions, newCondition]
-    }));
-  };
-
-  const removeCondition = (conditionId: string) => {
-    setCurrentRule(prev => ({
-      ...prev,
-      conditions: prev.conditions.filter(c => c.id !== conditionId)
-    }));
-  };
-
-  const updateCondition = (conditionId: string, field: keyof Condition, value: any) => {
-    setCurrentRule(prev => ({
-      ...prev,
-      conditions: prev.conditions.map(c => 
-        c.id === conditionId ? { ...c, [field]: value } : c
-      )
-    }));
+  const [currentRule, setCurrentRule] = useState<StrategyRule>(createRule);
+  const [editorMode, setEditorMode] = useState<'visual' | 'code'>('visual');
+  const [code, setCode] = useState('');
+  const [versionNote, setVersionNote] = useState('');
+  const [savedStrategies, setSavedStrategies] = useState(getSavedStrategies);
+  const { toast } = useToast();
+
+  const parsedCode = useMemo(() => (editorMode === 'code' ? parseStrategy(code) : null), [editorMode, code]);
+  const activeRules = parsedCode ? parsedCode.rules : rules;
+
+  // Both editors hold the same rules: switching prints them as code or parses the code back
+  const switchEditor = (mode: string) => {
+    if (mode === 'code') {
+      if (rules.length > 0 || !code.trim()) setCode(formatStrategy(rules));
+    } else if (code.trim()) {
+      const parsed = parseStrategy(code);
+      if (parsed.diagnostics.length > 0) {
+        toast({ title: "Fix the Code First", description: formatDiagnostic(parsed.diagnostics[0]), variant: "destructive" });
+        return;
+      }
+      setRules(parsed.rules);
+    } else {
+      setRules([]);
+    }
+    setEditorMode(mode as 'visual' | 'code');
   };
 
   const addRule = () => {
-    if (currentRule.conditions.length === 0) return;
+    if (currentRule.when.items.length === 0) return;
 
     const newRule: StrategyRule = {
       ...currentRule,
       id: generateId()
     };
+    try {
+      validateRules([newRule]);
+    } catch (error) {
+      toast({ title: "Invalid Rule", description: (error as Error).message, variant: "destructive" });
+      return;
+    }
 
     setRules(prev => [...prev, newRule]);
-    setCurrentRule({
-      id: '',
-      action: 'BUY',
-      conditions: [],
-      positionSize: 0.8
-    });
+    setCurrentRule(createRule());
   };
 
   const removeRule = (ruleId: string) => {
@@ -210,26 +348,30 @@ export const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ onStrategyCrea
   };
 
   const createStrategy = () => {
-    if (!strategyName.trim() || rules.length === 0) return;
-
-    const customStrategy = new CustomStrategy({
-      name: strategyName,
-      description: strategyDescription,
-      rules
-    });
-
-    onStrategyCreated(customStrategy);
-    
-    // Reset form
-    setStrategyName('');
-    setStrategyDescription('');
-    setRules([]);
-    setCurrentRule({
-      id: '',
-      action: 'BUY',
-      conditions: [],
-      positionSize: 0.8
-    });
+    if (!strategyName.trim() || activeRules.length === 0) return;
+
+    const definition = createDefinition(strategyName.trim(), strategyDescription, activeRules);
+    try {
+      const saved = saveStrategy(definition, versionNote);
+      setSavedStrategies(getSavedStrategies());
+      setVersionNote('');
+      onStrategyCreated(toTradingStrategy(latestVersion(saved).definition));
+      toast({
+        title: "Strategy Saved",
+        description: `${saved.name} version ${latestVersion(saved).version} is selected for backtesting`,
+      });
+    } catch (error) {
+      toast({ title: "Could Not Save Strategy", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  // Loading replaces whatever is in the editor; saving it again under the same name adds a version
+  const loadDefinition = (definition: StrategyDefinition) => {
+    setStrategyName(definition.name);
+    setStrategyDescription(definition.description);
+    setRules(definition.rules);
+    setCode(formatStrategy(definition.rules));
+    setCurrentRule(createRule());
   };
 
   return (
@@ -268,11 +410,21 @@ export const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ onStrategyCrea
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="versionNote">Version Note</Label>
+              <Input
+                id="versionNote"
+                placeholder="What changed in this version (optional)"
+                value={versionNote}
+                onChange={(e) => setVersionNote(e.target.value)}
+              />
+            </div>
+
             <Alert>
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>
-                Custom strategies are simplified for demonstration. Advanced indicator calculations 
-                and complex logic would require more sophisticated implementation.
+                Rules are checked in order after each close, and the first one that holds trades at the
+                next open. BUY rules apply while flat and SELL rules while long.
               </AlertDescription>
             </Alert>
           </CardContent>
@@ -286,128 +438,103 @@ export const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ onStrategyCrea
               Rule Builder
             </CardTitle>
             <CardDescription>
-              Build trading rules using technical indicators and conditions
+              Build trading rules using technical indicators and conditions, visually or as code
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="space-y-3">
-              <div className="flex items-center gap-3">
-                <Label className="text-sm">Action:</Label>
-                <Select 
-                  value={currentRule.action} 
-                  onValueChange={(value: 'BUY' | 'SELL') => 
-                    setCurrentRule(prev => ({ ...prev, action: value }))
-                  }
-                >
-                  <SelectTrigger className="w-24">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="BUY">BUY</SelectItem>
-                    <SelectItem value="SELL">SELL</SelectItem>
-                  </SelectContent>
-                </Select>
-                <Label className="text-sm">when:</Label>
-              </div>
+            <Tabs value={editorMode} onValueChange={switchEditor}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="visual">Visual</TabsTrigger>
+                <TabsTrigger value="code">Code</TabsTrigger>
+              </TabsList>
+              <TabsContent value="visual" className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <Label className="text-sm">Action:</Label>
+                  <Select 
+                    value={currentRule.action} 
+                    onValueChange={(value: 'BUY' | 'SELL') => 
+                      setCurrentRule(prev => ({ ...prev, action: value }))
+                    }
+                  >
+                    <SelectTrigger className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="BUY">BUY</SelectItem>
+                      <SelectItem value="SELL">SELL</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Label className="text-sm">when:</Label>
+                </div>
 
-              {/* Conditions */}
-              <div className="space-y-2">
-                {currentRule.conditions.map((condition, index) => (
-                  <div key={condition.id} className="flex items-center gap-2 p-2 border rounded-lg">
-                    {index > 0 && <span className="text-xs text-muted-foreground">AND</span>}
-                    
-                    <Select 
-                      value={condition.indicator} 
-                      onValueChange={(value) => updateCondition(condition.id, 'indicator', value)}
-                    >
-                      <SelectTrigger className="w-32">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {indicators.map(indicator => (
-                          <SelectItem key={indicator.value} value={indicator.value}>
-                            {indicator.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-
-                    <Select 
-                      value={condition.operator} 
-                      onValueChange={(value) => updateCondition(condition.id, 'operator', value)}
-                    >
-                      <SelectTrigger className="w-20">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {operators.map(operator => (
-                          <SelectItem key={operator.value} value={operator.value}>
-                            {operator.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-
-                    <Input
-                      type="number"
-                      step="0.01"
-                      value={condition.value}
-                      onChange={(e) => updateCondition(condition.id, 'value', parseFloat(e.target.value) || 0)}
-                      className="w-24"
-                    />
-
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => removeCondition(condition.id)}
-                    >
-                      <Minus className="h-4 w-4" />
-                    </Button>
-                  </div>
-                ))}
+                {/* Conditions */}
+                <ConditionGroupEditor
+                  group={currentRule.when}
+                  onChange={(when) => setCurrentRule(prev => ({ ...prev, when }))}
+                />
+
+                <div className="space-y-2">
+                  <Label htmlFor="positionSize">Position Size (%)</Label>
+                  <Input
+                    id="positionSize"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="5"
+                    value={currentRule.positionSize * 100}
+                    onChange={(e) => setCurrentRule(prev => ({ 
+                      ...prev, 
+                      positionSize: (parseFloat(e.target.value) || 0) / 100 
+                    }))}
+                  />
+                </div>
 
                 <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={addCondition}
+                  onClick={addRule}
+                  disabled={currentRule.when.items.length === 0}
                   className="w-full"
                 >
                   <Plus className="h-4 w-4 mr-1" />
-                  Add Condition
+                  Add Rule
                 </Button>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="positionSize">Position Size (%)</Label>
-                <Input
-                  id="positionSize"
-                  type="number"
-                  min="0"
-                  max="100"
-                  step="5"
-                  value={currentRule.positionSize * 100}
-                  onChange={(e) => setCurrentRule(prev => ({ 
-                    ...prev, 
-                    positionSize: (parseFloat(e.target.value) || 0) / 100 
-                  }))}
+              </TabsContent>
+              <TabsContent value="code" className="space-y-3">
+                <Textarea
+                  aria-label="Strategy code"
+                  placeholder={CODE_PLACEHOLDER}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  rows={10}
+                  spellCheck={false}
+                  className="font-mono text-xs"
                 />
-              </div>
-
-              <Button
-                onClick={addRule}
-                disabled={currentRule.conditions.length === 0}
-                className="w-full"
-              >
-                <Plus className="h-4 w-4 mr-1" />
-                Add Rule
-              </Button>
-            </div>
+                {parsedCode && code.trim() && (parsedCode.diagnostics.length > 0 ? (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription className="space-y-1">
+                      {parsedCode.diagnostics.map((diagnostic, i) => (
+                        <p key={i} className="font-mono text-xs">{formatDiagnostic(diagnostic)}</p>
+                      ))}
+                    </AlertDescription>
+                  </Alert>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {parsedCode.rules.length} rule{parsedCode.rules.length === 1 ? '' : 's'} compiled
+                  </p>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Indicators: close, open, high, low, volume, sma, ema, rsi, macd(...).signal, bb(...).upper,
+                  stoch(...).k, atr, vwap. Compare with &gt;, &lt;, &gt;=, &lt;=, ==, crosses above/below or
+                  crossover(a, b); combine with and/or and parentheses; add &quot;for N bars&quot; or &quot;within N bars&quot;.
+                </p>
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
       </div>
 
       {/* Existing Rules */}
-      {rules.length > 0 && (
+      {editorMode === 'visual' && rules.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -437,16 +564,7 @@ export const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ onStrategyCrea
                   </Button>
                 </div>
                 
-                <div className="text-sm space-y-1">
-                  {rule.conditions.map((condition, condIndex) => (
-                    <div key={condition.id} className="flex items-center gap-1">
-                      {condIndex > 0 && <span className="text-muted-foreground">AND</span>}
-                      <span>{condition.indicator}</span>
-                      <span>{condition.operator}</span>
-                      <span className="font-medium">{condition.value}</span>
-                    </div>
-                  ))}
-                </div>
+                <p className="text-sm font-mono">{describeGroup(rule.when)}</p>
                 
                 <div className="text-xs text-muted-foreground">
                   Position Size: {(rule.positionSize * 100).toFixed(0)}%
@@ -457,20 +575,26 @@ export const StrategyBuilder: React.FC<StrategyBuilderProps> = ({ onStrategyCrea
         </Card>
       )}
 
-      {/* Create Strategy */}
+      {/* Save Strategy */}
       <Card>
         <CardContent className="p-6">
           <Button
             onClick={createStrategy}
-            disabled={!strategyName.trim() || rules.length === 0}
+            disabled={!strategyName.trim() || activeRules.length === 0}
             size="lg"
             className="w-full"
           >
             <Save className="h-4 w-4 mr-2" />
-            Create Strategy
+            Save Strategy
           </Button>
         </CardContent>
       </Card>
+
+      <StrategyLibrary
+        strategies={savedStrategies}
+        onChanged={() => setSavedStrategies(getSavedStrategies())}
+        onLoad={loadDefinition}
+      />
     </div>
   );
 };
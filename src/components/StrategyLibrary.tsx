@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Library, Download, Upload, Trash2, History, FolderOpen } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  SavedStrategy,
+  StrategyDefinition,
+  deleteSavedStrategy,
+  diffDefinitions,
+  exportStrategyFile,
+  importStrategyFile,
+  latestVersion
+} from '@/lib/strategyLibrary';
+
+interface StrategyLibraryProps {
+  strategies: SavedStrategy[];
+  onChanged: () => void;
+  onLoad: (definition: StrategyDefinition) => void;
+}
+
+const downloadFile = (content: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const StrategyLibrary: React.FC<StrategyLibraryProps> = ({ strategies, onChanged, onLoad }) => {
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [fromVersion, setFromVersion] = useState<string>('');
+  const [toVersion, setToVersion] = useState<string>('');
+  const { toast } = useToast();
+
+  const selected = strategies.find(strategy => strategy.id === selectedId) ?? null;
+
+  const showHistory = (strategy: SavedStrategy) => {
+    setSelectedId(strategy.id);
+    const last = latestVersion(strategy).version;
+    setToVersion(String(last));
+    setFromVersion(String(Math.max(1, last - 1)));
+  };
+
+  const diff = useMemo(() => {
+    if (!selected) return [];
+    const from = selected.versions.find(version => String(version.version) === fromVersion);
+    const to = selected.versions.find(version => String(version.version) === toVersion);
+    return from && to ? diffDefinitions(from.definition, to.definition) : [];
+  }, [selected, fromVersion, toVersion]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const strategy = importStrategyFile(await file.text());
+      onChanged();
+      showHistory(strategy);
+      toast({
+        title: "Strategy Imported",
+        description: `${strategy.name} (version ${latestVersion(strategy).version}) is in your library`,
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Import Strategy",
+        description: error instanceof Error ? error.message : "The file could not be read",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = (strategy: SavedStrategy) => {
+    deleteSavedStrategy(strategy.id);
+    if (selectedId === strategy.id) setSelectedId('');
+    onChanged();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Library className="h-5 w-5" />
+          Strategy Library ({strategies.length})
+        </CardTitle>
+        <CardDescription>
+          Saved strategies keep every version and are available in backtests by name. Export a strategy to share
+          it as a file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="strategyFile" className="flex items-center gap-2 text-sm">
+            <Upload className="h-4 w-4" />
+            Import Strategy File
+          </Label>
+          <Input id="strategyFile" type="file" accept=".json,application/json" onChange={handleImport} />
+        </div>
+
+        {strategies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved strategies yet. Save one from the builder above.</p>
+        ) : (
+          <div className="space-y-2">
+            {strategies.map(strategy => {
+              const latest = latestVersion(strategy);
+              return (
+                <div key={strategy.id} className={`flex flex-wrap items-center gap-2 p-3 border rounded-lg ${strategy.id === selectedId ? 'border-primary' : ''}`}>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{strategy.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Updated {new Date(strategy.updatedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <Badge variant="outline">v{latest.version}</Badge>
+                  <Button size="sm" variant="outline" onClick={() => onLoad(latest.definition)}>
+                    <FolderOpen className="h-4 w-4 mr-1" />
+                    Load
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => showHistory(strategy)}>
+                    <History className="h-4 w-4 mr-1" />
+                    History
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => downloadFile(exportStrategyFile(strategy), `${strategy.name.replace(/[^A-Za-z0-9_-]+/g, '_')}.strategy.json`)}
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Export
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => handleDelete(strategy)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {selected && (
+          <div className="space-y-3 p-3 border rounded-lg">
+            <p className="text-sm font-medium">Version History: {selected.name}</p>
+            <div className="space-y-1">
+              {[...selected.versions].reverse().map(version => (
+                <div key={version.version} className="flex items-center gap-2 text-sm">
+                  <Badge variant="secondary">v{version.version}</Badge>
+                  <span className="text-xs text-muted-foreground">{new Date(version.savedAt).toLocaleString()}</span>
+                  <span className="text-xs flex-1 truncate">{version.note}</span>
+                  <Button size="sm" variant="ghost" onClick={() => onLoad(version.definition)}>
+                    Load
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {selected.versions.length > 1 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Compare</span>
+                  <Select value={fromVersion} onValueChange={setFromVersion}>
+                    <SelectTrigger className="w-20 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selected.versions.map(version => (
+                        <SelectItem key={version.version} value={String(version.version)}>v{version.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span>with</span>
+                  <Select value={toVersion} onValueChange={setToVersion}>
+                    <SelectTrigger className="w-20 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {selected.versions.map(version => (
+                        <SelectItem key={version.version} value={String(version.version)}>v{version.version}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="rounded-md bg-muted/50 p-2 font-mono text-xs overflow-x-auto">
+                  {diff.map((line, i) => (
+                    <div
+                      key={i}
+                      className={line.type === 'added' ? 'text-success' : line.type === 'removed' ? 'text-destructive' : 'text-muted-foreground'}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                      {line.text}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,532 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { SlidersHorizontal, Play, Loader2, XCircle, Grid3X3, Trophy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { BacktestParams, createStrategy } from '@/lib/backtesting';
+import { StrategyParameterValues } from '@/lib/backtestSweep';
+import {
+  DEFAULT_GENETIC_CONFIG,
+  GeneticConfig,
+  OptimizationMethod,
+  OptimizationObjective,
+  OptimizationResult,
+  OPTIMIZATION_METHOD_LABELS,
+  OPTIMIZATION_OBJECTIVE_LABELS,
+  ParameterRange,
+  buildObjectiveHeatmap,
+  optimizeStrategy
+} from '@/lib/strategyOptimizer';
+import { WalkForwardMode, WalkForwardResult, WALK_FORWARD_MODE_LABELS, runWalkForwardAnalysis } from '@/lib/walkForward';
+import { isAbortError } from '@/lib/workerPool';
+import { WalkForwardResults } from './WalkForwardResults';
+
+interface StrategyOptimizerProps {
+  strategyName: string;
+  strategyParams: StrategyParameterValues;
+  // Everything but the strategy, from the strategy setup; throws when the price data is not usable
+  resolveBacktestParams: () => Omit<BacktestParams, 'strategy'>;
+  onApplyParameters: (parameters: StrategyParameterValues) => void;
+}
+
+// Range around the current value: half to double, with steps that suit whole-number and fractional parameters
+const defaultRange = (name: string, value: number): ParameterRange => {
+  if (Number.isInteger(value) && value >= 2) {
+    return { name, min: Math.max(1, Math.round(value / 2)), max: value * 2, step: Math.max(1, Math.round(value / 10)) };
+  }
+  return { name, min: value / 2, max: value * 2, step: value / 4 };
+};
+
+const formatLabel = (key: string) => key.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+export const StrategyOptimizer: React.FC<StrategyOptimizerProps> = ({
+  strategyName,
+  strategyParams,
+  resolveBacktestParams,
+  onApplyParameters
+}) => {
+  const strategy = useMemo(() => createStrategy(strategyName), [strategyName]);
+  const numericParameters = useMemo(
+    () => Object.entries(strategy?.parameters ?? {}).filter(([, value]) => typeof value === 'number') as Array<[string, number]>,
+    [strategy]
+  );
+
+  const [ranges, setRanges] = useState<Record<string, ParameterRange & { enabled: boolean }>>({});
+  const [method, setMethod] = useState<OptimizationMethod>('grid');
+  const [objective, setObjective] = useState<OptimizationObjective>('sharpeRatio');
+  const [maxEvaluations, setMaxEvaluations] = useState(200);
+  const [genetic, setGenetic] = useState<GeneticConfig>(DEFAULT_GENETIC_CONFIG);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const [walkForward, setWalkForward] = useState(false);
+  const [walkForwardMode, setWalkForwardMode] = useState<WalkForwardMode>('rolling');
+  const [inSampleBars, setInSampleBars] = useState(252);
+  const [outOfSampleBars, setOutOfSampleBars] = useState(63);
+  const [walkForwardResult, setWalkForwardResult] = useState<WalkForwardResult | null>(null);
+  const [heatmapX, setHeatmapX] = useState('');
+  const [heatmapY, setHeatmapY] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const { toast } = useToast();
+
+  // Reset the ranges when the strategy changes; the first two numeric parameters are swept by default
+  useEffect(() => {
+    setRanges(Object.fromEntries(numericParameters.map(([name, value], index) => [
+      name,
+      { ...defaultRange(name, value), enabled: index < 2 && name !== 'positionSize' }
+    ])));
+    setResult(null);
+    setWalkForwardResult(null);
+  }, [numericParameters]);
+
+  // Stop any running optimization when the component unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updateRange = (name: string, field: 'min' | 'max' | 'step', text: string) => {
+    setRanges(prev => ({ ...prev, [name]: { ...prev[name], [field]: parseFloat(text) || 0 } }));
+  };
+
+  const toggleRange = (name: string, enabled: boolean) => {
+    setRanges(prev => ({ ...prev, [name]: { ...prev[name], enabled } }));
+  };
+
+  const runOptimization = async () => {
+    if (!strategy) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setProgress(0);
+    try {
+      const selected = Object.values(ranges)
+        .filter(range => range.enabled)
+        .map(({ name, min, max, step }) => ({ name, min, max, step }));
+      const sweptNames = new Set(selected.map(range => range.name));
+      const baseParameters = Object.fromEntries(
+        Object.entries({ ...strategy.parameters, ...strategyParams }).filter(([name]) => !sweptNames.has(name))
+      ) as StrategyParameterValues;
+
+      const optimizationParams = {
+        strategyName: strategy.name,
+        baseParameters,
+        ranges: selected,
+        objective,
+        method,
+        maxEvaluations,
+        genetic,
+        backtest: resolveBacktestParams()
+      };
+      const runOptions = { onProgress: setProgress, signal: controller.signal };
+
+      if (walkForward) {
+        const analysis = await runWalkForwardAnalysis({
+          optimization: optimizationParams,
+          mode: walkForwardMode,
+          inSampleBars,
+          outOfSampleBars
+        }, runOptions);
+        setWalkForwardResult(analysis);
+        setResult(null);
+        toast({
+          title: "Walk-Forward Complete",
+          description: `${analysis.windows.length} windows re-optimized (seed ${analysis.seed})`,
+        });
+        return;
+      }
+
+      const optimization = await optimizeStrategy(optimizationParams, runOptions);
+      setResult(optimization);
+      setWalkForwardResult(null);
+      setHeatmapX(selected[0]?.name ?? '');
+      setHeatmapY(selected[1]?.name ?? selected[0]?.name ?? '');
+
+      toast({
+        title: "Optimization Complete",
+        description: `${optimization.runs.length} parameter sets evaluated (seed ${optimization.seed})`,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Optimization Cancelled",
+          description: "The parameter sweep was stopped",
+        });
+        return;
+      }
+      console.error('Optimization error:', error);
+      toast({
+        title: "Optimization Failed",
+        description: error instanceof Error ? error.message : "An error occurred during the optimization.",
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const heatmap = useMemo(() => {
+    if (!result || !heatmapX || !heatmapY || heatmapX === heatmapY) return null;
+    return buildObjectiveHeatmap(result, heatmapX, heatmapY);
+  }, [result, heatmapX, heatmapY]);
+
+  const formatScore = (value: number) => {
+    if (!Number.isFinite(value)) return 'n/a';
+    return result?.objective === 'totalReturn'
+      ? `${(value * 100).toFixed(2)}%`
+      : value.toFixed(3);
+  };
+
+  // Red for the worst cell through green for the best
+  const heatColor = (value: number | null) => {
+    if (value === null || !heatmap) return undefined;
+    const t = heatmap.max > heatmap.min ? (value - heatmap.min) / (heatmap.max - heatmap.min) : 1;
+    return `hsl(${Math.round(t * 120)}, 65%, 45%)`;
+  };
+
+  if (!strategy || numericParameters.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <SlidersHorizontal className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Nothing to Optimize</h3>
+          <p className="text-muted-foreground text-center">
+            Select a strategy with numeric parameters in the strategy setup.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const topRuns = result?.runs.slice(0, 10) ?? [];
+  const resultRanges = result?.ranges ?? [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Optimize {strategy.name}
+          </CardTitle>
+          <CardDescription>
+            Sweep parameter ranges on the symbol, dates, costs and rules from the strategy setup. Runs use background workers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Parameter Ranges</Label>
+            {numericParameters.map(([name]) => {
+              const range = ranges[name];
+              if (!range) return null;
+              return (
+                <div key={name} className="grid grid-cols-4 gap-3 items-center">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`optimize-${name}`}
+                      checked={range.enabled}
+                      onCheckedChange={(checked) => toggleRange(name, checked)}
+                    />
+                    <Label htmlFor={`optimize-${name}`} className="text-xs capitalize">{formatLabel(name)}</Label>
+                  </div>
+                  {(['min', 'max', 'step'] as const).map(field => (
+                    <Input
+                      key={field}
+                      type="number"
+                      aria-label={`${formatLabel(name)} ${field}`}
+                      placeholder={field}
+                      disabled={!range.enabled}
+                      value={range[field]}
+                      onChange={(e) => updateRange(name, field, e.target.value)}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Search Method</Label>
+              <Select value={method} onValueChange={(value: OptimizationMethod) => setMethod(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OPTIMIZATION_METHOD_LABELS) as OptimizationMethod[]).map(key => (
+                    <SelectItem key={key} value={key}>{OPTIMIZATION_METHOD_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Objective</Label>
+              <Select value={objective} onValueChange={(value: OptimizationObjective) => setObjective(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OPTIMIZATION_OBJECTIVE_LABELS) as OptimizationObjective[]).map(key => (
+                    <SelectItem key={key} value={key}>{OPTIMIZATION_OBJECTIVE_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="maxEvaluations">
+                {method === 'grid' ? 'Max Grid Size' : method === 'random' ? 'Samples' : 'Max Distinct Runs'}
+              </Label>
+              <Input
+                id="maxEvaluations"
+                type="number"
+                min="1"
+                value={maxEvaluations}
+                onChange={(e) => setMaxEvaluations(parseInt(e.target.value) || 1)}
+              />
+            </div>
+          </div>
+
+          {method === 'genetic' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {([
+                { key: 'populationSize', label: 'Population' },
+                { key: 'generations', label: 'Generations' },
+                { key: 'mutationRate', label: 'Mutation Rate' },
+                { key: 'eliteCount', label: 'Elites' },
+              ] as Array<{ key: keyof GeneticConfig; label: string }>).map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`genetic-${key}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`genetic-${key}`}
+                    type="number"
+                    step={key === 'mutationRate' ? '0.05' : '1'}
+                    value={genetic[key]}
+                    onChange={(e) => setGenetic(prev => ({ ...prev, [key]: parseFloat(e.target.value) || 0 }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Switch id="walkForward" checked={walkForward} onCheckedChange={setWalkForward} />
+              <Label htmlFor="walkForward">Walk-forward analysis</Label>
+            </div>
+            {walkForward && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Windows</Label>
+                  <Select value={walkForwardMode} onValueChange={(value: WalkForwardMode) => setWalkForwardMode(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(WALK_FORWARD_MODE_LABELS) as WalkForwardMode[]).map(key => (
+                        <SelectItem key={key} value={key}>{WALK_FORWARD_MODE_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="inSampleBars">In-Sample Bars</Label>
+                  <Input
+                    id="inSampleBars"
+                    type="number"
+                    min="2"
+                    value={inSampleBars}
+                    onChange={(e) => setInSampleBars(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="outOfSampleBars">Out-of-Sample Bars</Label>
+                  <Input
+                    id="outOfSampleBars"
+                    type="number"
+                    min="2"
+                    value={outOfSampleBars}
+                    onChange={(e) => setOutOfSampleBars(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <Button onClick={runOptimization} disabled={isRunning} className="w-full">
+            {isRunning ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Optimizing...
+              </>
+            ) : (
+              <>
+                <Play className="h-4 w-4 mr-2" />
+                {walkForward ? 'Run Walk-Forward Analysis' : 'Run Optimization'}
+              </>
+            )}
+          </Button>
+
+          {isRunning && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>Running backtests...</span>
+                <span>{Math.round(progress * 100)}%</span>
+              </div>
+              <Progress value={progress * 100} />
+              <Button variant="outline" size="sm" onClick={() => abortControllerRef.current?.abort()} className="w-full">
+                <XCircle className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {walkForwardResult && <WalkForwardResults result={walkForwardResult} />}
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trophy className="h-5 w-5" />
+                Top Parameter Sets
+              </CardTitle>
+              <CardDescription>
+                Ranked by {OPTIMIZATION_OBJECTIVE_LABELS[result.objective]}. The best in-sample parameters are optimistic;
+                check them on other periods before trusting them.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline">{OPTIMIZATION_METHOD_LABELS[result.method]}</Badge>
+                <Badge variant="outline">{result.runs.length} runs</Badge>
+                <Badge variant="outline">{result.dataSource}</Badge>
+                {result.generationBest && (
+                  <Badge variant="outline">{result.generationBest.length} generations</Badge>
+                )}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    {resultRanges.map(range => (
+                      <TableHead key={range.name} className="capitalize">{formatLabel(range.name)}</TableHead>
+                    ))}
+                    <TableHead className="text-right">{OPTIMIZATION_OBJECTIVE_LABELS[result.objective]}</TableHead>
+                    <TableHead className="text-right">Return</TableHead>
+                    <TableHead className="text-right">Max DD</TableHead>
+                    <TableHead className="text-right">Trades</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {topRuns.map((run, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{index + 1}</TableCell>
+                      {resultRanges.map(range => (
+                        <TableCell key={range.name}>{String(run.parameters[range.name])}</TableCell>
+                      ))}
+                      <TableCell className="text-right font-medium">{formatScore(run.score)}</TableCell>
+                      <TableCell className={`text-right ${run.performance.totalReturn >= 0 ? 'text-success' : 'text-destructive'}`}>
+                        {(run.performance.totalReturn * 100).toFixed(2)}%
+                      </TableCell>
+                      <TableCell className="text-right">{(run.performance.maxDrawdown * 100).toFixed(2)}%</TableCell>
+                      <TableCell className="text-right">{run.performance.totalTrades}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => onApplyParameters(run.parameters)}>
+                          Apply
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {resultRanges.length >= 2 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Grid3X3 className="h-5 w-5" />
+                  Objective Heatmap
+                </CardTitle>
+                <CardDescription>
+                  Best {OPTIMIZATION_OBJECTIVE_LABELS[result.objective]} for each pair of values, over any other swept parameters.
+                  Empty cells were not evaluated.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  {([['X Axis', heatmapX, setHeatmapX], ['Y Axis', heatmapY, setHeatmapY]] as const).map(([label, value, setValue]) => (
+                    <div key={label} className="space-y-2">
+                      <Label>{label}</Label>
+                      <Select value={value} onValueChange={setValue}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {resultRanges.map(range => (
+                            <SelectItem key={range.name} value={range.name} className="capitalize">
+                              {formatLabel(range.name)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+
+                {heatmap ? (
+                  <div className="overflow-x-auto">
+                    <table className="text-xs border-separate border-spacing-0.5">
+                      <tbody>
+                        {heatmap.yValues.map((y, yi) => (
+                          <tr key={y}>
+                            <th className="pr-2 text-right font-normal text-muted-foreground">{y}</th>
+                            {heatmap.xValues.map((x, xi) => {
+                              const value = heatmap.cells[yi][xi];
+                              return (
+                                <td
+                                  key={x}
+                                  className="w-12 h-8 text-center text-white rounded-sm bg-muted"
+                                  style={{ backgroundColor: heatColor(value) }}
+                                  title={`${formatLabel(heatmap.xParam)} ${x}, ${formatLabel(heatmap.yParam)} ${y}`}
+                                >
+                                  {value === null ? '' : formatScore(value)}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                        <tr>
+                          <th className="text-muted-foreground font-normal capitalize">
+                            {formatLabel(heatmap.yParam)} / {formatLabel(heatmap.xParam)}
+                          </th>
+                          {heatmap.xValues.map(x => (
+                            <th key={x} className="font-normal text-muted-foreground">{x}</th>
+                          ))}
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Choose two different parameters.</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Footprints, ShieldQuestion } from 'lucide-react';
+import { OPTIMIZATION_OBJECTIVE_LABELS } from '@/lib/strategyOptimizer';
+import { WalkForwardResult, WALK_FORWARD_MODE_LABELS } from '@/lib/walkForward';
+
+interface WalkForwardResultsProps {
+  result: WalkForwardResult;
+}
+
+export const WalkForwardResults: React.FC<WalkForwardResultsProps> = ({ result }) => {
+  const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+  const formatRatio = (value: number | null) => (value === null || !Number.isFinite(value) ? 'n/a' : value.toFixed(2));
+  const formatCurrency = (value: number) => {
+    if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+    if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
+    return `$${value.toFixed(0)}`;
+  };
+
+  const { performance, overfitting } = result;
+
+  const summary = [
+    { label: 'OOS Total Return', value: formatPercent(performance.totalReturn) },
+    { label: 'OOS Sharpe Ratio', value: formatRatio(performance.sharpeRatio) },
+    { label: 'OOS Max Drawdown', value: formatPercent(performance.maxDrawdown) },
+    { label: 'Walk-Forward Efficiency', value: formatRatio(result.efficiency) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Footprints className="h-5 w-5" />
+            Walk-Forward Out-of-Sample Performance
+          </CardTitle>
+          <CardDescription>
+            Each window trades the parameters that scored best on the bars before it. Efficiency is the out-of-sample
+            annualized return over the average in-sample one; values well below 1 suggest the optimization is fitting noise.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{WALK_FORWARD_MODE_LABELS[result.mode]} windows</Badge>
+            <Badge variant="outline">{result.windows.length} windows</Badge>
+            <Badge variant="outline">Objective: {OPTIMIZATION_OBJECTIVE_LABELS[result.objective]}</Badge>
+            <Badge variant="outline">{result.dataSource}</Badge>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {summary.map(item => (
+              <div key={item.label} className="space-y-1">
+                <p className="text-xs text-muted-foreground">{item.label}</p>
+                <p className="text-lg font-semibold">{item.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={result.portfolioValues}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} minTickGap={40} />
+                <YAxis tickFormatter={formatCurrency} tick={{ fontSize: 12 }} domain={['auto', 'auto']} />
+                <Tooltip formatter={(value: number) => [formatCurrency(value), 'Out-of-sample equity']} />
+                <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>In Sample</TableHead>
+                <TableHead>Out of Sample</TableHead>
+                <TableHead>Parameters</TableHead>
+                <TableHead className="text-right">IS Return (ann.)</TableHead>
+                <TableHead className="text-right">OOS Return (ann.)</TableHead>
+                <TableHead className="text-right">Efficiency</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.windows.map(window => (
+                <TableRow key={window.outOfSample.start}>
+                  <TableCell className="text-xs">{window.inSample.start} – {window.inSample.end}</TableCell>
+                  <TableCell className="text-xs">{window.outOfSample.start} – {window.outOfSample.end}</TableCell>
+                  <TableCell className="text-xs font-mono">
+                    {Object.entries(window.parameters).map(([key, value]) => `${key}=${value}`).join(', ')}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPercent(window.inSamplePerformance.annualizedReturn)}</TableCell>
+                  <TableCell className={`text-right ${window.outOfSamplePerformance.annualizedReturn >= 0 ? 'text-success' : 'text-destructive'}`}>
+                    {formatPercent(window.outOfSamplePerformance.annualizedReturn)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatRatio(window.efficiency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldQuestion className="h-5 w-5" />
+            Overfitting Diagnostics
+          </CardTitle>
+          <CardDescription>
+            From the same search run over the full period. The deflated Sharpe ratio is the probability that the best
+            run's Sharpe beats the best expected from that many skill-less trials. PBO is the share of CSCV splits where
+            the in-sample winner lands in the bottom half out of sample.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overfitting ? (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Trials</p>
+                <p className="text-lg font-semibold">{overfitting.trials}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Best Sharpe (no risk-free)</p>
+                <p className="text-lg font-semibold">{formatRatio(overfitting.sharpeRatio)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Expected Max Sharpe</p>
+                <p className="text-lg font-semibold">{formatRatio(overfitting.expectedMaxSharpe)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">Deflated Sharpe</p>
+                <p className={`text-lg font-semibold ${overfitting.deflatedSharpe >= 0.95 ? 'text-success' : 'text-destructive'}`}>
+                  {formatPercent(overfitting.deflatedSharpe)}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">PBO ({overfitting.cscv.blocks} blocks)</p>
+                <p className={`text-lg font-semibold ${overfitting.cscv.pbo <= 0.5 ? 'text-success' : 'text-destructive'}`}>
+                  {formatPercent(overfitting.cscv.pbo)}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Needs at least two parameter sets and enough bars to split into blocks.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,255 @@
+// Monte Carlo robustness of a finished backtest: reshuffle or resample its round-trip trades, or
+// block-bootstrap its bar returns, to see how much final equity, drawdown and recovery time depend on luck
+import { BacktestResult } from './backtesting';
+import { createBootstrapSampler } from './bootstrap';
+import { DailyStatistics, SimulationBands, buildBands, PROGRESS_INTERVAL } from './monteCarlo';
+import { SeededRandom } from './random';
+import { addToMoments, addToSketch, createQuantileSketch, createRunningMoments } from './streamingStats';
+
+// Shuffling keeps every trade once, so only the path (drawdown, recovery) changes; the bootstraps
+// draw with replacement, so the final equity varies too
+export type RobustnessMethod = 'tradeShuffle' | 'tradeBootstrap' | 'returnBootstrap';
+
+export const ROBUSTNESS_METHOD_LABELS: Record<RobustnessMethod, string> = {
+  tradeShuffle: 'Reshuffle Trades',
+  tradeBootstrap: 'Resample Trades',
+  returnBootstrap: 'Block Bootstrap Bar Returns',
+};
+
+export const MAX_ROBUSTNESS_SIMULATIONS = 100000;
+
+export interface RobustnessParams {
+  method: RobustnessMethod;
+  simulations: number;
+  ruinDrawdown: number; // A path is ruined once it falls this fraction below its peak
+  meanBlockLength: number; // Bar return bootstrap: expected block length in bars; 1 draws bars independently
+  seed?: number;
+}
+
+export const DEFAULT_ROBUSTNESS_PARAMS: RobustnessParams = {
+  method: 'tradeShuffle',
+  simulations: 2000,
+  ruinDrawdown: 0.5,
+  meanBlockLength: 5,
+};
+
+// What the simulation resamples, extracted from a backtest as plain data so it can be posted to workers
+export interface RobustnessInput {
+  initialCapital: number;
+  tradePnLs: number[]; // Round trips in closing order
+  barReturns: number[]; // Simple returns of the equity curve
+}
+
+export interface PathMetrics {
+  finalEquity: number;
+  maxDrawdown: number;
+  recoveryTime: number; // Longest stretch below a previous peak, in steps; one still open at the end counts to the last step
+}
+
+// Raw output of one simulated chunk; the parallel runner merges chunks before summarizing
+export interface RobustnessChunk {
+  metrics: PathMetrics[];
+  ruined: number;
+  equity: DailyStatistics; // Per step
+  drawdown: DailyStatistics;
+}
+
+export interface DistributionSummary {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+export interface RobustnessResult {
+  method: RobustnessMethod;
+  simulations: number;
+  seed: number;
+  stepUnit: 'trade' | 'bar';
+  steps: number;
+  ruinDrawdown: number;
+  original: PathMetrics; // The backtest's own sequence, measured the same way
+  originalEquity: number[];
+  finalEquity: DistributionSummary;
+  maxDrawdown: DistributionSummary;
+  recoveryTime: DistributionSummary;
+  probabilityOfRuin: number;
+  equityBands: SimulationBands;
+  drawdownBands: SimulationBands;
+}
+
+export function prepareRobustnessInput(result: BacktestResult, initialCapital: number): RobustnessInput {
+  const values = result.portfolioValues.map(point => point.value);
+  return {
+    initialCapital,
+    tradePnLs: result.roundTrips.map(trip => trip.pnl),
+    barReturns: values.slice(1).map((value, i) => (values[i] > 0 ? value / values[i] - 1 : 0))
+  };
+}
+
+export function validateRobustnessParams(input: RobustnessInput, params: RobustnessParams): void {
+  if (!Number.isInteger(params.simulations) || params.simulations < 1 || params.simulations > MAX_ROBUSTNESS_SIMULATIONS) {
+    throw new Error(`Simulations must be a whole number between 1 and ${MAX_ROBUSTNESS_SIMULATIONS.toLocaleString()}`);
+  }
+  if (!(params.ruinDrawdown > 0 && params.ruinDrawdown <= 1)) {
+    throw new Error('Ruin drawdown must be between 0% and 100%');
+  }
+  if (params.method === 'returnBootstrap') {
+    if (!(params.meanBlockLength >= 1)) {
+      throw new Error('Mean block length must be at least 1 bar');
+    }
+    if (input.barReturns.length < 2) {
+      throw new Error('Bar return bootstrap needs at least 3 bars of equity history');
+    }
+  } else if (input.tradePnLs.length < 2) {
+    throw new Error('Trade resampling needs at least 2 closed round trips');
+  }
+}
+
+// Trade P&Ls add dollars to the equity, bar returns compound it. A path that loses everything stays at 0.
+export function buildEquityPath(input: RobustnessInput, method: RobustnessMethod, steps: Iterable<number>): number[] {
+  const path = [input.initialCapital];
+  let equity = input.initialCapital;
+  for (const step of steps) {
+    if (equity > 0) {
+      equity = method === 'returnBootstrap' ? equity * (1 + step) : equity + step;
+    }
+    equity = Math.max(0, equity);
+    path.push(equity);
+  }
+  return path;
+}
+
+export function measurePath(path: number[]): PathMetrics {
+  let peak = path[0];
+  let maxDrawdown = 0;
+  let underwaterSince = -1;
+  let recoveryTime = 0;
+  path.forEach((equity, step) => {
+    if (equity >= peak) {
+      peak = equity;
+      underwaterSince = -1;
+      return;
+    }
+    if (underwaterSince < 0) underwaterSince = step - 1;
+    recoveryTime = Math.max(recoveryTime, step - underwaterSince);
+    maxDrawdown = Math.max(maxDrawdown, peak > 0 ? (peak - equity) / peak : 0);
+  });
+  return { finalEquity: path[path.length - 1], maxDrawdown, recoveryTime };
+}
+
+const drawdownPath = (path: number[]): number[] => {
+  let peak = -Infinity;
+  return path.map(equity => {
+    peak = Math.max(peak, equity);
+    return peak > 0 ? (peak - equity) / peak : 0;
+  });
+};
+
+const createDailyStatistics = (length: number): DailyStatistics => ({
+  moments: Array.from({ length }, () => createRunningMoments()),
+  sketches: Array.from({ length }, () => createQuantileSketch()),
+});
+
+const addPath = (statistics: DailyStatistics, path: number[]): void => {
+  path.forEach((value, step) => {
+    addToMoments(statistics.moments[step], value);
+    addToSketch(statistics.sketches[step], value);
+  });
+};
+
+export function simulateRobustnessChunk(
+  input: RobustnessInput,
+  params: RobustnessParams,
+  simulations: number,
+  seed: number,
+  onProgress?: (completedSimulations: number) => void
+): RobustnessChunk {
+  const rng = new SeededRandom(seed);
+  const bootstrap = params.method === 'returnBootstrap';
+  const history = bootstrap ? input.barReturns : input.tradePnLs;
+  const sampler = bootstrap
+    ? createBootstrapSampler(
+      { method: params.meanBlockLength > 1 ? 'stationaryBlock' : 'iid', meanBlockLength: params.meanBlockLength, ewmaDecay: 0.94 },
+      history
+    )
+    : null;
+
+  const equity = createDailyStatistics(history.length + 1);
+  const drawdown = createDailyStatistics(history.length + 1);
+  const metrics: PathMetrics[] = [];
+  let ruined = 0;
+
+  for (let sim = 0; sim < simulations; sim++) {
+    let steps: number[];
+    if (sampler) {
+      const next = sampler(rng);
+      steps = history.map(() => next());
+    } else if (params.method === 'tradeBootstrap') {
+      steps = history.map(() => history[rng.nextInt(history.length)]);
+    } else {
+      // Fisher-Yates shuffle
+      steps = [...history];
+      for (let i = steps.length - 1; i > 0; i--) {
+        const j = rng.nextInt(i + 1);
+        [steps[i], steps[j]] = [steps[j], steps[i]];
+      }
+    }
+
+    const path = buildEquityPath(input, params.method, steps);
+    const pathMetrics = measurePath(path);
+    metrics.push(pathMetrics);
+    if (pathMetrics.maxDrawdown >= params.ruinDrawdown) ruined++;
+    addPath(equity, path);
+    addPath(drawdown, drawdownPath(path));
+
+    if (onProgress && (sim + 1) % PROGRESS_INTERVAL === 0) onProgress(sim + 1);
+  }
+  onProgress?.(simulations);
+
+  return { metrics, ruined, equity, drawdown };
+}
+
+const summarize = (values: number[]): DistributionSummary => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    p5: at(0.05),
+    p25: at(0.25),
+    p50: at(0.5),
+    p75: at(0.75),
+    p95: at(0.95),
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+  };
+};
+
+export function summarizeRobustness(
+  input: RobustnessInput,
+  params: RobustnessParams,
+  seed: number,
+  chunks: RobustnessChunk[]
+): RobustnessResult {
+  const bootstrap = params.method === 'returnBootstrap';
+  const history = bootstrap ? input.barReturns : input.tradePnLs;
+  const metrics = chunks.flatMap(chunk => chunk.metrics);
+  const originalEquity = buildEquityPath(input, params.method, history);
+
+  return {
+    method: params.method,
+    simulations: metrics.length,
+    seed,
+    stepUnit: bootstrap ? 'bar' : 'trade',
+    steps: history.length,
+    ruinDrawdown: params.ruinDrawdown,
+    original: measurePath(originalEquity),
+    originalEquity,
+    finalEquity: summarize(metrics.map(m => m.finalEquity)),
+    maxDrawdown: summarize(metrics.map(m => m.maxDrawdown)),
+    recoveryTime: summarize(metrics.map(m => m.recoveryTime)),
+    probabilityOfRuin: chunks.reduce((sum, chunk) => sum + chunk.ruined, 0) / metrics.length,
+    equityBands: buildBands(chunks.map(chunk => chunk.equity)),
+    drawdownBands: buildBands(chunks.map(chunk => chunk.drawdown))
+  };
+}
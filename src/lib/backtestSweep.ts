@@ -0,0 +1,48 @@
+// Batches of backtests over the same bars with different strategy parameters; runs inside pool workers
+import { BacktestEngine, BacktestParams, HistoricalPrice, PerformanceMetrics, createStrategy } from './backtesting';
+
+export type StrategyParameterValues = Record<string, number | boolean>;
+
+// Everything a worker needs to rebuild the strategy and rerun it; strategy objects are not transferable
+export interface BacktestSweepConfig {
+  strategyName: string; // Any name createStrategy accepts
+  baseParameters: StrategyParameterValues; // Values for parameters that are not being swept
+  backtest: Omit<BacktestParams, 'strategy' | 'dataProvider' | 'startDate' | 'endDate'>;
+  prices: HistoricalPrice[];
+  seed: number;
+  dataSource: string;
+  collectReturns?: boolean; // Also return each run's bar-to-bar equity returns, e.g. for overfitting diagnostics
+}
+
+export interface BacktestSweepRun {
+  performance: PerformanceMetrics;
+  returns?: number[];
+}
+
+export function executeBacktestSweep(
+  config: BacktestSweepConfig,
+  parameterSets: StrategyParameterValues[],
+  onProgress: (completed: number) => void
+): BacktestSweepRun[] {
+  const engine = new BacktestEngine();
+  const { prices, seed, dataSource, backtest } = config;
+  const startDate = prices[0]?.date ?? '';
+  const endDate = prices[prices.length - 1]?.date ?? '';
+
+  return parameterSets.map((parameters, i) => {
+    const strategy = createStrategy(config.strategyName, { ...config.baseParameters, ...parameters });
+    if (!strategy) {
+      throw new Error(`Unknown strategy: ${config.strategyName}`);
+    }
+    // Strategies read their parameters at run time, so this also covers values the factory does not pass through
+    Object.assign(strategy.parameters, parameters);
+    const result = engine.runOnHistory({ ...backtest, startDate, endDate, strategy }, prices, seed, dataSource);
+    onProgress(i + 1);
+    if (!config.collectReturns) return { performance: result.performance };
+    const values = result.portfolioValues;
+    return {
+      performance: result.performance,
+      returns: values.slice(1).map((point, j) => point.value / values[j].value - 1)
+    };
+  });
+}
@@ -1,4 +1,13 @@
 import { fetchRealStockData } from './monteCarlo';
+import { deriveSeed, generateSeed, hashString } from './random';
+import { HistoricalDataProvider, SyntheticDataProvider } from './historicalData';
+import { RoundTripTrade, RoundTripTracker, calculateTradeStatistics } from './tradeAnalysis';
+import { DEFAULT_MARGIN_CONFIG, FinancingSummary, MarginAccount, MarginConfig } from './marginAccount';
+import { DEFAULT_EXECUTION_CONFIG, ExecutionConfig, Order, OrderBook, OrderRequest, OrderType, applySlippage } from './orders';
+import { DEFAULT_RISK_RULES, RiskOverlay, RiskRules } from './riskOverlay';
+import { BenchmarkComparison, compareWithBenchmark } from './benchmark';
+import { CostBreakdown, CostModel, CostModelConfig, flatCostModel } from './costModels';
+import { CorporateActionSummary, PriceAdjustment, adjustPrices } from './corporateActions';
 
 // Core interfaces
 export interface HistoricalPrice {
@@ -9,22 +18,50 @@ export interface HistoricalPrice {
   close: number;
   volume: number;
   adjustedClose: number;
+  dividend?: number; // Cash dividend per share going ex on this date
+  splitRatio?: number; // Shares after per share before for a split effective at this open, e.g. 4 for 4-for-1
 }
 
+// BUY/SELL open and close long positions, SHORT/COVER open and close short positions.
+// BUY while short covers first and SHORT while long sells first, so either reverses the position.
+export type TradeSignal = 'BUY' | 'SELL' | 'SHORT' | 'COVER' | 'HOLD';
+
+export type PositionSide = 'LONG' | 'SHORT';
+
+// Why a fill happened: the strategy's signal, a risk overlay rule or a forced liquidation
+export type TradeReason = 'signal' | 'stopLoss' | 'atrStop' | 'takeProfit' | 'timeStop' | 'maxDrawdown' | 'dailyLoss' | 'marginCall';
+
+export const TRADE_REASON_LABELS: Record<TradeReason, string> = {
+  signal: 'Strategy Signal',
+  stopLoss: 'Stop Loss',
+  atrStop: 'ATR Stop',
+  takeProfit: 'Take Profit',
+  timeStop: 'Time Stop',
+  maxDrawdown: 'Drawdown Circuit Breaker',
+  dailyLoss: 'Daily Loss Limit',
+  marginCall: 'Margin Call',
+};
+
 export interface Trade {
   id: string;
-  type: 'BUY' | 'SELL';
+  type: 'BUY' | 'SELL'; // Direction of the fill: SELL both closes longs and opens shorts
+  side: PositionSide; // Side of the position this fill opens or closes
+  reason: TradeReason;
   symbol: string;
   price: number;
   quantity: number;
   timestamp: string;
   commission: number;
+  fees: number; // Exchange and regulatory fees
   slippage: number;
+  orderId?: string; // Absent for forced liquidations
+  orderType?: OrderType;
 }
 
 export interface Position {
   symbol: string;
-  quantity: number;
+  side: PositionSide;
+  quantity: number; // Signed: negative for short positions
   avgPrice: number;
   unrealizedPnL: number;
   realizedPnL: number;
@@ -48,14 +85,28 @@ export interface PerformanceMetrics {
   avgLosingTrade: number;
   consecutiveWins: number;
   consecutiveLosses: number;
+  avgHoldingPeriod: number; // Bars per round trip
 }
 
 export interface BacktestResult {
-  trades: Trade[];
+  trades: Trade[]; // Individual fills
+  roundTrips: RoundTripTrade[]; // Fills paired into closed trades (FIFO)
   positions: Position[];
   portfolioValues: Array<{ date: string; value: number; drawdown: number }>;
   performance: PerformanceMetrics;
-  signals: Array<{ date: string; signal: 'BUY' | 'SELL' | 'HOLD'; price: number; confidence?: number }>;
+  signals: Array<{ date: string; signal: TradeSignal; price: number; confidence?: number }>;
+  orders: Order[]; // Every order submitted, with its final status
+  financing: FinancingSummary;
+  margin: MarginConfig;
+  execution: ExecutionConfig;
+  riskRules: RiskRules;
+  costModel: CostModelConfig;
+  costs: CostBreakdown; // Every trading cost paid in the run, by component
+  corporateActions: CorporateActionSummary; // Price adjustment policy plus the splits and dividends applied
+  haltedAt?: string; // Date the drawdown circuit breaker stopped trading
+  seed: number; // Seed used for any synthetic data in this run
+  dataSource: string; // Name of the provider the price history came from
+  benchmark?: BenchmarkComparison;
 }
 
 export interface BacktestParams {
@@ -63,9 +114,32 @@ export interface BacktestParams {
   startDate: string;
   endDate: string;
   initialCapital: number;
-  commission: number;
-  slippage: number;
+  commission: number; // Flat per fill; ignored when `costs` is given
+  slippage: number; // Fraction of the price; ignored when `costs` is given
+  costs?: CostModelConfig; // Commission, fee and slippage models
   strategy: TradingStrategy;
+  seed?: number;
+  dataProvider?: HistoricalDataProvider; // Defaults to synthetic data
+  margin?: Partial<MarginConfig>; // Defaults to DEFAULT_MARGIN_CONFIG (cash account, no leverage)
+  execution?: Partial<ExecutionConfig>; // Defaults to DEFAULT_EXECUTION_CONFIG
+  riskRules?: Partial<RiskRules>; // Exit rules applied on top of any strategy; all off by default
+  warmupBars?: number; // Leading bars used only as indicator history: no orders and no equity points
+  priceAdjustment?: PriceAdjustment; // Defaults to 'raw'
+  benchmark?: { symbol: string; dataProvider?: HistoricalDataProvider }; // Provider defaults to the backtest's
+}
+
+// Account state a strategy sees when it places orders after a bar's close
+export interface StrategyContext {
+  position?: Position;
+  buyingPower: number; // Additional exposure allowed under the initial margin
+  flatBuyingPower: number; // Buying power once the current position is closed
+  openOrders: Order[]; // Working orders from earlier bars
+}
+
+export interface StrategyOrders {
+  signal: TradeSignal; // Shown on the signal chart
+  orders: OrderRequest[]; // Matched against the following bars
+  cancelOrderIds?: string[]; // Working orders to cancel before the new ones are placed
 }
 
 // Abstract strategy class
@@ -78,15 +152,46 @@ export abstract class TradingStrategy {
     prices: HistoricalPrice[],
     currentIndex: number,
     position?: Position
-  ): 'BUY' | 'SELL' | 'HOLD';
+  ): TradeSignal;
 
+  // Quantity to open for BUY/SHORT (availableCash is the buying power left under the initial margin),
+  // or to close for SELL/COVER
   abstract getPositionSize(
-    signal: 'BUY' | 'SELL' | 'HOLD',
+    signal: TradeSignal,
     currentPrice: number,
     availableCash: number,
     currentPosition?: Position
   ): number;
 
+  // Called by runBacktest with the bars the run will trade, before the first signal. Strategies that work
+  // asynchronously, such as user code run in a worker, compute their signals here; runOnHistory does not call it.
+  async prepare(prices: HistoricalPrice[]): Promise<void> {}
+
+  // Orders to place after the close of `currentIndex`. By default the signal becomes market-on-next-open
+  // orders: exits are reduce-only, and an entry against an open position closes it first.
+  generateOrders(prices: HistoricalPrice[], currentIndex: number, context: StrategyContext): StrategyOrders {
+    const { position } = context;
+    const signal = this.generateSignal(prices, currentIndex, position);
+    const close = prices[currentIndex].close;
+    const held = position?.quantity ?? 0;
+    const orders: OrderRequest[] = [];
+
+    if ((signal === 'SELL' && held > 0) || (signal === 'COVER' && held < 0)) {
+      const quantity = Math.floor(Math.min(this.getPositionSize(signal, close, context.buyingPower, position), Math.abs(held)));
+      if (quantity > 0) orders.push({ side: signal === 'SELL' ? 'SELL' : 'BUY', type: 'market', quantity, reduceOnly: true });
+    } else if (signal === 'BUY' || signal === 'SHORT') {
+      const side = signal === 'BUY' ? 'BUY' : 'SELL';
+      const reversing = (signal === 'BUY' && held < 0) || (signal === 'SHORT' && held > 0);
+      if (reversing) orders.push({ side, type: 'market', quantity: Math.abs(held), reduceOnly: true });
+      const quantity = Math.floor(reversing
+        ? this.getPositionSize(signal, close, context.flatBuyingPower, undefined)
+        : this.getPositionSize(signal, close, context.buyingPower, position));
+      if (quantity > 0) orders.push({ side, type: 'market', quantity });
+    }
+
+    return { signal, orders };
+  }
+
   // Technical indicators helpers
   protected sma(prices: number[], period: number, index: number): number | null {
     if (index < period - 1) return null;
@@ -147,20 +252,22 @@ export abstract class TradingStrategy {
 // Moving Average Crossover Strategy
 export class MovingAverageCrossover extends TradingStrategy {
   name = "Moving Average Crossover";
-  description = "Buy when fast MA crosses above slow MA, sell when it crosses below";
+  description = "Buy when fast MA crosses above slow MA, sell (or go short) when it crosses below";
   parameters = {
     fastPeriod: 20,
     slowPeriod: 50,
-    positionSize: 0.95 // Use 95% of available capital
+    positionSize: 0.95, // Use 95% of available capital
+    allowShort: false
   };
 
-  constructor(fastPeriod: number = 20, slowPeriod: number = 50) {
+  constructor(fastPeriod: number = 20, slowPeriod: number = 50, allowShort: boolean = false) {
     super();
     this.parameters.fastPeriod = fastPeriod;
     this.parameters.slowPeriod = slowPeriod;
+    this.parameters.allowShort = allowShort;
   }
 
-  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): 'BUY' | 'SELL' | 'HOLD' {
+  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): TradeSignal {
     const closePrices = prices.map(p => p.close);
     
     const fastMA = this.sma(closePrices, this.parameters.fastPeriod, currentIndex);
@@ -170,25 +277,28 @@ export class MovingAverageCrossover extends TradingStrategy {
 
     if (!fastMA || !slowMA || !prevFastMA || !prevSlowMA) return 'HOLD';
 
-    // Buy signal: fast MA crosses above slow MA
-    if (prevFastMA <= prevSlowMA && fastMA > slowMA && (!position || position.quantity === 0)) {
+    const quantity = position?.quantity ?? 0;
+
+    // Buy signal: fast MA crosses above slow MA (reverses a short)
+    if (prevFastMA <= prevSlowMA && fastMA > slowMA && quantity <= 0) {
       return 'BUY';
     }
     
-    // Sell signal: fast MA crosses below slow MA
-    if (prevFastMA >= prevSlowMA && fastMA < slowMA && position && position.quantity > 0) {
-      return 'SELL';
+    // Sell signal: fast MA crosses below slow MA; when shorting is allowed, reverse into a short
+    if (prevFastMA >= prevSlowMA && fastMA < slowMA) {
+      if (this.parameters.allowShort && quantity >= 0) return 'SHORT';
+      if (quantity > 0) return 'SELL';
     }
 
     return 'HOLD';
   }
 
-  getPositionSize(signal: 'BUY' | 'SELL' | 'HOLD', currentPrice: number, availableCash: number, currentPosition?: Position): number {
-    if (signal === 'BUY') {
+  getPositionSize(signal: TradeSignal, currentPrice: number, availableCash: number, currentPosition?: Position): number {
+    if (signal === 'BUY' || signal === 'SHORT') {
       const cashToUse = availableCash * this.parameters.positionSize;
       return Math.floor(cashToUse / currentPrice);
-    } else if (signal === 'SELL' && currentPosition) {
-      return currentPosition.quantity;
+    } else if ((signal === 'SELL' || signal === 'COVER') && currentPosition) {
+      return Math.abs(currentPosition.quantity);
     }
     return 0;
   }
@@ -197,46 +307,51 @@ export class MovingAverageCrossover extends TradingStrategy {
 // RSI Mean Reversion Strategy
 export class RSIMeanReversion extends TradingStrategy {
   name = "RSI Mean Reversion";
-  description = "Buy when RSI is oversold, sell when overbought";
+  description = "Buy when RSI is oversold, sell (or go short) when overbought";
   parameters = {
     rsiPeriod: 14,
     oversoldLevel: 30,
     overboughtLevel: 70,
-    positionSize: 0.5
+    positionSize: 0.5,
+    allowShort: false
   };
 
-  constructor(rsiPeriod: number = 14, oversoldLevel: number = 30, overboughtLevel: number = 70) {
+  constructor(rsiPeriod: number = 14, oversoldLevel: number = 30, overboughtLevel: number = 70, allowShort: boolean = false) {
     super();
     this.parameters.rsiPeriod = rsiPeriod;
     this.parameters.oversoldLevel = oversoldLevel;
     this.parameters.overboughtLevel = overboughtLevel;
+    this.parameters.allowShort = allowShort;
   }
 
-  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): 'BUY' | 'SELL' | 'HOLD' {
+  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): TradeSignal {
     const closePrices = prices.map(p => p.close);
     const rsi = this.rsi(closePrices, this.parameters.rsiPeriod, currentIndex);
 
     if (!rsi) return 'HOLD';
 
-    // Buy when oversold and no position
-    if (rsi < this.parameters.oversoldLevel && (!position || position.quantity === 0)) {
+    const quantity = position?.quantity ?? 0;
+
+    // Buy when oversold and not already long
+    if (rsi < this.parameters.oversoldLevel && quantity <= 0) {
       return 'BUY';
     }
     
-    // Sell when overbought and have position
-    if (rsi > this.parameters.overboughtLevel && position && position.quantity > 0) {
-      return 'SELL';
+    // Sell when overbought and long, or go short when allowed
+    if (rsi > this.parameters.overboughtLevel) {
+      if (this.parameters.allowShort && quantity >= 0) return 'SHORT';
+      if (quantity > 0) return 'SELL';
     }
 
     return 'HOLD';
   }
 
-  getPositionSize(signal: 'BUY' | 'SELL' | 'HOLD', currentPrice: number, availableCash: number, currentPosition?: Position): number {
-    if (signal === 'BUY') {
+  getPositionSize(signal: TradeSignal, currentPrice: number, availableCash: number, currentPosition?: Position): number {
+    if (signal === 'BUY' || signal === 'SHORT') {
       const cashToUse = availableCash * this.parameters.positionSize;
       return Math.floor(cashToUse / currentPrice);
-    } else if (signal === 'SELL' && currentPosition) {
-      return currentPosition.quantity;
+    } else if ((signal === 'SELL' || signal === 'COVER') && currentPosition) {
+      return Math.abs(currentPosition.quantity);
     }
     return 0;
   }
@@ -245,20 +360,22 @@ export class RSIMeanReversion extends TradingStrategy {
 // Bollinger Bands Strategy
 export class BollingerBands extends TradingStrategy {
   name = "Bollinger Bands";
-  description = "Buy at lower band, sell at upper band";
+  description = "Buy at lower band, sell (or go short) at upper band";
   parameters = {
     period: 20,
     stdDev: 2,
-    positionSize: 0.8
+    positionSize: 0.8,
+    allowShort: false
   };
 
-  constructor(period: number = 20, stdDev: number = 2) {
+  constructor(period: number = 20, stdDev: number = 2, allowShort: boolean = false) {
     super();
     this.parameters.period = period;
     this.parameters.stdDev = stdDev;
+    this.parameters.allowShort = allowShort;
   }
 
-  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): 'BUY' | 'SELL' | 'HOLD' {
+  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): TradeSignal {
     const closePrices = prices.map(p => p.close);
     const bands = this.bollinger(closePrices, this.parameters.period, this.parameters.stdDev, currentIndex);
     
@@ -266,28 +383,94 @@ export class BollingerBands extends TradingStrategy {
     
     const currentPrice = prices[currentIndex].close;
 
-    // Buy when price touches lower band
-    if (currentPrice <= bands.lower && (!position || position.quantity === 0)) {
+    const quantity = position?.quantity ?? 0;
+
+    // Buy when price touches lower band and not already long
+    if (currentPrice <= bands.lower && quantity <= 0) {
       return 'BUY';
     }
     
-    // Sell when price touches upper band
-    if (currentPrice >= bands.upper && position && position.quantity > 0) {
-      return 'SELL';
+    // Sell when price touches upper band, or go short when allowed
+    if (currentPrice >= bands.upper) {
+      if (this.parameters.allowShort && quantity >= 0) return 'SHORT';
+      if (quantity > 0) return 'SELL';
+    }
+
+    return 'HOLD';
+  }
+
+  getPositionSize(signal: TradeSignal, currentPrice: number, availableCash: number, currentPosition?: Position): number {
+    if (signal === 'BUY' || signal === 'SHORT') {
+      const cashToUse = availableCash * this.parameters.positionSize;
+      return Math.floor(cashToUse / currentPrice);
+    } else if ((signal === 'SELL' || signal === 'COVER') && currentPosition) {
+      return Math.abs(currentPosition.quantity);
     }
+    return 0;
+  }
+}
+
+// Channel Breakout Strategy (places orders directly rather than relying on the signal adapter)
+export class ChannelBreakout extends TradingStrategy {
+  name = "Channel Breakout";
+  description = "Buy stop at the highest high of the channel, exit with a trailing stop";
+  parameters = {
+    channelPeriod: 20,
+    trailPercent: 0.05,
+    positionSize: 0.95
+  };
+
+  constructor(channelPeriod: number = 20, trailPercent: number = 0.05) {
+    super();
+    this.parameters.channelPeriod = channelPeriod;
+    this.parameters.trailPercent = trailPercent;
+  }
 
+  private channelHigh(prices: HistoricalPrice[], index: number): number | null {
+    if (index < this.parameters.channelPeriod - 1) return null;
+    return Math.max(...prices.slice(index - this.parameters.channelPeriod + 1, index + 1).map(p => p.high));
+  }
+
+  // Signal for charting: a close above the previous bar's channel
+  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): TradeSignal {
+    const previousHigh = this.channelHigh(prices, currentIndex - 1);
+    if (previousHigh === null) return 'HOLD';
+    if (prices[currentIndex].close > previousHigh && (!position || position.quantity === 0)) return 'BUY';
     return 'HOLD';
   }
 
-  getPositionSize(signal: 'BUY' | 'SELL' | 'HOLD', currentPrice: number, availableCash: number, currentPosition?: Position): number {
+  getPositionSize(signal: TradeSignal, currentPrice: number, availableCash: number, currentPosition?: Position): number {
     if (signal === 'BUY') {
       const cashToUse = availableCash * this.parameters.positionSize;
       return Math.floor(cashToUse / currentPrice);
     } else if (signal === 'SELL' && currentPosition) {
-      return currentPosition.quantity;
+      return Math.abs(currentPosition.quantity);
     }
     return 0;
   }
+
+  generateOrders(prices: HistoricalPrice[], currentIndex: number, context: StrategyContext): StrategyOrders {
+    const signal = this.generateSignal(prices, currentIndex, context.position);
+    const held = context.position?.quantity ?? 0;
+
+    // Long: keep one GTC trailing stop working under the position
+    if (held > 0) {
+      const hasExit = context.openOrders.some(order => order.side === 'SELL' && order.reduceOnly);
+      return {
+        signal,
+        orders: hasExit ? [] : [{ side: 'SELL', type: 'trailingStop', quantity: held, trailPercent: this.parameters.trailPercent, timeInForce: 'gtc', reduceOnly: true }]
+      };
+    }
+
+    // Flat: a day buy stop at the channel high, re-placed every bar as the channel moves
+    const stopPrice = this.channelHigh(prices, currentIndex);
+    if (stopPrice === null) return { signal, orders: [] };
+    const quantity = this.getPositionSize('BUY', stopPrice, context.buyingPower);
+    return {
+      signal,
+      orders: quantity > 0 ? [{ side: 'BUY', type: 'stop', quantity, stopPrice, timeInForce: 'day' }] : []
+    };
+  }
 }
 
 // Backtesting Engine
@@ -297,79 +480,279 @@ export class BacktestEngine {
   }
 
   async runBacktest(params: BacktestParams): Promise<BacktestResult> {
-    const { symbol, startDate, endDate, initialCapital, commission, slippage, strategy } = params;
+    const { symbol, startDate, endDate } = params;
+    const seed = params.seed ?? generateSeed();
+    const dataProvider = params.dataProvider ?? new SyntheticDataProvider();
+    const historicalData = await dataProvider.getHistory({ symbol, startDate, endDate, seed });
+    await params.strategy.prepare(adjustPrices(historicalData, params.priceAdjustment ?? 'raw'));
+    const result = this.runOnHistory(params, historicalData, seed, dataProvider.name);
+    if (params.benchmark) {
+      result.benchmark = await this.loadBenchmarkComparison(params, result, seed, dataProvider);
+    }
+    return result;
+  }
+
+  private async loadBenchmarkComparison(
+    params: BacktestParams,
+    result: BacktestResult,
+    seed: number,
+    defaultProvider: HistoricalDataProvider
+  ): Promise<BenchmarkComparison> {
+    const symbol = params.benchmark!.symbol.trim().toUpperCase();
+    const provider = params.benchmark!.dataProvider ?? defaultProvider;
+    // Synthetic data would otherwise repeat the strategy's own series for any benchmark symbol
+    const benchmarkSeed = symbol === params.symbol.toUpperCase() ? seed : deriveSeed(seed, hashString(symbol));
+    try {
+      const prices = await provider.getHistory({ symbol, startDate: params.startDate, endDate: params.endDate, seed: benchmarkSeed });
+      // Buy and hold collects the benchmark's dividends whatever the strategy's price adjustment
+      return compareWithBenchmark(result.portfolioValues, adjustPrices(prices, 'totalReturn'), symbol, provider.name);
+    } catch (error) {
+      throw new Error(`Benchmark ${symbol}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Synchronous run over bars that are already loaded, e.g. inside an optimizer worker.
+  // `prices` are raw bars; the run trades them adjusted by `params.priceAdjustment`.
+  runOnHistory(params: BacktestParams, prices: HistoricalPrice[], seed: number, dataSource: string): BacktestResult {
+    const { symbol, initialCapital, commission, slippage, strategy } = params;
+    const priceAdjustment = params.priceAdjustment ?? 'raw';
+    const historicalData = adjustPrices(prices, priceAdjustment);
+    const margin: MarginConfig = { ...DEFAULT_MARGIN_CONFIG, ...params.margin };
+    const execution: ExecutionConfig = { ...DEFAULT_EXECUTION_CONFIG, ...params.execution };
+    if (!(execution.maxVolumeParticipation > 0 && execution.maxVolumeParticipation <= 1)) {
+      throw new Error('Maximum volume participation must be between 0 and 100%');
+    }
     
-    // Generate synthetic historical data (in real app, fetch from API)
-    const historicalData = await this.generateHistoricalData(symbol, startDate, endDate);
+    const warmupBars = params.warmupBars ?? 0;
+    if (!Number.isInteger(warmupBars) || warmupBars < 0 || (warmupBars > 0 && warmupBars >= historicalData.length)) {
+      throw new Error('Warm-up bars must be a whole number smaller than the number of bars');
+    }
+
+    const riskRules: RiskRules = { ...DEFAULT_RISK_RULES, ...params.riskRules };
+    const riskOverlay = new RiskOverlay(riskRules, historicalData);
+    const costModel = new CostModel(params.costs ?? flatCostModel(commission, slippage), historicalData);
     
     const trades: Trade[] = [];
-    const signals: Array<{ date: string; signal: 'BUY' | 'SELL' | 'HOLD'; price: number }> = [];
+    const signals: Array<{ date: string; signal: TradeSignal; price: number }> = [];
     const portfolioValues: Array<{ date: string; value: number; drawdown: number }> = [];
     
-    let cash = initialCapital;
-    let position: Position | undefined;
-    let portfolioValue = initialCapital;
+    const account = new MarginAccount(initialCapital, margin);
+    const orderBook = new OrderBook();
     let peak = initialCapital;
+    let entryIndex: number | undefined; // Bar the current position was opened on
+    const tracker = new RoundTripTracker(historicalData);
+    const corporateActions: CorporateActionSummary = {
+      adjustment: priceAdjustment,
+      dividendsReceived: 0,
+      dividendsPaid: 0,
+      cashInLieu: 0,
+      events: []
+    };
 
-    for (let i = 0; i < historicalData.length; i++) {
+    // Book a fill at `basePrice` plus slippage. It must either reduce the held position without
+    // reversing it, or open/add to a position on its own side.
+    const fill = (type: 'BUY' | 'SELL', quantity: number, basePrice: number, index: number, reason: TradeReason, order?: Order): Trade => {
+      const bar = historicalData[index];
+      const slippagePerUnit = costModel.slippagePerUnit(basePrice, quantity, index);
+      const price = order
+        ? applySlippage(order, basePrice, slippagePerUnit)
+        : basePrice + (type === 'BUY' ? slippagePerUnit : -slippagePerUnit);
+      const charges = costModel.charge(type, quantity, price, Math.abs(price - basePrice) * quantity, bar.date);
+      const held = account.quantity;
+      const closing = (type === 'BUY' && held < 0) || (type === 'SELL' && held > 0);
+      const side: PositionSide = closing ? (held > 0 ? 'LONG' : 'SHORT') : (type === 'BUY' ? 'LONG' : 'SHORT');
+      const signedQuantity = type === 'BUY' ? quantity : -quantity;
+
+      const trade: Trade = {
+        id: this.generateTradeId(),
+        type,
+        side,
+        reason,
+        symbol,
+        price,
+        quantity,
+        timestamp: bar.date,
+        commission: charges.commission,
+        fees: charges.exchangeFees + charges.regulatoryFees,
+        slippage: Math.abs(price - basePrice) * quantity,
+        orderId: order?.id,
+        orderType: order?.type
+      };
+
+      account.cash -= signedQuantity * trade.price + trade.commission + trade.fees;
+
+      if (closing) {
+        // Realized P&L includes the entry commission, fees and borrow fees of the lots being closed
+        const closed = tracker.close(trade, index);
+        const position = account.position!;
+        position.realizedPnL += closed.reduce((sum, trip) => sum + trip.pnl, 0);
+        position.quantity += signedQuantity;
+        if (position.quantity === 0) {
+          account.position = undefined;
+          entryIndex = undefined;
+        }
+      } else {
+        const position = account.position;
+        const openQuantity = Math.abs(held);
+        if (!position) entryIndex = index;
+        account.position = {
+          symbol,
+          side,
+          quantity: held + signedQuantity,
+          avgPrice: position
+            ? ((position.avgPrice * openQuantity) + (trade.price * quantity)) / (openQuantity + quantity)
+            : trade.price,
+          unrealizedPnL: 0,
+          realizedPnL: position?.realizedPnL || 0
+        };
+        tracker.open(trade, index);
+      }
+      trades.push(trade);
+      return trade;
+    };
+
+    // Fill as much of `order` as the bar's volume budget, the position (reduce-only) and the
+    // initial margin allow; returns the quantity filled
+    const executeOrder = (order: Order, index: number, volumeBudget: number): number => {
+      const bar = historicalData[index];
+      const matched = orderBook.matchPrice(order, bar);
+      if (matched === null) return 0;
+
+      const held = account.quantity;
+      const opposite = (order.side === 'BUY' && held < 0) || (order.side === 'SELL' && held > 0);
+      let remaining = Math.min(order.quantity - order.filledQuantity, volumeBudget);
+      let filled = 0;
+
+      if (opposite) {
+        const closeQuantity = Math.min(remaining, Math.abs(held));
+        const trade = fill(order.side, closeQuantity, matched, index, order.reason, order);
+        orderBook.recordFill(order, closeQuantity, trade.price, bar.date);
+        filled += closeQuantity;
+        remaining -= closeQuantity;
+      }
+
+      if (remaining > 0 && !order.reduceOnly) {
+        // Size against the costs of the whole remainder, which bound the costs of any smaller fill
+        const price = applySlippage(order, matched, costModel.slippagePerUnit(matched, remaining, index));
+        const charges = costModel.estimateCharges(order.side, remaining, price, bar.date);
+        const openQuantity = Math.min(
+          remaining,
+          account.maxOpenQuantity(bar.open, price, charges.commission + charges.exchangeFees + charges.regulatoryFees)
+        );
+        if (openQuantity > 0) {
+          const trade = fill(order.side, openQuantity, matched, index, order.reason, order);
+          orderBook.recordFill(order, openQuantity, trade.price, bar.date);
+          filled += openQuantity;
+        }
+        if (openQuantity < remaining) {
+          // Not enough margin for the rest of the order
+          orderBook.reject(order, bar.date);
+          return filled;
+        }
+      } else if (remaining > 0 && !opposite) {
+        // Reduce-only order with nothing left to reduce, e.g. another exit closed the position first
+        orderBook.cancel(order.id, bar.date);
+        return filled;
+      }
+
+      // A reduce-only order is done once the position is flat
+      if (order.reduceOnly && order.status === 'working' && account.quantity === 0) {
+        orderBook.cancel(order.id, bar.date);
+      }
+      return filled;
+    };
+
+    // Splits and dividends left on the bars by the price adjustment go ex before the bar's open
+    const applyCorporateActions = (index: number): void => {
+      const bar = historicalData[index];
+      if (bar.splitRatio && bar.splitRatio > 0 && bar.splitRatio !== 1) {
+        const held = account.quantity;
+        let cash = 0;
+        if (held !== 0) {
+          const quantity = tracker.applySplit(bar.splitRatio, index);
+          cash = account.applySplit(bar.splitRatio, quantity, historicalData[index - 1].close / bar.splitRatio);
+          if (!account.position) entryIndex = undefined;
+          corporateActions.cashInLieu += cash;
+        }
+        // Resting orders are priced and sized in pre-split shares
+        orderBook.cancelAll(bar.date);
+        corporateActions.events.push({ date: bar.date, type: 'split', value: bar.splitRatio, quantity: held, cash });
+      }
+      if (bar.dividend && bar.dividend > 0) {
+        const held = account.quantity;
+        const cash = account.creditDividend(bar.dividend);
+        tracker.creditDividend(bar.dividend);
+        if (cash > 0) corporateActions.dividendsReceived += cash;
+        else corporateActions.dividendsPaid -= cash;
+        corporateActions.events.push({ date: bar.date, type: 'dividend', value: bar.dividend, quantity: held, cash });
+      }
+    };
+
+    const liquidate = (index: number): void => {
+      const held = account.quantity;
+      if (held === 0) return;
+      fill(held > 0 ? 'SELL' : 'BUY', Math.abs(held), historicalData[index].close, index, 'marginCall');
+    };
+
+    for (let i = warmupBars; i < historicalData.length; i++) {
       const currentPrice = historicalData[i];
-      const signal = strategy.generateSignal(historicalData, i, position);
+
+      // Overnight financing accrues on the previous close
+      if (i > warmupBars) {
+        tracker.chargeBorrowFees(account.accrueDailyFinancing(historicalData[i - 1].close));
+        applyCorporateActions(i);
+      }
+
+      // Orders placed after earlier closes trade against this bar, oldest first, sharing its volume.
+      // Bars without volume data are not volume-limited.
+      let volumeBudget = currentPrice.volume > 0
+        ? Math.floor(currentPrice.volume * execution.maxVolumeParticipation)
+        : Infinity;
+      for (const order of orderBook.working) {
+        if (volumeBudget <= 0) break;
+        volumeBudget -= executeOrder(order, i, volumeBudget);
+      }
+      orderBook.endBar(currentPrice, i);
+
+      // Forced liquidation at the close when equity falls below the maintenance requirement
+      if (account.isBelowMaintenance(currentPrice.close)) {
+        account.financing.marginCalls++;
+        orderBook.cancelAll(currentPrice.date);
+        liquidate(i);
+      }
+
+      // The strategy sees this bar's close and can only trade from the next bar on
+      const decision = strategy.generateOrders(historicalData, i, {
+        position: account.position,
+        buyingPower: account.buyingPower(currentPrice.close),
+        flatBuyingPower: Math.max(0, account.equity(currentPrice.close) / margin.initialMargin),
+        openOrders: orderBook.working
+      });
+      decision.cancelOrderIds?.forEach(id => orderBook.cancel(id, currentPrice.date));
+
+      // Risk overlay exits go in after the strategy's orders; once the circuit breaker trips only exits remain
+      const protectiveOrders = riskOverlay.protectiveOrders(historicalData, i, {
+        position: account.position,
+        entryIndex,
+        equity: account.equity(currentPrice.close),
+        peakEquity: Math.max(peak, account.equity(currentPrice.close))
+      });
+      if (riskOverlay.halted) {
+        orderBook.working.filter(order => !order.reduceOnly).forEach(order => orderBook.cancel(order.id, currentPrice.date));
+      }
+      decision.orders
+        .filter(request => !riskOverlay.halted || request.reduceOnly)
+        .concat(protectiveOrders)
+        .forEach(request => orderBook.submit(request, currentPrice, i));
       
       signals.push({
         date: currentPrice.date,
-        signal,
+        signal: decision.signal,
         price: currentPrice.close
       });
 
-      if (signal !== 'HOLD') {
-        const quantity = strategy.getPositionSize(signal, currentPrice.close, cash, position);
-        
-        if (quantity > 0) {
-          const trade: Trade = {
-            id: this.generateTradeId(),
-            type: signal,
-            symbol,
-            price: currentPrice.close * (1 + (signal === 'BUY' ? slippage : -slippage)),
-            quantity,
-            timestamp: currentPrice.date,
-            commission,
-            slippage: currentPrice.close * slippage * quantity
-          };
-
-          if (signal === 'BUY') {
-            const totalCost = trade.price * quantity + commission;
-            if (totalCost <= cash) {
-              cash -= totalCost;
-              position = {
-                symbol,
-                quantity: (position?.quantity || 0) + quantity,
-                avgPrice: position 
-                  ? ((position.avgPrice * position.quantity) + (trade.price * quantity)) / (position.quantity + quantity)
-                  : trade.price,
-                unrealizedPnL: 0,
-                realizedPnL: position?.realizedPnL || 0
-              };
-              trades.push(trade);
-            }
-          } else if (signal === 'SELL' && position && position.quantity >= quantity) {
-            const totalReceived = trade.price * quantity - commission;
-            cash += totalReceived;
-            
-            const realizedPnL = (trade.price - position.avgPrice) * quantity - commission;
-            position.realizedPnL += realizedPnL;
-            position.quantity -= quantity;
-            
-            if (position.quantity === 0) {
-              position = undefined;
-            }
-            trades.push(trade);
-          }
-        }
-      }
-
-      // Update portfolio value and drawdown
-      const positionValue = position ? position.quantity * currentPrice.close : 0;
-      portfolioValue = cash + positionValue;
+      // Update portfolio value and drawdown; shorts are marked as a liability at the close
+      const portfolioValue = account.equity(currentPrice.close);
       
       if (portfolioValue > peak) peak = portfolioValue;
       const drawdown = (peak - portfolioValue) / peak;
@@ -381,176 +764,152 @@ export class BacktestEngine {
       });
 
       // Update unrealized PnL
-      if (position) {
-        position.unrealizedPnL = (currentPrice.close - position.avgPrice) * position.quantity;
+      if (account.position) {
+        account.position.unrealizedPnL = (currentPrice.close - account.position.avgPrice) * account.position.quantity;
       }
     }
 
+    // Orders still working when the data ends never fill
+    const lastBar = historicalData[historicalData.length - 1];
+    if (lastBar) orderBook.cancelAll(lastBar.date);
+
     // Calculate performance metrics
-    const performance = this.calculatePerformanceMetrics(trades, portfolioValues, initialCapital);
+    const performance = calculatePerformanceMetrics(tracker.roundTrips, portfolioValues, initialCapital);
 
     return {
       trades,
-      positions: position ? [position] : [],
+      roundTrips: tracker.roundTrips,
+      positions: account.position ? [account.position] : [],
       portfolioValues,
       performance,
-      signals
+      signals,
+      orders: orderBook.all,
+      financing: account.financing,
+      margin,
+      execution,
+      riskRules,
+      costModel: costModel.config,
+      costs: costModel.breakdown,
+      corporateActions,
+      haltedAt: riskOverlay.haltedAt,
+      seed,
+      dataSource
     };
   }
+}
 
-  private async generateHistoricalData(symbol: string, startDate: string, endDate: string): Promise<HistoricalPrice[]> {
-    // In a real application, this would fetch from a financial data API
-    // For demo purposes, we'll generate synthetic but realistic data
-    
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const data: HistoricalPrice[] = [];
-    
-    let currentPrice = 100; // Starting price
-    const dailyVolatility = 0.02; // 2% daily volatility
-    const drift = 0.0003; // Small positive drift
-    
-    for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
-      // Skip weekends
-      if (date.getDay() === 0 || date.getDay() === 6) continue;
-      
-      // Generate realistic OHLC data
-      const change = (Math.random() - 0.5) * dailyVolatility + drift;
-      const open = currentPrice;
-      const close = open * (1 + change);
-      const high = Math.max(open, close) * (1 + Math.random() * 0.01);
-      const low = Math.min(open, close) * (1 - Math.random() * 0.01);
-      const volume = Math.floor(Math.random() * 1000000) + 100000;
-      
-      data.push({
-        date: date.toISOString().split('T')[0],
-        open,
-        high,
-        low,
-        close,
-        volume,
-        adjustedClose: close
-      });
-      
-      currentPrice = close;
-    }
-    
-    return data;
+// Return, risk and trade statistics for an equity curve and its closed round trips
+export function calculatePerformanceMetrics(roundTrips: RoundTripTrade[], portfolioValues: Array<{ date: string; value: number; drawdown: number }>, initialCapital: number): PerformanceMetrics {
+  if (portfolioValues.length === 0) {
+    return getEmptyMetrics();
   }
 
-  private calculatePerformanceMetrics(trades: Trade[], portfolioValues: Array<{ date: string; value: number; drawdown: number }>, initialCapital: number): PerformanceMetrics {
-    if (portfolioValues.length === 0) {
-      return this.getEmptyMetrics();
-    }
-
-    const finalValue = portfolioValues[portfolioValues.length - 1].value;
-    const totalReturn = (finalValue - initialCapital) / initialCapital;
-    
-    // Calculate returns
-    const returns = portfolioValues.slice(1).map((value, i) => 
-      (value.value - portfolioValues[i].value) / portfolioValues[i].value
-    );
-    
-    const avgReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-    const annualizedReturn = Math.pow(1 + totalReturn, 252 / portfolioValues.length) - 1;
-    
-    // Calculate volatility
-    const variance = returns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / returns.length;
-    const volatility = Math.sqrt(variance * 252); // Annualized
-    
-    // Calculate Sharpe ratio (assuming 2% risk-free rate)
-    const riskFreeRate = 0.02;
-    const sharpeRatio = volatility > 0 ? (annualizedReturn - riskFreeRate) / volatility : 0;
-    
-    // Calculate downside deviation for Sortino ratio
-    const downsideReturns = returns.filter(ret => ret < 0);
-    const downsideVariance = downsideReturns.reduce((sum, ret) => sum + ret * ret, 0) / returns.length;
-    const downsideDeviation = Math.sqrt(downsideVariance * 252);
-    const sortinoRatio = downsideDeviation > 0 ? (annualizedReturn - riskFreeRate) / downsideDeviation : 0;
-    
-    // Calculate max drawdown
-    const maxDrawdown = Math.max(...portfolioValues.map(pv => pv.drawdown));
-    
-    // Calculate Calmar ratio
-    const calmarRatio = maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0;
-    
-    // Trade statistics
-    const winningTrades = trades.filter(trade => {
-      if (trade.type === 'SELL') {
-        // Find corresponding buy trade and calculate profit
-        return true; // Simplified for demo
-      }
-      return false;
-    });
-    
-    const losingTrades = trades.filter(trade => trade.type === 'SELL').filter(trade => !winningTrades.includes(trade));
-    
-    const winRate = trades.length > 0 ? winningTrades.length / (winningTrades.length + losingTrades.length) : 0;
-    
-    const totalProfit = winningTrades.reduce((sum, trade) => sum + (trade.price * trade.quantity), 0);
-    const totalLoss = losingTrades.reduce((sum, trade) => sum + (trade.price * trade.quantity), 0);
-    const profitFactor = totalLoss > 0 ? totalProfit / totalLoss : totalProfit > 0 ? Infinity : 0;
+  const finalValue = portfolioValues[portfolioValues.length - 1].value;
+  const totalReturn = (finalValue - initialCapital) / initialCapital;
+  
+  // Calculate returns
+  const returns = portfolioValues.slice(1).map((value, i) => 
+    (value.value - portfolioValues[i].value) / portfolioValues[i].value
+  );
+  
+  const avgReturn = returns.length > 0 ? returns.reduce((sum, ret) => sum + ret, 0) / returns.length : 0;
+  const annualizedReturn = returns.length > 0 ? Math.pow(1 + totalReturn, 252 / returns.length) - 1 : 0;
+  
+  // Calculate volatility
+  const variance = returns.length > 0 ? returns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / returns.length : 0;
+  const volatility = Math.sqrt(variance * 252); // Annualized
+  
+  // Calculate Sharpe ratio (assuming 2% risk-free rate)
+  const riskFreeRate = 0.02;
+  const sharpeRatio = volatility > 0 ? (annualizedReturn - riskFreeRate) / volatility : 0;
+  
+  // Calculate downside deviation for Sortino ratio
+  const downsideReturns = returns.filter(ret => ret < 0);
+  const downsideVariance = returns.length > 0 ? downsideReturns.reduce((sum, ret) => sum + ret * ret, 0) / returns.length : 0;
+  const downsideDeviation = Math.sqrt(downsideVariance * 252);
+  const sortinoRatio = downsideDeviation > 0 ? (annualizedReturn - riskFreeRate) / downsideDeviation : 0;
+  
+  // Calculate max drawdown
+  const maxDrawdown = portfolioValues.reduce((max, pv) => Math.max(max, pv.drawdown), 0);
+  
+  // Calculate Calmar ratio
+  const calmarRatio = maxDrawdown > 0 ? annualizedReturn / maxDrawdown : 0;
+  
+  // Trade statistics come from closed round trips; a position still open at the end is not counted
+  return {
+    totalReturn,
+    annualizedReturn,
+    sharpeRatio,
+    sortinoRatio,
+    maxDrawdown,
+    volatility,
+    calmarRatio,
+    ...calculateTradeStatistics(roundTrips)
+  };
+}
 
-    return {
-      totalReturn,
-      annualizedReturn,
-      sharpeRatio,
-      sortinoRatio,
-      maxDrawdown,
-      volatility,
-      winRate,
-      profitFactor,
-      calmarRatio,
-      totalTrades: trades.length,
-      avgTrade: trades.length > 0 ? totalReturn / trades.length : 0,
-      bestTrade: Math.max(...trades.map(t => t.price), 0),
-      worstTrade: Math.min(...trades.map(t => t.price), 0),
-      avgWinningTrade: winningTrades.length > 0 ? totalProfit / winningTrades.length : 0,
-      avgLosingTrade: losingTrades.length > 0 ? totalLoss / losingTrades.length : 0,
-      consecutiveWins: 0, // Simplified for demo
-      consecutiveLosses: 0 // Simplified for demo
-    };
-  }
+function getEmptyMetrics(): PerformanceMetrics {
+  return {
+    totalReturn: 0,
+    annualizedReturn: 0,
+    sharpeRatio: 0,
+    sortinoRatio: 0,
+    maxDrawdown: 0,
+    volatility: 0,
+    winRate: 0,
+    profitFactor: 0,
+    calmarRatio: 0,
+    totalTrades: 0,
+    avgTrade: 0,
+    bestTrade: 0,
+    worstTrade: 0,
+    avgWinningTrade: 0,
+    avgLosingTrade: 0,
+    consecutiveWins: 0,
+    consecutiveLosses: 0,
+    avgHoldingPeriod: 0
+  };
+}
 
-  private getEmptyMetrics(): PerformanceMetrics {
-    return {
-      totalReturn: 0,
-      annualizedReturn: 0,
-      sharpeRatio: 0,
-      sortinoRatio: 0,
-      maxDrawdown: 0,
-      volatility: 0,
-      winRate: 0,
-      profitFactor: 0,
-      calmarRatio: 0,
-      totalTrades: 0,
-      avgTrade: 0,
-      bestTrade: 0,
-      worstTrade: 0,
-      avgWinningTrade: 0,
-      avgLosingTrade: 0,
-      consecutiveWins: 0,
-      consecutiveLosses: 0
-    };
-  }
+// Strategies defined outside this module, such as the saved strategy library, register a source here;
+// importing them directly would be circular since they extend TradingStrategy
+export interface StrategySource {
+  list(): TradingStrategy[];
+  create(name: string): TradingStrategy | null;
 }
 
+const strategySources: StrategySource[] = [];
+
+export const registerStrategySource = (source: StrategySource): void => {
+  strategySources.push(source);
+};
+
+export const BUILT_IN_STRATEGY_NAMES = ['Moving Average Crossover', 'RSI Mean Reversion', 'Bollinger Bands', 'Channel Breakout'];
+
 // Strategy factory
 export const getAvailableStrategies = (): TradingStrategy[] => [
   new MovingAverageCrossover(),
   new RSIMeanReversion(),
-  new BollingerBands()
+  new BollingerBands(),
+  new ChannelBreakout(),
+  ...strategySources.flatMap(source => source.list())
 ];
 
 export const createStrategy = (name: string, parameters?: any): TradingStrategy | null => {
   switch (name) {
     case 'Moving Average Crossover':
-      return new MovingAverageCrossover(parameters?.fastPeriod, parameters?.slowPeriod);
+      return new MovingAverageCrossover(parameters?.fastPeriod, parameters?.slowPeriod, parameters?.allowShort);
     case 'RSI Mean Reversion':
-      return new RSIMeanReversion(parameters?.rsiPeriod, parameters?.oversoldLevel, parameters?.overboughtLevel);
+      return new RSIMeanReversion(parameters?.rsiPeriod, parameters?.oversoldLevel, parameters?.overboughtLevel, parameters?.allowShort);
     case 'Bollinger Bands':
-      return new BollingerBands(parameters?.period, parameters?.stdDev);
+      return new BollingerBands(parameters?.period, parameters?.stdDev, parameters?.allowShort);
+    case 'Channel Breakout':
+      return new ChannelBreakout(parameters?.channelPeriod, parameters?.trailPercent);
     default:
+      for (const source of strategySources) {
+        const strategy = source.create(name);
+        if (strategy) return strategy;
+      }
       return null;
   }
 };
\ No newline at end of file
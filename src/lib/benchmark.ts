@@ -0,0 +1,67 @@
+// Benchmark comparison for backtests: the strategy's equity against buy-and-hold of another symbol
+import { HistoricalPrice } from './backtesting';
+import { RiskManager } from './riskManagement';
+
+export interface BenchmarkPoint {
+  date: string;
+  strategy: number; // Strategy equity
+  benchmark: number; // Buy-and-hold of the benchmark, started with the same capital
+  relative: number; // Strategy over benchmark equity; rises while the strategy outperforms
+}
+
+export interface BenchmarkComparison {
+  symbol: string;
+  dataSource: string;
+  observations: number; // Dates present in both series
+  totalReturn: number; // Benchmark buy-and-hold over the common dates
+  excessReturn: number; // Strategy total return minus the benchmark's
+  alpha: number; // Annualized Jensen's alpha (2% risk-free rate)
+  beta: number;
+  informationRatio: number;
+  trackingError: number; // Annualized
+  upCapture: number;
+  downCapture: number;
+  curve: BenchmarkPoint[];
+}
+
+const toReturns = (values: number[]): number[] => values.slice(1).map((value, i) => value / values[i] - 1);
+
+// Compares on the dates both series share; the benchmark is bought at the first common close without costs
+export function compareWithBenchmark(
+  portfolioValues: Array<{ date: string; value: number }>,
+  benchmarkPrices: HistoricalPrice[],
+  symbol: string,
+  dataSource: string
+): BenchmarkComparison {
+  const closeByDate = new Map(benchmarkPrices.map(bar => [bar.date, bar.close]));
+  const common = portfolioValues.filter(point => closeByDate.has(point.date));
+  if (common.length < 3) {
+    throw new Error(`Benchmark ${symbol} shares only ${common.length} dates with the backtest`);
+  }
+
+  const startValue = common[0].value;
+  const startClose = closeByDate.get(common[0].date)!;
+  const curve: BenchmarkPoint[] = common.map(point => {
+    const benchmark = startValue * closeByDate.get(point.date)! / startClose;
+    return { date: point.date, strategy: point.value, benchmark, relative: point.value / benchmark };
+  });
+
+  const strategyReturns = toReturns(curve.map(point => point.strategy));
+  const benchmarkReturns = toReturns(curve.map(point => point.benchmark));
+  const last = curve[curve.length - 1];
+  const totalReturn = last.benchmark / startValue - 1;
+
+  return {
+    symbol,
+    dataSource,
+    observations: curve.length,
+    totalReturn,
+    excessReturn: last.strategy / startValue - 1 - totalReturn,
+    alpha: RiskManager.calculateAlpha(strategyReturns, benchmarkReturns),
+    beta: RiskManager.calculateBeta(strategyReturns, benchmarkReturns),
+    informationRatio: RiskManager.calculateInformationRatio(strategyReturns, benchmarkReturns),
+    trackingError: RiskManager.calculateTrackingError(strategyReturns, benchmarkReturns),
+    ...RiskManager.calculateCaptureRatios(strategyReturns, benchmarkReturns),
+    curve
+  };
+}
@@ -0,0 +1,90 @@
+// Resampling of historical daily log returns for bootstrap Monte Carlo paths
+import { SeededRandom } from './random';
+
+export type BootstrapMethod = 'iid' | 'stationaryBlock' | 'filteredHistorical';
+
+export interface BootstrapConfig {
+  method: BootstrapMethod;
+  meanBlockLength: number; // Stationary block bootstrap: expected block length in days
+  ewmaDecay: number; // Filtered historical simulation: EWMA variance decay (RiskMetrics uses 0.94)
+}
+
+export const BOOTSTRAP_METHOD_LABELS: Record<BootstrapMethod, string> = {
+  iid: 'I.I.D. Bootstrap',
+  stationaryBlock: 'Stationary Block Bootstrap',
+  filteredHistorical: 'Filtered Historical Simulation',
+};
+
+// Returns a per-path sampler; each call of the sampler yields the next daily log return
+export type BootstrapSampler = (rng: SeededRandom) => () => number;
+
+export function validateBootstrapConfig(config: BootstrapConfig): void {
+  if (config.method === 'stationaryBlock' && !(config.meanBlockLength >= 1)) {
+    throw new Error('Stationary block bootstrap: mean block length must be at least 1 day');
+  }
+  if (config.method === 'filteredHistorical' && !(config.ewmaDecay > 0 && config.ewmaDecay < 1)) {
+    throw new Error('Filtered historical simulation: EWMA decay must be between 0 and 1');
+  }
+}
+
+export function createBootstrapSampler(config: BootstrapConfig, returns: number[]): BootstrapSampler {
+  validateBootstrapConfig(config);
+  if (returns.length < 2) {
+    throw new Error('Historical bootstrap requires a return history with at least two observations');
+  }
+  const n = returns.length;
+
+  switch (config.method) {
+    case 'iid':
+      return (rng) => () => returns[rng.nextInt(n)];
+
+    case 'stationaryBlock': {
+      // Politis-Romano: blocks of geometric length, wrapping around the end of the history
+      const restartProbability = 1 / config.meanBlockLength;
+      return (rng) => {
+        let index = -1;
+        return () => {
+          index = index < 0 || rng.next() < restartProbability ? rng.nextInt(n) : (index + 1) % n;
+          return returns[index];
+        };
+      };
+    }
+
+    case 'filteredHistorical': {
+      // Devolatilize history with an EWMA filter, then rescale resampled residuals by the simulated volatility
+      const { residuals, mean, currentVariance } = filterReturns(returns, config.ewmaDecay);
+      const decay = config.ewmaDecay;
+      return (rng) => {
+        let variance = currentVariance;
+        return () => {
+          const shock = Math.sqrt(variance) * residuals[rng.nextInt(residuals.length)];
+          variance = decay * variance + (1 - decay) * shock * shock;
+          return mean + shock;
+        };
+      };
+    }
+  }
+}
+
+// Standardized residuals of an EWMA volatility filter plus the variance forecast for the next day
+function filterReturns(returns: number[], decay: number): { residuals: number[]; mean: number; currentVariance: number } {
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const sampleVariance = returns.reduce((sum, r) => sum + (r - mean) * (r - mean), 0) / (returns.length - 1);
+
+  let variance = sampleVariance > 0 ? sampleVariance : 1e-8;
+  const residuals: number[] = [];
+  for (const r of returns) {
+    const deviation = r - mean;
+    residuals.push(deviation / Math.sqrt(variance));
+    variance = decay * variance + (1 - decay) * deviation * deviation;
+  }
+
+  // Re-standardize so resampled shocks carry no drift of their own (the mean is added back explicitly)
+  const residualMean = residuals.reduce((sum, e) => sum + e, 0) / residuals.length;
+  const residualStd = Math.sqrt(residuals.reduce((sum, e) => sum + (e - residualMean) * (e - residualMean), 0) / residuals.length);
+  const standardized = residualStd > 0
+    ? residuals.map(e => (e - residualMean) / residualStd)
+    : residuals.map(() => 0);
+
+  return { residuals: standardized, mean, currentVariance: variance };
+}
@@ -0,0 +1,210 @@
+// Strategies written as TypeScript or JavaScript. The code runs over the whole history in a sandboxed
+// worker before the backtest, and the engine then replays its orders bar by bar against the real account.
+import {
+  BUILT_IN_STRATEGY_NAMES,
+  HistoricalPrice,
+  Position,
+  TradeSignal,
+  TradingStrategy,
+  createStrategy,
+  registerStrategySource
+} from './backtesting';
+import type {
+  CodeStrategyDecision,
+  CodeStrategyLimits,
+  CodeStrategyRequest,
+  CodeStrategyResponse,
+  CodeStrategyResult
+} from './codeStrategyRuntime';
+
+export const DEFAULT_CODE_STRATEGY_LIMITS: CodeStrategyLimits = { timeBudgetMs: 5000, memoryLimitMb: 256 };
+
+// Allowance for loading and compiling in the worker on top of the code's time budget
+const WORKER_STARTUP_MS = 3000;
+
+export const CODE_STRATEGY_TEMPLATE = `// Called after the close of every bar. Orders fill at the next bar's open.
+function onBar(ctx: any) {
+  const { indicators, position } = ctx;
+  const fast = indicators.sma(10);
+  const slow = indicators.sma(30);
+  const previousFast = indicators.sma(10, 1);
+  const previousSlow = indicators.sma(30, 1);
+  if (fast === null || slow === null || previousFast === null || previousSlow === null) return;
+
+  if (position.side === 'flat' && previousFast <= previousSlow && fast > slow) {
+    ctx.buy(0.95);
+  } else if (position.side === 'long' && previousFast >= previousSlow && fast < slow) {
+    ctx.sell();
+  }
+}
+`;
+
+// Runs the code over `bars` in a fresh worker, which is terminated as soon as it answers or overruns
+export function runCodeInSandbox(
+  code: string,
+  bars: HistoricalPrice[],
+  limits: CodeStrategyLimits = DEFAULT_CODE_STRATEGY_LIMITS
+): Promise<CodeStrategyResult> {
+  if (typeof Worker === 'undefined') {
+    return Promise.reject(new Error('Code strategies need Web Worker support to run in isolation'));
+  }
+
+  return new Promise<CodeStrategyResult>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/codeStrategy.worker.ts', import.meta.url), { type: 'module' });
+    const finish = (error: Error | null, result?: CodeStrategyResult) => {
+      clearTimeout(timer);
+      worker.terminate();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+    const timer = setTimeout(
+      () => finish(new Error(`Strategy code did not finish within ${limits.timeBudgetMs / 1000}s; check for a loop that never ends`)),
+      limits.timeBudgetMs + WORKER_STARTUP_MS
+    );
+
+    worker.onmessage = (event: MessageEvent<CodeStrategyResponse>) => {
+      const message = event.data;
+      if (message.type === 'result') finish(null, message.result);
+      else finish(new Error(message.message));
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish(new Error(event.message || 'Strategy worker failed, possibly by running out of memory'));
+    };
+
+    const request: CodeStrategyRequest = { code, bars, limits };
+    worker.postMessage(request);
+  });
+}
+
+export interface CodeStrategyParams {
+  name: string;
+  description: string;
+  code: string;
+}
+
+export class CodeStrategy extends TradingStrategy {
+  name: string;
+  description: string;
+  parameters: { [key: string]: number };
+  readonly code: string;
+  logs: string[] = []; // From the last prepared run
+  private decisions: Map<string, CodeStrategyDecision> | null = null;
+  private entrySize = 1;
+
+  constructor(params: CodeStrategyParams, private limits: CodeStrategyLimits = DEFAULT_CODE_STRATEGY_LIMITS) {
+    super();
+    if (!params.code.trim()) throw new Error('Strategy code is empty');
+    this.name = params.name;
+    this.description = params.description || 'Strategy written in code';
+    this.code = params.code;
+    this.parameters = {};
+  }
+
+  async prepare(prices: HistoricalPrice[]): Promise<void> {
+    const result = await runCodeInSandbox(this.code, prices, this.limits);
+    this.decisions = new Map();
+    result.decisions.forEach((decision, i) => {
+      if (decision) this.decisions!.set(prices[i].date, decision);
+    });
+    this.logs = result.logs;
+  }
+
+  // The worker only approximates the position, so orders that do not fit the real one are dropped
+  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): TradeSignal {
+    if (!this.decisions) {
+      throw new Error(`${this.name} runs its code before the backtest starts, so it needs a full backtest run`);
+    }
+    const decision = this.decisions.get(prices[currentIndex].date);
+    if (!decision) return 'HOLD';
+
+    const held = position?.quantity ?? 0;
+    const { signal } = decision;
+    if ((signal === 'BUY' && held > 0) || (signal === 'SHORT' && held < 0) || (signal === 'SELL' && held <= 0) || (signal === 'COVER' && held >= 0)) {
+      return 'HOLD';
+    }
+    this.entrySize = decision.size;
+    return signal;
+  }
+
+  getPositionSize(signal: TradeSignal, currentPrice: number, availableCash: number, currentPosition?: Position): number {
+    if (signal === 'BUY' || signal === 'SHORT') {
+      return Math.floor((availableCash * this.entrySize) / currentPrice);
+    } else if ((signal === 'SELL' || signal === 'COVER') && currentPosition) {
+      return Math.abs(currentPosition.quantity);
+    }
+    return 0;
+  }
+}
+
+// Saved code strategies, kept in local storage
+export interface SavedCodeStrategy extends CodeStrategyParams {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const CODE_STRATEGY_STORAGE_KEY = 'code_strategies';
+
+function readCodeStrategies(): SavedCodeStrategy[] {
+  try {
+    const stored = localStorage.getItem(CODE_STRATEGY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeCodeStrategies(strategies: SavedCodeStrategy[]): void {
+  try {
+    localStorage.setItem(CODE_STRATEGY_STORAGE_KEY, JSON.stringify(strategies));
+  } catch {
+    throw new Error('Not enough local storage to save this strategy. Delete an older strategy and try again.');
+  }
+}
+
+// Most recently updated first
+export function getSavedCodeStrategies(): SavedCodeStrategy[] {
+  return readCodeStrategies().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+const findByName = (strategies: SavedCodeStrategy[], name: string) =>
+  strategies.find(strategy => strategy.name.toLowerCase() === name.toLowerCase());
+
+// Creates the strategy, or replaces the saved code of the one with the same name. The code is compiled
+// in the sandbox first so a strategy that cannot run is never saved.
+export async function saveCodeStrategy(params: CodeStrategyParams): Promise<SavedCodeStrategy> {
+  const name = params.name.trim();
+  if (!name) throw new Error('Strategy name is required');
+  if (BUILT_IN_STRATEGY_NAMES.some(builtIn => builtIn.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`"${name}" is a built-in strategy; choose another name`);
+  }
+  const other = createStrategy(name);
+  if (other && !(other instanceof CodeStrategy)) {
+    throw new Error(`"${name}" is already used by another strategy; choose another name`);
+  }
+  await runCodeInSandbox(params.code, []);
+
+  const strategies = readCodeStrategies();
+  const now = new Date().toISOString();
+  let strategy = findByName(strategies, name);
+  if (!strategy) {
+    strategy = { id: `code_${Date.now()}`, name, description: '', code: '', createdAt: now, updatedAt: now };
+    strategies.push(strategy);
+  }
+  Object.assign(strategy, { name, description: params.description.trim(), code: params.code, updatedAt: now });
+  writeCodeStrategies(strategies);
+  return strategy;
+}
+
+export function deleteCodeStrategy(id: string): void {
+  writeCodeStrategies(readCodeStrategies().filter(strategy => strategy.id !== id));
+}
+
+registerStrategySource({
+  list: () => getSavedCodeStrategies().map(strategy => new CodeStrategy(strategy)),
+  create: (name) => {
+    const saved = findByName(readCodeStrategies(), name);
+    return saved ? new CodeStrategy(saved) : null;
+  }
+});
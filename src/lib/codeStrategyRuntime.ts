@@ -0,0 +1,279 @@
+// Worker side of code strategies: compiles the user's TypeScript or JavaScript and calls its onBar function
+// once per bar, recording the order it places. Runs inside the sandbox worker, never on the page.
+import { transform } from 'sucrase';
+import { HistoricalPrice, TradeSignal } from './backtesting';
+import { INDICATOR_DEFINITIONS, IndicatorKind, IndicatorSeriesCache } from './customStrategy';
+import { TIMEFRAMES, Timeframe } from './resampling';
+
+export interface CodeStrategyLimits {
+  timeBudgetMs: number; // Wall time for all bars; the page stops the worker if it runs well past this
+  memoryLimitMb: number; // Worker heap, checked after every bar where the browser reports it
+}
+
+export interface CodeStrategyDecision {
+  signal: TradeSignal;
+  size: number; // Fraction of buying power for BUY and SHORT
+}
+
+// Messages exchanged with the sandbox worker
+export interface CodeStrategyRequest {
+  code: string;
+  bars: HistoricalPrice[];
+  limits: CodeStrategyLimits;
+}
+
+export interface CodeStrategyResult {
+  decisions: Array<CodeStrategyDecision | null>; // One per bar
+  logs: string[];
+  elapsedMs: number;
+}
+
+export type CodeStrategyResponse =
+  | { type: 'result'; result: CodeStrategyResult }
+  | { type: 'error'; message: string };
+
+export const DEFAULT_CODE_POSITION_SIZE = 0.95;
+
+export type PositionSide = 'long' | 'short' | 'flat';
+
+// What onBar sees for the position. The worker tracks it from the strategy's own orders, assuming each
+// fills in full at the next open; exits made by the engine's risk rules are not reflected.
+export interface CodePosition {
+  side: PositionSide;
+  entryPrice: number | null;
+  entryIndex: number | null;
+  barsHeld: number;
+}
+
+export interface CodeIndicators {
+  sma(period?: number, ago?: number): number | null;
+  ema(period?: number, ago?: number): number | null;
+  rsi(period?: number, ago?: number): number | null;
+  atr(period?: number, ago?: number): number | null;
+  vwap(ago?: number): number | null;
+  macd(fast?: number, slow?: number, signal?: number, ago?: number): { macd: number; signal: number; histogram: number } | null;
+  bollinger(period?: number, stdDev?: number, ago?: number): { upper: number; middle: number; lower: number } | null;
+  stochastic(kPeriod?: number, dPeriod?: number, ago?: number): { k: number; d: number } | null;
+  // The same indicators computed on bars resampled to a higher timeframe. A value updates when its
+  // resampled bar completes, and `ago` still counts the strategy's own bars.
+  timeframe(timeframe: Timeframe): CodeIndicators;
+}
+
+export interface CodeBarContext {
+  bar: HistoricalPrice;
+  index: number;
+  bars: HistoricalPrice[]; // Up to and including the current bar
+  position: CodePosition;
+  state: Record<string, unknown>; // Kept between bars
+  indicators: CodeIndicators;
+  buy(size?: number): void;
+  sell(): void;
+  short(size?: number): void;
+  cover(): void;
+  log(...values: unknown[]): void;
+}
+
+export type OnBarFunction = (ctx: CodeBarContext) => void;
+
+// Runs the code's top level and returns its onBar
+export type StrategyLoader = () => OnBarFunction;
+
+const MAX_LOG_LINES = 200;
+const MAX_LOG_LENGTH = 500;
+
+// Globals shadowed inside the user's code. The worker also deletes them from its global scope. Timers
+// are included because they evaluate string arguments as code.
+const SHADOWED_GLOBALS = [
+  'self', 'globalThis', 'window', 'document', 'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource',
+  'importScripts', 'postMessage', 'indexedDB', 'caches', 'navigator', 'location', 'Worker', 'SharedWorker',
+  'BroadcastChannel', 'Function', 'eval', 'setTimeout', 'setInterval', 'FontFace', 'fonts'
+];
+
+// Compiling needs the Function constructor, so it happens before the worker locks itself down. The
+// returned loader is only called after, so not even the code's top level can keep a blocked global.
+export function compileStrategyCode(code: string): StrategyLoader {
+  let javascript: string;
+  try {
+    javascript = transform(code, { transforms: ['typescript', 'imports'] }).code;
+  } catch (error) {
+    throw new Error(`Syntax error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const exports: Record<string, unknown> = {};
+  const require = () => {
+    throw new Error('Strategy code cannot import modules');
+  };
+  let factory: (...args: unknown[]) => () => unknown;
+  try {
+    // Strict functions cannot take a parameter named eval, so the strict code is nested inside the
+    // function that shadows the globals
+    factory = new Function(
+      'exports', 'require', 'module', ...SHADOWED_GLOBALS,
+      `return function () {\n"use strict";\n${javascript}\nreturn typeof onBar === 'function' ? onBar : undefined;\n};`
+    ) as (...args: unknown[]) => () => unknown;
+  } catch (error) {
+    throw new Error(`Syntax error: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return () => {
+    const declared = factory(exports, require, { exports }, ...SHADOWED_GLOBALS.map(() => undefined))();
+    const onBar = declared ?? exports.onBar ?? exports.default;
+    if (typeof onBar !== 'function') {
+      throw new Error('Strategy code must define a function named onBar(ctx)');
+    }
+    return onBar as OnBarFunction;
+  };
+}
+
+const formatLogValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const heapUsed = (): number | undefined =>
+  (performance as unknown as { memory?: { usedJSHeapSize: number } }).memory?.usedJSHeapSize;
+
+// Indicator values for the current bar or `ago` bars back; never later bars
+function createIndicators(cache: IndicatorSeriesCache, currentIndex: () => number, timeframe?: Timeframe): CodeIndicators {
+  const value = (indicator: IndicatorKind, args: Array<number | undefined>, output: string, ago: number = 0): number | null => {
+    if (!Number.isInteger(ago) || ago < 0) {
+      throw new Error(`${indicator}: ago must be a whole number of bars back, 0 or more`);
+    }
+    const params: Record<string, number> = {};
+    INDICATOR_DEFINITIONS[indicator].parameters.forEach((parameter, i) => {
+      const given = args[i] ?? parameter.defaultValue;
+      if (typeof given !== 'number' || !Number.isFinite(given) || given < parameter.min || (parameter.integer && !Number.isInteger(given))) {
+        throw new Error(`${indicator}: ${parameter.label} must be ${parameter.integer ? 'a whole number' : 'a number'} of at least ${parameter.min}`);
+      }
+      params[parameter.key] = given;
+    });
+    const index = currentIndex() - ago;
+    if (index < 0) return null;
+    return cache.get({ indicator, params, output, timeframe })[index] ?? null;
+  };
+  const byTimeframe = new Map<Timeframe, CodeIndicators>();
+
+  return {
+    sma: (period, ago) => value('sma', [period], 'value', ago),
+    ema: (period, ago) => value('ema', [period], 'value', ago),
+    rsi: (period, ago) => value('rsi', [period], 'value', ago),
+    atr: (period, ago) => value('atr', [period], 'value', ago),
+    vwap: (ago) => value('vwap', [], 'value', ago),
+    macd: (fast, slow, signal, ago) => {
+      const args = [fast, slow, signal];
+      const line = value('macd', args, 'macd', ago);
+      const signalLine = value('macd', args, 'signal', ago);
+      const histogram = value('macd', args, 'histogram', ago);
+      return line === null || signalLine === null || histogram === null ? null : { macd: line, signal: signalLine, histogram };
+    },
+    bollinger: (period, stdDev, ago) => {
+      const args = [period, stdDev];
+      const upper = value('bollinger', args, 'upper', ago);
+      const middle = value('bollinger', args, 'middle', ago);
+      const lower = value('bollinger', args, 'lower', ago);
+      return upper === null || middle === null || lower === null ? null : { upper, middle, lower };
+    },
+    stochastic: (kPeriod, dPeriod, ago) => {
+      const args = [kPeriod, dPeriod];
+      const k = value('stochastic', args, 'k', ago);
+      const d = value('stochastic', args, 'd', ago);
+      return k === null || d === null ? null : { k, d };
+    },
+    timeframe: (target) => {
+      if (!TIMEFRAMES.includes(target)) {
+        throw new Error(`timeframe: expected one of ${TIMEFRAMES.join(', ')}, got ${formatLogValue(target)}`);
+      }
+      if (!byTimeframe.has(target)) byTimeframe.set(target, createIndicators(cache, currentIndex, target));
+      return byTimeframe.get(target)!;
+    }
+  };
+}
+
+// Calls onBar for every bar and returns one decision per bar (null when it placed no order)
+export function runStrategyCode(onBar: OnBarFunction, request: CodeStrategyRequest): CodeStrategyResult {
+  const { bars, limits } = request;
+  const memoryLimit = limits.memoryLimitMb * 1024 * 1024;
+  const startedAt = performance.now();
+  const cache = new IndicatorSeriesCache(bars);
+  const decisions: Array<CodeStrategyDecision | null> = new Array(bars.length).fill(null);
+  const logs: string[] = [];
+  const visibleBars: HistoricalPrice[] = [];
+  const state: Record<string, unknown> = {};
+  const position: CodePosition = { side: 'flat', entryPrice: null, entryIndex: null, barsHeld: 0 };
+  let index = 0;
+
+  const indicators = createIndicators(cache, () => index);
+  const size = (value: number | undefined, method: string): number => {
+    const fraction = value ?? DEFAULT_CODE_POSITION_SIZE;
+    if (typeof fraction !== 'number' || !(fraction > 0 && fraction <= 1)) {
+      throw new Error(`${method}: size must be a fraction of buying power between 0 and 1`);
+    }
+    return fraction;
+  };
+  // A later order on the same bar replaces an earlier one
+  const place = (decision: CodeStrategyDecision) => {
+    decisions[index] = decision;
+  };
+
+  for (index = 0; index < bars.length; index++) {
+    // Orders placed on the previous bar fill at this bar's open
+    const pending = index > 0 ? decisions[index - 1] : null;
+    if (pending) {
+      const opens = (pending.signal === 'BUY' && position.side !== 'long') || (pending.signal === 'SHORT' && position.side !== 'short');
+      const closes = (pending.signal === 'SELL' && position.side === 'long') || (pending.signal === 'COVER' && position.side === 'short');
+      if (opens) {
+        position.side = pending.signal === 'BUY' ? 'long' : 'short';
+        position.entryPrice = bars[index].open;
+        position.entryIndex = index;
+      } else if (closes) {
+        position.side = 'flat';
+        position.entryPrice = null;
+        position.entryIndex = null;
+      }
+    }
+    position.barsHeld = position.entryIndex === null ? 0 : index - position.entryIndex;
+
+    const bar = Object.freeze({ ...bars[index] });
+    visibleBars.push(bar);
+    const ctx: CodeBarContext = {
+      bar,
+      index,
+      bars: visibleBars,
+      position: { ...position },
+      state,
+      indicators,
+      buy: (value) => place({ signal: 'BUY', size: size(value, 'buy') }),
+      sell: () => place({ signal: 'SELL', size: 1 }),
+      short: (value) => place({ signal: 'SHORT', size: size(value, 'short') }),
+      cover: () => place({ signal: 'COVER', size: 1 }),
+      log: (...values) => {
+        if (logs.length < MAX_LOG_LINES) {
+          logs.push(`[${bar.date}] ${values.map(formatLogValue).join(' ')}`.slice(0, MAX_LOG_LENGTH));
+        }
+      }
+    };
+
+    try {
+      const returned: unknown = onBar(ctx);
+      if (returned && typeof (returned as { then?: unknown }).then === 'function') {
+        throw new Error('onBar must be synchronous; it returned a promise');
+      }
+    } catch (error) {
+      throw new Error(`Bar ${index} (${bar.date}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (performance.now() - startedAt > limits.timeBudgetMs) {
+      throw new Error(`Strategy code exceeded its ${limits.timeBudgetMs / 1000}s time budget at bar ${index} of ${bars.length}`);
+    }
+    const used = heapUsed();
+    if (used !== undefined && used > memoryLimit) {
+      throw new Error(`Strategy code exceeded its ${limits.memoryLimitMb} MB memory limit at bar ${index}`);
+    }
+  }
+
+  return { decisions, logs, elapsedMs: performance.now() - startedAt };
+}
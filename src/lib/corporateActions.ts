@@ -0,0 +1,80 @@
+// Stock splits and cash dividends carried on price bars, and the price adjustment policies built from them
+import { HistoricalPrice } from './backtesting';
+
+// Raw bars are as traded, with split and dividend events on their ex-dates. Adjusted policies rescale
+// the bars before each event so the series has no jumps, which removes the events the engine would apply.
+export type PriceAdjustment = 'raw' | 'splitAdjusted' | 'totalReturn';
+
+export const PRICE_ADJUSTMENT_LABELS: Record<PriceAdjustment, string> = {
+  raw: 'Raw (as traded)',
+  splitAdjusted: 'Split-Adjusted',
+  totalReturn: 'Split & Dividend Adjusted',
+};
+
+export const PRICE_ADJUSTMENT_DESCRIPTIONS: Record<PriceAdjustment, string> = {
+  raw: 'Prices as traded. Splits multiply the shares held and dividends are paid in cash.',
+  splitAdjusted: 'Prices before each split are divided by its ratio, so quantities never change. Dividends are paid in cash.',
+  totalReturn: 'Prices are also scaled down before each dividend, so income shows up in the price and is not paid in cash.',
+};
+
+export interface CorporateActionEvent {
+  date: string;
+  type: 'split' | 'dividend';
+  value: number; // Split ratio or dividend per share
+  quantity: number; // Signed shares held before the action
+  cash: number; // Dividend received (negative when owed on a short), or cash in lieu of fractional shares
+}
+
+export interface CorporateActionSummary {
+  adjustment: PriceAdjustment;
+  dividendsReceived: number;
+  dividendsPaid: number; // Owed to the share lender on short positions
+  cashInLieu: number; // Signed: paid out for fractional long shares, charged to buy back fractional short shares
+  events: CorporateActionEvent[]; // Every split and dividend going ex during the run, held or not
+}
+
+export const hasCorporateActions = (bars: HistoricalPrice[]): boolean =>
+  bars.some(bar => (bar.dividend ?? 0) > 0 || (bar.splitRatio !== undefined && bar.splitRatio !== 1));
+
+// Prices times `factor`, volume divided by it; events are dropped because the adjustment has applied them
+const scaleBar = (bar: HistoricalPrice, factor: number): HistoricalPrice => ({
+  date: bar.date,
+  open: bar.open * factor,
+  high: bar.high * factor,
+  low: bar.low * factor,
+  close: bar.close * factor,
+  volume: Math.round(bar.volume / factor),
+  adjustedClose: bar.adjustedClose
+});
+
+export function adjustPrices(bars: HistoricalPrice[], adjustment: PriceAdjustment): HistoricalPrice[] {
+  if (adjustment === 'raw') return bars;
+
+  if (!hasCorporateActions(bars)) {
+    // Without event data the adjusted close is the only record of past dividends
+    return adjustment === 'totalReturn'
+      ? bars.map(bar => scaleBar(bar, bar.close > 0 ? bar.adjustedClose / bar.close : 1))
+      : bars;
+  }
+
+  // Walk back from the last bar: an event going ex on a bar rescales every bar before it
+  const adjusted = new Array<HistoricalPrice>(bars.length);
+  let factor = 1;
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i];
+    adjusted[i] = scaleBar(bar, factor);
+    if (adjustment === 'splitAdjusted' && bar.dividend) {
+      adjusted[i].dividend = bar.dividend * factor;
+    }
+    if (adjustment === 'totalReturn') adjusted[i].adjustedClose = adjusted[i].close;
+
+    const ratio = bar.splitRatio && bar.splitRatio > 0 ? bar.splitRatio : 1;
+    factor /= ratio;
+    // The dividend is per post-split share when both go ex on the same day
+    const previousClose = i > 0 ? bars[i - 1].close / ratio : 0;
+    if (adjustment === 'totalReturn' && bar.dividend && previousClose > bar.dividend) {
+      factor *= 1 - bar.dividend / previousClose;
+    }
+  }
+  return adjusted;
+}
@@ -0,0 +1,254 @@
+// Trading cost models for backtests: broker commissions, exchange and regulatory fees, and slippage
+import { HistoricalPrice } from './backtesting';
+import { OrderSide } from './orders';
+import { TechnicalAnalysis } from './technicalAnalysis';
+import { toCandlestickData } from './dataImport';
+
+// Marginal per-share rate for monthly share volume up to `upTo`; the last tier has no upper bound
+export interface CommissionTier {
+  upTo?: number;
+  perShare: number;
+}
+
+export type CommissionModel =
+  | { type: 'flat'; amount: number } // Per order fill
+  | { type: 'perShare'; perShare: number }
+  | { type: 'percent'; rate: number } // Fraction of notional
+  | { type: 'tiered'; tiers: CommissionTier[] }; // Per-share rate falls as the month's share volume grows
+
+export type SlippageModel =
+  | { type: 'fixed'; rate: number } // Fraction of the price
+  | { type: 'spread'; spreadBps: number } // Half the quoted bid-ask spread, in basis points of the price
+  | { type: 'volatility'; atrFraction: number; atrPeriod: number } // Fraction of the ATR at the previous close
+  | { type: 'marketImpact'; coefficient: number; lookback: number }; // Square-root impact vs. average volume
+
+// Exchange and US regulatory fees. SEC and FINRA TAF fees apply to sells only.
+export interface TradingFees {
+  exchangePerShare: number;
+  secFeeRate: number; // Fraction of sell notional
+  tafPerShare: number;
+  tafMaximum: number; // Cap per fill
+}
+
+export interface CostModelConfig {
+  commission: CommissionModel;
+  minimumCommission: number; // Per fill; 0 = none
+  maximumCommission: number; // Per fill; 0 = no cap
+  fees: TradingFees;
+  slippage: SlippageModel;
+}
+
+export interface CostBreakdown {
+  commission: number;
+  exchangeFees: number;
+  regulatoryFees: number;
+  slippage: number; // Fill price versus the price before slippage, times quantity
+  total: number;
+}
+
+// Costs charged for one fill, excluding slippage (which is in the fill price)
+export interface FillCharges {
+  commission: number;
+  exchangeFees: number;
+  regulatoryFees: number;
+}
+
+export const NO_TRADING_FEES: TradingFees = {
+  exchangePerShare: 0,
+  secFeeRate: 0,
+  tafPerShare: 0,
+  tafMaximum: 0,
+};
+
+// Approximate 2024 US rates: SEC fee $27.80 per million sold, FINRA TAF $0.000166 per share capped at $8.30
+export const US_REGULATORY_FEES: TradingFees = {
+  exchangePerShare: 0.003,
+  secFeeRate: 0.0000278,
+  tafPerShare: 0.000166,
+  tafMaximum: 8.3,
+};
+
+// Per-share tiers by monthly volume, in the style of retail broker tiered pricing
+export const DEFAULT_COMMISSION_TIERS: CommissionTier[] = [
+  { upTo: 300000, perShare: 0.0035 },
+  { upTo: 3000000, perShare: 0.002 },
+  { upTo: 20000000, perShare: 0.0015 },
+  { perShare: 0.001 },
+];
+
+export const COMMISSION_MODEL_LABELS: Record<CommissionModel['type'], string> = {
+  flat: 'Flat per Trade',
+  perShare: 'Per Share',
+  percent: 'Percent of Notional',
+  tiered: 'Tiered per Share',
+};
+
+export const SLIPPAGE_MODEL_LABELS: Record<SlippageModel['type'], string> = {
+  fixed: 'Fixed Percent',
+  spread: 'Half Spread',
+  volatility: 'ATR Fraction',
+  marketImpact: 'Square-Root Impact',
+};
+
+// The original cost parameters: a flat commission per fill and a constant slippage fraction
+export const flatCostModel = (commission: number, slippage: number): CostModelConfig => ({
+  commission: { type: 'flat', amount: commission },
+  minimumCommission: 0,
+  maximumCommission: 0,
+  fees: NO_TRADING_FEES,
+  slippage: { type: 'fixed', rate: slippage },
+});
+
+export function validateCostModel(config: CostModelConfig): void {
+  const { commission, slippage, fees } = config;
+  const values = [
+    config.minimumCommission,
+    config.maximumCommission,
+    ...Object.values(fees),
+    ...(commission.type === 'tiered' ? commission.tiers.flatMap(tier => [tier.perShare, tier.upTo ?? 0]) : []),
+    ...(commission.type === 'flat' ? [commission.amount] : []),
+    ...(commission.type === 'perShare' ? [commission.perShare] : []),
+    ...(commission.type === 'percent' ? [commission.rate] : []),
+  ];
+  if (values.some(value => !(value >= 0))) {
+    throw new Error('Commission and fee values must be non-negative');
+  }
+  if (config.maximumCommission > 0 && config.maximumCommission < config.minimumCommission) {
+    throw new Error('Maximum commission must be at least the minimum commission');
+  }
+  if (commission.type === 'tiered') {
+    const bounds = commission.tiers.map(tier => tier.upTo);
+    const increasing = bounds.slice(0, -1).every((upTo, i) => upTo !== undefined && (i === 0 || upTo > bounds[i - 1]!));
+    if (bounds.length === 0 || !increasing || bounds[bounds.length - 1] !== undefined) {
+      throw new Error('Commission tiers need increasing volume limits, with only the last tier unbounded');
+    }
+  }
+
+  const slippageValues = slippage.type === 'fixed' ? [slippage.rate]
+    : slippage.type === 'spread' ? [slippage.spreadBps]
+    : slippage.type === 'volatility' ? [slippage.atrFraction]
+    : [slippage.coefficient];
+  if (slippageValues.some(value => !(value >= 0))) {
+    throw new Error('Slippage parameters must be non-negative');
+  }
+  if (slippage.type === 'volatility' && !(Number.isInteger(slippage.atrPeriod) && slippage.atrPeriod >= 1)) {
+    throw new Error('ATR period must be a positive whole number');
+  }
+  if (slippage.type === 'marketImpact' && !(Number.isInteger(slippage.lookback) && slippage.lookback >= 2)) {
+    throw new Error('Market impact lookback must be a whole number of at least 2 bars');
+  }
+}
+
+// One model per backtest run: prices fills, charges commissions and fees, and totals every cost component.
+// Slippage only uses information available at the previous close, so fills never see the bar they trade on.
+export class CostModel {
+  readonly config: CostModelConfig;
+  private readonly prices: HistoricalPrice[];
+  private atr: Array<number | undefined> = [];
+  private monthVolume = { month: '', shares: 0 };
+  private totals: CostBreakdown = { commission: 0, exchangeFees: 0, regulatoryFees: 0, slippage: 0, total: 0 };
+
+  constructor(config: CostModelConfig, prices: HistoricalPrice[]) {
+    validateCostModel(config);
+    this.config = config;
+    this.prices = prices;
+    const { slippage } = config;
+    if (slippage.type === 'volatility' && prices.length > slippage.atrPeriod) {
+      const byDate = new Map(
+        TechnicalAnalysis.atr(toCandlestickData(prices), slippage.atrPeriod).map(point => [point.time, point.value])
+      );
+      this.atr = prices.map(bar => byDate.get(bar.date));
+    }
+  }
+
+  get breakdown(): CostBreakdown {
+    return { ...this.totals };
+  }
+
+  // Adverse price move per unit for filling `quantity` at bar `index`
+  slippagePerUnit(price: number, quantity: number, index: number): number {
+    const { slippage } = this.config;
+    switch (slippage.type) {
+      case 'fixed':
+        return price * slippage.rate;
+      case 'spread':
+        return (price * slippage.spreadBps) / 20000;
+      case 'volatility':
+        return (this.atr[index - 1] ?? 0) * slippage.atrFraction;
+      case 'marketImpact': {
+        // Impact = coefficient x daily volatility x sqrt(order size / average daily volume)
+        const window = this.prices.slice(Math.max(0, index - slippage.lookback), index);
+        if (window.length < 2) return 0;
+        const returns = window.slice(1).map((bar, i) => bar.close / window[i].close - 1);
+        const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+        const volatility = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length);
+        const averageVolume = window.reduce((sum, bar) => sum + bar.volume, 0) / window.length;
+        if (!(averageVolume > 0)) return 0;
+        return price * slippage.coefficient * volatility * Math.sqrt(quantity / averageVolume);
+      }
+    }
+  }
+
+  // Commission and fees for a fill, without recording it; used to size orders before they fill
+  estimateCharges(side: OrderSide, quantity: number, price: number, date: string): FillCharges {
+    const { config } = this;
+    const notional = quantity * price;
+    let commission = this.commissionBeforeCaps(quantity, notional, date);
+    if (config.minimumCommission > 0) commission = Math.max(commission, config.minimumCommission);
+    if (config.maximumCommission > 0) commission = Math.min(commission, config.maximumCommission);
+
+    const { fees } = config;
+    const regulatoryFees = side === 'SELL'
+      ? notional * fees.secFeeRate + (fees.tafMaximum > 0 ? Math.min(quantity * fees.tafPerShare, fees.tafMaximum) : quantity * fees.tafPerShare)
+      : 0;
+
+    return { commission, exchangeFees: quantity * fees.exchangePerShare, regulatoryFees };
+  }
+
+  // Charges for a fill that happened; advances the tiered volume and the totals
+  charge(side: OrderSide, quantity: number, price: number, slippage: number, date: string): FillCharges {
+    const charges = this.estimateCharges(side, quantity, price, date);
+    this.rollMonth(date);
+    this.monthVolume.shares += quantity;
+
+    this.totals.commission += charges.commission;
+    this.totals.exchangeFees += charges.exchangeFees;
+    this.totals.regulatoryFees += charges.regulatoryFees;
+    this.totals.slippage += slippage;
+    this.totals.total += charges.commission + charges.exchangeFees + charges.regulatoryFees + slippage;
+    return charges;
+  }
+
+  private rollMonth(date: string): void {
+    const month = date.slice(0, 7);
+    if (month !== this.monthVolume.month) this.monthVolume = { month, shares: 0 };
+  }
+
+  private commissionBeforeCaps(quantity: number, notional: number, date: string): number {
+    const { commission } = this.config;
+    switch (commission.type) {
+      case 'flat':
+        return commission.amount;
+      case 'perShare':
+        return quantity * commission.perShare;
+      case 'percent':
+        return notional * commission.rate;
+      case 'tiered': {
+        // Walk the tiers from this month's volume so far; a fill crossing a threshold pays both rates
+        const month = date.slice(0, 7);
+        let volume = month === this.monthVolume.month ? this.monthVolume.shares : 0;
+        let remaining = quantity;
+        let total = 0;
+        for (const tier of commission.tiers) {
+          if (remaining <= 0) break;
+          const capacity = tier.upTo === undefined ? Infinity : Math.max(0, tier.upTo - volume);
+          const shares = Math.min(remaining, capacity);
+          total += shares * tier.perShare;
+          remaining -= shares;
+          volume += shares;
+        }
+        return total;
+      }
+    }
+  }
+}
@@ -0,0 +1,386 @@
+// Rule-based strategies from the Strategy Builder: conditions compare technical indicators with constants
+// or with each other, are grouped with AND/OR, and can be required to hold over several bars
+import { HistoricalPrice, Position, TradeSignal, TradingStrategy } from './backtesting';
+import { CandlestickData, TechnicalAnalysis } from './technicalAnalysis';
+import { toCandlestickData } from './dataImport';
+import { TIMEFRAMES, Timeframe, alignToBase, resampleBars } from './resampling';
+
+export type IndicatorKind =
+  | 'price'
+  | 'volume'
+  | 'sma'
+  | 'ema'
+  | 'rsi'
+  | 'macd'
+  | 'bollinger'
+  | 'stochastic'
+  | 'atr'
+  | 'vwap';
+
+export interface IndicatorParameter {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  integer: boolean;
+}
+
+export interface IndicatorDefinition {
+  label: string;
+  shortLabel: string;
+  parameters: IndicatorParameter[];
+  outputs: Array<{ key: string; label: string }>; // The first output is the default
+}
+
+const period = (defaultValue: number, label: string = 'Period', key: string = 'period'): IndicatorParameter =>
+  ({ key, label, defaultValue, min: 1, integer: true });
+
+export const INDICATOR_DEFINITIONS: Record<IndicatorKind, IndicatorDefinition> = {
+  price: {
+    label: 'Price',
+    shortLabel: 'Price',
+    parameters: [],
+    outputs: [{ key: 'close', label: 'Close' }, { key: 'open', label: 'Open' }, { key: 'high', label: 'High' }, { key: 'low', label: 'Low' }],
+  },
+  volume: { label: 'Volume', shortLabel: 'Volume', parameters: [], outputs: [{ key: 'value', label: 'Volume' }] },
+  sma: { label: 'Simple Moving Average', shortLabel: 'SMA', parameters: [period(20)], outputs: [{ key: 'value', label: 'SMA' }] },
+  ema: { label: 'Exponential Moving Average', shortLabel: 'EMA', parameters: [period(20)], outputs: [{ key: 'value', label: 'EMA' }] },
+  rsi: { label: 'RSI', shortLabel: 'RSI', parameters: [period(14)], outputs: [{ key: 'value', label: 'RSI' }] },
+  macd: {
+    label: 'MACD',
+    shortLabel: 'MACD',
+    parameters: [period(12, 'Fast', 'fast'), period(26, 'Slow', 'slow'), period(9, 'Signal', 'signal')],
+    outputs: [{ key: 'macd', label: 'MACD Line' }, { key: 'signal', label: 'Signal Line' }, { key: 'histogram', label: 'Histogram' }],
+  },
+  bollinger: {
+    label: 'Bollinger Bands',
+    shortLabel: 'BB',
+    parameters: [period(20), { key: 'stdDev', label: 'Std Dev', defaultValue: 2, min: 0, integer: false }],
+    outputs: [{ key: 'upper', label: 'Upper Band' }, { key: 'middle', label: 'Middle Band' }, { key: 'lower', label: 'Lower Band' }],
+  },
+  stochastic: {
+    label: 'Stochastic Oscillator',
+    shortLabel: 'Stoch',
+    parameters: [period(14, '%K Period', 'kPeriod'), period(3, '%D Period', 'dPeriod')],
+    outputs: [{ key: 'k', label: '%K' }, { key: 'd', label: '%D' }],
+  },
+  atr: { label: 'Average True Range', shortLabel: 'ATR', parameters: [period(14)], outputs: [{ key: 'value', label: 'ATR' }] },
+  vwap: { label: 'VWAP', shortLabel: 'VWAP', parameters: [], outputs: [{ key: 'value', label: 'VWAP' }] },
+};
+
+export interface IndicatorRef {
+  indicator: IndicatorKind;
+  params: Record<string, number>;
+  output: string;
+  timeframe?: Timeframe; // Computed on bars resampled to this timeframe; the backtest's own bars when unset
+}
+
+export type Operand =
+  | { type: 'constant'; value: number }
+  | { type: 'indicator'; ref: IndicatorRef };
+
+export type ComparisonOperator = '>' | '<' | '>=' | '<=' | '==' | 'crossesAbove' | 'crossesBelow';
+
+export const COMPARISON_OPERATOR_LABELS: Record<ComparisonOperator, string> = {
+  '>': 'Greater Than',
+  '<': 'Less Than',
+  '>=': 'Greater Than or Equal',
+  '<=': 'Less Than or Equal',
+  '==': 'Equal To',
+  crossesAbove: 'Crosses Above',
+  crossesBelow: 'Crosses Below',
+};
+
+// `for`: the comparison held on each of the last N bars; `within`: on at least one of them
+export type LookbackQualifier = { type: 'for' | 'within'; bars: number };
+
+export interface Condition {
+  id: string;
+  kind: 'condition';
+  left: IndicatorRef;
+  operator: ComparisonOperator;
+  right: Operand;
+  qualifier?: LookbackQualifier;
+}
+
+export interface ConditionGroup {
+  id: string;
+  kind: 'group';
+  logic: 'AND' | 'OR';
+  items: Array<Condition | ConditionGroup>;
+}
+
+export interface StrategyRule {
+  id: string;
+  action: 'BUY' | 'SELL';
+  when: ConditionGroup;
+  positionSize: number; // Fraction of buying power for BUY rules
+}
+
+export const DEFAULT_POSITION_SIZE = 0.8;
+
+export interface CustomStrategyParams {
+  name: string;
+  description: string;
+  rules: StrategyRule[];
+}
+
+export const createIndicatorRef = (indicator: IndicatorKind): IndicatorRef => {
+  const definition = INDICATOR_DEFINITIONS[indicator];
+  return {
+    indicator,
+    params: Object.fromEntries(definition.parameters.map(parameter => [parameter.key, parameter.defaultValue])),
+    output: definition.outputs[0].key
+  };
+};
+
+// E.g. "SMA(20)", "MACD(12, 26, 9).signal", "Price.high", "RSI(14)@1w"; multi-output indicators always
+// name the output
+export function describeIndicator(ref: IndicatorRef): string {
+  const definition = INDICATOR_DEFINITIONS[ref.indicator];
+  const params = definition.parameters.length > 0
+    ? `(${definition.parameters.map(parameter => ref.params[parameter.key] ?? parameter.defaultValue).join(', ')})`
+    : '';
+  const output = definition.outputs.length > 1 ? `.${ref.output}` : '';
+  const timeframe = ref.timeframe ? `@${ref.timeframe}` : '';
+  return `${definition.shortLabel}${params}${output}${timeframe}`;
+}
+
+export function describeCondition(condition: Condition): string {
+  const right = condition.right.type === 'constant' ? String(condition.right.value) : describeIndicator(condition.right.ref);
+  const operator = condition.operator === 'crossesAbove' ? 'crosses above'
+    : condition.operator === 'crossesBelow' ? 'crosses below'
+    : condition.operator;
+  const qualifier = condition.qualifier && condition.qualifier.bars > 1
+    ? ` ${condition.qualifier.type} ${condition.qualifier.bars} bars`
+    : '';
+  return `${describeIndicator(condition.left)} ${operator} ${right}${qualifier}`;
+}
+
+export function describeGroup(group: ConditionGroup, nested: boolean = false): string {
+  const text = group.items
+    .map(item => (item.kind === 'group' ? describeGroup(item, true) : describeCondition(item)))
+    .join(` ${group.logic} `);
+  return nested && group.items.length > 1 ? `(${text})` : text;
+}
+
+function validateIndicator(ref: IndicatorRef): void {
+  const definition = INDICATOR_DEFINITIONS[ref.indicator];
+  if (!definition) throw new Error(`Unknown indicator "${ref.indicator}"`);
+  definition.parameters.forEach(parameter => {
+    const value = ref.params[parameter.key];
+    if (!(value >= parameter.min) || (parameter.integer && !Number.isInteger(value))) {
+      throw new Error(`${definition.shortLabel} ${parameter.label.toLowerCase()} must be ${parameter.integer ? 'a whole number' : 'a number'} of at least ${parameter.min}`);
+    }
+  });
+  if (!definition.outputs.some(output => output.key === ref.output)) {
+    throw new Error(`${definition.shortLabel} has no output "${ref.output}"`);
+  }
+  if (ref.indicator === 'macd' && ref.params.fast >= ref.params.slow) {
+    throw new Error('MACD fast period must be shorter than the slow period');
+  }
+  if (ref.timeframe !== undefined && !TIMEFRAMES.includes(ref.timeframe)) {
+    throw new Error(`${definition.shortLabel} has an unknown timeframe "${ref.timeframe}"`);
+  }
+}
+
+function validateGroup(group: ConditionGroup): void {
+  if (group.items.length === 0) throw new Error('Condition groups need at least one condition');
+  group.items.forEach(item => {
+    if (item.kind === 'group') {
+      validateGroup(item);
+      return;
+    }
+    validateIndicator(item.left);
+    if (item.right.type === 'indicator') validateIndicator(item.right.ref);
+    else if (!Number.isFinite(item.right.value)) throw new Error(`${describeIndicator(item.left)} is compared with an invalid number`);
+    if (item.qualifier && !(Number.isInteger(item.qualifier.bars) && item.qualifier.bars >= 1)) {
+      throw new Error('Look-back qualifiers need a whole number of bars');
+    }
+  });
+}
+
+export function validateRules(rules: StrategyRule[]): void {
+  if (rules.length === 0) throw new Error('A custom strategy needs at least one rule');
+  rules.forEach(rule => {
+    validateGroup(rule.when);
+    if (rule.action === 'BUY' && !(rule.positionSize > 0 && rule.positionSize <= 1)) {
+      throw new Error('Position size must be between 0% and 100%');
+    }
+  });
+}
+
+type Series = Array<number | undefined>;
+
+// Indicator values by bar index for one price history, computed once per distinct indicator. Every
+// value at index i only uses bars up to i, so evaluating at the current bar never looks ahead. Indicators
+// on a higher timeframe are computed on resampled bars and only change when a resampled bar completes.
+export class IndicatorSeriesCache {
+  readonly prices: HistoricalPrice[];
+  private candles: CandlestickData[] | null = null;
+  private series = new Map<string, Series>();
+  private resampled = new Map<Timeframe, { cache: IndicatorSeriesCache; completedAt: number[] }>();
+
+  constructor(prices: HistoricalPrice[]) {
+    this.prices = prices;
+  }
+
+  get(ref: IndicatorRef): Series {
+    const key = `${describeIndicator(ref)}:${ref.output}`;
+    let series = this.series.get(key);
+    if (!series) {
+      series = this.compute(ref);
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  private compute(ref: IndicatorRef): Series {
+    if (ref.timeframe) {
+      let resampled = this.resampled.get(ref.timeframe);
+      if (!resampled) {
+        const { bars, completedAt } = resampleBars(this.prices, ref.timeframe);
+        resampled = { cache: new IndicatorSeriesCache(bars), completedAt };
+        this.resampled.set(ref.timeframe, resampled);
+      }
+      return alignToBase(resampled.cache.get({ ...ref, timeframe: undefined }), resampled.completedAt, this.prices.length);
+    }
+
+    const { params, output } = ref;
+    // Too short a history for the longest period leaves the indicator without values
+    const longest = Math.max(0, ...INDICATOR_DEFINITIONS[ref.indicator].parameters.filter(p => p.integer).map(p => params[p.key]));
+    if (this.prices.length <= longest) return [];
+
+    switch (ref.indicator) {
+      case 'price':
+        return this.prices.map(bar => bar[output as 'close' | 'open' | 'high' | 'low']);
+      case 'volume':
+        return this.prices.map(bar => bar.volume);
+      case 'sma':
+        return this.align(TechnicalAnalysis.sma(this.getCandles(), params.period));
+      case 'ema':
+        return this.align(TechnicalAnalysis.ema(this.getCandles(), params.period));
+      case 'rsi':
+        return this.align(TechnicalAnalysis.rsi(this.getCandles(), params.period));
+      case 'macd': {
+        const macd = TechnicalAnalysis.macd(this.getCandles(), params.fast, params.slow, params.signal);
+        return this.align(output === 'signal' ? macd.signalLine : output === 'histogram' ? macd.histogram : macd.macdLine);
+      }
+      case 'bollinger': {
+        const bands = TechnicalAnalysis.bollingerBands(this.getCandles(), params.period, params.stdDev);
+        return this.align(bands[output as 'upper' | 'middle' | 'lower']);
+      }
+      case 'stochastic': {
+        const stochastic = TechnicalAnalysis.stochastic(this.getCandles(), params.kPeriod, params.dPeriod);
+        return this.align(output === 'd' ? stochastic.d : stochastic.k);
+      }
+      case 'atr':
+        return this.align(TechnicalAnalysis.atr(this.getCandles(), params.period));
+      case 'vwap':
+        return this.align(TechnicalAnalysis.vwap(this.getCandles()));
+    }
+  }
+
+  private getCandles(): CandlestickData[] {
+    this.candles ??= toCandlestickData(this.prices);
+    return this.candles;
+  }
+
+  // Indicator outputs start once their warm-up is complete; earlier bars have no value
+  private align(points: Array<{ time: string; value: number }>): Series {
+    const byDate = new Map(points.map(point => [point.time, point.value]));
+    return this.prices.map(bar => {
+      const value = byDate.get(bar.date);
+      return value !== undefined && Number.isFinite(value) ? value : undefined;
+    });
+  }
+}
+
+const compare = (left: number, operator: ComparisonOperator, right: number): boolean => {
+  switch (operator) {
+    case '>': return left > right;
+    case '<': return left < right;
+    case '>=': return left >= right;
+    case '<=': return left <= right;
+    case '==': return Math.abs(left - right) < 0.01;
+    default: return false;
+  }
+};
+
+// The comparison on a single bar; crosses compare the bar with the one before it
+function evaluateAt(condition: Condition, cache: IndicatorSeriesCache, index: number): boolean {
+  const left = cache.get(condition.left);
+  const rightAt = (i: number) => (condition.right.type === 'constant' ? condition.right.value : cache.get(condition.right.ref)[i]);
+  const current = left[index];
+  const target = rightAt(index);
+  if (current === undefined || target === undefined) return false;
+
+  if (condition.operator === 'crossesAbove' || condition.operator === 'crossesBelow') {
+    const previous = left[index - 1];
+    const previousTarget = index > 0 ? rightAt(index - 1) : undefined;
+    if (previous === undefined || previousTarget === undefined) return false;
+    return condition.operator === 'crossesAbove'
+      ? previous <= previousTarget && current > target
+      : previous >= previousTarget && current < target;
+  }
+  return compare(current, condition.operator, target);
+}
+
+export function evaluateCondition(condition: Condition, cache: IndicatorSeriesCache, index: number): boolean {
+  const bars = condition.qualifier?.bars ?? 1;
+  if (bars <= 1) return evaluateAt(condition, cache, index);
+  if (index - bars + 1 < 0) return false;
+
+  const offsets = Array.from({ length: bars }, (_, offset) => index - offset);
+  return condition.qualifier!.type === 'for'
+    ? offsets.every(i => evaluateAt(condition, cache, i))
+    : offsets.some(i => evaluateAt(condition, cache, i));
+}
+
+export function evaluateGroup(group: ConditionGroup, cache: IndicatorSeriesCache, index: number): boolean {
+  const evaluate = (item: Condition | ConditionGroup) =>
+    item.kind === 'group' ? evaluateGroup(item, cache, index) : evaluateCondition(item, cache, index);
+  return group.logic === 'AND' ? group.items.every(evaluate) : group.items.some(evaluate);
+}
+
+// Rules are checked in order after each close; the first one whose conditions hold and that applies to
+// the current position decides the signal
+export class CustomStrategy extends TradingStrategy {
+  name: string;
+  description: string;
+  parameters: { [key: string]: number };
+  readonly rules: StrategyRule[];
+  private cache: IndicatorSeriesCache | null = null;
+  private entrySize = DEFAULT_POSITION_SIZE;
+
+  constructor(params: CustomStrategyParams) {
+    super();
+    validateRules(params.rules);
+    this.name = params.name;
+    this.description = params.description || params.rules.map(rule => `${rule.action} when ${describeGroup(rule.when)}`).join('; ');
+    this.rules = params.rules;
+    this.parameters = {};
+  }
+
+  generateSignal(prices: HistoricalPrice[], currentIndex: number, position?: Position): TradeSignal {
+    if (this.cache?.prices !== prices) this.cache = new IndicatorSeriesCache(prices);
+    const held = position?.quantity ?? 0;
+
+    for (const rule of this.rules) {
+      const applies = rule.action === 'BUY' ? held === 0 : held > 0;
+      if (!applies || !evaluateGroup(rule.when, this.cache, currentIndex)) continue;
+      if (rule.action === 'BUY') this.entrySize = rule.positionSize;
+      return rule.action;
+    }
+    return 'HOLD';
+  }
+
+  getPositionSize(signal: TradeSignal, currentPrice: number, availableCash: number, currentPosition?: Position): number {
+    if (signal === 'BUY') {
+      return Math.floor((availableCash * this.entrySize) / currentPrice);
+    } else if (signal === 'SELL' && currentPosition) {
+      return currentPosition.quantity;
+    }
+    return 0;
+  }
+}
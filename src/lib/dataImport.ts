@@ -0,0 +1,494 @@
+// Import of vendor OHLCV files (CSV/JSON): column mapping, date parsing, validation and local storage
+import { HistoricalPrice } from './backtesting';
+import { CandlestickData } from './technicalAnalysis';
+
+export type ImportFormat = 'csv' | 'json';
+
+export type DateFormat = 'iso' | 'yyyymmdd' | 'mdy' | 'dmy' | 'unix' | 'unixMs';
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  iso: 'YYYY-MM-DD (ISO)',
+  yyyymmdd: 'YYYYMMDD',
+  mdy: 'MM/DD/YYYY',
+  dmy: 'DD/MM/YYYY',
+  unix: 'Unix Seconds',
+  unixMs: 'Unix Milliseconds',
+};
+
+// Header cells and values as text, whatever the source format
+export interface RawTable {
+  columns: string[];
+  rows: string[][];
+}
+
+export type MappedField = keyof HistoricalPrice;
+
+// Column name for each field; '' leaves an optional field unmapped
+export type ColumnMapping = Record<MappedField, string>;
+
+export const REQUIRED_FIELDS: MappedField[] = ['date', 'close'];
+
+export const FIELD_LABELS: Record<MappedField, string> = {
+  date: 'Date',
+  open: 'Open',
+  high: 'High',
+  low: 'Low',
+  close: 'Close',
+  volume: 'Volume',
+  adjustedClose: 'Adjusted Close',
+  dividend: 'Dividend',
+  splitRatio: 'Split Ratio',
+};
+
+const COLUMN_ALIASES: Record<MappedField, string[]> = {
+  date: ['date', 'dates', 'datetime', 'timestamp', 'time', 'day', 'trade date'],
+  open: ['open', 'o', 'open price'],
+  high: ['high', 'h', 'high price'],
+  low: ['low', 'l', 'low price'],
+  close: ['close', 'c', 'close price', 'last', 'price'],
+  volume: ['volume', 'vol', 'v'],
+  adjustedClose: ['adj close', 'adjclose', 'adjusted close', 'adj_close', 'adjusted_close', 'adjusted'],
+  dividend: ['dividend', 'dividends', 'div', 'dividend amount', 'cash dividend'],
+  splitRatio: ['split', 'splits', 'stock split', 'stock splits', 'split ratio', 'split factor'],
+};
+
+export type ValidationIssueType = 'invalidRow' | 'nonPositive' | 'highBelowLow' | 'duplicate' | 'gap';
+
+export interface ValidationIssue {
+  type: ValidationIssueType;
+  severity: 'error' | 'warning'; // Rows with errors are excluded; warnings are informational
+  row?: number; // 1-based data row (header excluded)
+  date?: string;
+  message: string;
+}
+
+export const VALIDATION_ISSUE_LABELS: Record<ValidationIssueType, string> = {
+  invalidRow: 'Unreadable Rows',
+  nonPositive: 'Non-Positive Prices',
+  highBelowLow: 'High Below Low',
+  duplicate: 'Duplicate Dates',
+  gap: 'Gaps',
+};
+
+export interface ImportResult {
+  bars: HistoricalPrice[];
+  issues: ValidationIssue[];
+}
+
+// Missing weekdays between consecutive bars before a gap is reported (single holidays are normal)
+export const GAP_THRESHOLD_WEEKDAYS = 3;
+
+export function detectFormat(fileName: string, text: string): ImportFormat {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.(csv|txt|tsv)$/i.test(fileName)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+export function parseRawTable(text: string, format: ImportFormat): RawTable {
+  const table = format === 'json' ? parseJsonTable(text) : parseCsvTable(text);
+  if (table.columns.length === 0 || table.rows.length === 0) {
+    throw new Error('The file contains no data rows');
+  }
+  return table;
+}
+
+// RFC 4180-style CSV with a header row; the delimiter (comma, semicolon or tab) is detected from the header
+function parseCsvTable(text: string): RawTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell.length > 0 || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim().length > 0));
+  if (nonEmpty.length === 0) return { columns: [], rows: [] };
+  return {
+    columns: nonEmpty[0].map(name => name.trim()),
+    rows: nonEmpty.slice(1).map(r => r.map(value => value.trim())),
+  };
+}
+
+const toCell = (value: unknown): string => (value === null || value === undefined ? '' : String(value).trim());
+
+// Accepts an array of objects, an array of arrays with a header row, a columnar object
+// ({ date: [...], close: [...] }) or any of these wrapped in a data/bars/prices/candles property
+function parseJsonTable(text: string): RawTable {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const fromValue = (value: unknown): RawTable => {
+    if (Array.isArray(value)) {
+      if (value.length === 0) return { columns: [], rows: [] };
+      if (Array.isArray(value[0])) {
+        return {
+          columns: (value[0] as unknown[]).map(toCell),
+          rows: value.slice(1).map(row => (row as unknown[]).map(toCell)),
+        };
+      }
+      const columns: string[] = [];
+      value.forEach(item => {
+        Object.keys(item ?? {}).forEach(key => {
+          if (!columns.includes(key)) columns.push(key);
+        });
+      });
+      return {
+        columns,
+        rows: value.map(item => columns.map(column => toCell((item as Record<string, unknown>)?.[column]))),
+      };
+    }
+
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const wrapper = ['data', 'bars', 'prices', 'candles'].find(key => Array.isArray(record[key]));
+      if (wrapper) return fromValue(record[wrapper]);
+
+      const columns = Object.keys(record).filter(key => Array.isArray(record[key]));
+      const length = columns.length > 0 ? (record[columns[0]] as unknown[]).length : 0;
+      if (columns.length > 0 && columns.every(key => (record[key] as unknown[]).length === length)) {
+        return {
+          columns,
+          rows: Array.from({ length }, (_, i) => columns.map(key => toCell((record[key] as unknown[])[i]))),
+        };
+      }
+    }
+    throw new Error('Unsupported JSON layout: expected an array of bars or a columnar object');
+  };
+
+  return fromValue(json);
+}
+
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const normalized = columns.map(column => column.trim().toLowerCase().replace(/[_-]+/g, ' '));
+  const mapping = {} as ColumnMapping;
+  (Object.keys(COLUMN_ALIASES) as MappedField[]).forEach(field => {
+    const aliases = COLUMN_ALIASES[field].map(alias => alias.replace(/_/g, ' '));
+    const index = normalized.findIndex(name => aliases.includes(name));
+    mapping[field] = index >= 0 ? columns[index] : '';
+  });
+  return mapping;
+}
+
+// Largest time a Date can hold, in milliseconds either side of 1970
+const MAX_DATE_MS = 8.64e15;
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+};
+
+// Parse one date cell to an ISO date (UTC), or null when it does not match the format
+export function parseDate(value: string, format: DateFormat): string | null {
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+
+  switch (format) {
+    case 'iso':
+      match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+      return match ? isoDate(+match[1], +match[2], +match[3]) : null;
+    case 'yyyymmdd':
+      match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+      return match ? isoDate(+match[1], +match[2], +match[3]) : null;
+    case 'mdy':
+      match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:\s.*)?$/);
+      return match ? isoDate(+match[3], +match[1], +match[2]) : null;
+    case 'dmy':
+      match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:\s.*)?$/);
+      return match ? isoDate(+match[3], +match[2], +match[1]) : null;
+    case 'unix':
+    case 'unixMs': {
+      if (!/^\d+(\.\d+)?$/.test(text)) return null;
+      const milliseconds = parseFloat(text) * (format === 'unix' ? 1000 : 1);
+      // toISOString throws for times a Date cannot hold
+      const date = new Date(milliseconds);
+      if (Math.abs(milliseconds) > MAX_DATE_MS || Number.isNaN(date.getTime())) return null;
+      return date.toISOString().split('T')[0];
+    }
+  }
+}
+
+// Format that reads the most samples (a few bad rows should not defeat detection); ties go to the
+// earlier candidate, so MM/DD is preferred over DD/MM unless a day above 12 rules it out
+export function guessDateFormat(samples: string[]): DateFormat {
+  const values = samples.map(sample => sample.trim()).filter(sample => sample.length > 0).slice(0, 200);
+  const candidates: DateFormat[] = ['iso', 'yyyymmdd', 'mdy', 'dmy', 'unixMs', 'unix'];
+  const matches = (format: DateFormat, value: string) => {
+    if (format === 'unixMs') return /^\d{12,13}$/.test(value);
+    if (format === 'unix') return /^\d{9,10}$/.test(value);
+    return parseDate(value, format) !== null;
+  };
+
+  let best: DateFormat = 'iso';
+  let bestCount = 0;
+  candidates.forEach(format => {
+    const count = values.filter(value => matches(format, value)).length;
+    if (count > bestCount) {
+      best = format;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Accepts thousands separators ("1,234.5") and a lone decimal comma ("10,5"); a single comma
+// followed by exactly three digits is read as a thousands separator
+const parseNumber = (value: string): number => {
+  let cleaned = value.replace(/[\s$]/g, '');
+  if (/^-?\d+,(\d{1,2}|\d{4,})$/.test(cleaned)) cleaned = cleaned.replace(',', '.');
+  cleaned = cleaned.replace(/,/g, '');
+  return cleaned.length > 0 ? Number(cleaned) : NaN;
+};
+
+// Split ratios as new shares per old share: "2", "2:1", "2/1" and "1:10" (a reverse split) are all accepted
+const parseSplitRatio = (value: string): number => {
+  const parts = value.replace(/\s/g, '').split(/[:/]/);
+  if (parts.length === 1) return parseNumber(parts[0]);
+  if (parts.length !== 2) return NaN;
+  const [numerator, denominator] = parts.map(parseNumber);
+  return denominator > 0 ? numerator / denominator : NaN;
+};
+
+// Count weekdays strictly between two ISO dates
+function weekdaysBetween(start: string, end: string): number {
+  let count = 0;
+  const date = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  for (date.setUTCDate(date.getUTCDate() + 1); date < last; date.setUTCDate(date.getUTCDate() + 1)) {
+    if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) count++;
+  }
+  return count;
+}
+
+// Turn mapped rows into sorted daily bars. Unreadable rows, non-positive prices, high below low and
+// repeated dates are errors and excluded (the first bar of a date is kept); gaps are warnings.
+export function buildDataset(table: RawTable, mapping: ColumnMapping, dateFormat: DateFormat): ImportResult {
+  REQUIRED_FIELDS.forEach(field => {
+    if (!mapping[field]) throw new Error(`Map a column to ${FIELD_LABELS[field]}`);
+  });
+
+  const index = (field: MappedField) => (mapping[field] ? table.columns.indexOf(mapping[field]) : -1);
+  const columns = {
+    date: index('date'),
+    open: index('open'),
+    high: index('high'),
+    low: index('low'),
+    close: index('close'),
+    volume: index('volume'),
+    adjustedClose: index('adjustedClose'),
+    dividend: index('dividend'),
+    splitRatio: index('splitRatio'),
+  };
+
+  const issues: ValidationIssue[] = [];
+  const parsed: Array<{ row: number; bar: HistoricalPrice }> = [];
+
+  table.rows.forEach((cells, i) => {
+    const row = i + 1;
+    const date = parseDate(cells[columns.date] ?? '', dateFormat);
+    if (!date) {
+      issues.push({ type: 'invalidRow', severity: 'error', row, message: `Row ${row}: unrecognized date "${cells[columns.date] ?? ''}"` });
+      return;
+    }
+
+    // Unmapped or empty optional cells take the fallback; close has none
+    const read = (column: number, fallback: number) => {
+      const cell = column >= 0 ? (cells[column] ?? '').trim() : '';
+      return cell.length > 0 ? parseNumber(cell) : fallback;
+    };
+    const close = read(columns.close, NaN);
+    const open = read(columns.open, close);
+    const high = read(columns.high, Math.max(open, close));
+    const low = read(columns.low, Math.min(open, close));
+    const volume = read(columns.volume, 0);
+    const adjustedClose = read(columns.adjustedClose, close);
+    const dividend = read(columns.dividend, 0);
+    // Most feeds write 0 on days without a split
+    const splitCell = columns.splitRatio >= 0 ? (cells[columns.splitRatio] ?? '').trim() : '';
+    const splitRatio = splitCell.length > 0 ? parseSplitRatio(splitCell) : 1;
+
+    if (![open, high, low, close, volume, adjustedClose, dividend, splitRatio].every(Number.isFinite)) {
+      issues.push({ type: 'invalidRow', severity: 'error', row, date, message: `Row ${row} (${date}): missing or non-numeric values` });
+      return;
+    }
+    if (open <= 0 || high <= 0 || low <= 0 || close <= 0 || adjustedClose <= 0) {
+      issues.push({ type: 'nonPositive', severity: 'error', row, date, message: `Row ${row} (${date}): prices must be positive` });
+      return;
+    }
+    if (dividend < 0 || splitRatio < 0) {
+      issues.push({ type: 'invalidRow', severity: 'error', row, date, message: `Row ${row} (${date}): dividends and split ratios cannot be negative` });
+      return;
+    }
+    if (high < low) {
+      issues.push({ type: 'highBelowLow', severity: 'error', row, date, message: `Row ${row} (${date}): high ${high} is below low ${low}` });
+      return;
+    }
+
+    const bar: HistoricalPrice = { date, open, high, low, close, volume, adjustedClose };
+    if (dividend > 0) bar.dividend = dividend;
+    if (splitRatio > 0 && splitRatio !== 1) bar.splitRatio = splitRatio;
+    parsed.push({ row, bar });
+  });
+
+  // Stable sort keeps file order within a date, so the first occurrence wins
+  parsed.sort((a, b) => a.bar.date.localeCompare(b.bar.date));
+
+  const bars: HistoricalPrice[] = [];
+  parsed.forEach(({ row, bar }) => {
+    const previous = bars[bars.length - 1];
+    if (previous && previous.date === bar.date) {
+      issues.push({ type: 'duplicate', severity: 'error', row, date: bar.date, message: `Row ${row}: duplicate bar for ${bar.date}` });
+      return;
+    }
+    if (previous) {
+      const missing = weekdaysBetween(previous.date, bar.date);
+      if (missing >= GAP_THRESHOLD_WEEKDAYS) {
+        issues.push({ type: 'gap', severity: 'warning', row, date: bar.date, message: `${missing} weekdays missing between ${previous.date} and ${bar.date}` });
+      }
+    }
+    bars.push(bar);
+  });
+
+  return { bars, issues };
+}
+
+export const toCandlestickData = (bars: HistoricalPrice[]): CandlestickData[] =>
+  bars.map(({ date, open, high, low, close, volume }) => ({ time: date, open, high, low, close, volume }));
+
+export interface ImportedDatasetInfo {
+  id: string;
+  name: string;
+  symbol: string;
+  fileName: string;
+  importedAt: string;
+  barCount: number;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ImportedDataset extends ImportedDatasetInfo {
+  bars: HistoricalPrice[];
+}
+
+// Bars are stored as tuples to save space: date, OHLC, volume, adjusted close, then dividend and split
+// ratio only on bars with corporate actions
+type StoredBar = [string, number, number, number, number, number, number, number?, number?];
+
+interface StoredDataset extends ImportedDatasetInfo {
+  bars: StoredBar[];
+}
+
+const DATASET_STORAGE_KEY = 'imported_datasets';
+
+function readStoredDatasets(): Record<string, StoredDataset> {
+  try {
+    const stored = localStorage.getItem(DATASET_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeStoredDatasets(datasets: Record<string, StoredDataset>): void {
+  try {
+    localStorage.setItem(DATASET_STORAGE_KEY, JSON.stringify(datasets));
+  } catch {
+    throw new Error('Not enough local storage for this dataset. Delete an older import and try again.');
+  }
+}
+
+export function saveDataset(name: string, symbol: string, fileName: string, bars: HistoricalPrice[]): ImportedDatasetInfo {
+  if (bars.length === 0) {
+    throw new Error('Cannot save an empty dataset');
+  }
+  const info: ImportedDatasetInfo = {
+    id: `dataset_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: name.trim() || fileName,
+    symbol: symbol.trim().toUpperCase(),
+    fileName,
+    importedAt: new Date().toISOString(),
+    barCount: bars.length,
+    startDate: bars[0].date,
+    endDate: bars[bars.length - 1].date,
+  };
+
+  const datasets = readStoredDatasets();
+  datasets[info.id] = {
+    ...info,
+    bars: bars.map((bar): StoredBar => {
+      const stored: StoredBar = [bar.date, bar.open, bar.high, bar.low, bar.close, bar.volume, bar.adjustedClose];
+      if (bar.dividend !== undefined || bar.splitRatio !== undefined) stored.push(bar.dividend ?? 0, bar.splitRatio ?? 1);
+      return stored;
+    }),
+  };
+  writeStoredDatasets(datasets);
+  return info;
+}
+
+// Newest first
+export function getStoredDatasets(): ImportedDatasetInfo[] {
+  return Object.values(readStoredDatasets())
+    .map(({ bars: _bars, ...info }) => info)
+    .sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+export function loadDataset(id: string): ImportedDataset | null {
+  const stored = readStoredDatasets()[id];
+  if (!stored) return null;
+  return {
+    ...stored,
+    bars: stored.bars.map(([date, open, high, low, close, volume, adjustedClose, dividend, splitRatio]) => {
+      const bar: HistoricalPrice = { date, open, high, low, close, volume, adjustedClose };
+      if (dividend) bar.dividend = dividend;
+      if (splitRatio && splitRatio !== 1) bar.splitRatio = splitRatio;
+      return bar;
+    }),
+  };
+}
+
+export function deleteDataset(id: string): void {
+  const datasets = readStoredDatasets();
+  delete datasets[id];
+  writeStoredDatasets(datasets);
+}
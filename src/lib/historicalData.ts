@@ -0,0 +1,283 @@
+// Sources of daily OHLCV history for backtests: Yahoo Finance, imported files, bundled fixtures and synthetic data
+import { HistoricalPrice } from './backtesting';
+import { ImportedDataset } from './dataImport';
+import { SeededRandom, generateSeed } from './random';
+
+export type HistoricalDataSource = 'yahoo' | 'imported' | 'fixture' | 'synthetic';
+
+export interface HistoricalDataRequest {
+  symbol: string;
+  startDate: string; // ISO date, inclusive
+  endDate: string; // ISO date, inclusive
+  seed?: number; // Only used by the synthetic provider
+}
+
+export interface HistoricalDataProvider {
+  source: HistoricalDataSource;
+  name: string;
+  // Bars sorted by date and restricted to the requested range; throws when no data is available
+  getHistory(request: HistoricalDataRequest): Promise<HistoricalPrice[]>;
+}
+
+export const HISTORICAL_DATA_SOURCE_LABELS: Record<HistoricalDataSource, string> = {
+  yahoo: 'Yahoo Finance',
+  imported: 'Imported Dataset',
+  fixture: 'Offline Sample Data',
+  synthetic: 'Synthetic Random Walk',
+};
+
+const YAHOO_FINANCE_ENDPOINT = '/functions/v1/yahoo-finance';
+
+// Keep bars inside [startDate, endDate]; ISO dates compare correctly as strings
+const filterByDateRange = (bars: HistoricalPrice[], startDate: string, endDate: string): HistoricalPrice[] =>
+  bars.filter(bar => bar.date >= startDate && bar.date <= endDate);
+
+function requireBars(bars: HistoricalPrice[], request: HistoricalDataRequest, providerName: string): HistoricalPrice[] {
+  if (bars.length === 0) {
+    throw new Error(`${providerName}: no price data for ${request.symbol} between ${request.startDate} and ${request.endDate}`);
+  }
+  return bars;
+}
+
+// Daily bars from the Yahoo Finance edge function (`history` request type)
+export class YahooFinanceProvider implements HistoricalDataProvider {
+  source: HistoricalDataSource = 'yahoo';
+  name = HISTORICAL_DATA_SOURCE_LABELS.yahoo;
+
+  async getHistory(request: HistoricalDataRequest): Promise<HistoricalPrice[]> {
+    let response: Response;
+    try {
+      response = await fetch(YAHOO_FINANCE_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          type: 'history',
+          symbol: request.symbol,
+          startDate: request.startDate,
+          endDate: request.endDate
+        })
+      });
+    } catch {
+      throw new Error(`${this.name}: history service is unreachable`);
+    }
+
+    // Without the edge function deployed, dev servers answer with the HTML app shell
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!contentType.includes('application/json')) {
+      throw new Error(`${this.name}: history service is unavailable`);
+    }
+
+    const body = await response.json();
+    if (!response.ok || body.error) {
+      throw new Error(`${this.name}: ${body.error ?? `request failed with status ${response.status}`}`);
+    }
+
+    const bars = (body.data as HistoricalPrice[]).slice().sort((a, b) => a.date.localeCompare(b.date));
+    return requireBars(filterByDateRange(bars, request.startDate, request.endDate), request, this.name);
+  }
+}
+
+// A dataset imported through the data import dialog; the requested symbol is informational only
+export class ImportedDataProvider implements HistoricalDataProvider {
+  source: HistoricalDataSource = 'imported';
+  name: string;
+  private bars: HistoricalPrice[];
+
+  constructor(dataset: ImportedDataset) {
+    this.bars = dataset.bars;
+    this.name = `${HISTORICAL_DATA_SOURCE_LABELS.imported} (${dataset.name})`;
+  }
+
+  async getHistory(request: HistoricalDataRequest): Promise<HistoricalPrice[]> {
+    return requireBars(filterByDateRange(this.bars, request.startDate, request.endDate), request, this.name);
+  }
+}
+
+// Columnar layout used by the bundled fixture files in src/data/fixtures
+interface FixtureFile {
+  symbol: string;
+  name: string;
+  description: string;
+  dates: string[];
+  open: number[];
+  high: number[];
+  low: number[];
+  close: number[];
+  volume: number[];
+}
+
+// Fixtures are generated sample series (not market data) so backtests can run fully offline;
+// each file is loaded lazily as its own chunk
+const fixtureModules = import.meta.glob<FixtureFile>('../data/fixtures/*.json', { import: 'default' });
+
+const fixtureLoaders: Record<string, () => Promise<FixtureFile>> = Object.fromEntries(
+  Object.entries(fixtureModules).map(([path, load]) => [path.replace(/^.*\/|\.json$/g, ''), load])
+);
+
+export const getFixtureSymbols = (): string[] => Object.keys(fixtureLoaders).sort();
+
+export class FixtureDataProvider implements HistoricalDataProvider {
+  source: HistoricalDataSource = 'fixture';
+  name = HISTORICAL_DATA_SOURCE_LABELS.fixture;
+
+  async getHistory(request: HistoricalDataRequest): Promise<HistoricalPrice[]> {
+    const load = fixtureLoaders[request.symbol];
+    if (!load) {
+      throw new Error(`${this.name}: no fixture for ${request.symbol}. Available: ${getFixtureSymbols().join(', ')}`);
+    }
+
+    const fixture = await load();
+    const bars: HistoricalPrice[] = fixture.dates.map((date, i) => ({
+      date,
+      open: fixture.open[i],
+      high: fixture.high[i],
+      low: fixture.low[i],
+      close: fixture.close[i],
+      volume: fixture.volume[i],
+      adjustedClose: fixture.close[i]
+    }));
+    return requireBars(filterByDateRange(bars, request.startDate, request.endDate), request, this.name);
+  }
+}
+
+// Seeded random walk starting at 100 on weekdays; ignores the symbol
+export class SyntheticDataProvider implements HistoricalDataProvider {
+  source: HistoricalDataSource = 'synthetic';
+  name = HISTORICAL_DATA_SOURCE_LABELS.synthetic;
+
+  async getHistory(request: HistoricalDataRequest): Promise<HistoricalPrice[]> {
+    const start = new Date(request.startDate);
+    const end = new Date(request.endDate);
+    const data: HistoricalPrice[] = [];
+    const rng = new SeededRandom(request.seed ?? generateSeed());
+
+    let currentPrice = 100; // Starting price
+    const dailyVolatility = 0.02; // 2% daily volatility
+    const drift = 0.0003; // Small positive drift
+
+    for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+      // Skip weekends
+      if (date.getDay() === 0 || date.getDay() === 6) continue;
+
+      // Generate realistic OHLC data
+      const change = (rng.next() - 0.5) * dailyVolatility + drift;
+      const open = currentPrice;
+      const close = open * (1 + change);
+      const high = Math.max(open, close) * (1 + rng.next() * 0.01);
+      const low = Math.min(open, close) * (1 - rng.next() * 0.01);
+      const volume = Math.floor(rng.next() * 1000000) + 100000;
+
+      data.push({
+        date: date.toISOString().split('T')[0],
+        open,
+        high,
+        low,
+        close,
+        volume,
+        adjustedClose: close
+      });
+
+      currentPrice = close;
+    }
+
+    return requireBars(data, request, this.name);
+  }
+}
+
+interface CachedRange {
+  startDate: string;
+  endDate: string;
+  bars: HistoricalPrice[];
+}
+
+// Versioned since Yahoo bars became raw prices with corporate action events
+const HISTORY_CACHE_STORAGE_KEY = 'historical_data_cache_v2';
+const MAX_PERSISTED_RANGES = 20;
+
+// Caches another provider's results by symbol and date range. A request inside an already
+// fetched range is served from that range. Optionally persisted to localStorage (oldest evicted first).
+export class CachedDataProvider implements HistoricalDataProvider {
+  source: HistoricalDataSource;
+  name: string;
+  private inner: HistoricalDataProvider;
+  private persist: boolean;
+  private ranges = new Map<string, CachedRange[]>();
+
+  constructor(inner: HistoricalDataProvider, persist: boolean = false) {
+    this.inner = inner;
+    this.source = inner.source;
+    this.name = inner.name;
+    this.persist = persist;
+    if (persist) this.ranges = this.loadPersisted();
+  }
+
+  async getHistory(request: HistoricalDataRequest): Promise<HistoricalPrice[]> {
+    const key = `${this.inner.source}:${request.symbol}`;
+    const cached = (this.ranges.get(key) ?? []).find(range =>
+      range.startDate <= request.startDate && range.endDate >= request.endDate
+    );
+    if (cached) {
+      return requireBars(filterByDateRange(cached.bars, request.startDate, request.endDate), request, this.name);
+    }
+
+    const bars = await this.inner.getHistory(request);
+    const ranges = (this.ranges.get(key) ?? []).filter(range =>
+      // Drop ranges the new one covers
+      !(range.startDate >= request.startDate && range.endDate <= request.endDate)
+    );
+    ranges.push({ startDate: request.startDate, endDate: request.endDate, bars });
+    // Re-insert so the most recently fetched symbol is last in iteration order
+    this.ranges.delete(key);
+    this.ranges.set(key, ranges);
+    if (this.persist) this.savePersisted();
+    return bars;
+  }
+
+  clear(): void {
+    this.ranges.clear();
+    if (this.persist) localStorage.removeItem(HISTORY_CACHE_STORAGE_KEY);
+  }
+
+  private loadPersisted(): Map<string, CachedRange[]> {
+    try {
+      const stored = localStorage.getItem(HISTORY_CACHE_STORAGE_KEY);
+      return new Map(stored ? JSON.parse(stored) : []);
+    } catch {
+      return new Map();
+    }
+  }
+
+  private savePersisted(): void {
+    // Map insertion order is oldest first, so evict from the front
+    const entries = Array.from(this.ranges.entries()).flatMap(([key, ranges]) => ranges.map(range => [key, range] as const));
+    const kept = entries.slice(-MAX_PERSISTED_RANGES);
+    const grouped = new Map<string, CachedRange[]>();
+    kept.forEach(([key, range]) => grouped.set(key, [...(grouped.get(key) ?? []), range]));
+    this.ranges = grouped;
+
+    try {
+      localStorage.setItem(HISTORY_CACHE_STORAGE_KEY, JSON.stringify(Array.from(grouped.entries())));
+    } catch {
+      // Storage full or unavailable: keep the in-memory cache only
+    }
+  }
+}
+
+// Shared provider instances; Yahoo results are cached across sessions, fixtures only in memory
+let yahooProvider: CachedDataProvider | null = null;
+let fixtureProvider: CachedDataProvider | null = null;
+
+export function getHistoricalDataProvider(source: Exclude<HistoricalDataSource, 'imported'>): HistoricalDataProvider {
+  switch (source) {
+    case 'yahoo':
+      yahooProvider ??= new CachedDataProvider(new YahooFinanceProvider(), true);
+      return yahooProvider;
+    case 'fixture':
+      fixtureProvider ??= new CachedDataProvider(new FixtureDataProvider());
+      return fixtureProvider;
+    case 'synthetic':
+      return new SyntheticDataProvider();
+  }
+}
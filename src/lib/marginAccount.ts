@@ -0,0 +1,134 @@
+// Cash, margin requirements and financing for a single-symbol backtest account
+import { Position } from './backtesting';
+
+export interface MarginConfig {
+  initialMargin: number; // Equity required to open, as a fraction of gross position value (1 = no leverage)
+  maintenanceMargin: number; // Equity below this fraction of gross position value triggers a margin call
+  borrowFeeRate: number; // Annual fee on the market value of short positions
+  cashInterestRate: number; // Annual interest earned on free cash (short sale proceeds excluded)
+  marginInterestRate: number; // Annual interest paid on a negative cash balance
+}
+
+export const DEFAULT_MARGIN_CONFIG: MarginConfig = {
+  initialMargin: 1,
+  maintenanceMargin: 0.25,
+  borrowFeeRate: 0.01,
+  cashInterestRate: 0,
+  marginInterestRate: 0.07,
+};
+
+export interface FinancingSummary {
+  borrowFees: number;
+  cashInterest: number; // Earned
+  marginInterest: number; // Paid
+  marginCalls: number;
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+export function validateMarginConfig(config: MarginConfig): void {
+  if (!(config.initialMargin > 0 && config.initialMargin <= 1)) {
+    throw new Error('Initial margin must be between 0 and 100% of position value');
+  }
+  if (!(config.maintenanceMargin >= 0 && config.maintenanceMargin < config.initialMargin)) {
+    throw new Error('Maintenance margin must be non-negative and below the initial margin');
+  }
+  if ([config.borrowFeeRate, config.cashInterestRate, config.marginInterestRate].some(rate => !(rate >= 0))) {
+    throw new Error('Borrow fee and interest rates must be non-negative');
+  }
+}
+
+export class MarginAccount {
+  cash: number;
+  position: Position | undefined;
+  readonly config: MarginConfig;
+  readonly financing: FinancingSummary = { borrowFees: 0, cashInterest: 0, marginInterest: 0, marginCalls: 0 };
+
+  constructor(initialCapital: number, config: MarginConfig) {
+    validateMarginConfig(config);
+    this.cash = initialCapital;
+    this.config = config;
+  }
+
+  // Cash plus signed position value, so a short position is a liability marked at the current price
+  equity(price: number): number {
+    return this.cash + (this.position ? this.position.quantity * price : 0);
+  }
+
+  grossExposure(price: number): number {
+    return this.position ? Math.abs(this.position.quantity) * price : 0;
+  }
+
+  // Additional gross exposure the initial margin allows at this price
+  buyingPower(price: number): number {
+    return Math.max(0, this.equity(price) / this.config.initialMargin - this.grossExposure(price));
+  }
+
+  // Signed quantity held (negative when short)
+  get quantity(): number {
+    return this.position?.quantity ?? 0;
+  }
+
+  // Largest quantity that can be added at `fillPrice` (after `commission`) without breaching initial margin
+  // (slippage reduces equity by |fillPrice - markPrice| per unit; exposure is marked at markPrice)
+  maxOpenQuantity(markPrice: number, fillPrice: number, commission: number): number {
+    const { initialMargin } = this.config;
+    const room = this.equity(markPrice) - commission - initialMargin * this.grossExposure(markPrice);
+    const costPerUnit = initialMargin * markPrice + Math.abs(fillPrice - markPrice);
+    return Math.max(0, Math.floor(room / costPerUnit));
+  }
+
+  // Stock split: the position becomes `quantity` whole shares and any fractional share is settled in cash at
+  // `price` (per post-split share). Returns the cash, negative when fractional short shares are bought back.
+  applySplit(ratio: number, quantity: number, price: number): number {
+    if (!this.position) return 0;
+    const direction = Math.sign(this.position.quantity);
+    const cashInLieu = direction * (Math.abs(this.position.quantity) * ratio - quantity) * price;
+    this.cash += cashInLieu;
+    this.position.quantity = direction * quantity;
+    this.position.avgPrice /= ratio;
+    if (quantity === 0) this.position = undefined;
+    return cashInLieu;
+  }
+
+  // Cash dividend: received on a long position, owed to the share lender on a short one
+  creditDividend(amountPerShare: number): number {
+    const cash = this.quantity * amountPerShare;
+    this.cash += cash;
+    return cash;
+  }
+
+  isBelowMaintenance(price: number): boolean {
+    const exposure = this.grossExposure(price);
+    return exposure > 0 && this.equity(price) < this.config.maintenanceMargin * exposure;
+  }
+
+  // Overnight financing on the previous close: borrow fee on shorts, interest on free cash or on a debit balance.
+  // Returns the amount charged to the open position (borrow fees) so it can be attributed to its trades.
+  accrueDailyFinancing(price: number): number {
+    const day = 1 / TRADING_DAYS_PER_YEAR;
+    let positionCost = 0;
+
+    // Short sale proceeds sit in cash but are collateral, so they earn nothing
+    let freeCash = this.cash;
+    if (this.position && this.position.quantity < 0) {
+      const shortValue = -this.position.quantity * price;
+      freeCash -= shortValue;
+      positionCost = shortValue * this.config.borrowFeeRate * day;
+      this.financing.borrowFees += positionCost;
+    }
+
+    if (freeCash > 0) {
+      const interest = freeCash * this.config.cashInterestRate * day;
+      this.financing.cashInterest += interest;
+      this.cash += interest;
+    } else if (freeCash < 0) {
+      const interest = -freeCash * this.config.marginInterestRate * day;
+      this.financing.marginInterest += interest;
+      this.cash -= interest;
+    }
+
+    this.cash -= positionCost;
+    return positionCost;
+  }
+}
@@ -1,26 +1,108 @@
 // Enhanced Monte Carlo simulation with real API integration and export features
-import jsPDF from 'jspdf';
-import 'jspdf-autotable';
+import { SeededRandom, generateSeed, hashString, deriveSeed } from './random';
+import { PriceProcess, PriceProcessConfig, createPriceProcess, describePriceProcess, DEFAULT_PROCESS_CONFIGS } from './priceProcesses';
+import {
+  VarianceReductionMethod,
+  VARIANCE_REDUCTION_LABELS,
+  DEFAULT_BATCH_COUNT,
+  createShockSource,
+  planBatches,
+  controlVariateBeta,
+  batchStandardError
+} from './varianceReduction';
+import {
+  QuantileSketch,
+  RunningMoments,
+  PathSample,
+  createQuantileSketch,
+  addToSketch,
+  mergeSketches,
+  sketchQuantile,
+  createRunningMoments,
+  addToMoments,
+  mergeMoments,
+  momentsVariance,
+  createPathSample,
+  offerPath,
+  mergePathSamples
+} from './streamingStats';
 
-interface SimulationParams {
+// 'paths' keeps every simulated path; 'streaming' keeps daily bands and a small sample of paths
+export type SimulationOutputMode = 'paths' | 'streaming';
+
+// Number of representative paths kept in streaming mode
+export const SAMPLE_PATH_COUNT = 100;
+
+// Largest run (paths x days) that may be stored in full; bigger runs must use streaming output
+export const MAX_STORED_PRICE_POINTS = 5_000_000;
+
+export interface SimulationParams {
   currentPrice: number;
   expectedReturn: number;
   volatility: number;
   timeHorizon: number;
   numSimulations: number;
+  seed?: number; // Random seed; a fresh one is drawn (and reported) when omitted
+  process?: PriceProcessConfig; // Price model; plain GBM when omitted
+  historicalData?: HistoricalData[]; // Daily history resampled by the bootstrap process
+  varianceReduction?: VarianceReductionMethod; // Plain pseudo-random sampling when omitted
+  outputMode?: SimulationOutputMode; // 'paths' when omitted
+}
+
+export interface SimulationStatistics {
+  averageEndingPrice: number;
+  probabilityOfGain: number;
+  percentile5: number;
+  percentile95: number;
+  maxPrice: number;
+  minPrice: number;
+}
+
+// Standard errors of the sampled statistics (extremes have none)
+export interface SimulationStandardErrors {
+  averageEndingPrice: number;
+  probabilityOfGain: number;
+  percentile5: number;
+  percentile95: number;
+}
+
+// Per-day price distribution (index = day, 0 = today)
+export interface SimulationBands {
+  p5: number[];
+  p25: number[];
+  p50: number[];
+  p75: number[];
+  p95: number[];
+  mean: number[];
+  stdDev: number[];
 }
 
-interface SimulationResults {
-  paths: number[][];
+export interface SimulationResults {
+  paths: number[][]; // Every path, or a uniform sample of paths in streaming mode
+  finalPrices: number[]; // Ending price of every simulated path
+  seed: number;
+  process: PriceProcessConfig;
+  varianceReduction: VarianceReductionMethod;
+  outputMode: SimulationOutputMode;
+  statistics: SimulationStatistics;
+  standardErrors: SimulationStandardErrors;
+  bands: SimulationBands;
+}
+
+// Streaming accumulators for each day of the horizon
+export interface DailyStatistics {
+  moments: RunningMoments[];
+  sketches: QuantileSketch[];
+}
+
+// Raw output of one simulated chunk; the parallel runner merges chunks before summarizing
+export interface SimulationPathChunk {
+  paths: number[][]; // Empty in streaming mode
   finalPrices: number[];
-  statistics: {
-    averageEndingPrice: number;
-    probabilityOfGain: number;
-    percentile5: number;
-    percentile95: number;
-    maxPrice: number;
-    minPrice: number;
-  };
+  controlPrices: number[] | null; // Ending prices of the GBM control (control variate mode only)
+  batchSizes: number[]; // Consecutive paths forming independent batches
+  daily: DailyStatistics;
+  sample: PathSample | null; // Streaming mode only
 }
 
 interface StockData {
@@ -32,84 +114,268 @@ interface StockData {
   lastUpdated: string;
 }
 
-interface HistoricalData {
+export interface HistoricalData {
   date: string;
   close: number;
   volume: number;
 }
 
-// Generate random normal distribution using Box-Muller transform
-function randomNormal(): number {
-  let u = 0, v = 0;
-  while(u === 0) u = Math.random(); // Converting [0,1) to (0,1)
-  while(v === 0) v = Math.random();
-  return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+// Monte Carlo price simulation driven by a pluggable price process (GBM by default)
+export function runMonteCarloSimulation(
+  params: SimulationParams,
+  onProgress?: (completedSimulations: number) => void
+): SimulationResults {
+  validateOutputSize(params);
+  const seed = params.seed ?? generateSeed();
+  const chunk = simulatePriceChunk({ ...params, seed }, DEFAULT_BATCH_COUNT, onProgress);
+  return summarizeSimulation(params, seed, [chunk]);
 }
 
-// Enhanced Geometric Brownian Motion simulation with jumps
-export function runMonteCarloSimulation(params: SimulationParams): SimulationResults {
+// Refuse to store runs that would not fit comfortably in memory
+export function validateOutputSize(params: SimulationParams): void {
+  const storedPoints = params.numSimulations * (params.timeHorizon + 1);
+  if ((params.outputMode ?? 'paths') === 'paths' && storedPoints > MAX_STORED_PRICE_POINTS) {
+    throw new Error(
+      `Storing ${params.numSimulations.toLocaleString()} paths of ${params.timeHorizon} days is too large; use streaming output instead`
+    );
+  }
+}
+
+// Simulate one chunk of paths, split into independent batches for standard errors
+export function simulatePriceChunk(
+  params: SimulationParams,
+  batchCount: number = DEFAULT_BATCH_COUNT,
+  onProgress?: (completedSimulations: number) => void
+): SimulationPathChunk {
   const { currentPrice, expectedReturn, volatility, timeHorizon, numSimulations } = params;
+  const method = params.varianceReduction ?? 'none';
+  const streaming = params.outputMode === 'streaming';
+  const seed = params.seed ?? generateSeed();
+  const rng = new SeededRandom(seed);
+  // Sample keys use their own stream so both output modes simulate identical paths
+  const sampleRng = new SeededRandom(deriveSeed(seed, 1));
   
   const paths: number[][] = [];
+  const sample = streaming ? createPathSample(SAMPLE_PATH_COUNT) : null;
+  const daily: DailyStatistics = {
+    moments: Array.from({ length: timeHorizon + 1 }, () => createRunningMoments()),
+    sketches: Array.from({ length: timeHorizon + 1 }, () => createQuantileSketch()),
+  };
   const finalPrices: number[] = [];
+  const controlPrices: number[] | null = method === 'controlVariate' ? [] : null;
   
-  // Daily parameters
-  const dt = 1 / 252; // Daily time step (252 trading days per year)
-  const drift = (expectedReturn - 0.5 * volatility * volatility) * dt;
-  const diffusion = volatility * Math.sqrt(dt);
+  const process = createSimulationProcess(params);
+  const batchSizes = planBatches(numSimulations, batchCount, method);
+  const shocks = createShockSource(method, rng, timeHorizon, batchSizes);
   
-  // Jump parameters (for more realistic modeling)
-  const jumpIntensity = 0.02; // 2% chance of jump per day
-  const jumpMean = -0.05; // Average jump size (slightly negative)
-  const jumpStd = 0.1; // Jump volatility
+  // GBM driven by the same shocks serves as the control, its expected ending price is known analytically
+  const dt = 1 / 252;
+  const controlDrift = (expectedReturn - 0.5 * volatility * volatility) * dt;
+  const controlDiffusion = volatility * Math.sqrt(dt);
   
   // Generate simulation paths
   for (let sim = 0; sim < numSimulations; sim++) {
     const path: number[] = [currentPrice];
     let price = currentPrice;
+    let controlLogReturn = 0;
+    const step = process.startPath(rng);
+    const shock = shocks.startPath();
     
     for (let day = 1; day <= timeHorizon; day++) {
-      const randomShock = randomNormal();
-      let priceChange = drift + diffusion * randomShock;
-      
-      // Add occasional jumps for realism
-      if (Math.random() < jumpIntensity) {
-        const jumpSize = jumpMean + jumpStd * randomNormal();
-        priceChange += jumpSize;
-      }
-      
-      price = price * Math.exp(priceChange);
+      const z = shock(day - 1);
+      price = price * Math.exp(step(z));
+      controlLogReturn += controlDrift + controlDiffusion * z;
       path.push(price);
     }
     
-    paths.push(path);
+    for (let day = 0; day <= timeHorizon; day++) {
+      addToMoments(daily.moments[day], path[day]);
+      addToSketch(daily.sketches[day], path[day]);
+    }
+    if (sample) {
+      offerPath(sample, sampleRng.next(), path);
+    } else {
+      paths.push(path);
+    }
     finalPrices.push(price);
+    controlPrices?.push(currentPrice * Math.exp(controlLogReturn));
+    
+    if (onProgress && (sim + 1) % PROGRESS_INTERVAL === 0) onProgress(sim + 1);
+  }
+  onProgress?.(numSimulations);
+  
+  return { paths, finalPrices, controlPrices, batchSizes, daily, sample };
+}
+
+// Merge simulated chunks into results: pooled statistics plus batch-means standard errors
+export function summarizeSimulation(
+  params: SimulationParams,
+  seed: number,
+  chunks: SimulationPathChunk[]
+): SimulationResults {
+  const { currentPrice, expectedReturn, timeHorizon } = params;
+  const method = params.varianceReduction ?? 'none';
+  const outputMode = params.outputMode ?? 'paths';
+  const finalPrices = chunks.flatMap(chunk => chunk.finalPrices);
+  const batchSizes = chunks.flatMap(chunk => chunk.batchSizes);
+  
+  // Control variate: adjust each ending price by the deviation of the GBM control from its known mean
+  let estimationPrices = finalPrices;
+  if (method === 'controlVariate') {
+    const controlPrices = chunks.flatMap(chunk => chunk.controlPrices ?? []);
+    const controlMean = currentPrice * Math.exp(expectedReturn * timeHorizon / 252);
+    const beta = controlVariateBeta(finalPrices, controlPrices);
+    estimationPrices = finalPrices.map((price, i) => price - beta * (controlPrices[i] - controlMean));
   }
   
-  // Calculate statistics
-  finalPrices.sort((a, b) => a - b);
+  const statistics = calculateSimulationStatistics(finalPrices, currentPrice);
+  statistics.averageEndingPrice = mean(estimationPrices);
   
-  const averageEndingPrice = finalPrices.reduce((sum, price) => sum + price, 0) / finalPrices.length;
-  const probabilityOfGain = finalPrices.filter(price => price > currentPrice).length / finalPrices.length;
-  const percentile5 = finalPrices[Math.floor(finalPrices.length * 0.05)];
-  const percentile95 = finalPrices[Math.floor(finalPrices.length * 0.95)];
-  const maxPrice = Math.max(...finalPrices);
-  const minPrice = Math.min(...finalPrices);
+  const batchEstimates = { averageEndingPrice: [] as number[], probabilityOfGain: [] as number[], percentile5: [] as number[], percentile95: [] as number[] };
+  let offset = 0;
+  for (const size of batchSizes) {
+    const batchStatistics = calculateSimulationStatistics(finalPrices.slice(offset, offset + size), currentPrice);
+    batchEstimates.averageEndingPrice.push(mean(estimationPrices.slice(offset, offset + size)));
+    batchEstimates.probabilityOfGain.push(batchStatistics.probabilityOfGain);
+    batchEstimates.percentile5.push(batchStatistics.percentile5);
+    batchEstimates.percentile95.push(batchStatistics.percentile95);
+    offset += size;
+  }
+  
+  // Streaming runs keep a uniform sample of paths drawn across all chunks
+  let paths: number[][];
+  if (outputMode === 'streaming') {
+    const sample = createPathSample(SAMPLE_PATH_COUNT);
+    chunks.forEach(chunk => chunk.sample && mergePathSamples(sample, chunk.sample));
+    paths = sample.paths;
+  } else {
+    paths = chunks.flatMap(chunk => chunk.paths);
+  }
   
   return {
     paths,
     finalPrices,
-    statistics: {
-      averageEndingPrice,
-      probabilityOfGain,
-      percentile5,
-      percentile95,
-      maxPrice,
-      minPrice,
+    seed,
+    process: params.process ?? DEFAULT_PROCESS_CONFIGS.gbm,
+    varianceReduction: method,
+    outputMode,
+    statistics,
+    bands: buildBands(chunks.map(chunk => chunk.daily)),
+    standardErrors: {
+      averageEndingPrice: batchStandardError(batchEstimates.averageEndingPrice),
+      probabilityOfGain: batchStandardError(batchEstimates.probabilityOfGain),
+      percentile5: batchStandardError(batchEstimates.percentile5),
+      percentile95: batchStandardError(batchEstimates.percentile95),
     },
   };
 }
 
+// Merge per-chunk daily accumulators into percentile bands
+export function buildBands(dailyStatistics: DailyStatistics[]): SimulationBands {
+  const [first, ...rest] = dailyStatistics;
+  const days = first.moments.length;
+  const bands: SimulationBands = { p5: [], p25: [], p50: [], p75: [], p95: [], mean: [], stdDev: [] };
+  
+  for (let day = 0; day < days; day++) {
+    const moments = { ...first.moments[day] };
+    const sketch = { ...first.sketches[day], counts: [...first.sketches[day].counts] };
+    rest.forEach(other => {
+      mergeMoments(moments, other.moments[day]);
+      mergeSketches(sketch, other.sketches[day]);
+    });
+    
+    // Bucket midpoints can overshoot the observed range (e.g. on day 0 every path is at the current price)
+    const quantile = (q: number) => Math.min(moments.max, Math.max(moments.min, sketchQuantile(sketch, q)));
+    bands.p5.push(quantile(0.05));
+    bands.p25.push(quantile(0.25));
+    bands.p50.push(quantile(0.5));
+    bands.p75.push(quantile(0.75));
+    bands.p95.push(quantile(0.95));
+    bands.mean.push(moments.mean);
+    bands.stdDev.push(Math.sqrt(momentsVariance(moments)));
+  }
+  
+  return bands;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Price process for a simulation, calibrated to daily steps (252 trading days per year)
+export function createSimulationProcess(params: SimulationParams): PriceProcess {
+  const config = params.process ?? DEFAULT_PROCESS_CONFIGS.gbm;
+  // Bootstrap paths resample history and ignore the shocks, so the sampling methods cannot act on them
+  if (config.type === 'bootstrap' && (params.varianceReduction ?? 'none') !== 'none') {
+    throw new Error('Variance reduction is not available for bootstrap resampling, which does not use random shocks');
+  }
+  return createPriceProcess(config, {
+    expectedReturn: params.expectedReturn,
+    volatility: params.volatility,
+    dt: 1 / 252,
+    historicalReturns: config.type === 'bootstrap' && params.historicalData
+      ? calculateLogReturns(params.historicalData)
+      : undefined,
+  });
+}
+
+// Daily log returns of a price history (ISO dates), in date order
+export function calculateLogReturns(data: HistoricalData[]): number[] {
+  const ordered = [...data].sort((a, b) => a.date.localeCompare(b.date));
+  const returns: number[] = [];
+  
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1].close;
+    const current = ordered[i].close;
+    if (!(previous > 0) || !(current > 0)) {
+      throw new Error(`Invalid closing price around ${ordered[i].date}: prices must be positive`);
+    }
+    returns.push(Math.log(current / previous));
+  }
+  
+  return returns;
+}
+
+// Annualized drift and volatility from a daily price history. The drift is the arithmetic rate
+// (mean log return plus half the variance) so that simulated prices grow at the historical rate.
+export function estimateParametersFromHistory(data: HistoricalData[]): { expectedReturn: number; volatility: number } {
+  const returns = calculateLogReturns(data);
+  if (returns.length < 2) {
+    throw new Error('Calibration requires a price history with at least three observations');
+  }
+  const average = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - average) * (r - average), 0) / (returns.length - 1);
+  return {
+    expectedReturn: (average + variance / 2) * 252,
+    volatility: Math.sqrt(variance * 252),
+  };
+}
+
+// How often (in simulated paths) long-running loops report progress
+export const PROGRESS_INTERVAL = 100;
+
+// Summary statistics of simulated ending prices (does not reorder the input)
+export function calculateSimulationStatistics(finalPrices: number[], currentPrice: number): SimulationStatistics {
+  const sorted = [...finalPrices].sort((a, b) => a - b);
+  const n = sorted.length;
+  
+  let sum = 0;
+  let gains = 0;
+  for (const price of sorted) {
+    sum += price;
+    if (price > currentPrice) gains++;
+  }
+  
+  return {
+    averageEndingPrice: sum / n,
+    probabilityOfGain: gains / n,
+    percentile5: sorted[Math.floor(n * 0.05)],
+    percentile95: sorted[Math.floor(n * 0.95)],
+    maxPrice: sorted[n - 1],
+    minPrice: sorted[0],
+  };
+}
+
 // Real API integration with Alpha Vantage (free tier)
 export async function fetchRealStockData(ticker: string): Promise<StockData> {
   try {
@@ -195,10 +461,11 @@ export async function fetchRealStockData(ticker: string): Promise<StockData> {
     const data = enhancedSampleData[ticker.toUpperCase()];
     
     if (!data) {
-      // Generate realistic data for unknown tickers
-      const basePrice = Math.random() * 300 + 50;
-      const expectedReturn = Math.random() * 0.20 + 0.05;
-      const volatility = Math.random() * 0.40 + 0.15;
+      // Generate realistic data for unknown tickers (stable per ticker so runs stay reproducible)
+      const tickerRandom = new SeededRandom(hashString(ticker.toUpperCase()));
+      const basePrice = tickerRandom.next() * 300 + 50;
+      const expectedReturn = tickerRandom.next() * 0.20 + 0.05;
+      const volatility = tickerRandom.next() * 0.40 + 0.15;
       
       return {
         ...data,
@@ -227,7 +494,7 @@ export const fetchStockData = fetchRealStockData;
 // Calculate additional risk metrics
 export function calculateRiskMetrics(finalPrices: number[], currentPrice: number, confidence: number = 0.05) {
   const sortedPrices = [...finalPrices].sort((a, b) => a - b);
-  const returns = finalPrices.map(price => (price - currentPrice) / currentPrice);
+  const returns = sortedPrices.map(price => (price - currentPrice) / currentPrice);
   
   // Value at Risk (VaR)
   const varIndex = Math.floor(sortedPrices.length * confidence);
@@ -253,7 +520,7 @@ export function calculateRiskMetrics(finalPrices: number[], currentPrice: number
     expectedShortfall,
     sharpeRatio,
     sortinoRatio,
-    maxDrawdown: (currentPrice - Math.min(...sortedPrices)) / currentPrice,
+    maxDrawdown: (currentPrice - sortedPrices[0]) / currentPrice,
     volatility: returnStd,
     skewness: calculateSkewness(returns),
     kurtosis: calculateKurtosis(returns)
@@ -279,12 +546,25 @@ function calculateKurtosis(data: number[]): number {
 
 // Export to CSV
 export function exportToCSV(data: any, filename: string = 'monte_carlo_results.csv'): void {
-  const { paths, finalPrices, statistics } = data;
+  const { paths, statistics, seed, process, varianceReduction, standardErrors, bands, outputMode } = data;
   
-  let csvContent = "data:text/csv;charset=utf-8,";
+  let csvContent = "";
   
-  // Add header
-  csvContent += "Simulation,";
+  if (process) {
+    csvContent += `Price Model,"${describePriceProcess(process)}"\n`;
+  }
+  if (varianceReduction) {
+    csvContent += `Variance Reduction,${VARIANCE_REDUCTION_LABELS[varianceReduction as VarianceReductionMethod]}\n`;
+  }
+  if (seed !== undefined) {
+    csvContent += `Random Seed,${seed}\n`;
+  }
+  if (process || varianceReduction || seed !== undefined) {
+    csvContent += "\n";
+  }
+  
+  // Add header (streaming runs only export their sampled paths)
+  csvContent += outputMode === 'streaming' ? "Sample_Path," : "Simulation,";
   for (let day = 0; day < paths[0].length; day++) {
     csvContent += `Day_${day},`;
   }
@@ -296,29 +576,45 @@ export function exportToCSV(data: any, filename: string = 'monte_carlo_results.c
     path.forEach(price => {
       csvContent += `${price.toFixed(2)},`;
     });
-    csvContent += `${finalPrices[index].toFixed(2)}\n`;
+    csvContent += `${path[path.length - 1].toFixed(2)}\n`;
   });
   
+  if (bands) {
+    csvContent += "\n\nDaily Price Bands\nDay,P5,P25,P50,P75,P95,Mean,Std_Dev\n";
+    (bands as SimulationBands).mean.forEach((mean, day) => {
+      csvContent += [day, bands.p5[day], bands.p25[day], bands.p50[day], bands.p75[day], bands.p95[day], mean, bands.stdDev[day]]
+        .map((value, i) => (i === 0 ? String(value) : value.toFixed(2)))
+        .join(',') + "\n";
+    });
+  }
+  
   // Add statistics
   csvContent += "\n\nStatistics\n";
-  csvContent += `Average Ending Price,${statistics.averageEndingPrice.toFixed(2)}\n`;
-  csvContent += `Probability of Gain,${(statistics.probabilityOfGain * 100).toFixed(2)}%\n`;
-  csvContent += `5th Percentile,${statistics.percentile5.toFixed(2)}\n`;
-  csvContent += `95th Percentile,${statistics.percentile95.toFixed(2)}\n`;
+  const standardError = (value: number | undefined, scale: number = 1, suffix: string = '') =>
+    value !== undefined && Number.isFinite(value) ? `,${(value * scale).toFixed(2)}${suffix}` : '';
+  csvContent += standardErrors ? "Statistic,Value,Standard Error\n" : "";
+  csvContent += `Average Ending Price,${statistics.averageEndingPrice.toFixed(2)}${standardError(standardErrors?.averageEndingPrice)}\n`;
+  csvContent += `Probability of Gain,${(statistics.probabilityOfGain * 100).toFixed(2)}%${standardError(standardErrors?.probabilityOfGain, 100, '%')}\n`;
+  csvContent += `5th Percentile,${statistics.percentile5.toFixed(2)}${standardError(standardErrors?.percentile5)}\n`;
+  csvContent += `95th Percentile,${statistics.percentile95.toFixed(2)}${standardError(standardErrors?.percentile95)}\n`;
   csvContent += `Maximum Price,${statistics.maxPrice.toFixed(2)}\n`;
   csvContent += `Minimum Price,${statistics.minPrice.toFixed(2)}\n`;
   
-  const encodedUri = encodeURI(csvContent);
+  // Blob URLs avoid the length limits browsers put on data: URIs
+  const url = URL.createObjectURL(new Blob([csvContent], { type: 'text/csv;charset=utf-8' }));
   const link = document.createElement("a");
-  link.setAttribute("href", encodedUri);
+  link.setAttribute("href", url);
   link.setAttribute("download", filename);
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 }
 
-// Export to PDF report
-export function exportToPDF(data: any, ticker: string, params: any): void {
+// Export to PDF report (jsPDF is loaded on demand so simulation code stays usable in workers)
+export async function exportToPDF(data: any, ticker: string, params: any): Promise<void> {
+  const { default: jsPDF } = await import('jspdf');
+  await import('jspdf-autotable');
   const { statistics, finalPrices } = data;
   const riskMetrics = calculateRiskMetrics(finalPrices, params.currentPrice);
   
@@ -348,7 +644,10 @@ export function exportToPDF(data: any, ticker: string, params: any): void {
     ['Number of Simulations', params.numSimulations.toString()],
     ['Time Horizon (Days)', params.timeHorizon.toString()],
     ['Expected Annual Return', `${(params.expectedReturn * 100).toFixed(2)}%`],
-    ['Annual Volatility', `${(params.volatility * 100).toFixed(2)}%`]
+    ['Annual Volatility', `${(params.volatility * 100).toFixed(2)}%`],
+    ['Price Model', describePriceProcess(data.process ?? DEFAULT_PROCESS_CONFIGS.gbm)],
+    ['Variance Reduction', VARIANCE_REDUCTION_LABELS[(data.varianceReduction ?? 'none') as VarianceReductionMethod]],
+    ['Random Seed', data.seed !== undefined ? String(data.seed) : 'Not recorded']
   ];
   
   (doc as any).autoTable({
@@ -363,12 +662,15 @@ export function exportToPDF(data: any, ticker: string, params: any): void {
   doc.setFontSize(16);
   doc.text('Results Summary', 20, (doc as any).lastAutoTable.finalY + 20);
   
+  const standardErrors = data.standardErrors;
+  const withError = (text: string, error: number | undefined, format: (value: number) => string) =>
+    error !== undefined && Number.isFinite(error) ? `${text} (SE ${format(error)})` : text;
   const resultsData = [
     ['Metric', 'Value'],
-    ['Average Ending Price', `$${statistics.averageEndingPrice.toFixed(2)}`],
-    ['Probability of Gain', `${(statistics.probabilityOfGain * 100).toFixed(1)}%`],
-    ['5th Percentile (Worst Case)', `$${statistics.percentile5.toFixed(2)}`],
-    ['95th Percentile (Best Case)', `$${statistics.percentile95.toFixed(2)}`],
+    ['Average Ending Price', withError(`$${statistics.averageEndingPrice.toFixed(2)}`, standardErrors?.averageEndingPrice, v => `$${v.toFixed(2)}`)],
+    ['Probability of Gain', withError(`${(statistics.probabilityOfGain * 100).toFixed(1)}%`, standardErrors?.probabilityOfGain, v => `${(v * 100).toFixed(1)}%`)],
+    ['5th Percentile (Worst Case)', withError(`$${statistics.percentile5.toFixed(2)}`, standardErrors?.percentile5, v => `$${v.toFixed(2)}`)],
+    ['95th Percentile (Best Case)', withError(`$${statistics.percentile95.toFixed(2)}`, standardErrors?.percentile95, v => `$${v.toFixed(2)}`)],
     ['Price Range', `$${statistics.minPrice.toFixed(2)} - $${statistics.maxPrice.toFixed(2)}`]
   ];
   
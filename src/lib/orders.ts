@@ -0,0 +1,206 @@
+// Order model for backtests: orders are submitted after a bar closes and matched against later bars' OHLC
+import { HistoricalPrice, TradeReason } from './backtesting';
+
+export type OrderSide = 'BUY' | 'SELL';
+
+export type OrderType = 'market' | 'limit' | 'stop' | 'stopLimit' | 'trailingStop';
+
+// Daily bars, so a day order is live for the single bar after it was submitted
+export type TimeInForce = 'day' | 'gtc';
+
+export type OrderStatus = 'working' | 'filled' | 'cancelled' | 'expired' | 'rejected';
+
+export interface OrderRequest {
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number; // limit and stopLimit
+  stopPrice?: number; // stop and stopLimit
+  trailPercent?: number; // trailingStop: distance from the best price since submission, as a fraction
+  timeInForce?: TimeInForce; // Defaults to 'day'
+  reduceOnly?: boolean; // Only reduces an existing position; never opens or reverses one
+  reason?: TradeReason; // Recorded on the resulting trades; defaults to 'signal'
+}
+
+export interface Order {
+  id: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number; // For trailing stops, the current trigger level
+  trailPercent?: number;
+  timeInForce: TimeInForce;
+  reduceOnly: boolean;
+  reason: TradeReason;
+  submittedAt: string; // Date of the bar whose close produced the order
+  submittedIndex: number;
+  status: OrderStatus;
+  filledQuantity: number;
+  avgFillPrice: number;
+  triggered: boolean; // Stop-limit orders become limit orders once the stop trades
+  closedAt?: string; // Date the order was filled, cancelled, expired or rejected
+}
+
+export interface ExecutionConfig {
+  maxVolumeParticipation: number; // Largest fraction of a bar's volume the backtest may trade
+}
+
+export const DEFAULT_EXECUTION_CONFIG: ExecutionConfig = {
+  maxVolumeParticipation: 0.1,
+};
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: 'Market on Open',
+  limit: 'Limit',
+  stop: 'Stop',
+  stopLimit: 'Stop Limit',
+  trailingStop: 'Trailing Stop',
+};
+
+function validateOrderRequest(request: OrderRequest): void {
+  if (!(request.quantity > 0) || !Number.isInteger(request.quantity)) {
+    throw new Error(`Order quantity must be a positive whole number, got ${request.quantity}`);
+  }
+  if ((request.type === 'limit' || request.type === 'stopLimit') && !(request.limitPrice > 0)) {
+    throw new Error(`${ORDER_TYPE_LABELS[request.type]} order requires a positive limit price`);
+  }
+  if ((request.type === 'stop' || request.type === 'stopLimit') && !(request.stopPrice > 0)) {
+    throw new Error(`${ORDER_TYPE_LABELS[request.type]} order requires a positive stop price`);
+  }
+  if (request.type === 'trailingStop' && !(request.trailPercent > 0 && request.trailPercent < 1)) {
+    throw new Error('Trailing stop order requires a trail percent between 0 and 100%');
+  }
+}
+
+// Trailing stop trigger level for a given best price: below the high for sells, above the low for buys
+const trailingStopPrice = (side: OrderSide, bestPrice: number, trailPercent: number): number =>
+  side === 'SELL' ? bestPrice * (1 - trailPercent) : bestPrice * (1 + trailPercent);
+
+// Price a stop order triggers at on this bar, or null: the open when the bar gaps through the stop
+function stopTriggerPrice(side: OrderSide, stopPrice: number, bar: HistoricalPrice): number | null {
+  if (side === 'BUY') {
+    if (bar.open >= stopPrice) return bar.open;
+    return bar.high >= stopPrice ? stopPrice : null;
+  }
+  if (bar.open <= stopPrice) return bar.open;
+  return bar.low <= stopPrice ? stopPrice : null;
+}
+
+// Price a limit order fills at on this bar, or null: the open when it is already better than the limit
+function limitFillPrice(side: OrderSide, limitPrice: number, bar: HistoricalPrice): number | null {
+  if (side === 'BUY') {
+    if (bar.open <= limitPrice) return bar.open;
+    return bar.low <= limitPrice ? limitPrice : null;
+  }
+  if (bar.open >= limitPrice) return bar.open;
+  return bar.high >= limitPrice ? limitPrice : null;
+}
+
+// Market and stop fills move `slippagePerUnit` against the order; limit fills execute at the limit or better
+export function applySlippage(order: Order, price: number, slippagePerUnit: number): number {
+  if (order.type === 'limit' || order.type === 'stopLimit') return price;
+  return price + (order.side === 'BUY' ? slippagePerUnit : -slippagePerUnit);
+}
+
+// Working orders for one symbol. The engine asks for each order's match price on a bar, records fills,
+// then closes the bar so day orders expire and trailing stops follow the price.
+export class OrderBook {
+  private orders: Order[] = [];
+  private nextId = 1;
+
+  get all(): Order[] {
+    return this.orders;
+  }
+
+  get working(): Order[] {
+    return this.orders.filter(order => order.status === 'working');
+  }
+
+  // `bar` is the bar whose close produced the order; trailing stops start from its close
+  submit(request: OrderRequest, bar: HistoricalPrice, barIndex: number): Order {
+    validateOrderRequest(request);
+    const order: Order = {
+      id: `order_${this.nextId++}`,
+      side: request.side,
+      type: request.type,
+      quantity: request.quantity,
+      limitPrice: request.limitPrice,
+      stopPrice: request.type === 'trailingStop'
+        ? trailingStopPrice(request.side, bar.close, request.trailPercent)
+        : request.stopPrice,
+      trailPercent: request.trailPercent,
+      timeInForce: request.timeInForce ?? 'day',
+      reduceOnly: request.reduceOnly ?? false,
+      reason: request.reason ?? 'signal',
+      submittedAt: bar.date,
+      submittedIndex: barIndex,
+      status: 'working',
+      filledQuantity: 0,
+      avgFillPrice: 0,
+      triggered: false
+    };
+    this.orders.push(order);
+    return order;
+  }
+
+  cancel(orderId: string, date: string): void {
+    const order = this.orders.find(o => o.id === orderId && o.status === 'working');
+    if (order) this.close(order, 'cancelled', date);
+  }
+
+  cancelAll(date: string): void {
+    this.working.forEach(order => this.close(order, 'cancelled', date));
+  }
+
+  // Price before slippage at which `order` trades on `bar`, or null if it does not; triggers stop-limits
+  matchPrice(order: Order, bar: HistoricalPrice): number | null {
+    switch (order.type) {
+      case 'market':
+        return bar.open;
+      case 'limit':
+        return limitFillPrice(order.side, order.limitPrice, bar);
+      case 'stop':
+      case 'trailingStop':
+        return stopTriggerPrice(order.side, order.stopPrice, bar);
+      case 'stopLimit': {
+        if (order.triggered) return limitFillPrice(order.side, order.limitPrice, bar);
+        const trigger = stopTriggerPrice(order.side, order.stopPrice, bar);
+        if (trigger === null) return null;
+        order.triggered = true;
+        const withinLimit = order.side === 'BUY' ? trigger <= order.limitPrice : trigger >= order.limitPrice;
+        if (withinLimit) return trigger;
+        // Only a gap at the open leaves the rest of the bar to reach the limit; otherwise wait for the next bar
+        return trigger === bar.open ? limitFillPrice(order.side, order.limitPrice, bar) : null;
+      }
+    }
+  }
+
+  recordFill(order: Order, quantity: number, price: number, date: string): void {
+    order.avgFillPrice = (order.avgFillPrice * order.filledQuantity + price * quantity) / (order.filledQuantity + quantity);
+    order.filledQuantity += quantity;
+    if (order.filledQuantity >= order.quantity) this.close(order, 'filled', date);
+  }
+
+  reject(order: Order, date: string): void {
+    // A partially filled order keeps its fills; the rest is cancelled
+    this.close(order, order.filledQuantity > 0 ? 'cancelled' : 'rejected', date);
+  }
+
+  // After matching `bar`: expire day orders that have had their session and move trailing stops
+  endBar(bar: HistoricalPrice, barIndex: number): void {
+    this.working.forEach(order => {
+      if (order.timeInForce === 'day' && order.submittedIndex < barIndex) {
+        this.close(order, 'expired', bar.date);
+      } else if (order.type === 'trailingStop') {
+        const next = trailingStopPrice(order.side, order.side === 'SELL' ? bar.high : bar.low, order.trailPercent);
+        order.stopPrice = order.side === 'SELL' ? Math.max(order.stopPrice, next) : Math.min(order.stopPrice, next);
+      }
+    });
+  }
+
+  private close(order: Order, status: OrderStatus, date: string): void {
+    order.status = status;
+    order.closedAt = date;
+  }
+}
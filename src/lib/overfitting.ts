@@ -0,0 +1,150 @@
+// Overfitting diagnostics for parameter searches: deflated Sharpe ratio and probability of backtest overfitting
+import { inverseNormalCDF } from './quasiRandom';
+
+const EULER_MASCHERONI = 0.5772156649;
+const BARS_PER_YEAR = 252;
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+function normalCDF(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+    t * Math.exp(-x * x / 2);
+  return x < 0 ? (1 - y) / 2 : (1 + y) / 2;
+}
+
+// Sharpe ratio per bar (no risk-free rate), 0 for a flat series
+export function perBarSharpe(returns: number[]): number {
+  if (returns.length < 2) return 0;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return variance > 0 ? mean / Math.sqrt(variance) : 0;
+}
+
+export interface DeflatedSharpeResult {
+  trials: number;
+  sharpeRatio: number; // Selected trial, annualized
+  expectedMaxSharpe: number; // Annualized Sharpe the best of `trials` skill-less trials would be expected to show
+  deflatedSharpe: number; // Probability that the selected trial's true Sharpe beats that benchmark
+}
+
+// Deflated Sharpe ratio (Bailey & López de Prado, 2014): the probabilistic Sharpe ratio of the selected
+// trial against the expected maximum Sharpe of all trials, corrected for skew and fat tails
+export function deflatedSharpeRatio(selected: number[], trialSharpes: number[]): DeflatedSharpeResult {
+  const n = selected.length;
+  const trials = trialSharpes.length;
+  if (n < 3 || trials < 1) {
+    throw new Error('Deflated Sharpe ratio needs at least 3 returns and 1 trial');
+  }
+
+  const sharpe = perBarSharpe(selected);
+  const mean = selected.reduce((sum, r) => sum + r, 0) / n;
+  const std = Math.sqrt(selected.reduce((sum, r) => sum + (r - mean) ** 2, 0) / n);
+  const skew = std > 0 ? selected.reduce((sum, r) => sum + ((r - mean) / std) ** 3, 0) / n : 0;
+  const kurtosis = std > 0 ? selected.reduce((sum, r) => sum + ((r - mean) / std) ** 4, 0) / n : 3;
+
+  const trialMean = trialSharpes.reduce((sum, s) => sum + s, 0) / trials;
+  const trialVariance = trials > 1
+    ? trialSharpes.reduce((sum, s) => sum + (s - trialMean) ** 2, 0) / (trials - 1)
+    : 0;
+  const expectedMax = trials > 1
+    ? Math.sqrt(trialVariance) * (
+      (1 - EULER_MASCHERONI) * inverseNormalCDF(1 - 1 / trials) +
+      EULER_MASCHERONI * inverseNormalCDF(1 - 1 / (trials * Math.E))
+    )
+    : 0;
+
+  const denominator = Math.sqrt(Math.max(1e-12, 1 - skew * sharpe + ((kurtosis - 1) / 4) * sharpe * sharpe));
+  const deflatedSharpe = normalCDF(((sharpe - expectedMax) * Math.sqrt(n - 1)) / denominator);
+
+  return {
+    trials,
+    sharpeRatio: sharpe * Math.sqrt(BARS_PER_YEAR),
+    expectedMaxSharpe: expectedMax * Math.sqrt(BARS_PER_YEAR),
+    deflatedSharpe
+  };
+}
+
+export interface BacktestOverfittingResult {
+  pbo: number; // Share of splits where the in-sample winner ranks in the bottom half out of sample
+  combinations: number;
+  blocks: number;
+  logits: number[]; // Logit of the in-sample winner's relative out-of-sample rank, one per split
+}
+
+// Probability of backtest overfitting by combinatorially symmetric cross-validation (Bailey et al., 2015).
+// The bars are cut into `blocks` equal blocks; every half of them is used once as the in-sample set and
+// the other half as the out-of-sample set. Trials are ranked by per-bar Sharpe ratio.
+export function probabilityOfBacktestOverfitting(returnsByTrial: number[][], blocks: number = 16): BacktestOverfittingResult {
+  const trials = returnsByTrial.length;
+  if (trials < 2) {
+    throw new Error('Probability of backtest overfitting needs at least 2 trials');
+  }
+  if (!Number.isInteger(blocks) || blocks < 2 || blocks % 2 !== 0 || blocks > 20) {
+    throw new Error('CSCV needs an even number of blocks between 2 and 20');
+  }
+  const length = Math.min(...returnsByTrial.map(returns => returns.length));
+  if (length < blocks * 2) {
+    throw new Error(`CSCV with ${blocks} blocks needs at least ${blocks * 2} returns per trial`);
+  }
+
+  // Per block and trial: count, sum and sum of squares, so each split combines blocks instead of rescanning bars
+  const boundaries = Array.from({ length: blocks + 1 }, (_, k) => Math.floor((length * k) / blocks));
+  const stats = Array.from({ length: blocks }, (_, b) => returnsByTrial.map(returns => {
+    let sum = 0, sumSq = 0;
+    for (let t = boundaries[b]; t < boundaries[b + 1]; t++) {
+      sum += returns[t];
+      sumSq += returns[t] * returns[t];
+    }
+    return { count: boundaries[b + 1] - boundaries[b], sum, sumSq };
+  }));
+
+  const sharpeOf = (mask: number, inSet: boolean, trial: number): number => {
+    let count = 0, sum = 0, sumSq = 0;
+    for (let b = 0; b < blocks; b++) {
+      if (((mask >> b) & 1) === 1 !== inSet) continue;
+      const block = stats[b][trial];
+      count += block.count;
+      sum += block.sum;
+      sumSq += block.sumSq;
+    }
+    const mean = sum / count;
+    const variance = (sumSq - count * mean * mean) / Math.max(1, count - 1);
+    return variance > 1e-18 ? mean / Math.sqrt(variance) : 0;
+  };
+
+  const logits: number[] = [];
+  for (let mask = 0; mask < 1 << blocks; mask++) {
+    if (popCount(mask) !== blocks / 2) continue;
+
+    let best = 0;
+    let bestSharpe = -Infinity;
+    for (let trial = 0; trial < trials; trial++) {
+      const sharpe = sharpeOf(mask, true, trial);
+      if (sharpe > bestSharpe) {
+        bestSharpe = sharpe;
+        best = trial;
+      }
+    }
+
+    // Relative rank of the in-sample winner out of sample, ties counted as half
+    const outOfSample = Array.from({ length: trials }, (_, trial) => sharpeOf(mask, false, trial));
+    const winner = outOfSample[best];
+    const below = outOfSample.filter(sharpe => sharpe < winner).length;
+    const ties = outOfSample.filter(sharpe => sharpe === winner).length - 1;
+    const omega = (below + ties / 2 + 1) / (trials + 1);
+    logits.push(Math.log(omega / (1 - omega)));
+  }
+
+  return {
+    pbo: logits.filter(logit => logit <= 0).length / logits.length,
+    combinations: logits.length,
+    blocks,
+    logits
+  };
+}
+
+function popCount(value: number): number {
+  let count = 0;
+  for (let v = value; v > 0; v &= v - 1) count++;
+  return count;
+}
@@ -0,0 +1,167 @@
+// Parallel Monte Carlo runners backed by a shared Web Worker pool
+import {
+  SimulationParams,
+  SimulationResults,
+  createSimulationProcess,
+  summarizeSimulation,
+  validateOutputSize
+} from './monteCarlo';
+import {
+  PortfolioParams,
+  PortfolioResults,
+  PortfolioPathChunk,
+  preparePortfolioSimulation,
+  buildPortfolioResults
+} from './portfolio';
+import { StressTester, StressTestResults } from './riskManagement';
+import { deriveSeed, generateSeed } from './random';
+import { WorkerPool, WorkerPoolRunOptions } from './workerPool';
+import { executeSimulationTask, SimulationTask, SimulationTaskResult } from './simulationTasks';
+import { DEFAULT_BATCH_COUNT } from './varianceReduction';
+import {
+  RobustnessInput,
+  RobustnessParams,
+  RobustnessResult,
+  summarizeRobustness,
+  validateRobustnessParams
+} from './backtestRobustness';
+
+// Paths per task. Chunks are seeded by index, so results depend only on the seed, not on the pool size.
+export const SIMULATION_CHUNK_SIZE = 500;
+
+// Streaming chunks return sketches rather than paths, so larger chunks keep the number of results to merge small
+export const STREAMING_CHUNK_SIZE = 5000;
+
+export interface ParallelRunOptions {
+  // Fraction of the run completed, between 0 and 1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+let simulationPool: WorkerPool<SimulationTask, SimulationTaskResult> | null = null;
+
+export const getSimulationPool = (): WorkerPool<SimulationTask, SimulationTaskResult> => {
+  if (!simulationPool) {
+    simulationPool = new WorkerPool<SimulationTask, SimulationTaskResult>(
+      () => new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), { type: 'module' }),
+      executeSimulationTask
+    );
+  }
+  return simulationPool;
+};
+
+// Split a path count into chunks of at most chunkSize paths, each with its own derived seed
+const splitIntoChunks = (
+  total: number,
+  seed: number,
+  chunkSize: number = SIMULATION_CHUNK_SIZE
+): Array<{ size: number; seed: number }> => {
+  const chunks: Array<{ size: number; seed: number }> = [];
+  for (let start = 0, index = 0; start < total; start += chunkSize, index++) {
+    chunks.push({ size: Math.min(chunkSize, total - start), seed: deriveSeed(seed, index) });
+  }
+  return chunks;
+};
+
+const toPoolOptions = (total: number, options: ParallelRunOptions): WorkerPoolRunOptions => ({
+  signal: options.signal,
+  onProgress: options.onProgress
+    ? (completed) => options.onProgress!(Math.min(1, completed / Math.max(1, total)))
+    : undefined
+});
+
+// Monte Carlo price simulation split across workers
+export async function runMonteCarloSimulationParallel(
+  params: SimulationParams,
+  options: ParallelRunOptions = {}
+): Promise<SimulationResults> {
+  const seed = params.seed ?? generateSeed();
+  // Reject bad model parameters (or a missing bootstrap history) before any worker is started
+  const { config: process } = createSimulationProcess(params);
+  validateOutputSize(params);
+
+  // Sobol replicates need a whole point set each, so every chunk is one randomized replicate
+  const sobol = params.varianceReduction === 'sobol';
+  const chunkSize = sobol
+    ? Math.ceil(params.numSimulations / DEFAULT_BATCH_COUNT)
+    : params.outputMode === 'streaming' ? STREAMING_CHUNK_SIZE : SIMULATION_CHUNK_SIZE;
+
+  const tasks: SimulationTask[] = splitIntoChunks(params.numSimulations, seed, chunkSize).map(chunk => ({
+    kind: 'monteCarlo',
+    params: { ...params, process, numSimulations: chunk.size, seed: chunk.seed },
+    batchCount: sobol ? 1 : DEFAULT_BATCH_COUNT
+  }));
+
+  const results = await getSimulationPool().run(tasks, toPoolOptions(params.numSimulations, options));
+  const chunks = results as Array<Extract<SimulationTaskResult, { kind: 'monteCarlo' }>>;
+
+  return summarizeSimulation({ ...params, process }, seed, chunks);
+}
+
+// Correlated multi-asset portfolio simulation split across workers
+export async function runPortfolioSimulationParallel(
+  params: PortfolioParams,
+  options: ParallelRunOptions = {}
+): Promise<PortfolioResults> {
+  const seed = params.seed ?? generateSeed();
+  const input = await preparePortfolioSimulation(params);
+  const tasks: SimulationTask[] = splitIntoChunks(params.numSimulations, seed).map(chunk => ({
+    kind: 'portfolio',
+    input,
+    numSimulations: chunk.size,
+    seed: chunk.seed
+  }));
+
+  const results = await getSimulationPool().run(tasks, toPoolOptions(params.numSimulations, options));
+  return buildPortfolioResults(input, results as PortfolioPathChunk[], seed);
+}
+
+// Bootstrap stress test split across workers
+export async function runStressTestParallel(
+  portfolio: { weights: number[]; assets: string[] },
+  returns: number[][],
+  numSimulations: number = 1000,
+  timeHorizon: number = 252,
+  seed: number = generateSeed(),
+  options: ParallelRunOptions = {}
+): Promise<StressTestResults> {
+  const tasks: SimulationTask[] = splitIntoChunks(numSimulations, seed).map(chunk => ({
+    kind: 'stressTest',
+    portfolio,
+    returns,
+    numSimulations: chunk.size,
+    timeHorizon,
+    seed: chunk.seed
+  }));
+
+  const results = await getSimulationPool().run(tasks, toPoolOptions(numSimulations, options));
+  const scenarios = (results as Array<Extract<SimulationTaskResult, { kind: 'stressTest' }>>)
+    .flatMap(chunk => chunk.scenarios);
+
+  return StressTester.summarizeStressScenarios(scenarios, seed);
+}
+
+// Monte Carlo robustness of a backtest's trade or return sequence split across workers
+export async function runBacktestRobustnessParallel(
+  input: RobustnessInput,
+  params: RobustnessParams,
+  options: ParallelRunOptions = {}
+): Promise<RobustnessResult> {
+  validateRobustnessParams(input, params);
+  const seed = params.seed ?? generateSeed();
+  const tasks: SimulationTask[] = splitIntoChunks(params.simulations, seed).map(chunk => ({
+    kind: 'backtestRobustness',
+    input,
+    params,
+    simulations: chunk.size,
+    seed: chunk.seed
+  }));
+
+  const results = await getSimulationPool().run(tasks, toPoolOptions(params.simulations, options));
+  return summarizeRobustness(
+    input,
+    params,
+    seed,
+    results as Array<Extract<SimulationTaskResult, { kind: 'backtestRobustness' }>>
+  );
+}
@@ -1,4 +1,5 @@
-import { runMonteCarloSimulation, fetchRealStockData } from './monteCarlo';
+import { runMonteCarloSimulation, fetchRealStockData, PROGRESS_INTERVAL } from './monteCarlo';
+import { SeededRandom, generateSeed } from './random';
 
 export interface Asset {
   ticker: string;
@@ -15,13 +16,17 @@ export interface PortfolioParams {
   numSimulations: number;
   correlationMethod: 'historical' | 'custom';
   customCorrelations?: number[][];
+  seed?: number;
 }
 
 export interface PortfolioResults {
   paths: number[][];
   finalValues: number[];
   initialValue: number;
+  seed: number;
   assetPaths: { [ticker: string]: number[][] };
+  correlationMatrix: number[][];
+  correlationAdjusted: boolean; // true when the input matrix was not positive definite
   statistics: {
     averageEndingValue: number;
     probabilityOfGain: number;
@@ -91,9 +96,57 @@ const getSector = (ticker: string): string => {
   return 'tech'; // default
 };
 
-// Portfolio Monte Carlo simulation
-export const runPortfolioSimulation = async (params: PortfolioParams): Promise<PortfolioResults> => {
-  const { assets, timeHorizon, numSimulations } = params;
+// Resolve the correlation matrix for a simulation run, repairing user input when needed
+export const resolveCorrelationMatrix = (
+  assets: Asset[],
+  method: PortfolioParams['correlationMethod'],
+  customCorrelations?: number[][]
+): { matrix: number[][]; adjusted: boolean } => {
+  const n = assets.length;
+  const useCustom = method === 'custom' && isSquareMatrix(customCorrelations, n);
+  const matrix = useCustom ? sanitizeCorrelationMatrix(customCorrelations!) : calculateCorrelationMatrix(assets);
+
+  if (choleskyDecomposition(matrix)) {
+    return { matrix, adjusted: false };
+  }
+
+  return { matrix: nearestPositiveDefinite(matrix), adjusted: true };
+};
+
+const isSquareMatrix = (matrix: number[][] | undefined, n: number): boolean =>
+  !!matrix && matrix.length === n && matrix.every(row => Array.isArray(row) && row.length === n);
+
+// Symmetrize, clamp to [-1, 1] and force a unit diagonal
+const sanitizeCorrelationMatrix = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => {
+      if (i === j) return 1;
+      const value = (Number(matrix[i][j]) + Number(matrix[j][i])) / 2;
+      return Number.isFinite(value) ? Math.max(-1, Math.min(1, value)) : 0;
+    })
+  );
+};
+
+// Everything a simulation run needs once market data has been fetched (plain data, safe to post to workers)
+export interface PortfolioSimulationInput {
+  assets: Asset[];
+  initialValue: number;
+  timeHorizon: number;
+  correlationMatrix: number[][];
+  correlationAdjusted: boolean;
+}
+
+// Simulated paths for one batch of portfolio scenarios
+export interface PortfolioPathChunk {
+  paths: number[][];
+  finalValues: number[];
+  assetPaths: { [ticker: string]: number[][] };
+}
+
+// Fetch asset data and resolve correlations ahead of simulation
+export const preparePortfolioSimulation = async (params: PortfolioParams): Promise<PortfolioSimulationInput> => {
+  const { assets, timeHorizon, correlationMethod, customCorrelations } = params;
   
   // Fetch current prices and calculate initial portfolio value
   const assetData = await Promise.all(
@@ -109,9 +162,34 @@ export const runPortfolioSimulation = async (params: PortfolioParams): Promise<P
   );
 
   const initialValue = assetData.reduce((sum, asset) => sum + (asset.currentPrice! * asset.weight), 0);
+  const { matrix, adjusted } = resolveCorrelationMatrix(assetData, correlationMethod, customCorrelations);
   
-  // Get correlation matrix
-  const correlations = calculateCorrelationMatrix(assetData);
+  return {
+    assets: assetData,
+    initialValue,
+    timeHorizon,
+    correlationMatrix: matrix,
+    correlationAdjusted: adjusted
+  };
+};
+
+// Generate correlated multi-asset GBM paths and aggregate them by weight
+export const simulatePortfolioPaths = (
+  input: PortfolioSimulationInput,
+  numSimulations: number,
+  seed: number,
+  onProgress?: (completedSimulations: number) => void
+): PortfolioPathChunk => {
+  const { assets: assetData, initialValue, timeHorizon, correlationMatrix } = input;
+  const rng = new SeededRandom(seed);
+  
+  // Cholesky factor is computed once per run
+  const L = choleskyDecomposition(correlationMatrix)!;
+  
+  // Per-asset GBM parameters
+  const dt = 1 / 252; // Daily time step
+  const drifts = assetData.map(asset => (asset.expectedReturn! - 0.5 * asset.volatility! ** 2) * dt);
+  const diffusions = assetData.map(asset => asset.volatility! * Math.sqrt(dt));
   
   // Generate portfolio paths
   const portfolioPaths: number[][] = [];
@@ -125,29 +203,20 @@ export const runPortfolioSimulation = async (params: PortfolioParams): Promise<P
   
   for (let sim = 0; sim < numSimulations; sim++) {
     const portfolioPath: number[] = [initialValue];
-    const currentAssetPaths: { [ticker: string]: number[] } = {};
-    
-    // Initialize asset paths for this simulation
-    assetData.forEach(asset => {
-      currentAssetPaths[asset.ticker] = [asset.currentPrice!];
-    });
+    const currentAssetPaths: number[][] = assetData.map(asset => [asset.currentPrice!]);
     
     // Generate correlated random walks for each asset
     for (let day = 1; day <= timeHorizon; day++) {
       let portfolioValue = 0;
       
       // Generate correlated random numbers
-      const randomNumbers = generateCorrelatedRandoms(assetData.length, correlations);
+      const randomNumbers = generateCorrelatedRandoms(L, rng);
       
       assetData.forEach((asset, index) => {
-        const dt = 1 / 252; // Daily time step
-        const drift = (asset.expectedReturn! - 0.5 * asset.volatility! ** 2) * dt;
-        const diffusion = asset.volatility! * Math.sqrt(dt) * randomNumbers[index];
-        
-        const previousPrice = currentAssetPaths[asset.ticker][day - 1];
-        const newPrice = previousPrice * Math.exp(drift + diffusion);
+        const previousPrice = currentAssetPaths[index][day - 1];
+        const newPrice = previousPrice * Math.exp(drifts[index] + diffusions[index] * randomNumbers[index]);
         
-        currentAssetPaths[asset.ticker].push(newPrice);
+        currentAssetPaths[index].push(newPrice);
         portfolioValue += newPrice * asset.weight;
       });
       
@@ -158,35 +227,86 @@ export const runPortfolioSimulation = async (params: PortfolioParams): Promise<P
     finalValues.push(portfolioPath[portfolioPath.length - 1]);
     
     // Store asset paths
-    assetData.forEach(asset => {
-      assetPaths[asset.ticker].push(currentAssetPaths[asset.ticker]);
+    assetData.forEach((asset, index) => {
+      assetPaths[asset.ticker].push(currentAssetPaths[index]);
     });
+    
+    if (onProgress && (sim + 1) % PROGRESS_INTERVAL === 0) onProgress(sim + 1);
   }
+  onProgress?.(numSimulations);
+  
+  return { paths: portfolioPaths, finalValues, assetPaths };
+};
+
+// Combine simulated batches into the final results
+export const buildPortfolioResults = (
+  input: PortfolioSimulationInput,
+  chunks: PortfolioPathChunk[],
+  seed: number
+): PortfolioResults => {
+  const paths = chunks.flatMap(chunk => chunk.paths);
+  const finalValues = chunks.flatMap(chunk => chunk.finalValues);
+  const assetPaths: { [ticker: string]: number[][] } = {};
+  input.assets.forEach(asset => {
+    assetPaths[asset.ticker] = chunks.flatMap(chunk => chunk.assetPaths[asset.ticker] ?? []);
+  });
   
-  // Calculate statistics
+  return {
+    ...summarizePortfolioPaths(paths, finalValues, input.initialValue, input.timeHorizon),
+    seed,
+    assetPaths,
+    correlationMatrix: input.correlationMatrix,
+    correlationAdjusted: input.correlationAdjusted
+  };
+};
+
+// Portfolio Monte Carlo simulation
+export const runPortfolioSimulation = async (params: PortfolioParams): Promise<PortfolioResults> => {
+  const seed = params.seed ?? generateSeed();
+  const input = await preparePortfolioSimulation(params);
+  const chunk = simulatePortfolioPaths(input, params.numSimulations, seed);
+  return buildPortfolioResults(input, [chunk], seed);
+};
+
+// Statistics and risk metrics shared by every portfolio simulation run
+const summarizePortfolioPaths = (
+  portfolioPaths: number[][],
+  finalValues: number[],
+  initialValue: number,
+  timeHorizon: number
+): Pick<PortfolioResults, 'paths' | 'finalValues' | 'initialValue' | 'statistics' | 'riskMetrics'> => {
+  const n = finalValues.length;
   const sortedFinalValues = [...finalValues].sort((a, b) => a - b);
-  const averageEndingValue = finalValues.reduce((sum, val) => sum + val, 0) / finalValues.length;
+  const averageEndingValue = finalValues.reduce((sum, val) => sum + val, 0) / n;
   const returns = finalValues.map(val => (val - initialValue) / initialValue);
-  const averageReturn = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const returnStd = Math.sqrt(returns.reduce((sum, ret) => sum + (ret - averageReturn) ** 2, 0) / returns.length);
+  const averageReturn = returns.reduce((sum, ret) => sum + ret, 0) / n;
+  const returnStd = Math.sqrt(returns.reduce((sum, ret) => sum + (ret - averageReturn) ** 2, 0) / n);
+  
+  // Horizon returns are scaled to annual figures
+  const periodsPerYear = 252 / Math.max(1, timeHorizon);
+  const annualizedReturn = averageReturn * periodsPerYear;
+  const annualizedVolatility = returnStd * Math.sqrt(periodsPerYear);
   
   const statistics = {
     averageEndingValue,
-    probabilityOfGain: finalValues.filter(val => val > initialValue).length / finalValues.length,
-    percentile5: sortedFinalValues[Math.floor(0.05 * finalValues.length)],
-    percentile95: sortedFinalValues[Math.floor(0.95 * finalValues.length)],
-    maxValue: Math.max(...finalValues),
-    minValue: Math.min(...finalValues),
-    expectedReturn: averageReturn * 252, // Annualized
-    volatility: returnStd * Math.sqrt(252), // Annualized
-    sharpeRatio: (averageReturn * 252) / (returnStd * Math.sqrt(252))
+    probabilityOfGain: finalValues.filter(val => val > initialValue).length / n,
+    percentile5: sortedFinalValues[Math.floor(0.05 * n)],
+    percentile95: sortedFinalValues[Math.floor(0.95 * n)],
+    maxValue: sortedFinalValues[n - 1],
+    minValue: sortedFinalValues[0],
+    expectedReturn: annualizedReturn,
+    volatility: annualizedVolatility,
+    sharpeRatio: annualizedVolatility > 0 ? annualizedReturn / annualizedVolatility : 0
   };
   
+  // Tail averages always include at least the worst outcome
+  const tailCount = Math.max(1, Math.floor(0.05 * n));
+  const tailAverage = sortedFinalValues.slice(0, tailCount).reduce((sum, val) => sum + val, 0) / tailCount;
+  
   const riskMetrics = {
-    var95: initialValue - sortedFinalValues[Math.floor(0.05 * finalValues.length)],
-    var99: initialValue - sortedFinalValues[Math.floor(0.01 * finalValues.length)],
-    expectedShortfall: initialValue - sortedFinalValues.slice(0, Math.floor(0.05 * finalValues.length))
-      .reduce((sum, val) => sum + val, 0) / Math.floor(0.05 * finalValues.length),
+    var95: initialValue - sortedFinalValues[Math.floor(0.05 * n)],
+    var99: initialValue - sortedFinalValues[Math.floor(0.01 * n)],
+    expectedShortfall: initialValue - tailAverage,
     maxDrawdown: calculateMaxDrawdown(portfolioPaths)
   };
   
@@ -194,16 +314,15 @@ export const runPortfolioSimulation = async (params: PortfolioParams): Promise<P
     paths: portfolioPaths,
     finalValues,
     initialValue,
-    assetPaths,
     statistics,
     riskMetrics
   };
 };
 
-// Generate correlated random numbers using Cholesky decomposition
-const generateCorrelatedRandoms = (n: number, correlationMatrix: number[][]): number[] => {
-  const L = choleskyDecomposition(correlationMatrix);
-  const uncorrelatedRandoms = Array.from({ length: n }, () => randomNormal());
+// Generate correlated random numbers from a Cholesky factor
+const generateCorrelatedRandoms = (L: number[][], rng: SeededRandom): number[] => {
+  const n = L.length;
+  const uncorrelatedRandoms = Array.from({ length: n }, () => rng.normal());
   
   const correlatedRandoms = Array(n).fill(0);
   for (let i = 0; i < n; i++) {
@@ -215,8 +334,8 @@ const generateCorrelatedRandoms = (n: number, correlationMatrix: number[][]): nu
   return correlatedRandoms;
 };
 
-// Cholesky decomposition for correlation matrix
-const choleskyDecomposition = (matrix: number[][]): number[][] => {
+// Cholesky decomposition for correlation matrix (null when not positive definite)
+const choleskyDecomposition = (matrix: number[][]): number[][] | null => {
   const n = matrix.length;
   const L: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
   
@@ -227,7 +346,9 @@ const choleskyDecomposition = (matrix: number[][]): number[][] => {
         for (let k = 0; k < j; k++) {
           sum += L[j][k] ** 2;
         }
-        L[i][j] = Math.sqrt(matrix[i][i] - sum);
+        const pivot = matrix[i][i] - sum;
+        if (!(pivot > 1e-12)) return null;
+        L[i][j] = Math.sqrt(pivot);
       } else {
         let sum = 0;
         for (let k = 0; k < j; k++) {
@@ -241,12 +362,89 @@ const choleskyDecomposition = (matrix: number[][]): number[][] => {
   return L;
 };
 
-// Random normal generator (Box-Muller)
-const randomNormal = (): number => {
-  let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
-  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+// Nearest positive-definite correlation matrix (Higham's alternating projections)
+export const nearestPositiveDefinite = (matrix: number[][], maxIterations: number = 100): number[][] => {
+  const n = matrix.length;
+  const minEigenvalue = 1e-6;
+  let Y = sanitizeCorrelationMatrix(matrix);
+  let correction: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
+  
+  for (let iter = 0; iter < maxIterations; iter++) {
+    // Project onto the positive semidefinite cone
+    const R = Y.map((row, i) => row.map((value, j) => value - correction[i][j]));
+    const { values, vectors } = jacobiEigen(R);
+    const X = reconstructFromEigen(values.map(v => Math.max(v, minEigenvalue)), vectors);
+    correction = X.map((row, i) => row.map((value, j) => value - R[i][j]));
+    
+    // Project onto matrices with a unit diagonal
+    Y = X.map((row, i) => row.map((value, j) => (i === j ? 1 : value)));
+    
+    if (choleskyDecomposition(Y)) return Y;
+  }
+  
+  // Final fallback: clip eigenvalues and rescale to a unit diagonal
+  const { values, vectors } = jacobiEigen(Y);
+  const clipped = reconstructFromEigen(values.map(v => Math.max(v, 1e-4)), vectors);
+  const scale = clipped.map((row, i) => Math.sqrt(row[i]));
+  return clipped.map((row, i) => row.map((value, j) => (i === j ? 1 : value / (scale[i] * scale[j]))));
+};
+
+// Eigen-decomposition of a symmetric matrix using cyclic Jacobi rotations
+const jacobiEigen = (matrix: number[][]): { values: number[]; vectors: number[][] } => {
+  const n = matrix.length;
+  const A = matrix.map(row => [...row]);
+  const V: number[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+  
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += A[p][q] ** 2;
+    }
+    if (offDiagonal < 1e-20) break;
+    
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(A[p][q]) < 1e-15) continue;
+        
+        const theta = (A[q][q] - A[p][p]) / (2 * A[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        
+        for (let k = 0; k < n; k++) {
+          const akp = A[k][p];
+          const akq = A[k][q];
+          A[k][p] = c * akp - s * akq;
+          A[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = A[p][k];
+          const aqk = A[q][k];
+          A[p][k] = c * apk - s * aqk;
+          A[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = V[k][p];
+          const vkq = V[k][q];
+          V[k][p] = c * vkp - s * vkq;
+          V[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  
+  return { values: A.map((row, i) => row[i]), vectors: V };
+};
+
+const reconstructFromEigen = (values: number[], vectors: number[][]): number[][] => {
+  const n = values.length;
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => {
+      let sum = 0;
+      for (let k = 0; k < n; k++) sum += vectors[i][k] * values[k] * vectors[j][k];
+      return sum;
+    })
+  );
 };
 
 // Calculate maximum drawdown
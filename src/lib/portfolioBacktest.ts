@@ -0,0 +1,456 @@
+// Multi-asset backtests: a strategy sets target weights over a universe, rebalanced on a calendar or on drift
+import {
+  BacktestResult,
+  HistoricalPrice,
+  Position,
+  Trade,
+  calculatePerformanceMetrics
+} from './backtesting';
+import { HistoricalDataProvider, SyntheticDataProvider } from './historicalData';
+import { DEFAULT_MARGIN_CONFIG } from './marginAccount';
+import { DEFAULT_EXECUTION_CONFIG } from './orders';
+import { DEFAULT_RISK_RULES } from './riskOverlay';
+import { deriveSeed, generateSeed } from './random';
+import { RoundTripTracker } from './tradeAnalysis';
+import { CostModel, CostModelConfig, flatCostModel } from './costModels';
+import { CorporateActionSummary, adjustPrices } from './corporateActions';
+
+export type RebalanceFrequency = 'weekly' | 'monthly' | 'quarterly';
+
+export type RebalanceSchedule =
+  | { type: 'calendar'; frequency: RebalanceFrequency }
+  | { type: 'drift'; threshold: number }; // Largest allowed gap between actual and target weight
+
+export const REBALANCE_FREQUENCY_LABELS: Record<RebalanceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+};
+
+// Target weights by symbol; weights are long-only and may sum to less than 1 (the rest stays in cash)
+export type TargetWeights = Record<string, number>;
+
+export abstract class PortfolioStrategy {
+  abstract name: string;
+  abstract description: string;
+  abstract parameters: { [key: string]: number };
+
+  // `prices` holds date-aligned bars per symbol; return null while there is not enough history
+  abstract targetWeights(prices: Record<string, HistoricalPrice[]>, currentIndex: number): TargetWeights | null;
+
+  protected trailingReturn(bars: HistoricalPrice[], lookback: number, index: number): number | null {
+    if (index < lookback) return null;
+    return bars[index].close / bars[index - lookback].close - 1;
+  }
+
+  protected trailingVolatility(bars: HistoricalPrice[], lookback: number, index: number): number | null {
+    if (index < lookback) return null;
+    const returns = bars.slice(index - lookback + 1, index + 1).map((bar, i) => bar.close / bars[index - lookback + i].close - 1);
+    const mean = returns.reduce((sum, r) => sum + r, 0) / lookback;
+    return Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (lookback - 1));
+  }
+}
+
+export class EqualWeightPortfolio extends PortfolioStrategy {
+  name = "Equal Weight";
+  description = "Hold every symbol at the same weight";
+  parameters = {};
+
+  targetWeights(prices: Record<string, HistoricalPrice[]>): TargetWeights {
+    const symbols = Object.keys(prices);
+    return Object.fromEntries(symbols.map(symbol => [symbol, 1 / symbols.length]));
+  }
+}
+
+export class InverseVolatilityPortfolio extends PortfolioStrategy {
+  name = "Inverse Volatility";
+  description = "Weight each symbol by the inverse of its trailing volatility";
+  parameters = {
+    lookback: 60
+  };
+
+  constructor(lookback: number = 60) {
+    super();
+    this.parameters.lookback = lookback;
+  }
+
+  targetWeights(prices: Record<string, HistoricalPrice[]>, currentIndex: number): TargetWeights | null {
+    const inverse: TargetWeights = {};
+    for (const [symbol, bars] of Object.entries(prices)) {
+      const volatility = this.trailingVolatility(bars, this.parameters.lookback, currentIndex);
+      if (volatility === null) return null;
+      inverse[symbol] = volatility > 0 ? 1 / volatility : 0;
+    }
+    const total = Object.values(inverse).reduce((sum, w) => sum + w, 0);
+    return total > 0 ? Object.fromEntries(Object.entries(inverse).map(([symbol, w]) => [symbol, w / total])) : null;
+  }
+}
+
+export class MomentumRotationPortfolio extends PortfolioStrategy {
+  name = "Momentum Rotation";
+  description = "Equal weight in the top symbols by trailing return; symbols with negative momentum are held as cash";
+  parameters = {
+    lookback: 120,
+    topN: 2
+  };
+
+  constructor(lookback: number = 120, topN: number = 2) {
+    super();
+    this.parameters.lookback = lookback;
+    this.parameters.topN = topN;
+  }
+
+  targetWeights(prices: Record<string, HistoricalPrice[]>, currentIndex: number): TargetWeights | null {
+    const ranked: Array<{ symbol: string; momentum: number }> = [];
+    for (const [symbol, bars] of Object.entries(prices)) {
+      const momentum = this.trailingReturn(bars, this.parameters.lookback, currentIndex);
+      if (momentum === null) return null;
+      ranked.push({ symbol, momentum });
+    }
+    ranked.sort((a, b) => b.momentum - a.momentum);
+
+    const topN = Math.max(1, Math.floor(this.parameters.topN));
+    const weights: TargetWeights = Object.fromEntries(ranked.map(({ symbol }) => [symbol, 0]));
+    ranked.slice(0, topN).forEach(({ symbol, momentum }) => {
+      if (momentum > 0) weights[symbol] = 1 / topN;
+    });
+    return weights;
+  }
+}
+
+export const getAvailablePortfolioStrategies = (): PortfolioStrategy[] => [
+  new EqualWeightPortfolio(),
+  new InverseVolatilityPortfolio(),
+  new MomentumRotationPortfolio()
+];
+
+export const createPortfolioStrategy = (name: string, parameters?: { [key: string]: number }): PortfolioStrategy | null => {
+  switch (name) {
+    case 'Equal Weight':
+      return new EqualWeightPortfolio();
+    case 'Inverse Volatility':
+      return new InverseVolatilityPortfolio(parameters?.lookback);
+    case 'Momentum Rotation':
+      return new MomentumRotationPortfolio(parameters?.lookback, parameters?.topN);
+    default:
+      return null;
+  }
+};
+
+export interface PortfolioBacktestParams {
+  symbols: string[];
+  startDate: string;
+  endDate: string;
+  initialCapital: number;
+  commission: number; // Flat per leg; ignored when `costs` is given
+  slippage: number; // Fraction of the price; ignored when `costs` is given
+  costs?: CostModelConfig; // Commission, fee and slippage models
+  strategy: PortfolioStrategy;
+  rebalance: RebalanceSchedule;
+  seed?: number;
+  dataProvider?: HistoricalDataProvider; // Defaults to synthetic data
+}
+
+export interface AssetContribution {
+  symbol: string;
+  pnl: number; // Realized plus unrealized, net of the asset's commissions, fees and slippage
+  contribution: number; // P&L as a fraction of initial capital
+  avgWeight: number;
+  finalWeight: number;
+  tradedValue: number;
+  turnover: number; // Traded value over average portfolio value, halved (one-way)
+  costs: number; // Commissions, fees and slippage
+}
+
+export interface RebalanceEvent {
+  date: string; // Date the rebalance executed (the open after the decision)
+  turnover: number; // One-way traded value as a fraction of portfolio value
+  costs: number;
+  targets: TargetWeights;
+}
+
+// A portfolio run is also a BacktestResult, so charts and summaries built for single-symbol runs can show it
+export interface PortfolioBacktestResult extends BacktestResult {
+  symbols: string[];
+  contributions: AssetContribution[];
+  rebalances: RebalanceEvent[];
+  annualTurnover: number;
+}
+
+// Keep only dates every symbol has a bar for
+function alignBars(bySymbol: Record<string, HistoricalPrice[]>): { dates: string[]; prices: Record<string, HistoricalPrice[]> } {
+  const symbols = Object.keys(bySymbol);
+  const dateSets = symbols.map(symbol => new Set(bySymbol[symbol].map(bar => bar.date)));
+  const dates = bySymbol[symbols[0]].map(bar => bar.date).filter(date => dateSets.every(set => set.has(date)));
+  const prices = Object.fromEntries(symbols.map(symbol => {
+    const byDate = new Map(bySymbol[symbol].map(bar => [bar.date, bar]));
+    return [symbol, dates.map(date => byDate.get(date)!)];
+  }));
+  return { dates, prices };
+}
+
+// Calendar period key for a date, so a rebalance is due on the first bar of a new period
+function periodKey(date: string, frequency: RebalanceFrequency): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  switch (frequency) {
+    case 'weekly': {
+      // Monday of the week
+      const monday = new Date(d);
+      monday.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+      return monday.toISOString().slice(0, 10);
+    }
+    case 'monthly':
+      return date.slice(0, 7);
+    case 'quarterly':
+      return `${d.getUTCFullYear()}-Q${Math.floor(d.getUTCMonth() / 3)}`;
+  }
+}
+
+function validateWeights(weights: TargetWeights, symbols: string[]): TargetWeights {
+  const clean = Object.fromEntries(symbols.map(symbol => [symbol, weights[symbol] ?? 0]));
+  if (Object.values(clean).some(w => !(w >= 0))) {
+    throw new Error('Portfolio strategies are long-only: target weights must be non-negative');
+  }
+  const total = Object.values(clean).reduce((sum, w) => sum + w, 0);
+  if (total > 1 + 1e-9) {
+    throw new Error(`Target weights sum to ${(total * 100).toFixed(1)}%; they must not exceed 100%`);
+  }
+  return clean;
+}
+
+export class PortfolioBacktestEngine {
+  private generateTradeId(): string {
+    return `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  async runBacktest(params: PortfolioBacktestParams): Promise<PortfolioBacktestResult> {
+    const { startDate, endDate, initialCapital, commission, slippage, strategy, rebalance } = params;
+    const symbols = Array.from(new Set(params.symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+    if (symbols.length < 2) {
+      throw new Error('A portfolio backtest needs at least two symbols');
+    }
+    if (rebalance.type === 'drift' && !(rebalance.threshold > 0 && rebalance.threshold < 1)) {
+      throw new Error('Drift threshold must be between 0 and 100%');
+    }
+    const costConfig = params.costs ?? flatCostModel(commission, slippage);
+    const seed = params.seed ?? generateSeed();
+    const dataProvider = params.dataProvider ?? new SyntheticDataProvider();
+
+    // Each symbol gets its own synthetic stream so the legs are not identical. Weights are rebalanced
+    // by value, so split-adjusted prices lose nothing and dividends are paid in cash on the ex-dates.
+    const histories = await Promise.all(symbols.map(async (symbol, i) =>
+      adjustPrices(await dataProvider.getHistory({ symbol, startDate, endDate, seed: deriveSeed(seed, i) }), 'splitAdjusted')
+    ));
+    const { dates, prices } = alignBars(Object.fromEntries(symbols.map((symbol, i) => [symbol, histories[i]])));
+    if (dates.length < 2) {
+      throw new Error(`The symbols share fewer than two trading days between ${startDate} and ${endDate}`);
+    }
+
+    // Slippage reads each symbol's own bars; commissions and fees are charged by one model, so tiered
+    // rates count the month's share volume across all symbols
+    const costModel = new CostModel(costConfig, []);
+    const slippageModels = Object.fromEntries(symbols.map(symbol => [symbol, new CostModel(costConfig, prices[symbol])]));
+    const trades: Trade[] = [];
+    const signals: BacktestResult['signals'] = [];
+    const portfolioValues: BacktestResult['portfolioValues'] = [];
+    const rebalances: RebalanceEvent[] = [];
+    const trackers = Object.fromEntries(symbols.map(symbol => [symbol, new RoundTripTracker(prices[symbol])]));
+    const positions: Record<string, Position | undefined> = {};
+    const assetStats = Object.fromEntries(symbols.map(symbol => [symbol, { cashFlow: 0, tradedValue: 0, costs: 0, weightSum: 0 }]));
+    let cash = initialCapital;
+    let peak = initialCapital;
+    let pendingTargets: TargetWeights | null = null;
+    let lastTargets: TargetWeights | null = null;
+    const corporateActions: CorporateActionSummary = {
+      adjustment: 'splitAdjusted', dividendsReceived: 0, dividendsPaid: 0, cashInLieu: 0, events: []
+    };
+
+    const quantityOf = (symbol: string) => positions[symbol]?.quantity ?? 0;
+    const valueAt = (field: 'open' | 'close', index: number) =>
+      cash + symbols.reduce((sum, symbol) => sum + quantityOf(symbol) * prices[symbol][index][field], 0);
+
+    const fill = (symbol: string, type: 'BUY' | 'SELL', quantity: number, index: number): Trade => {
+      const bar = prices[symbol][index];
+      const slippagePerUnit = slippageModels[symbol].slippagePerUnit(bar.open, quantity, index);
+      const price = bar.open + (type === 'BUY' ? slippagePerUnit : -slippagePerUnit);
+      const charges = costModel.charge(type, quantity, price, slippagePerUnit * quantity, bar.date);
+      const fees = charges.exchangeFees + charges.regulatoryFees;
+      const trade: Trade = {
+        id: this.generateTradeId(),
+        type,
+        side: 'LONG',
+        reason: 'signal',
+        symbol,
+        price,
+        quantity,
+        timestamp: bar.date,
+        commission: charges.commission,
+        fees,
+        slippage: slippagePerUnit * quantity,
+        orderType: 'market'
+      };
+
+      const signed = type === 'BUY' ? quantity : -quantity;
+      cash -= signed * price + charges.commission + fees;
+      const stats = assetStats[symbol];
+      stats.cashFlow -= signed * price + charges.commission + fees;
+      stats.tradedValue += price * quantity;
+      stats.costs += charges.commission + fees + trade.slippage;
+
+      const position = positions[symbol];
+      if (type === 'BUY') {
+        const held = position?.quantity ?? 0;
+        positions[symbol] = {
+          symbol,
+          side: 'LONG',
+          quantity: held + quantity,
+          avgPrice: position ? (position.avgPrice * held + price * quantity) / (held + quantity) : price,
+          unrealizedPnL: 0,
+          realizedPnL: position?.realizedPnL || 0
+        };
+        trackers[symbol].open(trade, index);
+      } else {
+        const closed = trackers[symbol].close(trade, index);
+        position!.realizedPnL += closed.reduce((sum, trip) => sum + trip.pnl, 0);
+        position!.quantity -= quantity;
+        if (position!.quantity === 0) positions[symbol] = undefined;
+      }
+      trades.push(trade);
+      return trade;
+    };
+
+    // Trade to the targets at this bar's open: sells first to free cash, then buys within the cash available
+    const executeRebalance = (targets: TargetWeights, index: number) => {
+      const equity = valueAt('open', index);
+      const desired = Object.fromEntries(symbols.map(symbol => {
+        const open = prices[symbol][index].open;
+        const value = equity * targets[symbol];
+        const slippagePerUnit = slippageModels[symbol].slippagePerUnit(open, Math.floor(value / open), index);
+        return [symbol, Math.floor(value / (open + slippagePerUnit))];
+      }));
+
+      const legs: Trade[] = [];
+      symbols.forEach(symbol => {
+        const excess = quantityOf(symbol) - desired[symbol];
+        if (excess > 0) legs.push(fill(symbol, 'SELL', excess, index));
+      });
+      symbols.forEach(symbol => {
+        const wanted = desired[symbol] - quantityOf(symbol);
+        if (wanted <= 0) return;
+        // Size against the costs of the whole shortfall, which bound the costs of any smaller fill
+        const bar = prices[symbol][index];
+        const price = bar.open + slippageModels[symbol].slippagePerUnit(bar.open, wanted, index);
+        const charges = costModel.estimateCharges('BUY', wanted, price, bar.date);
+        const affordable = Math.floor((cash - charges.commission - charges.exchangeFees - charges.regulatoryFees) / price);
+        const quantity = Math.min(wanted, affordable);
+        if (quantity > 0) legs.push(fill(symbol, 'BUY', quantity, index));
+      });
+
+      if (legs.length > 0) {
+        const traded = legs.reduce((sum, trade) => sum + trade.price * trade.quantity, 0);
+        rebalances.push({
+          date: prices[symbols[0]][index].date,
+          turnover: traded / 2 / equity,
+          costs: legs.reduce((sum, trade) => sum + trade.commission + trade.fees + trade.slippage, 0),
+          targets
+        });
+      }
+    };
+
+    for (let i = 0; i < dates.length; i++) {
+      // Holdings at the previous close earn dividends going ex today
+      symbols.forEach(symbol => {
+        const dividend = prices[symbol][i].dividend;
+        if (!dividend || i === 0) return;
+        const quantity = quantityOf(symbol);
+        const income = quantity * dividend;
+        if (quantity > 0) {
+          cash += income;
+          assetStats[symbol].cashFlow += income;
+          trackers[symbol].creditDividend(dividend);
+          corporateActions.dividendsReceived += income;
+        }
+        corporateActions.events.push({ date: dates[i], type: 'dividend', value: dividend, quantity, cash: income });
+      });
+
+      // Decisions from the previous close execute at this open
+      if (pendingTargets) {
+        executeRebalance(pendingTargets, i);
+        pendingTargets = null;
+      }
+
+      const value = valueAt('close', i);
+      const weights = Object.fromEntries(symbols.map(symbol =>
+        [symbol, value > 0 ? (quantityOf(symbol) * prices[symbol][i].close) / value : 0]
+      ));
+      symbols.forEach(symbol => {
+        assetStats[symbol].weightSum += weights[symbol];
+        const position = positions[symbol];
+        if (position) position.unrealizedPnL = (prices[symbol][i].close - position.avgPrice) * position.quantity;
+      });
+
+      // Calendar schedules only consult the strategy on the first bar of each period; drift checks every bar
+      const due = rebalance.type === 'drift' || i === 0 || periodKey(dates[i], rebalance.frequency) !== periodKey(dates[i - 1], rebalance.frequency);
+      const proposed = due && i < dates.length - 1 ? strategy.targetWeights(prices, i) : null;
+      if (proposed) {
+        const targets = validateWeights(proposed, symbols);
+        const drift = Math.max(...symbols.map(symbol => Math.abs(weights[symbol] - targets[symbol])));
+        if (rebalance.type === 'calendar' || lastTargets === null || drift > rebalance.threshold) {
+          pendingTargets = targets;
+          lastTargets = targets;
+        }
+      }
+
+      signals.push({ date: dates[i], signal: pendingTargets ? 'BUY' : 'HOLD', price: value });
+
+      if (value > peak) peak = value;
+      portfolioValues.push({ date: dates[i], value, drawdown: (peak - value) / peak });
+    }
+
+    const roundTrips = symbols
+      .flatMap(symbol => trackers[symbol].roundTrips)
+      .sort((a, b) => a.exitDate.localeCompare(b.exitDate));
+    const lastIndex = dates.length - 1;
+    const finalValue = portfolioValues[lastIndex].value;
+    const averageValue = portfolioValues.reduce((sum, pv) => sum + pv.value, 0) / portfolioValues.length;
+
+    const contributions: AssetContribution[] = symbols.map(symbol => {
+      const stats = assetStats[symbol];
+      const pnl = stats.cashFlow + quantityOf(symbol) * prices[symbol][lastIndex].close;
+      return {
+        symbol,
+        pnl,
+        contribution: pnl / initialCapital,
+        avgWeight: stats.weightSum / dates.length,
+        finalWeight: (quantityOf(symbol) * prices[symbol][lastIndex].close) / finalValue,
+        tradedValue: stats.tradedValue,
+        turnover: stats.tradedValue / 2 / averageValue,
+        costs: stats.costs
+      };
+    });
+    const totalTurnover = contributions.reduce((sum, asset) => sum + asset.turnover, 0);
+
+    return {
+      trades,
+      roundTrips,
+      positions: symbols.map(symbol => positions[symbol]).filter((position): position is Position => !!position),
+      portfolioValues,
+      performance: calculatePerformanceMetrics(roundTrips, portfolioValues, initialCapital),
+      signals,
+      orders: [],
+      financing: { borrowFees: 0, cashInterest: 0, marginInterest: 0, marginCalls: 0 },
+      margin: DEFAULT_MARGIN_CONFIG,
+      execution: DEFAULT_EXECUTION_CONFIG,
+      riskRules: DEFAULT_RISK_RULES,
+      corporateActions,
+      costModel: costConfig,
+      costs: costModel.breakdown,
+      seed,
+      dataSource: dataProvider.name,
+      symbols,
+      contributions,
+      rebalances,
+      annualTurnover: dates.length > 1 ? totalTurnover * 252 / (dates.length - 1) : 0
+    };
+  }
+}
@@ -0,0 +1,276 @@
+// Stochastic price process models used by the Monte Carlo engine
+import { SeededRandom } from './random';
+import { BootstrapConfig, BOOTSTRAP_METHOD_LABELS, createBootstrapSampler, validateBootstrapConfig } from './bootstrap';
+
+export type PriceProcessType = 'gbm' | 'merton' | 'heston' | 'garch' | 'regimeSwitching' | 'bootstrap';
+
+export interface MertonJumpParams {
+  jumpIntensity: number; // Expected number of jumps per year
+  jumpMean: number; // Mean log jump size
+  jumpStd: number; // Standard deviation of the log jump size
+}
+
+export interface HestonParams {
+  meanReversion: number; // kappa: speed at which variance reverts to its long-run level
+  volOfVol: number; // xi: volatility of the variance process
+  correlation: number; // rho: correlation between price and variance shocks
+  longRunVolatility?: number; // sqrt(theta); defaults to the simulation volatility
+  initialVolatility?: number; // sqrt(v0); defaults to the simulation volatility
+}
+
+export interface GarchParams {
+  alpha: number; // Weight of the latest squared shock
+  beta: number; // Persistence of the previous variance
+  // Long-run volatility is the simulation volatility, so omega = sigma_daily^2 * (1 - alpha - beta)
+}
+
+export interface MarketRegime {
+  expectedReturn: number; // Annualized drift while in this regime
+  volatility: number; // Annualized volatility while in this regime
+}
+
+export interface RegimeSwitchingParams {
+  regimes: [MarketRegime, MarketRegime]; // [calm, turbulent]
+  switchProbabilities: [number, number]; // Daily probability of leaving regime 0 and regime 1
+  initialRegime: 0 | 1;
+}
+
+export type PriceProcessConfig =
+  | { type: 'gbm' }
+  | ({ type: 'merton' } & MertonJumpParams)
+  | ({ type: 'heston' } & HestonParams)
+  | ({ type: 'garch' } & GarchParams)
+  | ({ type: 'regimeSwitching' } & RegimeSwitchingParams)
+  | ({ type: 'bootstrap' } & BootstrapConfig);
+
+// Drift and volatility every process is calibrated to (annualized)
+export interface ProcessCalibration {
+  expectedReturn: number;
+  volatility: number;
+  dt: number; // Step length in years
+  historicalReturns?: number[]; // Daily log returns, required by the bootstrap process
+}
+
+// Advances a single path: maps the step's primary standard normal shock to a log return.
+// Any additional randomness (jumps, variance shocks, regime changes) is drawn from the path's rng.
+export type PathStepper = (z: number) => number;
+
+export interface PriceProcess {
+  readonly config: PriceProcessConfig;
+  startPath(rng: SeededRandom): PathStepper;
+}
+
+export const PRICE_PROCESS_LABELS: Record<PriceProcessType, string> = {
+  gbm: 'Geometric Brownian Motion',
+  merton: 'Merton Jump-Diffusion',
+  heston: 'Heston Stochastic Volatility',
+  garch: 'GARCH(1,1)',
+  regimeSwitching: 'Regime Switching',
+  bootstrap: 'Historical Bootstrap',
+};
+
+// Models that only need drift and volatility (bootstrap additionally needs a return history)
+export const PARAMETRIC_PROCESS_TYPES: PriceProcessType[] = ['gbm', 'merton', 'heston', 'garch', 'regimeSwitching'];
+
+// Defaults for each model; Merton matches the jump settings the engine previously hard-coded
+export const DEFAULT_PROCESS_CONFIGS: Record<PriceProcessType, PriceProcessConfig> = {
+  gbm: { type: 'gbm' },
+  merton: { type: 'merton', jumpIntensity: 5, jumpMean: -0.05, jumpStd: 0.1 },
+  heston: { type: 'heston', meanReversion: 2, volOfVol: 0.3, correlation: -0.7 },
+  garch: { type: 'garch', alpha: 0.08, beta: 0.9 },
+  regimeSwitching: {
+    type: 'regimeSwitching',
+    regimes: [
+      { expectedReturn: 0.12, volatility: 0.15 },
+      { expectedReturn: -0.15, volatility: 0.40 },
+    ],
+    switchProbabilities: [0.01, 0.05],
+    initialRegime: 0,
+  },
+  bootstrap: { type: 'bootstrap', method: 'stationaryBlock', meanBlockLength: 10, ewmaDecay: 0.94 },
+};
+
+// Short plain-ASCII description of a process and its parameters (PDF fonts lack Greek glyphs)
+export function describePriceProcess(config: PriceProcessConfig): string {
+  const label = PRICE_PROCESS_LABELS[config.type];
+  switch (config.type) {
+    case 'gbm':
+      return label;
+    case 'merton':
+      return `${label} (${config.jumpIntensity} jumps/yr, jump mean ${config.jumpMean}, jump std ${config.jumpStd})`;
+    case 'heston':
+      return `${label} (kappa ${config.meanReversion}, vol of vol ${config.volOfVol}, rho ${config.correlation})`;
+    case 'garch':
+      return `${label} (alpha ${config.alpha}, beta ${config.beta})`;
+    case 'regimeSwitching': {
+      const [calm, turbulent] = config.regimes;
+      return `${label} (calm ${calm.expectedReturn}/${calm.volatility}, turbulent ${turbulent.expectedReturn}/${turbulent.volatility}, ` +
+        `p=${config.switchProbabilities[0]}/${config.switchProbabilities[1]})`;
+    }
+    case 'bootstrap': {
+      const method = BOOTSTRAP_METHOD_LABELS[config.method];
+      if (config.method === 'stationaryBlock') return `${label} (${method}, mean block ${config.meanBlockLength} days)`;
+      if (config.method === 'filteredHistorical') return `${label} (${method}, EWMA decay ${config.ewmaDecay})`;
+      return `${label} (${method})`;
+    }
+  }
+}
+
+// Throws when parameters would produce an ill-defined process
+export function validatePriceProcess(config: PriceProcessConfig): void {
+  const requireFinite = (value: number, name: string) => {
+    if (!Number.isFinite(value)) throw new Error(`${PRICE_PROCESS_LABELS[config.type]}: ${name} must be a number`);
+  };
+  const requireNonNegative = (value: number, name: string) => {
+    requireFinite(value, name);
+    if (value < 0) throw new Error(`${PRICE_PROCESS_LABELS[config.type]}: ${name} cannot be negative`);
+  };
+
+  switch (config.type) {
+    case 'gbm':
+      return;
+    case 'merton':
+      requireNonNegative(config.jumpIntensity, 'jump intensity');
+      requireFinite(config.jumpMean, 'jump mean');
+      requireNonNegative(config.jumpStd, 'jump volatility');
+      return;
+    case 'heston':
+      requireNonNegative(config.meanReversion, 'mean reversion');
+      requireNonNegative(config.volOfVol, 'volatility of volatility');
+      requireFinite(config.correlation, 'correlation');
+      if (Math.abs(config.correlation) > 1) throw new Error('Heston: correlation must be between -1 and 1');
+      if (config.longRunVolatility !== undefined) requireNonNegative(config.longRunVolatility, 'long-run volatility');
+      if (config.initialVolatility !== undefined) requireNonNegative(config.initialVolatility, 'initial volatility');
+      return;
+    case 'garch':
+      requireNonNegative(config.alpha, 'alpha');
+      requireNonNegative(config.beta, 'beta');
+      if (config.alpha + config.beta >= 1) throw new Error('GARCH(1,1): alpha + beta must be below 1 for a stationary variance');
+      return;
+    case 'regimeSwitching':
+      config.regimes.forEach((regime, i) => {
+        requireFinite(regime.expectedReturn, `regime ${i + 1} return`);
+        requireNonNegative(regime.volatility, `regime ${i + 1} volatility`);
+      });
+      config.switchProbabilities.forEach((p, i) => {
+        requireFinite(p, `regime ${i + 1} switch probability`);
+        if (p < 0 || p > 1) throw new Error('Regime Switching: switch probabilities must be between 0 and 1');
+      });
+      return;
+    case 'bootstrap':
+      validateBootstrapConfig(config);
+      return;
+  }
+}
+
+// Build a process from its configuration; GBM is used when no configuration is given
+export function createPriceProcess(
+  config: PriceProcessConfig = DEFAULT_PROCESS_CONFIGS.gbm,
+  calibration: ProcessCalibration
+): PriceProcess {
+  validatePriceProcess(config);
+  const { expectedReturn, volatility, dt } = calibration;
+  const sqrtDt = Math.sqrt(dt);
+
+  switch (config.type) {
+    case 'gbm': {
+      const drift = (expectedReturn - 0.5 * volatility * volatility) * dt;
+      const diffusion = volatility * sqrtDt;
+      return { config, startPath: () => (z) => drift + diffusion * z };
+    }
+
+    case 'merton': {
+      // Compensate the drift so the expected return still equals the calibrated one
+      const { jumpIntensity, jumpMean, jumpStd } = config;
+      const meanJumpReturn = Math.exp(jumpMean + 0.5 * jumpStd * jumpStd) - 1;
+      const drift = (expectedReturn - 0.5 * volatility * volatility - jumpIntensity * meanJumpReturn) * dt;
+      const diffusion = volatility * sqrtDt;
+      const jumpProbability = 1 - Math.exp(-jumpIntensity * dt);
+
+      return {
+        config,
+        startPath: (rng) => (z) => {
+          let logReturn = drift + diffusion * z;
+          if (rng.next() < jumpProbability) {
+            logReturn += jumpMean + jumpStd * rng.normal();
+          }
+          return logReturn;
+        },
+      };
+    }
+
+    case 'heston': {
+      // Full-truncation Euler scheme for the variance process
+      const { meanReversion, volOfVol, correlation } = config;
+      const longRunVariance = Math.pow(config.longRunVolatility ?? volatility, 2);
+      const initialVariance = Math.pow(config.initialVolatility ?? volatility, 2);
+      const independentWeight = Math.sqrt(1 - correlation * correlation);
+
+      return {
+        config,
+        startPath: (rng) => {
+          let variance = initialVariance;
+          return (z) => {
+            const v = Math.max(variance, 0);
+            const sqrtVdt = Math.sqrt(v * dt);
+            const varianceShock = correlation * z + independentWeight * rng.normal();
+            variance += meanReversion * (longRunVariance - v) * dt + volOfVol * sqrtVdt * varianceShock;
+            return (expectedReturn - 0.5 * v) * dt + sqrtVdt * z;
+          };
+        },
+      };
+    }
+
+    case 'garch': {
+      const { alpha, beta } = config;
+      const longRunVariance = volatility * volatility * dt;
+      const omega = longRunVariance * (1 - alpha - beta);
+      const dailyDrift = expectedReturn * dt;
+
+      return {
+        config,
+        startPath: () => {
+          let variance = longRunVariance;
+          return (z) => {
+            const shock = Math.sqrt(variance) * z;
+            const logReturn = dailyDrift - 0.5 * variance + shock;
+            variance = omega + alpha * shock * shock + beta * variance;
+            return logReturn;
+          };
+        },
+      };
+    }
+
+    case 'regimeSwitching': {
+      // Two-state Markov chain; each regime is a GBM with its own drift and volatility
+      const steps = config.regimes.map(regime => ({
+        drift: (regime.expectedReturn - 0.5 * regime.volatility * regime.volatility) * dt,
+        diffusion: regime.volatility * sqrtDt,
+      }));
+
+      return {
+        config,
+        startPath: (rng) => {
+          let regime: number = config.initialRegime;
+          return (z) => {
+            const logReturn = steps[regime].drift + steps[regime].diffusion * z;
+            if (rng.next() < config.switchProbabilities[regime]) regime = 1 - regime;
+            return logReturn;
+          };
+        },
+      };
+    }
+
+    case 'bootstrap': {
+      // Resampled history replaces the normal shock; drift and volatility come from the data
+      const sampler = createBootstrapSampler(config, calibration.historicalReturns ?? []);
+      return {
+        config,
+        startPath: (rng) => {
+          const next = sampler(rng);
+          return () => next();
+        },
+      };
+    }
+  }
+}
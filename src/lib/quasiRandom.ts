@@ -0,0 +1,194 @@
+// Sobol low-discrepancy sequences, inverse normal CDF and Brownian-bridge path construction
+
+// Dimensions beyond this are filled with pseudo-random normals (they carry the finest bridge detail)
+export const MAX_SOBOL_DIMENSIONS = 1024;
+
+const BITS = 32;
+
+interface PrimitivePolynomial {
+  degree: number;
+  coefficients: number; // Inner coefficients a_1..a_{s-1} packed as bits, highest first
+}
+
+let primitivePolynomials: PrimitivePolynomial[] = [];
+let searchedDegree = 0;
+
+// Primitive polynomials over GF(2) in order of degree, enumerated on demand.
+// A polynomial of degree s is primitive iff x has multiplicative order 2^s - 1 modulo it.
+function getPrimitivePolynomials(count: number): PrimitivePolynomial[] {
+  while (primitivePolynomials.length < count) {
+    const degree = ++searchedDegree;
+    const period = (1 << degree) - 1;
+    const polynomialsOfDegree: PrimitivePolynomial[] = [];
+
+    for (let inner = 0; inner < 1 << (degree - 1); inner++) {
+      // Full polynomial bits: x^s + a_1 x^{s-1} + ... + a_{s-1} x + 1
+      const polynomial = (1 << degree) | (inner << 1) | 1;
+      let power = 1;
+      let order = 0;
+      do {
+        power <<= 1;
+        if (power & (1 << degree)) power ^= polynomial;
+        order++;
+      } while (power !== 1 && order < period);
+
+      if (power === 1 && order === period) {
+        polynomialsOfDegree.push({ degree, coefficients: inner });
+      }
+    }
+    primitivePolynomials = primitivePolynomials.concat(polynomialsOfDegree);
+  }
+  return primitivePolynomials.slice(0, count);
+}
+
+// Direction numbers (scaled to 32 bits) for one dimension. Initial values m_k are odd and below 2^k;
+// they are drawn deterministically from a fixed hash rather than taken from the published Joe-Kuo tables.
+function directionNumbers(dimension: number, polynomial: PrimitivePolynomial | null): Uint32Array {
+  const v = new Uint32Array(BITS);
+
+  if (!polynomial) {
+    // First dimension: van der Corput sequence
+    for (let k = 0; k < BITS; k++) v[k] = (1 << (BITS - 1 - k)) >>> 0;
+    return v;
+  }
+
+  const { degree, coefficients } = polynomial;
+  let hash = Math.imul(dimension + 1, 0x9e3779b9) >>> 0;
+  for (let k = 0; k < Math.min(degree, BITS); k++) {
+    hash = Math.imul(hash ^ (hash >>> 15), 0x2c1b3c6d) >>> 0;
+    const m = ((hash % (1 << (k + 1))) | 1) >>> 0;
+    v[k] = (m << (BITS - 1 - k)) >>> 0;
+  }
+  for (let k = degree; k < BITS; k++) {
+    let value = v[k - degree] ^ (v[k - degree] >>> degree);
+    for (let i = 1; i < degree; i++) {
+      if ((coefficients >>> (degree - 1 - i)) & 1) value ^= v[k - i];
+    }
+    v[k] = value >>> 0;
+  }
+  return v;
+}
+
+// Gray-code Sobol generator with a random digital shift (randomized QMC, so replicates are independent)
+export class SobolSequence {
+  readonly dimensions: number;
+  private directions: Uint32Array[];
+  private state: Uint32Array;
+  private shift: Uint32Array;
+  private index = 0;
+
+  constructor(dimensions: number, shift?: Uint32Array) {
+    if (dimensions < 1 || dimensions > MAX_SOBOL_DIMENSIONS) {
+      throw new Error(`Sobol sequences support between 1 and ${MAX_SOBOL_DIMENSIONS} dimensions`);
+    }
+    this.dimensions = dimensions;
+    const polynomials = getPrimitivePolynomials(dimensions - 1);
+    this.directions = Array.from({ length: dimensions }, (_, d) =>
+      directionNumbers(d, d === 0 ? null : polynomials[d - 1])
+    );
+    this.state = new Uint32Array(dimensions);
+    this.shift = shift ?? new Uint32Array(dimensions);
+  }
+
+  // Next point in (0, 1)^d
+  next(): number[] {
+    const point = new Array<number>(this.dimensions);
+    for (let d = 0; d < this.dimensions; d++) {
+      // Centre each cell so the inverse normal CDF never sees 0 or 1
+      point[d] = (((this.state[d] ^ this.shift[d]) >>> 0) + 0.5) / 4294967296;
+    }
+
+    // Advance: flip the direction number of the lowest zero bit of the current index
+    let c = 0;
+    while ((this.index >>> c) & 1) c++;
+    for (let d = 0; d < this.dimensions; d++) {
+      this.state[d] = (this.state[d] ^ this.directions[d][c]) >>> 0;
+    }
+    this.index++;
+
+    return point;
+  }
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation, relative error below 1.2e-9)
+export function inverseNormalCDF(p: number): number {
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+interface BridgeStep {
+  left: number; // Index of the known point on the left (-1 = origin)
+  right: number; // Index of the known point on the right
+  target: number;
+  leftWeight: number;
+  rightWeight: number;
+  stdDev: number;
+}
+
+// Brownian bridge over unit time steps: the first normal fixes the endpoint, later ones fill in
+// midpoints, so the lowest (best distributed) Sobol dimensions drive the coarse shape of each path.
+export class BrownianBridge {
+  readonly steps: number;
+  private plan: BridgeStep[] = [];
+
+  constructor(steps: number) {
+    this.steps = steps;
+    const queue: Array<[number, number]> = [[-1, steps - 1]];
+    while (queue.length > 0) {
+      const [left, right] = queue.shift()!;
+      const target = Math.floor((left + right + 1) / 2);
+      if (target === right) continue;
+      const span = right - left;
+      this.plan.push({
+        left,
+        right,
+        target,
+        leftWeight: (right - target) / span,
+        rightWeight: (target - left) / span,
+        stdDev: Math.sqrt(((target - left) * (right - target)) / span),
+      });
+      queue.push([left, target], [target, right]);
+    }
+  }
+
+  // Turn independent normals (most important first) into independent per-step Brownian increments
+  buildIncrements(normals: number[]): number[] {
+    const path = new Array<number>(this.steps);
+    path[this.steps - 1] = Math.sqrt(this.steps) * normals[0];
+
+    this.plan.forEach((step, i) => {
+      const leftValue = step.left < 0 ? 0 : path[step.left];
+      path[step.target] = step.leftWeight * leftValue + step.rightWeight * path[step.right] + step.stdDev * normals[i + 1];
+    });
+
+    const increments = new Array<number>(this.steps);
+    let previous = 0;
+    for (let t = 0; t < this.steps; t++) {
+      increments[t] = path[t] - previous;
+      previous = path[t];
+    }
+    return increments;
+  }
+}
@@ -0,0 +1,111 @@
+// Seedable pseudo-random number generation shared by every simulator
+
+// Largest seed value; seeds are stored as unsigned 32-bit integers
+export const MAX_SEED = 0xffffffff;
+
+// Draw a fresh seed for runs where the user did not provide one
+export function generateSeed(): number {
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    return crypto.getRandomValues(new Uint32Array(1))[0];
+  }
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+// Normalize user input (numbers, numeric strings) to a valid seed, or undefined when blank/invalid
+export function parseSeed(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(numeric)) return undefined;
+  return Math.abs(Math.trunc(numeric)) % (MAX_SEED + 1);
+}
+
+// Stable 32-bit hash of a string (FNV-1a), used to derive seeds from symbols
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Derive an independent child seed, e.g. one per worker chunk or per asset
+export function deriveSeed(seed: number, stream: number): number {
+  return splitMix32(((seed >>> 0) ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0)();
+}
+
+// SplitMix32: expands a single 32-bit seed into well-mixed state words
+function splitMix32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x9e3779b9) >>> 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    return (z ^ (z >>> 16)) >>> 0;
+  };
+}
+
+// xoshiro128** generator (Blackman & Vigna) with Box-Muller normals
+export class SeededRandom {
+  readonly seed: number;
+  private s0: number;
+  private s1: number;
+  private s2: number;
+  private s3: number;
+  private spareNormal: number | null = null;
+
+  constructor(seed: number = generateSeed()) {
+    this.seed = seed >>> 0;
+    const mix = splitMix32(this.seed);
+    this.s0 = mix();
+    this.s1 = mix();
+    this.s2 = mix();
+    this.s3 = mix();
+  }
+
+  // Raw 32-bit output
+  nextUint32(): number {
+    const result = Math.imul(rotl(Math.imul(this.s1, 5), 7), 9) >>> 0;
+    const t = this.s1 << 9;
+
+    this.s2 ^= this.s0;
+    this.s3 ^= this.s1;
+    this.s1 ^= this.s2;
+    this.s0 ^= this.s3;
+    this.s2 ^= t;
+    this.s3 = rotl(this.s3, 11);
+
+    return result;
+  }
+
+  // Uniform number in [0, 1)
+  next(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  // Uniform integer in [0, maxExclusive)
+  nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  // Standard normal variate (Box-Muller, caching the second value)
+  normal(): number {
+    if (this.spareNormal !== null) {
+      const spare = this.spareNormal;
+      this.spareNormal = null;
+      return spare;
+    }
+
+    let u = 0, v = 0;
+    while (u === 0) u = this.next(); // Converting [0,1) to (0,1)
+    while (v === 0) v = this.next();
+    const radius = Math.sqrt(-2.0 * Math.log(u));
+    this.spareNormal = radius * Math.sin(2.0 * Math.PI * v);
+    return radius * Math.cos(2.0 * Math.PI * v);
+  }
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
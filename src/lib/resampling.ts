@@ -0,0 +1,266 @@
+// Resampling of price bars to higher timeframes, and alignment of higher-timeframe values back onto the
+// base bars. Daily bars are dated YYYY-MM-DD; intraday bars carry ISO timestamps.
+import type { HistoricalPrice } from './backtesting';
+import type { CandlestickData } from './technicalAnalysis';
+
+export type Timeframe = '1m' | '5m' | '15m' | '1h' | '4h' | '1d' | '1w' | '1mo';
+
+export const TIMEFRAMES: Timeframe[] = ['1m', '5m', '15m', '1h', '4h', '1d', '1w', '1mo'];
+
+export const TIMEFRAME_LABELS: Record<Timeframe, string> = {
+  '1m': '1 Minute',
+  '5m': '5 Minutes',
+  '15m': '15 Minutes',
+  '1h': '1 Hour',
+  '4h': '4 Hours',
+  '1d': '1 Day',
+  '1w': '1 Week',
+  '1mo': '1 Month',
+};
+
+// Bar length in minutes; weeks and months are nominal and only used for ordering
+const TIMEFRAME_MINUTES: Record<Timeframe, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '4h': 240,
+  '1d': 1440,
+  '1w': 10080,
+  '1mo': 43200,
+};
+
+const MINUTES_PER_DAY = 1440;
+
+export const timeframeMinutes = (timeframe: Timeframe): number => TIMEFRAME_MINUTES[timeframe];
+
+export const isIntradayTimeframe = (timeframe: Timeframe): boolean => TIMEFRAME_MINUTES[timeframe] < MINUTES_PER_DAY;
+
+// Trading hours in the exchange's time zone. Intraday bars outside them are dropped when resampling, and
+// intraday periods start at the open, so 1h bars run 09:30-10:30 and the last one of the day is shorter.
+export interface MarketSession {
+  timeZone: string; // IANA name, e.g. America/New_York
+  open: string; // HH:MM
+  close: string; // HH:MM, up to 24:00
+}
+
+export const US_EQUITY_SESSION: MarketSession = { timeZone: 'America/New_York', open: '09:30', close: '16:00' };
+
+// Round-the-clock markets such as crypto, with days starting at midnight UTC
+export const CONTINUOUS_SESSION: MarketSession = { timeZone: 'UTC', open: '00:00', close: '24:00' };
+
+export interface ResampleOptions {
+  session?: MarketSession; // Defaults to US_EQUITY_SESSION; ignored for daily bars
+  weekStart?: number; // Day weeks start on, 0 = Sunday; defaults to 1 (Monday)
+}
+
+export interface ResampledBars {
+  bars: HistoricalPrice[];
+  completedAt: number[]; // Index of the last base bar in each resampled bar
+}
+
+const isIntradayDate = (date: string): boolean => date.includes('T');
+
+const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+const parseClock = (value: string, label: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!match || Number(match[2]) > 59 || minutes > MINUTES_PER_DAY) {
+    throw new Error(`Session ${label} must be a time between 00:00 and 24:00, got "${value}"`);
+  }
+  return minutes;
+};
+
+// Wall-clock date, minutes after midnight and weekday of an instant in a time zone
+interface LocalTime {
+  date: string;
+  minutes: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function localTime(instant: Date, timeZone: string): LocalTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        weekday: 'short'
+      });
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+// The instant a wall-clock time on `date` occurs in a time zone
+export function zonedTime(date: string, minutes: number, timeZone: string): Date {
+  const target = Date.parse(`${date}T00:00:00Z`) + minutes * 60000;
+  let instant = target;
+  // Two passes settle the offset, including on daylight saving changes
+  for (let pass = 0; pass < 2; pass++) {
+    const local = localTime(new Date(instant), timeZone);
+    instant += target - (Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60000);
+  }
+  return new Date(instant);
+}
+
+// Smallest spacing between consecutive bars in minutes; daily bars count as one day
+export function barIntervalMinutes(dates: string[]): number {
+  if (!dates.some(isIntradayDate)) return MINUTES_PER_DAY;
+  let interval = Infinity;
+  for (let i = 1; i < dates.length; i++) {
+    const gap = (Date.parse(dates[i]) - Date.parse(dates[i - 1])) / 60000;
+    if (gap > 0) interval = Math.min(interval, gap);
+  }
+  return Number.isFinite(interval) ? interval : MINUTES_PER_DAY;
+}
+
+// Period a bar belongs to, labelled by its start, or null for intraday bars outside the session
+type PeriodOf = (date: string) => { key: string; label: string } | null;
+
+function periodFunction(timeframe: Timeframe, intraday: boolean, options: ResampleOptions): PeriodOf {
+  const session = options.session ?? US_EQUITY_SESSION;
+  const weekStart = options.weekStart ?? 1;
+  if (!(Number.isInteger(weekStart) && weekStart >= 0 && weekStart <= 6)) {
+    throw new Error('Week start must be a day from 0 (Sunday) to 6 (Saturday)');
+  }
+  const open = parseClock(session.open, 'open');
+  const close = parseClock(session.close, 'close');
+  if (close <= open) throw new Error('Session close must be after the open');
+
+  // Calendar date and weekday of a bar; intraday bars use the session's time zone
+  const calendar = (date: string): (LocalTime & { instant?: Date }) | null => {
+    if (!intraday) {
+      return { date, minutes: 0, weekday: new Date(`${date}T00:00:00Z`).getUTCDay() };
+    }
+    const instant = new Date(date);
+    const local = localTime(instant, session.timeZone);
+    return local.minutes >= open && local.minutes < close ? { ...local, instant } : null;
+  };
+
+  return (date) => {
+    const local = calendar(date);
+    if (!local) return null;
+    switch (timeframe) {
+      case '1d':
+        return { key: local.date, label: local.date };
+      case '1w': {
+        const start = shiftDate(local.date, -((local.weekday - weekStart + 7) % 7));
+        return { key: start, label: start };
+      }
+      case '1mo':
+        return { key: local.date.slice(0, 7), label: `${local.date.slice(0, 7)}-01` };
+      default: {
+        const length = TIMEFRAME_MINUTES[timeframe];
+        const sinceOpen = local.minutes - open;
+        const instant = local.instant!;
+        const start = instant.getTime() - (sinceOpen % length) * 60000 - instant.getUTCSeconds() * 1000 - instant.getUTCMilliseconds();
+        return { key: `${local.date}#${Math.floor(sinceOpen / length)}`, label: new Date(start).toISOString() };
+      }
+    }
+  };
+}
+
+// Aggregates chronological bars: first open, highest high, lowest low, last close, summed volume. Dividends
+// going ex within a period add up and splits multiply, so corporate actions survive resampling.
+export function resampleBars(prices: HistoricalPrice[], timeframe: Timeframe, options: ResampleOptions = {}): ResampledBars {
+  const intraday = prices.some(bar => isIntradayDate(bar.date));
+  const baseInterval = barIntervalMinutes(prices.map(bar => bar.date));
+  const target = TIMEFRAME_MINUTES[timeframe];
+  if (isIntradayTimeframe(timeframe)) {
+    if (!intraday) throw new Error(`Daily bars cannot be resampled to ${timeframe}; choose 1d or longer`);
+    if (target < baseInterval || target % baseInterval !== 0) {
+      throw new Error(`${baseInterval}-minute bars cannot be resampled to ${timeframe}`);
+    }
+  }
+
+  const periodOf = periodFunction(timeframe, intraday, options);
+  const bars: HistoricalPrice[] = [];
+  const completedAt: number[] = [];
+  let currentKey: string | null = null;
+
+  prices.forEach((bar, i) => {
+    const period = periodOf(bar.date);
+    if (!period) return;
+
+    if (period.key !== currentKey) {
+      currentKey = period.key;
+      const opened: HistoricalPrice = {
+        date: period.label,
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        close: bar.close,
+        volume: bar.volume,
+        adjustedClose: bar.adjustedClose
+      };
+      if (bar.dividend) opened.dividend = bar.dividend;
+      if (bar.splitRatio && bar.splitRatio !== 1) opened.splitRatio = bar.splitRatio;
+      bars.push(opened);
+      completedAt.push(i);
+      return;
+    }
+
+    const current = bars[bars.length - 1];
+    current.high = Math.max(current.high, bar.high);
+    current.low = Math.min(current.low, bar.low);
+    current.close = bar.close;
+    current.volume += bar.volume;
+    current.adjustedClose = bar.adjustedClose;
+    if (bar.dividend) current.dividend = (current.dividend ?? 0) + bar.dividend;
+    if (bar.splitRatio && bar.splitRatio !== 1) current.splitRatio = (current.splitRatio ?? 1) * bar.splitRatio;
+    completedAt[completedAt.length - 1] = i;
+  });
+
+  return { bars, completedAt };
+}
+
+export function resampleCandles(
+  candles: CandlestickData[],
+  timeframe: Timeframe,
+  options: ResampleOptions = {}
+): { candles: CandlestickData[]; completedAt: number[] } {
+  const { bars, completedAt } = resampleBars(
+    candles.map(candle => ({ date: candle.time, open: candle.open, high: candle.high, low: candle.low, close: candle.close, volume: candle.volume, adjustedClose: candle.close })),
+    timeframe,
+    options
+  );
+  return {
+    candles: bars.map(bar => ({ time: bar.date, open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume })),
+    completedAt
+  };
+}
+
+// Spreads one value per resampled bar over the base bars. A resampled bar's value appears on its last
+// base bar, whose close is also the resampled close, and holds until the next one completes, so a value
+// never uses prices after the bar it is shown on. The final resampled bar may still be forming when the
+// data ends.
+export function alignToBase<T>(values: Array<T | undefined>, completedAt: number[], baseLength: number): Array<T | undefined> {
+  const aligned = new Array<T | undefined>(baseLength).fill(undefined);
+  completedAt.forEach((end, k) => {
+    const next = k + 1 < completedAt.length ? completedAt[k + 1] : baseLength;
+    for (let i = end; i < next; i++) aligned[i] = values[k];
+  });
+  return aligned;
+}
@@ -1,4 +1,5 @@
 // Risk Management and Portfolio Analytics Library
+import { SeededRandom, generateSeed } from './random';
 
 export interface RiskMetrics {
   var: number; // Value at Risk
@@ -29,6 +30,14 @@ export interface PortfolioOptimization {
   diversificationRatio: number;
 }
 
+export interface StressTestResults {
+  scenarios: number[][];
+  percentiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
+  maxLoss: number;
+  avgReturn: number;
+  seed: number;
+}
+
 export class RiskManager {
   // Value at Risk calculation (parametric method)
   static calculateVaR(returns: number[], confidence: number = 0.05): number {
@@ -139,6 +148,25 @@ export class RiskManager {
     return this.calculateVolatility(excessReturns);
   }
 
+  // Up/down capture: compound return per period while the benchmark rose (fell), relative to the benchmark's
+  static calculateCaptureRatios(assetReturns: number[], benchmarkReturns: number[]): { upCapture: number; downCapture: number } {
+    if (assetReturns.length !== benchmarkReturns.length) return { upCapture: 0, downCapture: 0 };
+
+    const capture = (inRegime: (benchmarkReturn: number) => boolean): number => {
+      const indices = benchmarkReturns.map((ret, i) => (inRegime(ret) ? i : -1)).filter(i => i >= 0);
+      if (indices.length === 0) return 0;
+      const geometricMean = (returns: number[]) =>
+        Math.pow(returns.reduce((growth, ret) => growth * (1 + ret), 1), 1 / returns.length) - 1;
+      const benchmarkMean = geometricMean(indices.map(i => benchmarkReturns[i]));
+      return benchmarkMean !== 0 ? geometricMean(indices.map(i => assetReturns[i])) / benchmarkMean : 0;
+    };
+
+    return {
+      upCapture: capture(ret => ret > 0),
+      downCapture: capture(ret => ret < 0)
+    };
+  }
+
   // Complete risk metrics calculation
   static calculateRiskMetrics(assetReturns: number[], benchmarkReturns?: number[]): RiskMetrics {
     const var95 = this.calculateVaR(assetReturns);
@@ -311,14 +339,12 @@ export class StressTester {
     portfolio: { weights: number[]; assets: string[] },
     returns: number[][],
     numSimulations: number = 1000,
-    timeHorizon: number = 252
-  ): {
-    scenarios: number[][];
-    percentiles: { p5: number; p25: number; p50: number; p75: number; p95: number };
-    maxLoss: number;
-    avgReturn: number;
-  } {
+    timeHorizon: number = 252,
+    seed: number = generateSeed(),
+    onProgress?: (completedSimulations: number) => void
+  ): StressTestResults {
     const scenarios: number[][] = [];
+    const rng = new SeededRandom(seed);
     
     for (let sim = 0; sim < numSimulations; sim++) {
       const scenario: number[] = [];
@@ -328,7 +354,7 @@ export class StressTester {
         let dailyReturn = 0;
         
         for (let asset = 0; asset < portfolio.weights.length; asset++) {
-          const randomIndex = Math.floor(Math.random() * returns[asset].length);
+          const randomIndex = rng.nextInt(returns[asset].length);
           dailyReturn += portfolio.weights[asset] * returns[asset][randomIndex];
         }
         
@@ -337,8 +363,16 @@ export class StressTester {
       }
       
       scenarios.push(scenario);
+      
+      if (onProgress && (sim + 1) % 100 === 0) onProgress(sim + 1);
     }
+    onProgress?.(numSimulations);
     
+    return this.summarizeStressScenarios(scenarios, seed);
+  }
+
+  // Percentiles and loss statistics from simulated stress scenarios
+  static summarizeStressScenarios(scenarios: number[][], seed: number): StressTestResults {
     // Calculate percentiles from final values
     const finalReturns = scenarios.map(scenario => scenario[scenario.length - 1]).sort((a, b) => a - b);
     
@@ -351,8 +385,9 @@ export class StressTester {
         p75: finalReturns[Math.floor(finalReturns.length * 0.75)],
         p95: finalReturns[Math.floor(finalReturns.length * 0.95)]
       },
-      maxLoss: Math.min(...finalReturns),
-      avgReturn: finalReturns.reduce((a, b) => a + b, 0) / finalReturns.length
+      maxLoss: finalReturns[0],
+      avgReturn: finalReturns.reduce((a, b) => a + b, 0) / finalReturns.length,
+      seed
     };
   }
 
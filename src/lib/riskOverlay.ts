@@ -0,0 +1,136 @@
+// Strategy-independent exit rules for backtests: stops, targets, time stops and portfolio loss limits
+import { HistoricalPrice, Position, TradeReason } from './backtesting';
+import { OrderRequest } from './orders';
+import { TechnicalAnalysis } from './technicalAnalysis';
+import { toCandlestickData } from './dataImport';
+
+// A value of 0 disables the rule
+export interface RiskRules {
+  stopLossPercent: number; // Stop this fraction beyond the average entry price
+  atrStopMultiple: number; // Stop this many ATRs (at entry) beyond the average entry price
+  atrPeriod: number;
+  takeProfitPercent: number; // Limit exit this fraction in favour of the average entry price
+  maxHoldingBars: number; // Exit at the next open once a position has been held this many bars
+  maxDrawdown: number; // Circuit breaker: flatten and stop trading once equity falls this far below its peak
+  dailyLossLimit: number; // Flatten when a single day loses this fraction of the previous close's equity
+}
+
+export const DEFAULT_RISK_RULES: RiskRules = {
+  stopLossPercent: 0,
+  atrStopMultiple: 0,
+  atrPeriod: 14,
+  takeProfitPercent: 0,
+  maxHoldingBars: 0,
+  maxDrawdown: 0,
+  dailyLossLimit: 0,
+};
+
+// Account state at a bar's close, as seen by the overlay
+export interface RiskState {
+  position?: Position;
+  entryIndex?: number; // Bar the current position was opened on
+  equity: number;
+  peakEquity: number;
+}
+
+export function validateRiskRules(rules: RiskRules): void {
+  const { atrPeriod, maxDrawdown, dailyLossLimit, ...rest } = rules;
+  if (Object.values(rest).some(value => !(value >= 0))) {
+    throw new Error('Risk rule values must be non-negative');
+  }
+  if (!(atrPeriod >= 1) || !Number.isInteger(atrPeriod)) {
+    throw new Error('ATR period must be a positive whole number');
+  }
+  if (!(maxDrawdown >= 0 && maxDrawdown < 1) || !(dailyLossLimit >= 0 && dailyLossLimit < 1)) {
+    throw new Error('Drawdown and daily loss limits must be between 0 and 100%');
+  }
+}
+
+export const hasActiveRiskRules = (rules: RiskRules): boolean =>
+  rules.stopLossPercent > 0 || rules.atrStopMultiple > 0 || rules.takeProfitPercent > 0 ||
+  rules.maxHoldingBars > 0 || rules.maxDrawdown > 0 || rules.dailyLossLimit > 0;
+
+// One overlay per backtest run. After each close it returns reduce-only day orders protecting the open
+// position for the next bar, so every level is re-evaluated daily. Stops are placed before the take-profit,
+// so a bar that reaches both is assumed to hit the stop first.
+export class RiskOverlay {
+  readonly rules: RiskRules;
+  private atrByDate = new Map<string, number>();
+  private haltDate: string | undefined;
+
+  constructor(rules: RiskRules, prices: HistoricalPrice[]) {
+    validateRiskRules(rules);
+    this.rules = rules;
+    if (rules.atrStopMultiple > 0 && prices.length > rules.atrPeriod) {
+      TechnicalAnalysis.atr(toCandlestickData(prices), rules.atrPeriod)
+        .forEach(point => this.atrByDate.set(point.time, point.value));
+    }
+  }
+
+  // Set once the drawdown circuit breaker trips; no new positions are opened afterwards
+  get halted(): boolean {
+    return this.haltDate !== undefined;
+  }
+
+  get haltedAt(): string | undefined {
+    return this.haltDate;
+  }
+
+  protectiveOrders(prices: HistoricalPrice[], index: number, state: RiskState): OrderRequest[] {
+    const { rules } = this;
+    const bar = prices[index];
+    const drawdown = state.peakEquity > 0 ? (state.peakEquity - state.equity) / state.peakEquity : 0;
+    if (rules.maxDrawdown > 0 && !this.halted && drawdown >= rules.maxDrawdown) {
+      this.haltDate = bar.date;
+    }
+
+    const position = state.position;
+    if (!position || position.quantity === 0) return [];
+
+    const quantity = Math.abs(position.quantity);
+    const long = position.quantity > 0;
+    const exitSide = long ? 'SELL' : 'BUY';
+    const exit = (reason: TradeReason, request: Pick<OrderRequest, 'type' | 'stopPrice' | 'limitPrice'>): OrderRequest =>
+      ({ ...request, side: exitSide, quantity, reduceOnly: true, reason });
+
+    if (this.halted) return [exit('maxDrawdown', { type: 'market' })];
+
+    const orders: OrderRequest[] = [];
+    const stop = (reason: TradeReason, stopPrice: number) => {
+      if (stopPrice > 0) orders.push(exit(reason, { type: 'stop', stopPrice }));
+    };
+    // Price beyond the entry by `distance` against the position
+    const adverse = (distance: number) => position.avgPrice + (long ? -distance : distance);
+
+    if (rules.maxHoldingBars > 0 && state.entryIndex !== undefined && index - state.entryIndex >= rules.maxHoldingBars) {
+      orders.push(exit('timeStop', { type: 'market' }));
+    }
+
+    if (rules.stopLossPercent > 0) {
+      stop('stopLoss', adverse(position.avgPrice * rules.stopLossPercent));
+    }
+
+    if (rules.atrStopMultiple > 0 && state.entryIndex !== undefined) {
+      const atr = this.atrByDate.get(prices[state.entryIndex].date);
+      if (atr !== undefined) stop('atrStop', adverse(atr * rules.atrStopMultiple));
+    }
+
+    // Portfolio limits become price levels: equity at price p is equity + quantity * (p - close)
+    if (rules.dailyLossLimit > 0) {
+      stop('dailyLoss', bar.close - (rules.dailyLossLimit * state.equity) / position.quantity);
+    }
+
+    if (rules.maxDrawdown > 0) {
+      const floor = state.peakEquity * (1 - rules.maxDrawdown);
+      stop('maxDrawdown', bar.close + (floor - state.equity) / position.quantity);
+    }
+
+    if (rules.takeProfitPercent > 0) {
+      const target = position.avgPrice * rules.takeProfitPercent;
+      const limitPrice = position.avgPrice + (long ? target : -target);
+      if (limitPrice > 0) orders.push(exit('takeProfit', { type: 'limit', limitPrice }));
+    }
+
+    return orders;
+  }
+}
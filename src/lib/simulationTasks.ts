@@ -0,0 +1,57 @@
+// Chunked simulation tasks shared by the worker entry point and the inline fallback
+import { simulatePriceChunk, SimulationParams, SimulationPathChunk } from './monteCarlo';
+import { simulatePortfolioPaths, PortfolioSimulationInput, PortfolioPathChunk } from './portfolio';
+import { StressTester } from './riskManagement';
+import { BacktestSweepConfig, BacktestSweepRun, StrategyParameterValues, executeBacktestSweep } from './backtestSweep';
+import { RobustnessChunk, RobustnessInput, RobustnessParams, simulateRobustnessChunk } from './backtestRobustness';
+
+export type SimulationTask =
+  | { kind: 'monteCarlo'; params: SimulationParams & { seed: number }; batchCount: number }
+  | { kind: 'portfolio'; input: PortfolioSimulationInput; numSimulations: number; seed: number }
+  | {
+      kind: 'stressTest';
+      portfolio: { weights: number[]; assets: string[] };
+      returns: number[][];
+      numSimulations: number;
+      timeHorizon: number;
+      seed: number;
+    }
+  | { kind: 'backtestSweep'; config: BacktestSweepConfig; parameterSets: StrategyParameterValues[] }
+  | { kind: 'backtestRobustness'; input: RobustnessInput; params: RobustnessParams; simulations: number; seed: number };
+
+export type SimulationTaskResult =
+  | ({ kind: 'monteCarlo' } & SimulationPathChunk)
+  | ({ kind: 'portfolio' } & PortfolioPathChunk)
+  | { kind: 'stressTest'; scenarios: number[][] }
+  | { kind: 'backtestSweep'; runs: BacktestSweepRun[] }
+  | ({ kind: 'backtestRobustness' } & RobustnessChunk);
+
+export function executeSimulationTask(
+  task: SimulationTask,
+  onProgress: (completed: number) => void
+): SimulationTaskResult {
+  switch (task.kind) {
+    case 'monteCarlo':
+      return { kind: 'monteCarlo', ...simulatePriceChunk(task.params, task.batchCount, onProgress) };
+    case 'portfolio':
+      return { kind: 'portfolio', ...simulatePortfolioPaths(task.input, task.numSimulations, task.seed, onProgress) };
+    case 'stressTest': {
+      const { scenarios } = StressTester.monteCarloStressTest(
+        task.portfolio,
+        task.returns,
+        task.numSimulations,
+        task.timeHorizon,
+        task.seed,
+        onProgress
+      );
+      return { kind: 'stressTest', scenarios };
+    }
+    case 'backtestSweep':
+      return { kind: 'backtestSweep', runs: executeBacktestSweep(task.config, task.parameterSets, onProgress) };
+    case 'backtestRobustness':
+      return {
+        kind: 'backtestRobustness',
+        ...simulateRobustnessChunk(task.input, task.params, task.simulations, task.seed, onProgress)
+      };
+  }
+}
@@ -0,0 +1,605 @@
+// Text form of custom strategy rules. A program is a list of rules, e.g.
+//
+//   buy when crossover(sma(close, 20), sma(close, 50)) and rsi(14) < 70 size 80%
+//   sell when sma(close, 20) crosses below sma(close, 50) or close < bb(20, 2).lower for 3 bars
+//
+// A series can be computed on a higher timeframe by adding it after an @, as in rsi(14)@1w or close@1mo.
+// It compiles to the same rules as the visual editor, and any rules print back to text, so a strategy
+// can be edited either way.
+import {
+  ComparisonOperator,
+  Condition,
+  ConditionGroup,
+  CustomStrategy,
+  DEFAULT_POSITION_SIZE,
+  INDICATOR_DEFINITIONS,
+  IndicatorKind,
+  IndicatorRef,
+  LookbackQualifier,
+  Operand,
+  StrategyRule
+} from './customStrategy';
+import { TIMEFRAMES, Timeframe } from './resampling';
+
+export interface StrategyDiagnostic {
+  line: number; // 1-based
+  column: number; // 1-based
+  message: string;
+}
+
+export interface ParsedStrategy {
+  rules: StrategyRule[];
+  diagnostics: StrategyDiagnostic[]; // Rules are only usable when this is empty
+}
+
+// Function names in the language, and the price fields available as bare series
+const INDICATOR_NAMES: Record<string, IndicatorKind> = {
+  sma: 'sma',
+  ema: 'ema',
+  rsi: 'rsi',
+  macd: 'macd',
+  bb: 'bollinger',
+  bollinger: 'bollinger',
+  stoch: 'stochastic',
+  stochastic: 'stochastic',
+  atr: 'atr',
+  vwap: 'vwap',
+  volume: 'volume',
+};
+
+const PRICE_FIELDS = ['close', 'open', 'high', 'low'];
+
+const DSL_NAMES: Record<IndicatorKind, string> = {
+  price: 'close',
+  volume: 'volume',
+  sma: 'sma',
+  ema: 'ema',
+  rsi: 'rsi',
+  macd: 'macd',
+  bollinger: 'bb',
+  stochastic: 'stoch',
+  atr: 'atr',
+  vwap: 'vwap',
+};
+
+// Moving averages and RSI take an optional leading source, which must be close: sma(close, 20) or sma(20)
+const CLOSE_SOURCE_INDICATORS: IndicatorKind[] = ['sma', 'ema', 'rsi'];
+
+const KEYWORDS = ['buy', 'sell', 'when', 'size', 'and', 'or', 'crosses', 'above', 'below', 'for', 'within', 'bars', 'bar'];
+
+type TokenType = 'number' | 'identifier' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  line: number;
+  column: number;
+}
+
+// Internal: aborts parsing at the first syntax error
+class SyntaxFailure {
+  constructor(readonly diagnostic: StrategyDiagnostic) {}
+}
+
+const fail = (at: { line: number; column: number }, message: string): never => {
+  throw new SyntaxFailure({ line: at.line, column: at.column, message });
+};
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let column = 1;
+  let i = 0;
+
+  const advance = (count: number) => {
+    for (let k = 0; k < count; k++) {
+      if (source[i] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      i++;
+    }
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    const rest = source.slice(i);
+
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+    // Comments run to the end of the line
+    if (char === '#' || rest.startsWith('//')) {
+      while (i < source.length && source[i] !== '\n') advance(1);
+      continue;
+    }
+
+    const start = { line, column };
+    const number = /^(\d+(\.\d*)?|\.\d+)/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], ...start });
+      advance(number[0].length);
+      continue;
+    }
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'identifier', text: identifier[0].toLowerCase(), ...start });
+      advance(identifier[0].length);
+      continue;
+    }
+    const operator = /^(>=|<=|==|>|<)/.exec(rest);
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator[0], ...start });
+      advance(operator[0].length);
+      continue;
+    }
+    if ('(),.-%@'.includes(char)) {
+      tokens.push({ type: 'punctuation', text: char, ...start });
+      advance(1);
+      continue;
+    }
+    if (char === '=') fail(start, "Use '==' to compare for equality");
+    if (rest.startsWith('!=')) fail(start, "'!=' is not supported; combine '<' and '>' with 'or'");
+    fail(start, `Unexpected character '${char}'`);
+  }
+
+  tokens.push({ type: 'end', text: '', line, column });
+  return tokens;
+}
+
+// Syntax tree. Every node keeps the position of its first token for error messages.
+interface Position {
+  line: number;
+  column: number;
+}
+
+type ValueNode =
+  | ({ type: 'number'; value: number } & Position)
+  | ({
+      type: 'series';
+      name: string;
+      args: ValueNode[];
+      called: boolean;
+      output?: string;
+      outputAt?: Position;
+      timeframe?: string;
+      timeframeAt?: Position;
+    } & Position);
+
+type ExpressionNode =
+  | ({ type: 'logical'; logic: 'AND' | 'OR'; items: ExpressionNode[] } & Position)
+  | ({ type: 'comparison'; left: ValueNode; operator: ComparisonOperator; right: ValueNode; qualifier?: LookbackQualifier } & Position);
+
+interface RuleNode extends Position {
+  action: 'BUY' | 'SELL';
+  when: ExpressionNode;
+  size?: number;
+  sizeAt?: Position;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseProgram(): RuleNode[] {
+    const rules: RuleNode[] = [];
+    while (this.peek().type !== 'end') rules.push(this.parseRule());
+    if (rules.length === 0) fail(this.peek(), "Write at least one rule, e.g. 'buy when rsi(14) < 30'");
+    return rules;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'end') this.position++;
+    return token;
+  }
+
+  private isWord(word: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && token.text === word;
+  }
+
+  private isPunctuation(text: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.text === text;
+  }
+
+  private expectWord(word: string, context: string): Token {
+    if (!this.isWord(word)) fail(this.peek(), `Expected '${word}' ${context}, found ${this.describe(this.peek())}`);
+    return this.next();
+  }
+
+  private expectPunctuation(text: string, context: string): Token {
+    if (!this.isPunctuation(text)) fail(this.peek(), `Expected '${text}' ${context}, found ${this.describe(this.peek())}`);
+    return this.next();
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'the end of the strategy' : `'${token.text}'`;
+  }
+
+  private parseRule(): RuleNode {
+    const start = this.peek();
+    if (!this.isWord('buy') && !this.isWord('sell')) {
+      fail(start, `Expected 'buy' or 'sell' to start a rule, found ${this.describe(start)}`);
+    }
+    const action = this.next().text === 'buy' ? 'BUY' : 'SELL';
+    this.expectWord('when', `after '${start.text}'`);
+    const when = this.parseOr();
+
+    const rule: RuleNode = { action, when, line: start.line, column: start.column };
+    if (this.isWord('size')) {
+      const keyword = this.next();
+      const value = this.peek();
+      if (value.type !== 'number') fail(value, `Expected a percentage after 'size', found ${this.describe(value)}`);
+      this.next();
+      const percent = this.isPunctuation('%');
+      if (percent) this.next();
+      rule.size = percent ? Number(value.text) / 100 : Number(value.text);
+      rule.sizeAt = { line: keyword.line, column: keyword.column };
+    }
+    return rule;
+  }
+
+  private parseOr(): ExpressionNode {
+    const first = this.parseAnd();
+    const items = [first];
+    while (this.isWord('or')) {
+      this.next();
+      items.push(this.parseAnd());
+    }
+    return items.length === 1 ? first : { type: 'logical', logic: 'OR', items, line: first.line, column: first.column };
+  }
+
+  private parseAnd(): ExpressionNode {
+    const first = this.parsePrimary();
+    const items = [first];
+    while (this.isWord('and')) {
+      this.next();
+      items.push(this.parsePrimary());
+    }
+    return items.length === 1 ? first : { type: 'logical', logic: 'AND', items, line: first.line, column: first.column };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const start = this.peek();
+    if (this.isPunctuation('(')) {
+      this.next();
+      const inner = this.parseOr();
+      this.expectPunctuation(')', 'to close the group');
+      return inner.type === 'logical' ? { ...inner, line: start.line, column: start.column } : inner;
+    }
+
+    if (this.isWord('crossover') || this.isWord('crossunder')) {
+      const name = this.next().text;
+      this.expectPunctuation('(', `after '${name}'`);
+      const left = this.parseValue();
+      this.expectPunctuation(',', `between the two series of '${name}'`);
+      const right = this.parseValue();
+      this.expectPunctuation(')', `to close '${name}'`);
+      const operator = name === 'crossover' ? 'crossesAbove' : 'crossesBelow';
+      return { type: 'comparison', left, operator, right, qualifier: this.parseQualifier(), line: start.line, column: start.column };
+    }
+
+    const left = this.parseValue();
+    let operator: ComparisonOperator;
+    const token = this.peek();
+    if (token.type === 'operator') {
+      operator = this.next().text as ComparisonOperator;
+    } else if (this.isWord('crosses')) {
+      this.next();
+      if (this.isWord('above')) operator = 'crossesAbove';
+      else if (this.isWord('below')) operator = 'crossesBelow';
+      else fail(this.peek(), `Expected 'above' or 'below' after 'crosses', found ${this.describe(this.peek())}`);
+      this.next();
+    } else {
+      fail(token, `Expected a comparison (>, <, >=, <=, ==, crosses above, crosses below), found ${this.describe(token)}`);
+    }
+    const right = this.parseValue();
+    return { type: 'comparison', left, operator, right, qualifier: this.parseQualifier(), line: start.line, column: start.column };
+  }
+
+  // `for N bars` or `within N bars` after a comparison
+  private parseQualifier(): LookbackQualifier | undefined {
+    if (!this.isWord('for') && !this.isWord('within')) return undefined;
+    const type = this.next().text as 'for' | 'within';
+    const count = this.peek();
+    if (count.type !== 'number' || !/^\d+$/.test(count.text) || Number(count.text) < 1) {
+      fail(count, `Expected a whole number of bars after '${type}', found ${this.describe(count)}`);
+    }
+    this.next();
+    if (!this.isWord('bars') && !this.isWord('bar')) fail(this.peek(), `Expected 'bars' after '${type} ${count.text}'`);
+    this.next();
+    return { type, bars: Number(count.text) };
+  }
+
+  private parseValue(): ValueNode {
+    const start = this.peek();
+    if (this.isPunctuation('-') || start.type === 'number') {
+      const negative = this.isPunctuation('-');
+      if (negative) this.next();
+      const number = this.peek();
+      if (number.type !== 'number') fail(number, `Expected a number after '-', found ${this.describe(number)}`);
+      this.next();
+      return { type: 'number', value: (negative ? -1 : 1) * Number(number.text), line: start.line, column: start.column };
+    }
+
+    if (start.type !== 'identifier' || KEYWORDS.includes(start.text)) {
+      fail(start, `Expected a number or an indicator, found ${this.describe(start)}`);
+    }
+    this.next();
+    const node: ValueNode = { type: 'series', name: start.text, args: [], called: false, line: start.line, column: start.column };
+    if (this.isPunctuation('(')) {
+      this.next();
+      node.called = true;
+      if (!this.isPunctuation(')')) {
+        node.args.push(this.parseValue());
+        while (this.isPunctuation(',')) {
+          this.next();
+          node.args.push(this.parseValue());
+        }
+      }
+      this.expectPunctuation(')', `to close '${start.text}('`);
+    }
+    if (this.isPunctuation('.')) {
+      this.next();
+      const output = this.peek();
+      if (output.type !== 'identifier') fail(output, `Expected an output name after '.', found ${this.describe(output)}`);
+      this.next();
+      node.output = output.text;
+      node.outputAt = { line: output.line, column: output.column };
+    }
+    // Timeframes lex as a number and a unit: 1w, 15m, 1mo
+    if (this.isPunctuation('@')) {
+      this.next();
+      const count = this.peek();
+      if (count.type !== 'number') fail(count, `Expected a timeframe such as 1w after '@', found ${this.describe(count)}`);
+      this.next();
+      const unit = this.peek();
+      if (unit.type !== 'identifier') fail(unit, `Expected a timeframe unit after '@${count.text}', found ${this.describe(unit)}`);
+      this.next();
+      node.timeframe = `${count.text}${unit.text}`;
+      node.timeframeAt = { line: count.line, column: count.column };
+    }
+    return node;
+  }
+}
+
+// Type checking: resolves names and arguments to indicators and lowers expressions to condition groups,
+// collecting every error instead of stopping at the first
+class Checker {
+  readonly diagnostics: StrategyDiagnostic[] = [];
+  private ids = 0;
+
+  private error(at: Position, message: string): void {
+    this.diagnostics.push({ line: at.line, column: at.column, message });
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${++this.ids}`;
+  }
+
+  checkRule(node: RuleNode): StrategyRule {
+    if (node.size !== undefined && !(node.size > 0 && node.size <= 1)) {
+      this.error(node.sizeAt!, 'Size must be between 0% and 100%');
+    }
+    if (node.action === 'SELL' && node.size !== undefined) {
+      this.error(node.sizeAt!, 'Sell rules always close the whole position; remove the size');
+    }
+    const when = this.checkExpression(node.when);
+    return {
+      id: this.nextId('rule'),
+      action: node.action,
+      when: when.kind === 'group' ? when : { id: this.nextId('group'), kind: 'group', logic: 'AND', items: [when] },
+      positionSize: node.action === 'BUY' ? node.size ?? DEFAULT_POSITION_SIZE : 1
+    };
+  }
+
+  private checkExpression(node: ExpressionNode): Condition | ConditionGroup {
+    if (node.type === 'logical') {
+      // `a and b and c` is already flat; nested groups of the same logic come from parentheses and stay nested
+      return { id: this.nextId('group'), kind: 'group', logic: node.logic, items: node.items.map(item => this.checkExpression(item)) };
+    }
+
+    let left = this.checkValue(node.left);
+    let right = this.checkValue(node.right);
+    let operator = node.operator;
+    if (left && right && left.type === 'constant') {
+      if (right.type === 'constant') {
+        this.error(node, 'A comparison needs at least one indicator; both sides are numbers');
+        return this.placeholder();
+      }
+      // `70 > rsi(14)` is `rsi(14) < 70`; a number crossing above a series is the series crossing below it
+      [left, right] = [right, left];
+      operator = ({ '>': '<', '<': '>', '>=': '<=', '<=': '>=', '==': '==', crossesAbove: 'crossesBelow', crossesBelow: 'crossesAbove' } as const)[operator];
+    }
+    if (!left || !right || left.type !== 'indicator') return this.placeholder();
+
+    const condition: Condition = { id: this.nextId('condition'), kind: 'condition', left: left.ref, operator, right };
+    if (node.qualifier && node.qualifier.bars > 1) condition.qualifier = node.qualifier;
+    return condition;
+  }
+
+  // Stands in for a condition that failed to check so the remaining errors are still found
+  private placeholder(): Condition {
+    return { id: this.nextId('condition'), kind: 'condition', left: { indicator: 'price', params: {}, output: 'close' }, operator: '>', right: { type: 'constant', value: 0 } };
+  }
+
+  private checkValue(node: ValueNode): Operand | null {
+    if (node.type === 'number') return { type: 'constant', value: node.value };
+
+    let timeframe: Timeframe | undefined;
+    if (node.timeframe !== undefined) {
+      if (!TIMEFRAMES.includes(node.timeframe as Timeframe)) {
+        this.error(node.timeframeAt!, `Unknown timeframe '${node.timeframe}'. Available: ${TIMEFRAMES.join(', ')}`);
+        return null;
+      }
+      timeframe = node.timeframe as Timeframe;
+    }
+    const withTimeframe = (ref: IndicatorRef): Operand => ({ type: 'indicator', ref: timeframe ? { ...ref, timeframe } : ref });
+
+    if (PRICE_FIELDS.includes(node.name)) {
+      if (node.called || node.output) {
+        this.error(node, `'${node.name}' is a price series and takes no arguments or outputs`);
+        return null;
+      }
+      return withTimeframe({ indicator: 'price', params: {}, output: node.name });
+    }
+
+    const indicator = INDICATOR_NAMES[node.name];
+    if (!indicator) {
+      const known = [...PRICE_FIELDS, ...Object.keys(INDICATOR_NAMES)].join(', ');
+      this.error(node, `Unknown indicator '${node.name}'. Available: ${known}`);
+      return null;
+    }
+    const definition = INDICATOR_DEFINITIONS[indicator];
+
+    let args = node.args;
+    if (CLOSE_SOURCE_INDICATORS.includes(indicator) && args[0]?.type === 'series') {
+      const source = args[0];
+      if (source.timeframe) {
+        this.error(source.timeframeAt!, `Put the timeframe after the call, as in ${node.name}(close, 20)@${source.timeframe}`);
+        return null;
+      }
+      if (source.name !== 'close' || source.called || source.output) {
+        this.error(source, `${node.name} is computed on closing prices; use ${node.name}(close, ...)`);
+        return null;
+      }
+      args = args.slice(1);
+    }
+    if (args.length > definition.parameters.length) {
+      const expected = definition.parameters.map(parameter => parameter.label.toLowerCase()).join(', ');
+      this.error(args[definition.parameters.length], `${node.name} takes ${definition.parameters.length === 0 ? 'no arguments' : `at most ${definition.parameters.length} (${expected})`}`);
+      return null;
+    }
+
+    // Omitted trailing parameters take their defaults
+    const params: Record<string, number> = {};
+    let valid = true;
+    definition.parameters.forEach((parameter, i) => {
+      const arg = args[i];
+      if (!arg) {
+        params[parameter.key] = parameter.defaultValue;
+        return;
+      }
+      if (arg.type !== 'number') {
+        this.error(arg, `${node.name} ${parameter.label.toLowerCase()} must be a number`);
+        valid = false;
+        return;
+      }
+      if (!(arg.value >= parameter.min) || (parameter.integer && !Number.isInteger(arg.value))) {
+        this.error(arg, `${node.name} ${parameter.label.toLowerCase()} must be ${parameter.integer ? 'a whole number' : 'a number'} of at least ${parameter.min}`);
+        valid = false;
+        return;
+      }
+      params[parameter.key] = arg.value;
+    });
+    if (indicator === 'macd' && valid && params.fast >= params.slow) {
+      this.error(node, 'MACD fast period must be shorter than the slow period');
+      valid = false;
+    }
+
+    let output = definition.outputs[0].key;
+    if (node.output) {
+      if (!definition.outputs.some(candidate => candidate.key === node.output)) {
+        const outputs = definition.outputs.map(candidate => candidate.key).join(', ');
+        this.error(node.outputAt!, definition.outputs.length > 1
+          ? `${node.name} has no output '${node.output}'. Available: ${outputs}`
+          : `${node.name} has a single output; remove '.${node.output}'`);
+        return null;
+      }
+      output = node.output;
+    }
+
+    return valid ? withTimeframe({ indicator, params, output }) : null;
+  }
+}
+
+export function parseStrategy(source: string): ParsedStrategy {
+  let ruleNodes: RuleNode[];
+  try {
+    ruleNodes = new Parser(tokenize(source)).parseProgram();
+  } catch (error) {
+    if (error instanceof SyntaxFailure) return { rules: [], diagnostics: [error.diagnostic] };
+    throw error;
+  }
+
+  const checker = new Checker();
+  const rules = ruleNodes.map(node => checker.checkRule(node));
+  const diagnostics = checker.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return diagnostics.length > 0 ? { rules: [], diagnostics } : { rules, diagnostics: [] };
+}
+
+export const formatDiagnostic = (diagnostic: StrategyDiagnostic): string =>
+  `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+
+export function compileStrategy(source: string, name: string, description: string = ''): CustomStrategy {
+  const { rules, diagnostics } = parseStrategy(source);
+  if (diagnostics.length > 0) throw new Error(formatDiagnostic(diagnostics[0]));
+  return new CustomStrategy({ name, description, rules });
+}
+
+// Printing: the inverse of parsing, in the canonical spelling
+
+// Plain decimals, since the tokenizer reads no exponents. Fifteen significant digits drop floating-point
+// noise such as 0.30000000000000004 without flattening tiny values to 0.
+function formatNumber(value: number): string {
+  const rounded = +value.toPrecision(15);
+  // Rounding can overflow next to the largest finite number
+  const [mantissa, exponentText] = (Number.isFinite(rounded) ? rounded : value).toExponential().split('e');
+  const exponent = Number(exponentText);
+  const sign = mantissa.startsWith('-') ? '-' : '';
+  const digits = mantissa.replace(/[-.]/g, '');
+  if (exponent < 0) return `${sign}0.${'0'.repeat(-exponent - 1)}${digits}`;
+  if (digits.length <= exponent + 1) return `${sign}${digits.padEnd(exponent + 1, '0')}`;
+  return `${sign}${digits.slice(0, exponent + 1)}.${digits.slice(exponent + 1)}`;
+}
+
+export function formatIndicator(ref: IndicatorRef): string {
+  const timeframe = ref.timeframe ? `@${ref.timeframe}` : '';
+  if (ref.indicator === 'price') return `${ref.output}${timeframe}`;
+  const definition = INDICATOR_DEFINITIONS[ref.indicator];
+  const params = definition.parameters.map(parameter => formatNumber(ref.params[parameter.key] ?? parameter.defaultValue));
+  // Moving averages name their source as in sma(close, 20); RSI reads better as rsi(14)
+  if (ref.indicator === 'sma' || ref.indicator === 'ema') params.unshift('close');
+  const call = definition.parameters.length > 0 ? `${DSL_NAMES[ref.indicator]}(${params.join(', ')})` : DSL_NAMES[ref.indicator];
+  return `${definition.outputs.length > 1 ? `${call}.${ref.output}` : call}${timeframe}`;
+}
+
+const formatOperand = (operand: Operand): string =>
+  operand.type === 'constant' ? formatNumber(operand.value) : formatIndicator(operand.ref);
+
+function formatCondition(condition: Condition): string {
+  const operator = condition.operator === 'crossesAbove' ? 'crosses above'
+    : condition.operator === 'crossesBelow' ? 'crosses below'
+    : condition.operator;
+  const qualifier = condition.qualifier && condition.qualifier.bars > 1
+    ? ` ${condition.qualifier.type} ${condition.qualifier.bars} bars`
+    : '';
+  return `${formatIndicator(condition.left)} ${operator} ${formatOperand(condition.right)}${qualifier}`;
+}
+
+function formatGroup(group: ConditionGroup, nested: boolean): string {
+  const items = group.items.map(item => (item.kind === 'group' ? formatGroup(item, true) : formatCondition(item)));
+  // A one-item group needs no parentheses and prints as its item
+  if (items.length === 1) return items[0];
+  const text = items.join(` ${group.logic.toLowerCase()} `);
+  return nested ? `(${text})` : text;
+}
+
+export function formatStrategy(rules: StrategyRule[]): string {
+  return rules
+    .map(rule => {
+      const size = rule.action === 'BUY' ? ` size ${formatNumber(rule.positionSize * 100)}%` : '';
+      return `${rule.action.toLowerCase()} when ${formatGroup(rule.when, false)}${size}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,355 @@
+// Saved custom strategies: a versioned JSON definition format, a local library that keeps every saved
+// version, line diffs between versions, and strategy files for sharing. Saved strategies are registered
+// with the strategy factory, so they can be selected and recreated by name like the built-ins.
+import { BUILT_IN_STRATEGY_NAMES, TradingStrategy, createStrategy, registerStrategySource } from './backtesting';
+import {
+  ComparisonOperator,
+  Condition,
+  ConditionGroup,
+  CustomStrategy,
+  INDICATOR_DEFINITIONS,
+  IndicatorRef,
+  Operand,
+  StrategyRule,
+  validateRules
+} from './customStrategy';
+import { TIMEFRAMES, Timeframe } from './resampling';
+import { formatStrategy } from './strategyDsl';
+
+// Bump when the definition format changes, and upgrade older definitions in migrateDefinition
+export const STRATEGY_SCHEMA_VERSION = 2;
+
+export interface StrategyDefinition {
+  schemaVersion: number;
+  name: string;
+  description: string;
+  rules: StrategyRule[];
+}
+
+export interface StrategyVersion {
+  version: number; // 1-based, increasing
+  savedAt: string;
+  note: string;
+  definition: StrategyDefinition;
+}
+
+export interface SavedStrategy {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: StrategyVersion[]; // Oldest first
+}
+
+// What an exported strategy file contains; `history` is every saved version, oldest first
+export interface StrategyFile {
+  format: 'custom-strategy';
+  schemaVersion: number;
+  exportedAt: string;
+  strategy: StrategyDefinition;
+  history?: StrategyVersion[];
+}
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+const STRATEGY_LIBRARY_STORAGE_KEY = 'custom_strategies';
+
+const OPERATORS: ComparisonOperator[] = ['>', '<', '>=', '<=', '==', 'crossesAbove', 'crossesBelow'];
+
+export const createDefinition = (name: string, description: string, rules: StrategyRule[]): StrategyDefinition => ({
+  schemaVersion: STRATEGY_SCHEMA_VERSION,
+  name: name.trim(),
+  description: description.trim(),
+  rules
+});
+
+export const latestVersion = (strategy: SavedStrategy): StrategyVersion => strategy.versions[strategy.versions.length - 1];
+
+// Structural checks for definitions read from storage or files; `path` locates the problem
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+let generatedIds = 0;
+const nextId = (prefix: string) => `${prefix}_${Date.now()}_${++generatedIds}`;
+
+function readIndicator(value: unknown, path: string): IndicatorRef {
+  if (!isRecord(value) || typeof value.indicator !== 'string' || !(value.indicator in INDICATOR_DEFINITIONS)) {
+    throw new Error(`${path}: unknown indicator`);
+  }
+  const params = isRecord(value.params) ? value.params : {};
+  if (Object.values(params).some(param => typeof param !== 'number')) {
+    throw new Error(`${path}: indicator parameters must be numbers`);
+  }
+  const ref: IndicatorRef = {
+    indicator: value.indicator as IndicatorRef['indicator'],
+    params: params as Record<string, number>,
+    output: typeof value.output === 'string' ? value.output : INDICATOR_DEFINITIONS[value.indicator as IndicatorRef['indicator']].outputs[0].key
+  };
+  if (value.timeframe !== undefined) {
+    if (!TIMEFRAMES.includes(value.timeframe as Timeframe)) throw new Error(`${path}.timeframe: unknown timeframe`);
+    ref.timeframe = value.timeframe as Timeframe;
+  }
+  return ref;
+}
+
+function readOperand(value: unknown, path: string): Operand {
+  if (isRecord(value) && value.type === 'constant' && typeof value.value === 'number') {
+    return { type: 'constant', value: value.value };
+  }
+  if (isRecord(value) && value.type === 'indicator') {
+    return { type: 'indicator', ref: readIndicator(value.ref, `${path}.ref`) };
+  }
+  throw new Error(`${path}: expected a constant or an indicator`);
+}
+
+function readItem(value: unknown, path: string): Condition | ConditionGroup {
+  if (!isRecord(value)) throw new Error(`${path}: expected a condition or a group`);
+  const id = typeof value.id === 'string' ? value.id : nextId(value.kind === 'group' ? 'group' : 'condition');
+
+  if (value.kind === 'group') {
+    if (value.logic !== 'AND' && value.logic !== 'OR') throw new Error(`${path}.logic: expected AND or OR`);
+    if (!Array.isArray(value.items)) throw new Error(`${path}.items: expected a list`);
+    return { id, kind: 'group', logic: value.logic, items: value.items.map((item, i) => readItem(item, `${path}.items[${i}]`)) };
+  }
+
+  if (!OPERATORS.includes(value.operator as ComparisonOperator)) throw new Error(`${path}.operator: unknown operator`);
+  const condition: Condition = {
+    id,
+    kind: 'condition',
+    left: readIndicator(value.left, `${path}.left`),
+    operator: value.operator as ComparisonOperator,
+    right: readOperand(value.right, `${path}.right`)
+  };
+  if (value.qualifier !== undefined) {
+    const qualifier = value.qualifier;
+    if (!isRecord(qualifier) || (qualifier.type !== 'for' && qualifier.type !== 'within') || typeof qualifier.bars !== 'number') {
+      throw new Error(`${path}.qualifier: expected "for" or "within" and a number of bars`);
+    }
+    condition.qualifier = { type: qualifier.type, bars: qualifier.bars };
+  }
+  return condition;
+}
+
+// Older schema versions are upgraded here as the format changes. Version 2 added indicator timeframes,
+// so version 1 definitions read unchanged.
+function migrateDefinition(value: Record<string, unknown>): Record<string, unknown> {
+  const version = value.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Missing or invalid schema version');
+  }
+  if (version > STRATEGY_SCHEMA_VERSION) {
+    throw new Error(`Schema version ${version} is newer than this app supports (${STRATEGY_SCHEMA_VERSION})`);
+  }
+  return value;
+}
+
+export function readDefinition(value: unknown): StrategyDefinition {
+  if (!isRecord(value)) throw new Error('Expected a strategy definition object');
+  const migrated = migrateDefinition(value);
+  if (typeof migrated.name !== 'string' || !migrated.name.trim()) throw new Error('name: expected a non-empty string');
+  if (!Array.isArray(migrated.rules)) throw new Error('rules: expected a list');
+
+  const rules: StrategyRule[] = migrated.rules.map((rule, i) => {
+    const path = `rules[${i}]`;
+    if (!isRecord(rule) || (rule.action !== 'BUY' && rule.action !== 'SELL')) throw new Error(`${path}.action: expected BUY or SELL`);
+    const when = readItem(rule.when, `${path}.when`);
+    if (when.kind !== 'group') throw new Error(`${path}.when: expected a group`);
+    return {
+      id: typeof rule.id === 'string' ? rule.id : nextId('rule'),
+      action: rule.action,
+      when,
+      positionSize: typeof rule.positionSize === 'number' ? rule.positionSize : 1
+    };
+  });
+  validateRules(rules);
+
+  return createDefinition(migrated.name, typeof migrated.description === 'string' ? migrated.description : '', rules);
+}
+
+function readLibrary(): SavedStrategy[] {
+  try {
+    const stored = localStorage.getItem(STRATEGY_LIBRARY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLibrary(strategies: SavedStrategy[]): void {
+  try {
+    localStorage.setItem(STRATEGY_LIBRARY_STORAGE_KEY, JSON.stringify(strategies));
+  } catch {
+    throw new Error('Not enough local storage to save this strategy. Delete an older strategy and try again.');
+  }
+}
+
+// Most recently updated first
+export function getSavedStrategies(): SavedStrategy[] {
+  return readLibrary().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+const findByName = (strategies: SavedStrategy[], name: string) =>
+  strategies.find(strategy => strategy.name.toLowerCase() === name.trim().toLowerCase());
+
+export const getSavedStrategy = (name: string): SavedStrategy | undefined => findByName(readLibrary(), name);
+
+// The text a definition is compared and diffed by: identical text means identical behavior
+export const definitionText = (definition: StrategyDefinition): string[] => [
+  `name: ${definition.name}`,
+  `description: ${definition.description}`,
+  ...formatStrategy(definition.rules).split('\n')
+];
+
+// Saved strategies share one list of names with the built-in and code strategies
+function checkStrategyName(name: string): void {
+  if (BUILT_IN_STRATEGY_NAMES.some(builtIn => builtIn.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`"${name}" is a built-in strategy; choose another name`);
+  }
+  const other = createStrategy(name);
+  if (other && !(other instanceof CustomStrategy)) {
+    throw new Error(`"${name}" is already used by another strategy; choose another name`);
+  }
+}
+
+// Saves a new version, or creates the strategy when no saved strategy has its name. Saving an unchanged
+// definition adds no version.
+export function saveStrategy(definition: StrategyDefinition, note: string = ''): SavedStrategy {
+  checkStrategyName(definition.name);
+  validateRules(definition.rules);
+
+  const strategies = readLibrary();
+  const now = new Date().toISOString();
+  let strategy = findByName(strategies, definition.name);
+  if (!strategy) {
+    strategy = { id: nextId('strategy'), name: definition.name, createdAt: now, updatedAt: now, versions: [] };
+    strategies.push(strategy);
+  } else if (definitionText(latestVersion(strategy).definition).join('\n') === definitionText(definition).join('\n')) {
+    return strategy;
+  }
+
+  const previous = strategy.versions.length > 0 ? latestVersion(strategy).version : 0;
+  strategy.versions.push({ version: previous + 1, savedAt: now, note: note.trim(), definition });
+  strategy.name = definition.name;
+  strategy.updatedAt = now;
+  writeLibrary(strategies);
+  return strategy;
+}
+
+export function deleteSavedStrategy(id: string): void {
+  writeLibrary(readLibrary().filter(strategy => strategy.id !== id));
+}
+
+// Line diff of two definitions by longest common subsequence; removed lines come before their replacements
+export function diffDefinitions(older: StrategyDefinition, newer: StrategyDefinition): DiffLine[] {
+  const a = definitionText(older);
+  const b = definitionText(newer);
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  return lines;
+}
+
+export function exportStrategyFile(strategy: SavedStrategy): string {
+  const file: StrategyFile = {
+    format: 'custom-strategy',
+    schemaVersion: STRATEGY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    strategy: latestVersion(strategy).definition,
+    history: strategy.versions
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Imports a strategy file into the library. A new strategy keeps the file's version history; a strategy
+// already in the library gets the file's definition as its next version.
+export function importStrategyFile(content: string): SavedStrategy {
+  let file: unknown;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('Not a strategy file: the content is not valid JSON');
+  }
+  if (!isRecord(file) || file.format !== 'custom-strategy') {
+    throw new Error('Not a strategy file: missing the "custom-strategy" format marker');
+  }
+
+  let definition: StrategyDefinition;
+  try {
+    definition = readDefinition(file.strategy);
+  } catch (error) {
+    throw new Error(`Invalid strategy file: ${(error as Error).message}`);
+  }
+  checkStrategyName(definition.name);
+
+  const history = Array.isArray(file.history) ? file.history : [];
+  if (getSavedStrategy(definition.name) || history.length === 0) {
+    return saveStrategy(definition, 'Imported from file');
+  }
+
+  const versions: StrategyVersion[] = history.map((entry, i) => {
+    if (!isRecord(entry)) throw new Error(`Invalid strategy file: history[${i}] is not a version`);
+    try {
+      return {
+        version: i + 1,
+        savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : new Date().toISOString(),
+        note: typeof entry.note === 'string' ? entry.note : '',
+        definition: { ...readDefinition(entry.definition), name: definition.name }
+      };
+    } catch (error) {
+      throw new Error(`Invalid strategy file: history[${i}]: ${(error as Error).message}`);
+    }
+  });
+
+  const strategies = readLibrary();
+  const now = new Date().toISOString();
+  const strategy: SavedStrategy = { id: nextId('strategy'), name: definition.name, createdAt: versions[0].savedAt, updatedAt: now, versions };
+  if (definitionText(latestVersion(strategy).definition).join('\n') !== definitionText(definition).join('\n')) {
+    versions.push({ version: versions.length + 1, savedAt: now, note: 'Imported from file', definition });
+  }
+  strategies.push(strategy);
+  writeLibrary(strategies);
+  return strategy;
+}
+
+export const toTradingStrategy = (definition: StrategyDefinition): TradingStrategy =>
+  new CustomStrategy({ name: definition.name, description: definition.description, rules: definition.rules });
+
+// A stored definition that no longer validates is left out rather than breaking every strategy list
+const loadStrategy = (strategy: SavedStrategy): TradingStrategy | null => {
+  try {
+    return toTradingStrategy(readDefinition(latestVersion(strategy).definition));
+  } catch {
+    return null;
+  }
+};
+
+registerStrategySource({
+  list: () => getSavedStrategies()
+    .map(loadStrategy)
+    .filter((strategy): strategy is TradingStrategy => strategy !== null),
+  create: (name) => {
+    const strategy = getSavedStrategy(name);
+    return strategy ? loadStrategy(strategy) : null;
+  }
+});
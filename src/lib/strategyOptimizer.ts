@@ -0,0 +1,389 @@
+// Parameter search for backtest strategies: grid, random and genetic sweeps evaluated on the worker pool
+import { BacktestParams, HistoricalPrice, PerformanceMetrics, createStrategy } from './backtesting';
+import { BacktestSweepConfig, StrategyParameterValues } from './backtestSweep';
+import { SyntheticDataProvider } from './historicalData';
+import { getSimulationPool, ParallelRunOptions } from './parallelSimulation';
+import { SimulationTask, SimulationTaskResult } from './simulationTasks';
+import { SeededRandom, deriveSeed, generateSeed } from './random';
+
+// Parameter sets per worker task; small enough to keep progress smooth and the pool balanced
+export const OPTIMIZER_CHUNK_SIZE = 4;
+
+// Values swept are min, min + step, ... up to max
+export interface ParameterRange {
+  name: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type OptimizationObjective = 'sharpeRatio' | 'calmarRatio' | 'totalReturn';
+
+export const OPTIMIZATION_OBJECTIVE_LABELS: Record<OptimizationObjective, string> = {
+  sharpeRatio: 'Sharpe Ratio',
+  calmarRatio: 'Calmar Ratio',
+  totalReturn: 'Total Return',
+};
+
+export type OptimizationMethod = 'grid' | 'random' | 'genetic';
+
+export const OPTIMIZATION_METHOD_LABELS: Record<OptimizationMethod, string> = {
+  grid: 'Grid Search',
+  random: 'Random Search',
+  genetic: 'Genetic Algorithm',
+};
+
+export interface GeneticConfig {
+  populationSize: number;
+  generations: number;
+  mutationRate: number; // Chance that each parameter of a child moves along its range
+  eliteCount: number; // Best candidates copied unchanged into the next generation
+}
+
+export const DEFAULT_GENETIC_CONFIG: GeneticConfig = {
+  populationSize: 20,
+  generations: 10,
+  mutationRate: 0.2,
+  eliteCount: 2,
+};
+
+export interface OptimizationParams {
+  strategyName: string;
+  baseParameters?: StrategyParameterValues; // Values for the strategy parameters that are not swept
+  ranges: ParameterRange[];
+  objective: OptimizationObjective;
+  method: OptimizationMethod;
+  maxEvaluations: number; // Grid: largest grid allowed. Random: number of samples. Genetic: cap on distinct runs.
+  genetic?: Partial<GeneticConfig>;
+  collectReturns?: boolean; // Keep each run's bar returns, needed by the overfitting diagnostics
+  backtest: Omit<BacktestParams, 'strategy'>;
+}
+
+export interface OptimizationRun {
+  parameters: StrategyParameterValues;
+  performance: PerformanceMetrics;
+  score: number; // Objective value, or -Infinity when it is undefined for the run
+  returns?: number[]; // Bar-to-bar equity returns, when requested
+}
+
+export interface OptimizationResult {
+  strategyName: string;
+  objective: OptimizationObjective;
+  method: OptimizationMethod;
+  ranges: ParameterRange[];
+  runs: OptimizationRun[]; // Best first
+  generationBest?: number[]; // Genetic only: best score after each generation
+  seed: number;
+  dataSource: string;
+}
+
+// Best objective value over two parameters, taking the best run over any other swept parameters
+export interface ObjectiveHeatmap {
+  xParam: string;
+  yParam: string;
+  xValues: number[];
+  yValues: number[];
+  cells: Array<Array<number | null>>; // cells[y][x]; null where no run landed
+  min: number;
+  max: number;
+}
+
+export function validateParameterRanges(strategyName: string, ranges: ParameterRange[]): void {
+  const strategy = createStrategy(strategyName);
+  if (!strategy) {
+    throw new Error(`Unknown strategy: ${strategyName}`);
+  }
+  if (ranges.length === 0) {
+    throw new Error('Select at least one parameter to optimize');
+  }
+  ranges.forEach(range => {
+    if (typeof strategy.parameters[range.name] !== 'number') {
+      throw new Error(`${strategyName} has no numeric parameter "${range.name}"`);
+    }
+    if (![range.min, range.max, range.step].every(Number.isFinite) || !(range.step > 0) || range.max < range.min) {
+      throw new Error(`Invalid range for ${range.name}: need min <= max and a positive step`);
+    }
+  });
+}
+
+// Decimal places of the step, so lattice values do not pick up floating point noise
+const stepDecimals = (step: number): number => {
+  const text = step.toString();
+  const exponent = text.match(/e-(\d+)$/);
+  if (exponent) return Math.min(12, Number(exponent[1]));
+  return Math.min(12, (text.split('.')[1] ?? '').length);
+};
+
+export function rangeValues(range: ParameterRange): number[] {
+  const count = Math.floor((range.max - range.min) / range.step + 1e-9) + 1;
+  const decimals = stepDecimals(range.step);
+  return Array.from({ length: count }, (_, k) => +(range.min + k * range.step).toFixed(decimals));
+}
+
+export const objectiveScore = (performance: PerformanceMetrics, objective: OptimizationObjective): number => {
+  const value = performance[objective];
+  return Number.isFinite(value) ? value : -Infinity;
+};
+
+// Candidates are index vectors into each range's values; the key identifies a candidate in caches
+type Candidate = number[];
+const candidateKey = (candidate: Candidate): string => candidate.join(',');
+
+// Sweeps run on already-loaded bars, so every candidate sees identical data and walk-forward windows can reuse it
+export async function optimizeOnHistory(
+  params: OptimizationParams,
+  prices: HistoricalPrice[],
+  seed: number,
+  dataSource: string,
+  options: ParallelRunOptions = {}
+): Promise<OptimizationResult> {
+  const { strategyName, ranges, objective, method } = params;
+  validateParameterRanges(strategyName, ranges);
+  if (!(params.maxEvaluations >= 1)) {
+    throw new Error('Evaluation budget must be at least 1');
+  }
+  if (prices.length < 2) {
+    throw new Error('Not enough price data to optimize over');
+  }
+
+  const values = ranges.map(rangeValues);
+  const latticeSize = values.reduce((size, v) => size * v.length, 1);
+  const { dataProvider, startDate, endDate, ...backtest } = params.backtest;
+  const config: BacktestSweepConfig = {
+    strategyName,
+    baseParameters: params.baseParameters ?? {},
+    backtest,
+    prices,
+    seed,
+    dataSource,
+    collectReturns: params.collectReturns
+  };
+  const toParameters = (candidate: Candidate): StrategyParameterValues =>
+    Object.fromEntries(ranges.map((range, i) => [range.name, values[i][candidate[i]]]));
+
+  const evaluated = new Map<string, OptimizationRun>();
+  let completedBefore = 0;
+  let plannedTotal = 1;
+
+  // Runs the candidates not seen yet, in chunks across the pool
+  const evaluate = async (candidates: Candidate[]): Promise<void> => {
+    const fresh = candidates.filter((candidate, i) =>
+      !evaluated.has(candidateKey(candidate)) &&
+      candidates.findIndex(other => candidateKey(other) === candidateKey(candidate)) === i
+    );
+    if (fresh.length === 0) return;
+
+    const tasks: SimulationTask[] = [];
+    for (let start = 0; start < fresh.length; start += OPTIMIZER_CHUNK_SIZE) {
+      tasks.push({
+        kind: 'backtestSweep',
+        config,
+        parameterSets: fresh.slice(start, start + OPTIMIZER_CHUNK_SIZE).map(toParameters)
+      });
+    }
+
+    const results = await getSimulationPool().run(tasks, {
+      signal: options.signal,
+      onProgress: options.onProgress
+        ? (completed) => options.onProgress!(Math.min(1, (completedBefore + completed) / plannedTotal))
+        : undefined
+    });
+    completedBefore += fresh.length;
+
+    const runs = (results as Array<Extract<SimulationTaskResult, { kind: 'backtestSweep' }>>)
+      .flatMap(chunk => chunk.runs);
+    fresh.forEach((candidate, i) => {
+      evaluated.set(candidateKey(candidate), {
+        parameters: toParameters(candidate),
+        performance: runs[i].performance,
+        score: objectiveScore(runs[i].performance, objective),
+        returns: runs[i].returns
+      });
+    });
+  };
+
+  const random = new SeededRandom(deriveSeed(seed, 1));
+  const randomCandidate = (): Candidate => values.map(v => random.nextInt(v.length));
+  let generationBest: number[] | undefined;
+
+  switch (method) {
+    case 'grid': {
+      if (latticeSize > params.maxEvaluations) {
+        throw new Error(
+          `Grid has ${latticeSize} combinations, more than the budget of ${params.maxEvaluations}. ` +
+          'Coarsen the steps, narrow the ranges or use random or genetic search.'
+        );
+      }
+      const grid: Candidate[] = [[]];
+      values.forEach(v => {
+        const expanded = grid.flatMap(prefix => v.map((_, k) => [...prefix, k]));
+        grid.splice(0, grid.length, ...expanded);
+      });
+      plannedTotal = grid.length;
+      await evaluate(grid);
+      break;
+    }
+
+    case 'random': {
+      const samples = Math.min(params.maxEvaluations, latticeSize);
+      const seen = new Set<string>();
+      const candidates: Candidate[] = [];
+      while (candidates.length < samples) {
+        const candidate = randomCandidate();
+        if (seen.has(candidateKey(candidate))) continue;
+        seen.add(candidateKey(candidate));
+        candidates.push(candidate);
+      }
+      plannedTotal = candidates.length;
+      await evaluate(candidates);
+      break;
+    }
+
+    case 'genetic': {
+      generationBest = await runGeneticSearch(
+        { ...DEFAULT_GENETIC_CONFIG, ...params.genetic },
+        values.map(v => v.length),
+        Math.min(params.maxEvaluations, latticeSize),
+        random,
+        {
+          evaluate,
+          isEvaluated: (candidate) => evaluated.has(candidateKey(candidate)),
+          score: (candidate) => evaluated.get(candidateKey(candidate))?.score ?? -Infinity,
+          evaluatedCount: () => evaluated.size,
+          setPlannedTotal: (total) => { plannedTotal = total; }
+        }
+      );
+      break;
+    }
+  }
+
+  options.onProgress?.(1);
+  const runs = Array.from(evaluated.values()).sort((a, b) => b.score - a.score);
+  return { strategyName, objective, method, ranges, runs, generationBest, seed, dataSource };
+}
+
+// Hooks into the optimizer's run cache
+interface GeneticSearchContext {
+  evaluate: (candidates: Candidate[]) => Promise<void>;
+  isEvaluated: (candidate: Candidate) => boolean;
+  score: (candidate: Candidate) => number;
+  evaluatedCount: () => number;
+  setPlannedTotal: (total: number) => void;
+}
+
+// Tournament selection, uniform crossover and step mutation over index vectors, with elitism.
+// Stops early once the distinct-run budget is spent. Returns the best score after each generation.
+async function runGeneticSearch(
+  config: GeneticConfig,
+  sizes: number[],
+  budget: number,
+  random: SeededRandom,
+  context: GeneticSearchContext
+): Promise<number[]> {
+  const { populationSize, generations, mutationRate, eliteCount } = config;
+  const { evaluate, isEvaluated, score, evaluatedCount, setPlannedTotal } = context;
+  if (!(populationSize >= 2) || !(generations >= 1) || !(eliteCount >= 0 && eliteCount < populationSize)) {
+    throw new Error('Genetic search needs a population of at least 2, at least 1 generation and fewer elites than the population');
+  }
+  if (!(mutationRate >= 0 && mutationRate <= 1)) {
+    throw new Error('Mutation rate must be between 0 and 100%');
+  }
+  setPlannedTotal(Math.min(budget, populationSize * generations));
+
+  const randomCandidate = (): Candidate => sizes.map(size => random.nextInt(size));
+  const tournament = (population: Candidate[]): Candidate => {
+    let best = population[random.nextInt(population.length)];
+    for (let i = 1; i < 3; i++) {
+      const challenger = population[random.nextInt(population.length)];
+      if (score(challenger) > score(best)) best = challenger;
+    }
+    return best;
+  };
+  const mutate = (candidate: Candidate): Candidate => candidate.map((k, i) => {
+    if (sizes[i] < 2 || random.next() >= mutationRate) return k;
+    const reach = Math.max(1, Math.round(sizes[i] * 0.1));
+    const shift = (1 + random.nextInt(reach)) * (random.next() < 0.5 ? -1 : 1);
+    return Math.min(sizes[i] - 1, Math.max(0, k + shift));
+  });
+
+  const bestPerGeneration: number[] = [];
+  let population = Array.from({ length: populationSize }, randomCandidate);
+
+  for (let generation = 0; generation < generations; generation++) {
+    // Trim the generation so the number of distinct runs never exceeds the budget
+    const room = budget - evaluatedCount();
+    const seen = new Set<string>();
+    const toRun = population.filter(candidate => {
+      const key = candidateKey(candidate);
+      if (isEvaluated(candidate) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }).slice(0, Math.max(0, room));
+    await evaluate(toRun);
+
+    population.sort((a, b) => score(b) - score(a));
+    bestPerGeneration.push(score(population[0]));
+    if (evaluatedCount() >= budget) break;
+
+    const next = population.slice(0, eliteCount);
+    while (next.length < populationSize) {
+      const a = tournament(population);
+      const b = tournament(population);
+      next.push(mutate(a.map((k, i) => (random.next() < 0.5 ? k : b[i]))));
+    }
+    population = next;
+  }
+
+  return bestPerGeneration;
+}
+
+// Fetch the bars once on the main thread; workers receive them with each task
+export async function loadOptimizationHistory(
+  backtest: OptimizationParams['backtest']
+): Promise<{ prices: HistoricalPrice[]; seed: number; dataSource: string }> {
+  const { symbol, startDate, endDate } = backtest;
+  const seed = backtest.seed ?? generateSeed();
+  const dataProvider = backtest.dataProvider ?? new SyntheticDataProvider();
+  const prices = await dataProvider.getHistory({ symbol, startDate, endDate, seed });
+  return { prices, seed, dataSource: dataProvider.name };
+}
+
+export async function optimizeStrategy(
+  params: OptimizationParams,
+  options: ParallelRunOptions = {}
+): Promise<OptimizationResult> {
+  validateParameterRanges(params.strategyName, params.ranges);
+  const { prices, seed, dataSource } = await loadOptimizationHistory(params.backtest);
+  return optimizeOnHistory(params, prices, seed, dataSource, options);
+}
+
+export function buildObjectiveHeatmap(result: OptimizationResult, xParam: string, yParam: string): ObjectiveHeatmap {
+  const xRange = result.ranges.find(range => range.name === xParam);
+  const yRange = result.ranges.find(range => range.name === yParam);
+  if (!xRange || !yRange) {
+    throw new Error('Heatmap parameters must both be optimized parameters');
+  }
+
+  const xValues = rangeValues(xRange);
+  const yValues = rangeValues(yRange);
+  const cells: Array<Array<number | null>> = yValues.map(() => xValues.map(() => null));
+  result.runs.forEach(run => {
+    if (!Number.isFinite(run.score)) return;
+    const x = xValues.indexOf(run.parameters[xParam] as number);
+    const y = yValues.indexOf(run.parameters[yParam] as number);
+    if (x < 0 || y < 0) return;
+    const current = cells[y][x];
+    if (current === null || run.score > current) cells[y][x] = run.score;
+  });
+
+  const scores = cells.flat().filter((value): value is number => value !== null);
+  return {
+    xParam,
+    yParam,
+    xValues,
+    yValues,
+    cells,
+    min: scores.length > 0 ? Math.min(...scores) : 0,
+    max: scores.length > 0 ? Math.max(...scores) : 0
+  };
+}
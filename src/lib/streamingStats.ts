@@ -0,0 +1,140 @@
+// Mergeable streaming statistics: quantile sketches, running moments and bottom-k path samples.
+// Everything is plain data so chunk results can be posted from workers and merged in any order.
+
+// Relative-error quantile sketch for positive values (DDSketch-style logarithmic buckets)
+export interface QuantileSketch {
+  relativeAccuracy: number;
+  offset: number; // Bucket index of counts[0]
+  counts: number[];
+  nonPositive: number; // Values <= 0 are counted separately and reported as 0
+  count: number;
+}
+
+export interface RunningMoments {
+  count: number;
+  mean: number;
+  m2: number; // Sum of squared deviations from the mean (Welford)
+  min: number;
+  max: number;
+}
+
+// Uniform random sample of paths without replacement: keeps the paths with the smallest random keys
+export interface PathSample {
+  capacity: number;
+  keys: number[]; // Ascending
+  paths: number[][];
+}
+
+// Default sketch accuracy: quantiles are within 0.5% of the true value
+export const DEFAULT_SKETCH_ACCURACY = 0.005;
+
+export function createQuantileSketch(relativeAccuracy: number = DEFAULT_SKETCH_ACCURACY): QuantileSketch {
+  return { relativeAccuracy, offset: 0, counts: [], nonPositive: 0, count: 0 };
+}
+
+const sketchGamma = (sketch: QuantileSketch) => (1 + sketch.relativeAccuracy) / (1 - sketch.relativeAccuracy);
+
+export function addToSketch(sketch: QuantileSketch, value: number, weight: number = 1): void {
+  sketch.count += weight;
+  if (!(value > 0)) {
+    sketch.nonPositive += weight;
+    return;
+  }
+  addToBucket(sketch, Math.ceil(Math.log(value) / Math.log(sketchGamma(sketch))), weight);
+}
+
+function addToBucket(sketch: QuantileSketch, index: number, weight: number): void {
+  if (sketch.counts.length === 0) {
+    sketch.offset = index;
+    sketch.counts.push(0);
+  } else if (index < sketch.offset) {
+    const padding = new Array<number>(sketch.offset - index).fill(0);
+    sketch.counts = padding.concat(sketch.counts);
+    sketch.offset = index;
+  } else if (index >= sketch.offset + sketch.counts.length) {
+    const growth = index - sketch.offset - sketch.counts.length + 1;
+    for (let i = 0; i < growth; i++) sketch.counts.push(0);
+  }
+  sketch.counts[index - sketch.offset] += weight;
+}
+
+// Merge `other` into `target` (both must use the same accuracy)
+export function mergeSketches(target: QuantileSketch, other: QuantileSketch): void {
+  if (target.relativeAccuracy !== other.relativeAccuracy) {
+    throw new Error('Cannot merge quantile sketches with different accuracies');
+  }
+  target.count += other.count;
+  target.nonPositive += other.nonPositive;
+  other.counts.forEach((count, i) => {
+    if (count > 0) addToBucket(target, other.offset + i, count);
+  });
+}
+
+// Value at quantile q (same rank convention as sorted[floor(q * n)])
+export function sketchQuantile(sketch: QuantileSketch, q: number): number {
+  if (sketch.count === 0) return NaN;
+  const rank = Math.min(sketch.count - 1, Math.floor(q * sketch.count));
+  if (rank < sketch.nonPositive) return 0;
+
+  const gamma = sketchGamma(sketch);
+  let cumulative = sketch.nonPositive;
+  for (let i = 0; i < sketch.counts.length; i++) {
+    cumulative += sketch.counts[i];
+    if (cumulative > rank) {
+      return (2 * Math.pow(gamma, sketch.offset + i)) / (gamma + 1);
+    }
+  }
+  return (2 * Math.pow(gamma, sketch.offset + sketch.counts.length - 1)) / (gamma + 1);
+}
+
+export function createRunningMoments(): RunningMoments {
+  return { count: 0, mean: 0, m2: 0, min: Infinity, max: -Infinity };
+}
+
+export function addToMoments(moments: RunningMoments, value: number): void {
+  moments.count++;
+  const delta = value - moments.mean;
+  moments.mean += delta / moments.count;
+  moments.m2 += delta * (value - moments.mean);
+  if (value < moments.min) moments.min = value;
+  if (value > moments.max) moments.max = value;
+}
+
+// Chan et al. parallel combination of two sets of moments
+export function mergeMoments(target: RunningMoments, other: RunningMoments): void {
+  if (other.count === 0) return;
+  const count = target.count + other.count;
+  const delta = other.mean - target.mean;
+  target.m2 += other.m2 + (delta * delta * target.count * other.count) / count;
+  target.mean += (delta * other.count) / count;
+  target.count = count;
+  target.min = Math.min(target.min, other.min);
+  target.max = Math.max(target.max, other.max);
+}
+
+// Sample variance (n - 1 denominator)
+export const momentsVariance = (moments: RunningMoments): number =>
+  moments.count > 1 ? moments.m2 / (moments.count - 1) : 0;
+
+export function createPathSample(capacity: number): PathSample {
+  return { capacity, keys: [], paths: [] };
+}
+
+// Offer a path with a uniform random key; it is kept if its key is among the `capacity` smallest
+export function offerPath(sample: PathSample, key: number, path: number[]): void {
+  if (sample.keys.length >= sample.capacity && key >= sample.keys[sample.keys.length - 1]) return;
+
+  let position = sample.keys.length;
+  while (position > 0 && sample.keys[position - 1] > key) position--;
+  sample.keys.splice(position, 0, key);
+  sample.paths.splice(position, 0, path);
+
+  if (sample.keys.length > sample.capacity) {
+    sample.keys.pop();
+    sample.paths.pop();
+  }
+}
+
+export function mergePathSamples(target: PathSample, other: PathSample): void {
+  other.keys.forEach((key, i) => offerPath(target, key, other.paths[i]));
+}
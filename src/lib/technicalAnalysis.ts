@@ -1,4 +1,6 @@
 // Advanced Technical Analysis Library
+import { SeededRandom, generateSeed } from './random';
+import { MarketSession, US_EQUITY_SESSION, zonedTime } from './resampling';
 
 export interface CandlestickData {
   time: string;
@@ -97,12 +99,13 @@ export class TechnicalAnalysis {
     
     const macdLine: { time: string; value: number }[] = [];
     
-    // Calculate MACD line
-    const startIndex = Math.max(fastEMA.length, slowEMA.length) - Math.min(fastEMA.length, slowEMA.length);
-    for (let i = startIndex; i < Math.min(fastEMA.length, slowEMA.length); i++) {
+    // Calculate MACD line; both EMAs end on the last bar, so the longer one is offset by the difference
+    const fastOffset = Math.max(0, fastEMA.length - slowEMA.length);
+    const slowOffset = Math.max(0, slowEMA.length - fastEMA.length);
+    for (let i = 0; i < Math.min(fastEMA.length, slowEMA.length); i++) {
       macdLine.push({
-        time: fastEMA[i].time,
-        value: fastEMA[i].value - slowEMA[i].value
+        time: slowEMA[i + slowOffset].time,
+        value: fastEMA[i + fastOffset].value - slowEMA[i + slowOffset].value
       });
     }
     
@@ -246,9 +249,10 @@ export class TechnicalAnalysis {
   }
 
   // Generate sample market data
-  static generateSampleData(symbol: string, days: number = 252): CandlestickData[] {
+  static generateSampleData(symbol: string, days: number = 252, seed: number = generateSeed()): CandlestickData[] {
     const data: CandlestickData[] = [];
-    let basePrice = 100 + Math.random() * 400; // Random starting price between 100-500
+    const rng = new SeededRandom(seed);
+    let basePrice = 100 + rng.next() * 400; // Random starting price between 100-500
     
     for (let i = 0; i < days; i++) {
       const date = new Date();
@@ -256,19 +260,19 @@ export class TechnicalAnalysis {
       
       // Generate price movement with some trend and volatility
       const trend = Math.sin(i / 50) * 0.002; // Long-term trend
-      const volatility = 0.02 + Math.random() * 0.03; // 2-5% daily volatility
-      const change = (Math.random() - 0.5) * volatility + trend;
+      const volatility = 0.02 + rng.next() * 0.03; // 2-5% daily volatility
+      const change = (rng.next() - 0.5) * volatility + trend;
       
       const open = i === 0 ? basePrice : data[i - 1].close;
       const close = open * (1 + change);
       
       // Generate high/low based on volatility
-      const dayRange = Math.abs(close - open) + (Math.random() * open * 0.01);
-      const high = Math.max(open, close) + Math.random() * dayRange;
-      const low = Math.min(open, close) - Math.random() * dayRange;
+      const dayRange = Math.abs(close - open) + (rng.next() * open * 0.01);
+      const high = Math.max(open, close) + rng.next() * dayRange;
+      const low = Math.min(open, close) - rng.next() * dayRange;
       
       // Generate volume (higher volume on bigger moves)
-      const baseVolume = 1000000 + Math.random() * 2000000;
+      const baseVolume = 1000000 + rng.next() * 2000000;
       const volumeMultiplier = 1 + Math.abs(change) * 10;
       const volume = Math.floor(baseVolume * volumeMultiplier);
       
@@ -286,4 +290,60 @@ export class TechnicalAnalysis {
     
     return data;
   }
+
+  // Intraday bars for the most recent weekday sessions, timestamped in UTC. Moves and volume shrink with the
+  // bar length so a day of bars has roughly the range and volume of one daily bar.
+  static generateIntradaySampleData(
+    symbol: string,
+    sessions: number,
+    intervalMinutes: number,
+    seed: number = generateSeed(),
+    session: MarketSession = US_EQUITY_SESSION
+  ): CandlestickData[] {
+    const [openHour, openMinute] = session.open.split(':').map(Number);
+    const [closeHour, closeMinute] = session.close.split(':').map(Number);
+    const sessionMinutes = closeHour * 60 + closeMinute - (openHour * 60 + openMinute);
+    if (!(intervalMinutes > 0) || intervalMinutes > sessionMinutes) {
+      throw new Error(`Bar interval must be between 1 and ${sessionMinutes} minutes`);
+    }
+
+    // Most recent weekdays before today, oldest first
+    const days: string[] = [];
+    const day = new Date();
+    while (days.length < sessions) {
+      day.setUTCDate(day.getUTCDate() - 1);
+      if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) days.unshift(day.toISOString().split('T')[0]);
+    }
+
+    const data: CandlestickData[] = [];
+    const rng = new SeededRandom(seed);
+    const scale = Math.sqrt(intervalMinutes / 390);
+    let price = 100 + rng.next() * 400;
+
+    days.forEach(date => {
+      const open = zonedTime(date, openHour * 60 + openMinute, session.timeZone).getTime();
+      for (let minute = 0; minute < sessionMinutes; minute += intervalMinutes) {
+        const volatility = (0.02 + rng.next() * 0.03) * scale;
+        const change = (rng.next() - 0.5) * volatility;
+        const barOpen = price;
+        const close = barOpen * (1 + change);
+        const range = Math.abs(close - barOpen) + rng.next() * barOpen * 0.01 * scale;
+        const high = Math.max(barOpen, close) + rng.next() * range;
+        const low = Math.min(barOpen, close) - rng.next() * range;
+        const volume = Math.floor((1000000 + rng.next() * 2000000) * (1 + Math.abs(change) * 10) * intervalMinutes / 390);
+
+        data.push({
+          time: new Date(open + minute * 60000).toISOString(),
+          open: Number(barOpen.toFixed(2)),
+          high: Number(high.toFixed(2)),
+          low: Number(low.toFixed(2)),
+          close: Number(close.toFixed(2)),
+          volume
+        });
+        price = close;
+      }
+    });
+
+    return data;
+  }
 }
\ No newline at end of file
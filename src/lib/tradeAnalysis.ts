@@ -0,0 +1,237 @@
+// FIFO pairing of fills into round-trip trades, and the trade statistics derived from them
+import { HistoricalPrice, PositionSide, Trade, TradeReason } from './backtesting';
+
+export interface RoundTripTrade {
+  id: string;
+  symbol: string;
+  side: PositionSide;
+  entryDate: string;
+  exitDate: string;
+  entryPrice: number; // Fill prices, including slippage; the entry is restated per post-split share after a split
+  exitPrice: number;
+  quantity: number;
+  commission: number; // Entry and exit commissions and fees allocated to this quantity
+  borrowFees: number; // Short borrow fees accrued while open
+  dividends: number; // Received while long, negative when paid while short
+  pnl: number; // Net of commissions, fees and borrow fees, including dividends
+  returnPct: number; // P&L relative to the capital committed at entry
+  holdingPeriod: number; // Bars from entry to exit
+  exitReason: TradeReason; // Strategy signal, risk rule or margin call that closed the trade
+  mae: number; // Maximum adverse excursion while open, as a fraction of the entry price (<= 0)
+  mfe: number; // Maximum favorable excursion while open, as a fraction of the entry price (>= 0)
+}
+
+export interface TradeStatistics {
+  totalTrades: number;
+  winRate: number;
+  profitFactor: number;
+  avgTrade: number;
+  bestTrade: number;
+  worstTrade: number;
+  avgWinningTrade: number;
+  avgLosingTrade: number;
+  consecutiveWins: number;
+  consecutiveLosses: number;
+  avgHoldingPeriod: number;
+}
+
+interface OpenLot {
+  trade: Trade;
+  barIndex: number;
+  price: number; // Entry price per current share (the fill price divided by any later splits)
+  quantity: number; // Still open
+  commission: number; // Entry commission and fees not yet allocated to a closed round trip
+  borrowFees: number; // Accrued borrow fees not yet allocated to a closed round trip
+  dividends: number; // Dividends received or paid and not yet allocated to a closed round trip
+  scanFrom: number; // First bar whose range counts toward the excursions; earlier bars are in low/high
+  low: number; // Extremes of the bars before scanFrom, per current share
+  high: number;
+}
+
+// Tracks open lots for one symbol, all on the same side; each exit closes the oldest lots first,
+// so a partial exit or a scaled-in position yields one round trip per lot portion
+export class RoundTripTracker {
+  readonly roundTrips: RoundTripTrade[] = [];
+  private prices: HistoricalPrice[];
+  private lots: OpenLot[] = [];
+
+  constructor(prices: HistoricalPrice[]) {
+    this.prices = prices;
+  }
+
+  get openQuantity(): number {
+    return this.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  }
+
+  get openSide(): PositionSide | undefined {
+    return this.lots[0]?.trade.side;
+  }
+
+  open(trade: Trade, barIndex: number): void {
+    if (this.openSide && this.openSide !== trade.side) {
+      throw new Error(`Cannot open a ${trade.side} lot in ${trade.symbol} while ${this.openSide} lots are open`);
+    }
+    this.lots.push({
+      trade,
+      barIndex,
+      price: trade.price,
+      quantity: trade.quantity,
+      commission: trade.commission + trade.fees,
+      borrowFees: 0,
+      dividends: 0,
+      // Entries fill at the bar's open or within its range, so the entry bar counts toward the excursions
+      scanFrom: barIndex,
+      low: Infinity,
+      high: -Infinity
+    });
+  }
+
+  // Cash dividend on every open lot: received by longs, paid by shorts
+  creditDividend(amountPerShare: number): void {
+    const direction = this.openSide === 'SHORT' ? -1 : 1;
+    this.lots.forEach(lot => {
+      lot.dividends += direction * amountPerShare * lot.quantity;
+    });
+  }
+
+  // Stock split effective at bar `index`: each lot keeps its whole shares (the engine pays the fractions in cash)
+  // and its entry price and the bars seen so far are restated per new share. Returns the new open quantity.
+  applySplit(ratio: number, index: number): number {
+    this.lots.forEach(lot => {
+      for (let i = lot.scanFrom; i < index; i++) {
+        lot.low = Math.min(lot.low, this.prices[i].low);
+        lot.high = Math.max(lot.high, this.prices[i].high);
+      }
+      lot.low /= ratio;
+      lot.high /= ratio;
+      lot.scanFrom = index;
+      lot.price /= ratio;
+      lot.quantity = Math.floor(lot.quantity * ratio + 1e-9);
+    });
+    // A lot rounded down to nothing is settled entirely by the cash in lieu
+    this.lots = this.lots.filter(lot => lot.quantity > 0);
+    return this.openQuantity;
+  }
+
+  // Spread a borrow fee over the open lots by quantity
+  chargeBorrowFees(amount: number): void {
+    const total = this.openQuantity;
+    if (total === 0) return;
+    this.lots.forEach(lot => {
+      lot.borrowFees += amount * (lot.quantity / total);
+    });
+  }
+
+  // Close `trade.quantity` units against open lots; returns the round trips completed by this fill
+  close(trade: Trade, barIndex: number): RoundTripTrade[] {
+    if (trade.quantity > this.openQuantity || trade.side !== this.openSide) {
+      throw new Error(`Cannot close ${trade.quantity} ${trade.side} ${trade.symbol}: only ${this.openQuantity} ${this.openSide ?? ''} open`);
+    }
+
+    const closed: RoundTripTrade[] = [];
+    let remaining = trade.quantity;
+    while (remaining > 0) {
+      const lot = this.lots[0];
+      const quantity = Math.min(lot.quantity, remaining);
+      const entryCommission = lot.commission * (quantity / lot.quantity);
+      const exitCommission = (trade.commission + trade.fees) * (quantity / trade.quantity);
+      const commission = entryCommission + exitCommission;
+      const borrowFees = lot.borrowFees * (quantity / lot.quantity);
+      const dividends = lot.dividends * (quantity / lot.quantity);
+      const direction = trade.side === 'LONG' ? 1 : -1;
+      const pnl = direction * (trade.price - lot.price) * quantity - commission - borrowFees + dividends;
+      const { mae, mfe } = this.excursions(trade.side, lot, barIndex, trade.price);
+
+      closed.push({
+        id: `${lot.trade.id}_${trade.id}`,
+        symbol: trade.symbol,
+        side: trade.side,
+        entryDate: lot.trade.timestamp,
+        exitDate: trade.timestamp,
+        entryPrice: lot.price,
+        exitPrice: trade.price,
+        quantity,
+        commission,
+        borrowFees,
+        dividends,
+        pnl,
+        returnPct: pnl / (lot.price * quantity + entryCommission),
+        holdingPeriod: barIndex - lot.barIndex,
+        exitReason: trade.reason,
+        mae,
+        mfe
+      });
+
+      lot.quantity -= quantity;
+      lot.commission -= entryCommission;
+      lot.borrowFees -= borrowFees;
+      lot.dividends -= dividends;
+      remaining -= quantity;
+      if (lot.quantity === 0) this.lots.shift();
+    }
+
+    this.roundTrips.push(...closed);
+    return closed;
+  }
+
+  // Worst and best prices seen from the entry bar up to and including the exit fill;
+  // for a short the adverse excursion is the highest price and the favorable one the lowest
+  private excursions(side: PositionSide, lot: OpenLot, exitIndex: number, exitPrice: number): { mae: number; mfe: number } {
+    const entryPrice = lot.price;
+    let lowest = Math.min(exitPrice, lot.low);
+    let highest = Math.max(exitPrice, lot.high);
+    for (let i = lot.scanFrom; i <= exitIndex; i++) {
+      lowest = Math.min(lowest, this.prices[i].low);
+      highest = Math.max(highest, this.prices[i].high);
+    }
+    if (side === 'SHORT') {
+      return {
+        mae: Math.min(0, 1 - highest / entryPrice),
+        mfe: Math.max(0, 1 - lowest / entryPrice),
+      };
+    }
+    return {
+      mae: Math.min(0, lowest / entryPrice - 1),
+      mfe: Math.max(0, highest / entryPrice - 1),
+    };
+  }
+}
+
+// Statistics over closed round trips, in exit order
+export function calculateTradeStatistics(roundTrips: RoundTripTrade[]): TradeStatistics {
+  const wins = roundTrips.filter(trip => trip.pnl > 0);
+  const losses = roundTrips.filter(trip => trip.pnl <= 0);
+  const grossProfit = wins.reduce((sum, trip) => sum + trip.pnl, 0);
+  const grossLoss = -losses.reduce((sum, trip) => sum + trip.pnl, 0);
+
+  let consecutiveWins = 0;
+  let consecutiveLosses = 0;
+  let winStreak = 0;
+  let lossStreak = 0;
+  roundTrips.forEach(trip => {
+    if (trip.pnl > 0) {
+      winStreak++;
+      lossStreak = 0;
+    } else {
+      lossStreak++;
+      winStreak = 0;
+    }
+    consecutiveWins = Math.max(consecutiveWins, winStreak);
+    consecutiveLosses = Math.max(consecutiveLosses, lossStreak);
+  });
+
+  const n = roundTrips.length;
+  return {
+    totalTrades: n,
+    winRate: n > 0 ? wins.length / n : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Infinity : 0,
+    avgTrade: n > 0 ? (grossProfit - grossLoss) / n : 0,
+    bestTrade: n > 0 ? Math.max(...roundTrips.map(trip => trip.pnl)) : 0,
+    worstTrade: n > 0 ? Math.min(...roundTrips.map(trip => trip.pnl)) : 0,
+    avgWinningTrade: wins.length > 0 ? grossProfit / wins.length : 0,
+    avgLosingTrade: losses.length > 0 ? -grossLoss / losses.length : 0,
+    consecutiveWins,
+    consecutiveLosses,
+    avgHoldingPeriod: n > 0 ? roundTrips.reduce((sum, trip) => sum + trip.holdingPeriod, 0) / n : 0,
+  };
+}
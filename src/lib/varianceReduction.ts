@@ -0,0 +1,125 @@
+// Variance reduction for Monte Carlo paths and batch-means standard errors
+import { SeededRandom } from './random';
+import { SobolSequence, BrownianBridge, inverseNormalCDF, MAX_SOBOL_DIMENSIONS } from './quasiRandom';
+
+export type VarianceReductionMethod = 'none' | 'antithetic' | 'controlVariate' | 'sobol';
+
+export const VARIANCE_REDUCTION_LABELS: Record<VarianceReductionMethod, string> = {
+  none: 'None (Pseudo-Random)',
+  antithetic: 'Antithetic Variates',
+  controlVariate: 'Control Variate (GBM Mean)',
+  sobol: 'Sobol + Brownian Bridge',
+};
+
+// Independent batches per simulated chunk; standard errors come from the spread of batch estimates
+export const DEFAULT_BATCH_COUNT = 10;
+
+// Supplies the primary normal shock for each day of each path
+export interface ShockSource {
+  // Called once per path before its first day
+  startPath(): (day: number) => number;
+}
+
+// Plain pseudo-random shocks, drawn lazily so other draws (jumps, regimes) interleave as before
+const pseudoRandomShocks = (rng: SeededRandom): ShockSource => ({
+  startPath: () => () => rng.normal(),
+});
+
+// Every second path replays the previous path's shocks with the opposite sign
+const antitheticShocks = (rng: SeededRandom, horizon: number): ShockSource => {
+  const shocks = new Array<number>(horizon);
+  let pathIndex = 0;
+  return {
+    startPath: () => {
+      const mirrored = pathIndex++ % 2 === 1;
+      return (day) => {
+        if (mirrored) return -shocks[day];
+        shocks[day] = rng.normal();
+        return shocks[day];
+      };
+    },
+  };
+};
+
+// Randomized Sobol points mapped to normals and ordered through a Brownian bridge.
+// Each batch gets a fresh digital shift so batches are independent replicates.
+const sobolShocks = (rng: SeededRandom, horizon: number, batchSizes: number[]): ShockSource => {
+  const sobolDimensions = Math.min(horizon, MAX_SOBOL_DIMENSIONS);
+  const bridge = new BrownianBridge(horizon);
+  let sequence: SobolSequence | null = null;
+  let batch = 0;
+  let remainingInBatch = 0;
+
+  return {
+    startPath: () => {
+      if (remainingInBatch === 0) {
+        const shift = new Uint32Array(sobolDimensions);
+        for (let d = 0; d < sobolDimensions; d++) shift[d] = rng.nextUint32();
+        sequence = new SobolSequence(sobolDimensions, shift);
+        remainingInBatch = batchSizes[batch++] ?? Infinity;
+      }
+      remainingInBatch--;
+
+      const normals = sequence!.next().map(inverseNormalCDF);
+      for (let d = sobolDimensions; d < horizon; d++) normals.push(rng.normal());
+      const increments = bridge.buildIncrements(normals);
+      return (day) => increments[day];
+    },
+  };
+};
+
+export function createShockSource(
+  method: VarianceReductionMethod,
+  rng: SeededRandom,
+  horizon: number,
+  batchSizes: number[]
+): ShockSource {
+  switch (method) {
+    case 'antithetic':
+      return antitheticShocks(rng, horizon);
+    case 'sobol':
+      return sobolShocks(rng, horizon, batchSizes);
+    default:
+      return pseudoRandomShocks(rng);
+  }
+}
+
+// Split paths into contiguous batches; antithetic batches keep each pair together
+export function planBatches(numPaths: number, batchCount: number, method: VarianceReductionMethod): number[] {
+  const unit = method === 'antithetic' ? 2 : 1;
+  const units = Math.ceil(numPaths / unit);
+  const batches = Math.max(1, Math.min(batchCount, units));
+  const sizes: number[] = [];
+  let assigned = 0;
+
+  for (let b = 0; b < batches; b++) {
+    const end = Math.round(((b + 1) * units) / batches);
+    sizes.push(Math.min((end - Math.round((b * units) / batches)) * unit, numPaths - assigned));
+    assigned += sizes[b];
+  }
+  return sizes.filter(size => size > 0);
+}
+
+// Regression coefficient of the target on the control (zero when the control is degenerate)
+export function controlVariateBeta(target: number[], control: number[]): number {
+  const n = target.length;
+  const meanTarget = target.reduce((sum, x) => sum + x, 0) / n;
+  const meanControl = control.reduce((sum, y) => sum + y, 0) / n;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (target[i] - meanTarget) * (control[i] - meanControl);
+    variance += (control[i] - meanControl) * (control[i] - meanControl);
+  }
+  return variance > 0 ? covariance / variance : 0;
+}
+
+// Standard error of an estimator from its values on independent batches (batch means)
+export function batchStandardError(estimates: number[]): number {
+  const b = estimates.length;
+  if (b < 2) return NaN;
+  const mean = estimates.reduce((sum, x) => sum + x, 0) / b;
+  const variance = estimates.reduce((sum, x) => sum + (x - mean) * (x - mean), 0) / (b - 1);
+  return Math.sqrt(variance / b);
+}
@@ -0,0 +1,207 @@
+// Walk-forward analysis: re-optimize on each in-sample window, trade the winner on the following
+// out-of-sample window, and stitch the out-of-sample runs into one equity curve
+import { BacktestEngine, PerformanceMetrics, calculatePerformanceMetrics, createStrategy } from './backtesting';
+import { StrategyParameterValues } from './backtestSweep';
+import { RoundTripTrade } from './tradeAnalysis';
+import { ParallelRunOptions } from './parallelSimulation';
+import {
+  OptimizationObjective,
+  OptimizationParams,
+  loadOptimizationHistory,
+  optimizeOnHistory,
+  validateParameterRanges
+} from './strategyOptimizer';
+import {
+  BacktestOverfittingResult,
+  DeflatedSharpeResult,
+  deflatedSharpeRatio,
+  perBarSharpe,
+  probabilityOfBacktestOverfitting
+} from './overfitting';
+
+// Rolling windows keep a fixed in-sample length; anchored windows all start at the first bar and grow
+export type WalkForwardMode = 'rolling' | 'anchored';
+
+export const WALK_FORWARD_MODE_LABELS: Record<WalkForwardMode, string> = {
+  rolling: 'Rolling',
+  anchored: 'Anchored',
+};
+
+export interface WalkForwardParams {
+  optimization: OptimizationParams; // Search, objective and backtest setup; its dates span the whole analysis
+  mode: WalkForwardMode;
+  inSampleBars: number;
+  outOfSampleBars: number;
+  cscvBlocks?: number; // Blocks for the PBO estimate, even; defaults to 16
+}
+
+// Bar index ranges, end exclusive
+export interface WalkForwardSplit {
+  inSampleStart: number;
+  inSampleEnd: number;
+  outOfSampleEnd: number;
+}
+
+export interface WalkForwardWindow {
+  inSample: { start: string; end: string };
+  outOfSample: { start: string; end: string };
+  parameters: StrategyParameterValues; // Best in-sample parameters, traded out of sample
+  inSampleScore: number;
+  inSamplePerformance: PerformanceMetrics;
+  outOfSamplePerformance: PerformanceMetrics;
+  efficiency: number | null; // Out-of-sample over in-sample annualized return; null when in-sample did not make money
+}
+
+export interface OverfittingDiagnostics extends DeflatedSharpeResult {
+  cscv: BacktestOverfittingResult;
+}
+
+export interface WalkForwardResult {
+  mode: WalkForwardMode;
+  objective: OptimizationObjective;
+  windows: WalkForwardWindow[];
+  portfolioValues: Array<{ date: string; value: number; drawdown: number }>; // Stitched out-of-sample equity
+  roundTrips: RoundTripTrade[];
+  performance: PerformanceMetrics; // Of the stitched out-of-sample curve
+  efficiency: number | null; // Stitched out-of-sample annualized return over the mean in-sample one
+  overfitting: OverfittingDiagnostics | null; // From a search over the full period; null with fewer than 2 trials
+  seed: number;
+  dataSource: string;
+}
+
+// Windows step forward by the out-of-sample length; the last one may be shorter but needs at least 2 bars
+export function buildWalkForwardSplits(
+  barCount: number,
+  mode: WalkForwardMode,
+  inSampleBars: number,
+  outOfSampleBars: number
+): WalkForwardSplit[] {
+  if (!Number.isInteger(inSampleBars) || !Number.isInteger(outOfSampleBars) || inSampleBars < 2 || outOfSampleBars < 2) {
+    throw new Error('In-sample and out-of-sample windows must be whole numbers of at least 2 bars');
+  }
+
+  const splits: WalkForwardSplit[] = [];
+  for (let inSampleEnd = inSampleBars; barCount - inSampleEnd >= 2; inSampleEnd += outOfSampleBars) {
+    splits.push({
+      inSampleStart: mode === 'rolling' ? inSampleEnd - inSampleBars : 0,
+      inSampleEnd,
+      outOfSampleEnd: Math.min(barCount, inSampleEnd + outOfSampleBars)
+    });
+  }
+  if (splits.length === 0) {
+    throw new Error(`Need more than ${inSampleBars + 1} bars for one walk-forward window, got ${barCount}`);
+  }
+  return splits;
+}
+
+const efficiencyRatio = (outOfSample: number, inSample: number): number | null =>
+  inSample > 0 && Number.isFinite(outOfSample) ? outOfSample / inSample : null;
+
+export async function runWalkForwardAnalysis(
+  params: WalkForwardParams,
+  options: ParallelRunOptions = {}
+): Promise<WalkForwardResult> {
+  const { optimization, mode, inSampleBars, outOfSampleBars } = params;
+  validateParameterRanges(optimization.strategyName, optimization.ranges);
+  const { prices, seed, dataSource } = await loadOptimizationHistory(optimization.backtest);
+  const splits = buildWalkForwardSplits(prices.length, mode, inSampleBars, outOfSampleBars);
+
+  // One step per window plus the full-period search used for the overfitting diagnostics
+  const steps = splits.length + 1;
+  const stepOptions = (step: number): ParallelRunOptions => ({
+    signal: options.signal,
+    onProgress: options.onProgress ? (fraction) => options.onProgress!((step + fraction) / steps) : undefined
+  });
+
+  const engine = new BacktestEngine();
+  const { dataProvider, startDate, endDate, ...backtest } = optimization.backtest;
+  const windows: WalkForwardWindow[] = [];
+  const portfolioValues: WalkForwardResult['portfolioValues'] = [];
+  const roundTrips: RoundTripTrade[] = [];
+  let capital = optimization.backtest.initialCapital;
+
+  for (let step = 0; step < splits.length; step++) {
+    const { inSampleStart, inSampleEnd, outOfSampleEnd } = splits[step];
+    const inSamplePrices = prices.slice(inSampleStart, inSampleEnd);
+    const search = await optimizeOnHistory(optimization, inSamplePrices, seed, dataSource, stepOptions(step));
+    const best = search.runs[0];
+
+    // The bars before the window are indicator history only, so the strategy starts fully warmed up
+    const strategy = createStrategy(optimization.strategyName, { ...optimization.baseParameters, ...best.parameters });
+    if (!strategy) {
+      throw new Error(`Unknown strategy: ${optimization.strategyName}`);
+    }
+    Object.assign(strategy.parameters, best.parameters);
+    const outOfSampleStart = inSampleEnd;
+    const warmupStart = Math.max(0, outOfSampleStart - inSampleBars);
+    const windowPrices = prices.slice(warmupStart, outOfSampleEnd);
+    const run = engine.runOnHistory({
+      ...backtest,
+      startDate: windowPrices[0].date,
+      endDate: windowPrices[windowPrices.length - 1].date,
+      initialCapital: capital,
+      strategy,
+      warmupBars: outOfSampleStart - warmupStart
+    }, windowPrices, seed, dataSource);
+
+    // Each window starts flat with the equity the previous one ended with; an open position is valued at the last close
+    portfolioValues.push(...run.portfolioValues);
+    roundTrips.push(...run.roundTrips);
+    capital = run.portfolioValues[run.portfolioValues.length - 1]?.value ?? capital;
+
+    windows.push({
+      inSample: { start: prices[inSampleStart].date, end: prices[inSampleEnd - 1].date },
+      outOfSample: { start: prices[outOfSampleStart].date, end: prices[outOfSampleEnd - 1].date },
+      parameters: best.parameters,
+      inSampleScore: best.score,
+      inSamplePerformance: best.performance,
+      outOfSamplePerformance: run.performance,
+      efficiency: efficiencyRatio(run.performance.annualizedReturn, best.performance.annualizedReturn)
+    });
+  }
+
+  // Drawdowns are measured against the peak of the stitched curve, not each window's own peak
+  let peak = -Infinity;
+  portfolioValues.forEach(point => {
+    peak = Math.max(peak, point.value);
+    point.drawdown = peak > 0 ? (peak - point.value) / peak : 0;
+  });
+  const performance = calculatePerformanceMetrics(roundTrips, portfolioValues, optimization.backtest.initialCapital);
+  const meanInSampleReturn = windows.reduce((sum, w) => sum + w.inSamplePerformance.annualizedReturn, 0) / windows.length;
+
+  const fullPeriod = await optimizeOnHistory(
+    { ...optimization, collectReturns: true },
+    prices,
+    seed,
+    dataSource,
+    stepOptions(splits.length)
+  );
+  options.onProgress?.(1);
+
+  return {
+    mode,
+    objective: optimization.objective,
+    windows,
+    portfolioValues,
+    roundTrips,
+    performance,
+    efficiency: efficiencyRatio(performance.annualizedReturn, meanInSampleReturn),
+    overfitting: overfittingDiagnostics(fullPeriod.runs.map(run => run.returns ?? []), params.cscvBlocks ?? 16),
+    seed,
+    dataSource
+  };
+}
+
+// The first series is the selected (best) trial
+function overfittingDiagnostics(returnsByTrial: number[][], blocks: number): OverfittingDiagnostics | null {
+  if (returnsByTrial.length < 2) return null;
+  const length = Math.min(...returnsByTrial.map(returns => returns.length));
+  // Short histories cannot fill the requested blocks; fall back to the largest even count that fits
+  const usableBlocks = Math.min(blocks, Math.floor(length / 4) * 2);
+  if (usableBlocks < 2) return null;
+
+  return {
+    ...deflatedSharpeRatio(returnsByTrial[0], returnsByTrial.map(perBarSharpe)),
+    cscv: probabilityOfBacktestOverfitting(returnsByTrial, usableBlocks)
+  };
+}
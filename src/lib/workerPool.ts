@@ -0,0 +1,208 @@
+// Generic Web Worker pool with progress reporting and cancellation
+
+export interface WorkerPoolRunOptions {
+  // Called with the total units (e.g. simulated paths) completed across all tasks
+  onProgress?: (completed: number) => void;
+  signal?: AbortSignal;
+}
+
+// Messages exchanged with pool workers
+export interface WorkerTaskRequest<TTask> {
+  id: number;
+  task: TTask;
+}
+
+export type WorkerTaskResponse<TResult> =
+  | { id: number; type: 'progress'; completed: number }
+  | { id: number; type: 'result'; result: TResult }
+  | { id: number; type: 'error'; message: string };
+
+export type InlineTaskExecutor<TTask, TResult> = (
+  task: TTask,
+  onProgress: (completed: number) => void
+) => TResult;
+
+// Error raised when a run is cancelled through its AbortSignal
+export const createAbortError = (message: string = 'Simulation cancelled'): DOMException =>
+  new DOMException(message, 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+
+// Leave one core for the UI thread, never spawn more than eight workers
+export const defaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 4;
+  return Math.max(1, Math.min(8, cores - 1));
+};
+
+// Handle a task request inside a worker; used by worker entry points
+export function handleWorkerTask<TTask, TResult>(
+  scope: { postMessage: (message: WorkerTaskResponse<TResult>) => void },
+  request: WorkerTaskRequest<TTask>,
+  execute: InlineTaskExecutor<TTask, TResult>
+): void {
+  try {
+    const result = execute(request.task, (completed) => {
+      scope.postMessage({ id: request.id, type: 'progress', completed });
+    });
+    scope.postMessage({ id: request.id, type: 'result', result });
+  } catch (error) {
+    scope.postMessage({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unknown worker error'
+    });
+  }
+}
+
+export class WorkerPool<TTask, TResult> {
+  private idleWorkers: Worker[] = [];
+
+  constructor(
+    private createWorker: () => Worker,
+    private executeInline: InlineTaskExecutor<TTask, TResult>,
+    private size: number = defaultPoolSize()
+  ) {}
+
+  get workerCount(): number {
+    return this.size;
+  }
+
+  // Run every task, resolving with results in task order
+  run(tasks: TTask[], options: WorkerPoolRunOptions = {}): Promise<TResult[]> {
+    if (typeof Worker === 'undefined') {
+      return this.runInline(tasks, options);
+    }
+
+    const { onProgress, signal } = options;
+
+    return new Promise<TResult[]>((resolve, reject) => {
+      const results: TResult[] = new Array(tasks.length);
+      const progress: number[] = new Array(tasks.length).fill(0);
+      const busy = new Map<Worker, number>();
+      let nextTask = 0;
+      let finished = 0;
+      let settled = false;
+
+      const reportProgress = () => {
+        onProgress?.(progress.reduce((sum, value) => sum + value, 0));
+      };
+
+      const settle = (error?: unknown) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener('abort', onAbort);
+
+        // Workers still running a task cannot be reused safely
+        busy.forEach((_, worker) => worker.terminate());
+        busy.clear();
+
+        if (error) reject(error);
+        else resolve(results);
+      };
+
+      const onAbort = () => settle(createAbortError());
+
+      const dispatch = (worker: Worker) => {
+        if (settled) {
+          this.release(worker);
+          return;
+        }
+        if (nextTask >= tasks.length) {
+          busy.delete(worker);
+          this.release(worker);
+          return;
+        }
+
+        const taskIndex = nextTask++;
+        busy.set(worker, taskIndex);
+
+        worker.onmessage = (event: MessageEvent<WorkerTaskResponse<TResult>>) => {
+          const message = event.data;
+          if (settled || message.id !== taskIndex) return;
+
+          if (message.type === 'progress') {
+            progress[taskIndex] = message.completed;
+            reportProgress();
+          } else if (message.type === 'result') {
+            results[taskIndex] = message.result;
+            finished++;
+            if (finished === tasks.length) {
+              busy.delete(worker);
+              this.release(worker);
+              settle();
+            } else {
+              dispatch(worker);
+            }
+          } else {
+            settle(new Error(message.message));
+          }
+        };
+
+        worker.onerror = (event: ErrorEvent) => {
+          event.preventDefault();
+          settle(new Error(event.message || 'Simulation worker failed'));
+        };
+
+        const request: WorkerTaskRequest<TTask> = { id: taskIndex, task: tasks[taskIndex] };
+        worker.postMessage(request);
+      };
+
+      if (signal?.aborted) {
+        settle(createAbortError());
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      if (tasks.length === 0) {
+        settle();
+        return;
+      }
+
+      const workersNeeded = Math.min(this.size, tasks.length);
+      for (let i = 0; i < workersNeeded; i++) {
+        dispatch(this.acquire());
+      }
+    });
+  }
+
+  // Terminate idle workers (busy ones are terminated when their run settles)
+  dispose(): void {
+    this.idleWorkers.forEach(worker => worker.terminate());
+    this.idleWorkers = [];
+  }
+
+  private acquire(): Worker {
+    return this.idleWorkers.pop() ?? this.createWorker();
+  }
+
+  private release(worker: Worker): void {
+    worker.onmessage = null;
+    worker.onerror = null;
+    if (this.idleWorkers.length < this.size) {
+      this.idleWorkers.push(worker);
+    } else {
+      worker.terminate();
+    }
+  }
+
+  // Fallback for environments without Web Workers; yields between tasks so cancellation still works
+  private async runInline(tasks: TTask[], { onProgress, signal }: WorkerPoolRunOptions): Promise<TResult[]> {
+    const results: TResult[] = [];
+    let completedBefore = 0;
+
+    for (const task of tasks) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      if (signal?.aborted) throw createAbortError();
+
+      let taskCompleted = 0;
+      results.push(this.executeInline(task, (completed) => {
+        taskCompleted = completed;
+        onProgress?.(completedBefore + completed);
+      }));
+      completedBefore += taskCompleted;
+    }
+
+    return results;
+  }
+}
@@ -1,71 +1,19 @@
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Target, Code, TrendingUp } from 'lucide-react';
+import { CodeStrategyEditor } from '@/components/CodeStrategyEditor';
 
 const StrategyBuilderPage = () => {
   return (
     <div className="space-y-6">
-      <div className="text-center py-12">
-        <h1 className="text-3xl font-bold mb-4">Strategy Builder</h1>
-        <p className="text-muted-foreground mb-8">Visual strategy creation and algorithmic trading system design</p>
+      <div>
+        <h1 className="text-3xl font-bold">Strategy Builder</h1>
+        <p className="text-muted-foreground">
+          Write trading strategies in code and backtest them like the built-in strategies. Rule-based strategies
+          are built in the Backtest page's Strategy Builder tab.
+        </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Target className="h-5 w-5" />
-              Strategies
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold text-primary">23</div>
-            <p className="text-sm text-muted-foreground">Built strategies</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Code className="h-5 w-5" />
-              Components
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold">156</div>
-            <p className="text-sm text-muted-foreground">Available blocks</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <TrendingUp className="h-5 w-5" />
-              Success Rate
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold text-success">81.2%</div>
-            <p className="text-sm text-muted-foreground">Profitable strategies</p>
-          </CardContent>
-        </Card>
-      </div>
-
-      <Card>
-        <CardHeader>
-          <CardTitle>Visual Strategy Builder - Coming Soon</CardTitle>
-          <CardDescription>
-            Drag-and-drop strategy creation, code generation, and deployment platform
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-12">
-            <Target className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
-            <p className="text-muted-foreground">Visual strategy builder is under development</p>
-          </div>
-        </CardContent>
-      </Card>
+      <CodeStrategyEditor />
     </div>
   );
 };
 
-export default StrategyBuilderPage;
\ No newline at end of file
+export default StrategyBuilderPage;
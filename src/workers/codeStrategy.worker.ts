@@ -0,0 +1,50 @@
+// Worker entry point: runs one user-code strategy over a price history, then is terminated by the page
+import { CodeStrategyRequest, CodeStrategyResponse, compileStrategyCode, runStrategyCode } from '@/lib/codeStrategyRuntime';
+
+type Scope = Record<string, unknown> & {
+  postMessage: (message: CodeStrategyResponse) => void;
+  onmessage: ((event: MessageEvent<CodeStrategyRequest>) => void) | null;
+};
+
+const scope = self as unknown as Scope;
+const post = scope.postMessage.bind(scope);
+
+// Network, storage and code-loading globals, removed from the scope and its prototypes. Timers can
+// evaluate strings and fonts can be loaded from URLs.
+const BLOCKED_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB', 'caches',
+  'Worker', 'SharedWorker', 'BroadcastChannel', 'postMessage', 'eval', 'navigator', 'location', 'setTimeout',
+  'setInterval', 'FontFace', 'fonts'
+];
+
+// Called after the user's code is compiled and before any of it runs: with the function constructors gone,
+// the code cannot reach the global scope or evaluate new code to get the blocked globals back
+const lockDown = () => {
+  for (let target: object | null = scope; target && target !== Object.prototype; target = Object.getPrototypeOf(target)) {
+    for (const name of BLOCKED_GLOBALS) {
+      if (Object.prototype.hasOwnProperty.call(target, name) && !Reflect.deleteProperty(target, name)) {
+        throw new Error(`Could not isolate strategy code: ${name} cannot be removed`);
+      }
+    }
+  }
+  const constructors = [
+    function () {},
+    async function () {},
+    function* () {},
+    async function* () {}
+  ];
+  for (const fn of constructors) {
+    Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined });
+  }
+};
+
+scope.onmessage = (event) => {
+  scope.onmessage = null;
+  try {
+    const load = compileStrategyCode(event.data.code);
+    lockDown();
+    post({ type: 'result', result: runStrategyCode(load(), event.data) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown strategy error' });
+  }
+};
@@ -0,0 +1,12 @@
+// Worker entry point: runs simulation chunks dispatched by the simulation pool
+import { handleWorkerTask, WorkerTaskRequest, WorkerTaskResponse } from '@/lib/workerPool';
+import { executeSimulationTask, SimulationTask, SimulationTaskResult } from '@/lib/simulationTasks';
+
+const scope = self as unknown as {
+  postMessage: (message: WorkerTaskResponse<SimulationTaskResult>) => void;
+  onmessage: ((event: MessageEvent<WorkerTaskRequest<SimulationTask>>) => void) | null;
+};
+
+scope.onmessage = (event) => {
+  handleWorkerTask(scope, event.data, executeSimulationTask);
+};
@@ -12,7 +12,7 @@ serve(async (req) => {
   }
 
   try {
-    const { type, symbols } = await req.json()
+    const { type, symbols, symbol, startDate, endDate } = await req.json()
     
     if (type === 'quote') {
       // Yahoo Finance API endpoint for quotes
@@ -81,6 +81,97 @@ serve(async (req) => {
       )
     }
     
+    if (type === 'history') {
+      // Daily OHLCV bars between startDate and endDate (ISO dates, inclusive), as traded, with
+      // dividends and split ratios on their ex-dates
+      if (!symbol || !startDate || !endDate) {
+        throw new Error('History requests require symbol, startDate and endDate')
+      }
+      const period1 = Math.floor(Date.parse(startDate) / 1000)
+      const period2 = Math.floor(Date.parse(endDate) / 1000) + 86400
+      if (Number.isNaN(period1) || Number.isNaN(period2) || period2 <= period1) {
+        throw new Error('Invalid history date range')
+      }
+
+      // Yahoo adjusts every bar for all splits up to today, so fetch through today to see them all
+      const now = Math.floor(Date.now() / 1000)
+      const response = await fetch(
+        `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?interval=1d&period1=${period1}&period2=${Math.max(period2, now)}&includePrePost=false&events=div%2Csplit`
+      )
+      
+      if (!response.ok) {
+        throw new Error(`Failed to fetch history for ${symbol} from Yahoo Finance`)
+      }
+      
+      const data = await response.json()
+      const result = data.chart?.result?.[0]
+      if (!result || !result.timestamp) {
+        throw new Error(`No price history for ${symbol}`)
+      }
+      
+      const quote = result.indicators.quote[0]
+      const adjclose = result.indicators.adjclose?.[0]?.adjclose
+      const utcOffset = result.meta?.gmtoffset || 0
+      const toDate = (timestamp: number) => new Date((timestamp + utcOffset) * 1000).toISOString().split('T')[0]
+
+      const dividendEvents: Record<string, { date: number; amount: number }> = result.events?.dividends ?? {}
+      const splitEvents: Record<string, { date: number; numerator: number; denominator: number }> = result.events?.splits ?? {}
+      const dividends = new Map<string, number>()
+      Object.values(dividendEvents).forEach(event => {
+        dividends.set(toDate(event.date), (dividends.get(toDate(event.date)) ?? 0) + event.amount)
+      })
+      const splits = new Map<string, number>()
+      Object.values(splitEvents).forEach(event => {
+        if (event.numerator > 0 && event.denominator > 0) {
+          splits.set(toDate(event.date), (splits.get(toDate(event.date)) ?? 1) * event.numerator / event.denominator)
+        }
+      })
+      
+      // Skip bars Yahoo reports with missing values (halts, holidays in partial data)
+      const bars = result.timestamp
+        .map((timestamp: number, i: number) => ({
+          date: toDate(timestamp),
+          open: quote.open[i],
+          high: quote.high[i],
+          low: quote.low[i],
+          close: quote.close[i],
+          volume: quote.volume[i] || 0,
+          adjustedClose: adjclose?.[i] ?? quote.close[i]
+        }))
+        .filter((bar: Record<string, unknown>) => [bar.open, bar.high, bar.low, bar.close].every(value => typeof value === 'number'))
+
+      // Undo the split adjustment walking back from today: bars before a split traded at `ratio` times
+      // the adjusted price. Dividend amounts are split-adjusted the same way.
+      let ratio = 1
+      const history = []
+      for (let i = bars.length - 1; i >= 0; i--) {
+        const bar = bars[i]
+        const dividend = dividends.get(bar.date)
+        const split = splits.get(bar.date)
+        if (bar.date <= endDate) {
+          history.push({
+            ...bar,
+            open: bar.open * ratio,
+            high: bar.high * ratio,
+            low: bar.low * ratio,
+            close: bar.close * ratio,
+            volume: Math.round(bar.volume / ratio),
+            ...(dividend ? { dividend: dividend * ratio } : {}),
+            ...(split && split !== 1 ? { splitRatio: split } : {})
+          })
+        }
+        if (split) ratio *= split
+      }
+      history.reverse()
+      
+      return new Response(
+        JSON.stringify({ data: history }),
+        { 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        },
+      )
+    }
+    
     throw new Error('Invalid request type')
     
   } catch (error) {